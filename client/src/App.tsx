@@ -25,30 +25,34 @@ import PurchaseOrders from "@/pages/purchase-orders";
 import SimpleQuotes from "@/pages/simple-quotes";
 import Settings from "@/pages/settings";
 import Leads from "@/pages/leads";
+import AuditLog from "@/pages/audit-log";
+import PortalPage from "@/pages/portal";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={LandingPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/portal" component={PortalPage} />
       <ProtectedRoute path="/dashboard" component={Dashboard} />
-      <ProtectedRoute path="/dashboard/clients" component={Clients} />
-      <ProtectedRoute path="/dashboard/quotes" component={Quotes} />
-      <ProtectedRoute path="/dashboard/simple-quotes" component={SimpleQuotes} />
-      <ProtectedRoute path="/dashboard/service-orders" component={ServiceOrders} />
-      <ProtectedRoute path="/dashboard/projects/:id" component={Projects} />
-      <ProtectedRoute path="/dashboard/projects" component={Projects} />
-      <ProtectedRoute path="/dashboard/calendar" component={Calendar} />
-      <ProtectedRoute path="/dashboard/personnel" component={Personnel} />
-      <ProtectedRoute path="/dashboard/subcontractors" component={Subcontractors} />
-      <ProtectedRoute path="/dashboard/suppliers" component={Suppliers} />
-      <ProtectedRoute path="/dashboard/purchase-orders" component={PurchaseOrders} />
-      <ProtectedRoute path="/dashboard/invoices" component={Invoices} />
-      <ProtectedRoute path="/dashboard/payments" component={Payments} />
-      <ProtectedRoute path="/dashboard/financial-reports" component={FinancialReports} />
-      <ProtectedRoute path="/dashboard/reports" component={Reports} />
+      <ProtectedRoute path="/dashboard/clients" component={Clients} resource="clients" />
+      <ProtectedRoute path="/dashboard/quotes" component={Quotes} resource="quotes" />
+      <ProtectedRoute path="/dashboard/simple-quotes" component={SimpleQuotes} resource="quotes" />
+      <ProtectedRoute path="/dashboard/service-orders" component={ServiceOrders} resource="service_orders" />
+      <ProtectedRoute path="/dashboard/projects/:id" component={Projects} resource="projects" />
+      <ProtectedRoute path="/dashboard/projects" component={Projects} resource="projects" />
+      <ProtectedRoute path="/dashboard/calendar" component={Calendar} resource="calendar" />
+      <ProtectedRoute path="/dashboard/personnel" component={Personnel} resource="staff" />
+      <ProtectedRoute path="/dashboard/subcontractors" component={Subcontractors} resource="subcontractors" />
+      <ProtectedRoute path="/dashboard/suppliers" component={Suppliers} resource="suppliers" />
+      <ProtectedRoute path="/dashboard/purchase-orders" component={PurchaseOrders} resource="purchase_orders" />
+      <ProtectedRoute path="/dashboard/invoices" component={Invoices} resource="invoices" />
+      <ProtectedRoute path="/dashboard/payments" component={Payments} resource="payments" />
+      <ProtectedRoute path="/dashboard/financial-reports" component={FinancialReports} resource="financial_reports" />
+      <ProtectedRoute path="/dashboard/reports" component={Reports} resource="reports" />
+      <ProtectedRoute path="/dashboard/audit-log" component={AuditLog} resource="audit_log" />
       <ProtectedRoute path="/dashboard/settings" component={Settings} />
-      <ProtectedRoute path="/dashboard/leads" component={Leads} />
+      <ProtectedRoute path="/dashboard/leads" component={Leads} resource="leads" />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,260 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Monitor, Smartphone, Tablet } from "lucide-react";
+
+export type SessionInfo = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  loggedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
+
+// Good enough to tell "Chrome on Windows" from "Safari on iPad" without a UA parsing library
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: "Unknown device", kind: "desktop" as const };
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+
+  const os =
+    /iPad/.test(userAgent) ? "iPad" :
+    /iPhone/.test(userAgent) ? "iPhone" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  const kind =
+    /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent)) ? "tablet" as const :
+    /Mobile|iPhone/.test(userAgent) ? "phone" as const :
+    "desktop" as const;
+
+  return { label: `${browser} on ${os}`, kind };
+}
+
+const DEVICE_ICONS = {
+  desktop: Monitor,
+  phone: Smartphone,
+  tablet: Tablet,
+};
+
+function SessionRow({
+  session,
+  onRevoke,
+  isRevoking,
+}: {
+  session: SessionInfo;
+  onRevoke?: () => void;
+  isRevoking?: boolean;
+}) {
+  const device = describeDevice(session.userAgent);
+  const Icon = DEVICE_ICONS[device.kind];
+  const lastSeen = session.lastSeenAt || session.loggedInAt;
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+      <div className="flex items-center gap-3">
+        <Icon className="w-5 h-5 text-muted-foreground" />
+        <div>
+          <div className="flex items-center gap-2 font-medium">
+            {device.label}
+            {session.current && <Badge variant="secondary">This device</Badge>}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {session.ip || "Unknown IP"}
+            {lastSeen && ` · Last active ${formatDistanceToNow(new Date(lastSeen), { addSuffix: true })}`}
+          </div>
+        </div>
+      </div>
+      {onRevoke && (
+        <Button variant="outline" size="sm" disabled={isRevoking} onClick={onRevoke}>
+          Sign out
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Settings > Security: the logged-in user's own sessions
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/user/sessions/${id}`);
+      return await res.json();
+    },
+    onSuccess: (data: { current: boolean }) => {
+      if (data.current) {
+        queryClient.setQueryData(["/api/user"], null);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Session signed out",
+      });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/sessions");
+      return await res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Other sessions signed out",
+        description: `${data.revoked} session(s) signed out`,
+      });
+    },
+    onError,
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <h4 className="font-medium">Active Sessions</h4>
+          <p className="text-sm text-muted-foreground">
+            Devices where you are logged in. Sign out any you don't recognise.
+          </p>
+        </div>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={revokeOthersMutation.isPending}
+            onClick={() => revokeOthersMutation.mutate()}
+          >
+            Sign out all other devices
+          </Button>
+        )}
+      </div>
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions?.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isRevoking={revokeSessionMutation.isPending}
+              onRevoke={() => revokeSessionMutation.mutate(session.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Settings > Users: an admin's view of another user's sessions
+export function UserSessionsDialog({
+  user,
+  onClose,
+}: {
+  user: { id: number; name: string } | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: [`/api/users/${user?.id}/sessions`],
+    enabled: !!user,
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/users/${user!.id}/sessions`);
+      return await res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user?.id}/sessions`] });
+      toast({
+        title: "Sessions signed out",
+        description: `${user?.name} was signed out of ${data.revoked} session(s)`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sessions for {user?.name}</DialogTitle>
+          <DialogDescription>Devices where this user is currently logged in</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : sessions && sessions.length > 0 ? (
+          <div className="space-y-2">
+            {sessions.map((session) => (
+              <SessionRow key={session.id} session={session} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No active sessions</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!sessions?.length || revokeAllMutation.isPending}
+            onClick={() => revokeAllMutation.mutate()}
+          >
+            {revokeAllMutation.isPending ? "Signing out..." : "Sign out everywhere"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
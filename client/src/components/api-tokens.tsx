@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ApiToken } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+
+type ApiTokenInfo = Omit<ApiToken, "tokenHash">;
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function isExpired(token: ApiTokenInfo) {
+  return !!token.expiresAt && new Date(token.expiresAt).getTime() < Date.now();
+}
+
+// Settings > Security: personal API tokens for scripts and integrations
+export function ApiTokens() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [readOnly, setReadOnly] = useState(true);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/user/tokens"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createTokenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/tokens", {
+        name,
+        readOnly,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return await res.json();
+    },
+    onSuccess: (data: ApiTokenInfo & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+      setCreatedToken(data.token);
+    },
+    onError,
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/user/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+      toast({
+        title: "API token revoked",
+      });
+    },
+    onError,
+  });
+
+  const closeCreateDialog = () => {
+    setIsCreateOpen(false);
+    setCreatedToken(null);
+    setName("");
+    setReadOnly(true);
+    setExpiry("90");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              API Tokens
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-2">
+              Let scripts and integrations call the API as you. Send the token in an{" "}
+              <code className="text-xs">Authorization: Bearer</code> header.
+            </p>
+          </div>
+          <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : tokens && tokens.length > 0 ? (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2 font-medium">
+                    {token.name}
+                    <Badge variant="outline">{token.readOnly ? "Read-only" : "Full access"}</Badge>
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    <span className="font-mono">{token.tokenPrefix}…</span>
+                    {" · "}
+                    {token.expiresAt
+                      ? `${isExpired(token) ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                      : "Never expires"}
+                    {" · "}
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : "Never used"}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revokeTokenMutation.isPending}
+                  onClick={() => revokeTokenMutation.mutate(token.id)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No API tokens</p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? "Token Created" : "New API Token"}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? "Copy this token now. It will not be shown again."
+                : "The token can do whatever your account can, limited to reading data if read-only."}
+            </DialogDescription>
+          </DialogHeader>
+          {createdToken ? (
+            <div className="space-y-4">
+              <div className="rounded-md bg-muted p-4 font-mono text-sm break-all">{createdToken}</div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigator.clipboard.writeText(createdToken)}
+                >
+                  Copy token
+                </Button>
+                <Button type="button" onClick={closeCreateDialog}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createTokenMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Bookkeeping spreadsheet"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="api-token-read-only">Read-only</Label>
+                  <p className="text-xs text-muted-foreground">Only allow GET requests</p>
+                </div>
+                <Switch id="api-token-read-only" checked={readOnly} onCheckedChange={setReadOnly} />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={closeCreateDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!name.trim() || createTokenMutation.isPending}>
+                  {createTokenMutation.isPending ? "Creating..." : "Create Token"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
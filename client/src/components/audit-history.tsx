@@ -0,0 +1,146 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AuditLogEntry, AuditEntityType } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+
+type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: "User",
+  client: "Client",
+  project: "Project",
+  quote: "Quote",
+  service_order: "Service Order",
+  staff: "Staff",
+  subcontractor: "Subcontractor",
+  invoice: "Invoice",
+  supplier: "Supplier",
+  payment: "Payment",
+  purchase_order: "Purchase Order",
+  purchase_order_item: "Purchase Order Item",
+  setting: "Setting",
+  lead: "Lead",
+  company: "Company",
+  client_contact: "Client Contact",
+  client_property: "Client Property",
+  client_segment: "Client Segment",
+  communication: "Communication",
+  estimate_visit: "Estimate Visit",
+  project_task: "Project Task",
+  change_order: "Change Order",
+  punch_list_item: "Punch List Item",
+};
+
+const ACTION_STYLES: Record<string, { label: string; className: string }> = {
+  create: { label: "Created", className: "bg-green-100 text-green-800" },
+  update: { label: "Updated", className: "bg-blue-100 text-blue-800" },
+  delete: { label: "Deleted", className: "bg-red-100 text-red-800" },
+  merge: { label: "Merged", className: "bg-purple-100 text-purple-800" },
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// "totalAmount" -> "Total Amount"
+function fieldLabel(field: string) {
+  return field
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/^./, (char) => char.toUpperCase());
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return format(new Date(value), "MMM d, yyyy h:mm a");
+  }
+  if (typeof value === "object") {
+    const json = JSON.stringify(value);
+    return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+  }
+  return String(value);
+}
+
+export function AuditActionBadge({ action }: { action: string }) {
+  const style = ACTION_STYLES[action] || { label: action, className: "" };
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+}
+
+// Field-by-field list of what one audit entry changed
+export function AuditChangeList({ entry }: { entry: AuditLogEntry }) {
+  const changes = entry.changes as AuditChanges;
+  const fields = Object.keys(changes).filter((field) => field !== "id" && field !== "createdAt");
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {fields.map((field) => (
+        <div key={field} className="grid grid-cols-[140px_1fr] gap-2">
+          <span className="text-muted-foreground">{fieldLabel(field)}</span>
+          <span className="break-words">
+            {entry.action === "create" ? (
+              formatValue(changes[field].to)
+            ) : entry.action === "delete" ? (
+              <span className="line-through">{formatValue(changes[field].from)}</span>
+            ) : (
+              <>
+                <span className="line-through text-muted-foreground">{formatValue(changes[field].from)}</span>
+                {" → "}
+                <span className="font-medium">{formatValue(changes[field].to)}</span>
+              </>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// History tab content for a single record
+export function AuditHistory({ entityType, entityId }: { entityType: AuditEntityType; entityId: number }) {
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit-logs?entityType=${entityType}&entityId=${entityId}`],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!entries || entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Changes Recorded</h3>
+        <p className="text-gray-500">Changes to this record will appear here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.map((entry) => (
+        <div key={entry.id} className="rounded-md border p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <AuditActionBadge action={entry.action} />
+            <span className="font-medium">{entry.userName || "System"}</span>
+            <span className="text-sm text-muted-foreground">
+              {format(new Date(entry.createdAt), "MMM d, yyyy 'at' h:mm a")}
+            </span>
+          </div>
+          <AuditChangeList entry={entry} />
+        </div>
+      ))}
+    </div>
+  );
+}
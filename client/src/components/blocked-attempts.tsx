@@ -0,0 +1,160 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { BlockedAttempt } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+
+type Lockout = {
+  limiter: string;
+  key: string;
+  lockedUntil: string;
+};
+
+const LIMITER_LABELS: Record<string, string> = {
+  login_ip: "Login (IP)",
+  login_username: "Login (username)",
+  lead_ip: "Contact form (IP)",
+  portal_link_ip: "Client portal link (IP)",
+  password_reset_ip: "Password reset (IP)",
+  password_reset_identifier: "Password reset (account)",
+};
+
+const KIND_LABELS: Record<string, string> = {
+  login: "Login",
+  lead: "Contact form",
+  portal: "Client portal",
+  password_reset: "Password reset",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  ip_locked: "IP locked out",
+  username_locked: "Username locked out",
+  rate_limited: "Rate limited",
+  honeypot: "Honeypot filled",
+  too_fast: "Submitted too fast",
+};
+
+// Admin view of current lockouts and recently refused logins / contact-form posts
+export function BlockedAttempts() {
+  const { toast } = useToast();
+
+  const { data: lockouts } = useQuery<Lockout[]>({
+    queryKey: ["/api/security/lockouts"],
+  });
+
+  const { data: attempts, isLoading } = useQuery<BlockedAttempt[]>({
+    queryKey: ["/api/security/blocked-attempts"],
+  });
+
+  const clearLockoutMutation = useMutation({
+    mutationFn: async (lockout: Lockout) => {
+      return apiRequest("POST", "/api/security/lockouts/clear", {
+        limiter: lockout.limiter,
+        key: lockout.key,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/security/lockouts"] });
+      toast({
+        title: "Lockout cleared",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Blocked Attempts
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Logins locked out after repeated failures and contact-form submissions refused as spam
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {lockouts && lockouts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Active Lockouts</h4>
+            {lockouts.map((lockout) => (
+              <div
+                key={`${lockout.limiter}-${lockout.key}`}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div>
+                  <div className="font-medium">{lockout.key}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {LIMITER_LABELS[lockout.limiter] || lockout.limiter} · until{" "}
+                    {format(new Date(lockout.lockedUntil), "h:mm a")}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={clearLockoutMutation.isPending}
+                  onClick={() => clearLockoutMutation.mutate(lockout)}
+                >
+                  Unlock
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : attempts && attempts.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Username / Email</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attempts.map((attempt) => (
+                <TableRow key={attempt.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(attempt.createdAt), "MMM d, yyyy h:mm a")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{KIND_LABELS[attempt.kind] || attempt.kind}</Badge>
+                  </TableCell>
+                  <TableCell>{REASON_LABELS[attempt.reason] || attempt.reason}</TableCell>
+                  <TableCell>{attempt.identifier || "-"}</TableCell>
+                  <TableCell className="font-mono text-xs">{attempt.ip || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No blocked attempts</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
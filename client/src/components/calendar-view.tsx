@@ -10,7 +10,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
-import { Project, ServiceOrder, Staff, Subcontractor } from '@shared/schema';
+import { EstimateVisit, Project, ServiceOrder, Staff, Subcontractor } from '@shared/schema';
 import {
   Dialog,
   DialogContent,
@@ -38,7 +38,7 @@ interface CalendarEvent {
   allDay?: boolean;
   color?: string;
   extendedProps?: {
-    type: 'project' | 'serviceOrder' | 'googleEvent';
+    type: 'project' | 'serviceOrder' | 'estimateVisit' | 'googleEvent';
     projectId?: number;
     serviceOrderId?: number;
     googleEventId?: string;
@@ -52,6 +52,7 @@ interface CalendarEvent {
 interface CalendarViewProps {
   projects?: Project[];
   serviceOrders?: ServiceOrder[];
+  estimateVisits?: EstimateVisit[];
   staff?: Staff[];
   subcontractors?: Subcontractor[];
   isLoadingProjects?: boolean;
@@ -64,6 +65,7 @@ interface CalendarViewProps {
 export function CalendarView({
   projects = [],
   serviceOrders = [],
+  estimateVisits = [],
   staff = [],
   subcontractors = [],
   isLoadingProjects = false,
@@ -163,8 +165,29 @@ export function CalendarView({
       };
     });
 
-    setEvents([...projectEvents, ...serviceOrderEvents]);
-  }, [projects, serviceOrders]);
+    const estimateVisitEvents: CalendarEvent[] = estimateVisits
+      .filter(visit => visit.status !== 'cancelled')
+      .map(visit => {
+        const start = new Date(visit.scheduledAt);
+        const project = projects.find(p => p.id === visit.projectId);
+        return {
+          id: `estimate-${visit.id}`,
+          title: `Estimate: ${project ? project.title : `Visit #${visit.id}`}`,
+          start,
+          end: new Date(start.getTime() + visit.durationMinutes * 60 * 1000),
+          allDay: false,
+          color: '#e91e63', // Pink for estimate visits
+          extendedProps: {
+            type: 'estimateVisit',
+            projectId: visit.projectId,
+            description: visit.notes || undefined,
+            location: visit.address,
+          },
+        };
+      });
+
+    setEvents([...projectEvents, ...serviceOrderEvents, ...estimateVisitEvents]);
+  }, [projects, serviceOrders, estimateVisits]);
 
   // Filter events based on selected staff and subcontractors
   useEffect(() => {
@@ -546,6 +569,8 @@ export function CalendarView({
                 ? 'Project' 
                 : selectedEvent?.extendedProps?.type === 'serviceOrder'
                 ? 'Service Order'
+                : selectedEvent?.extendedProps?.type === 'estimateVisit'
+                ? 'Estimate Visit'
                 : 'Google Calendar Event'}
             </DialogDescription>
           </DialogHeader>
@@ -619,7 +644,7 @@ export function CalendarView({
             <Button variant="outline" onClick={() => setShowEventDetails(false)}>
               Close
             </Button>
-            {selectedEvent?.extendedProps?.type === 'project' && selectedEvent?.extendedProps?.projectId && (
+            {(selectedEvent?.extendedProps?.type === 'project' || selectedEvent?.extendedProps?.type === 'estimateVisit') && selectedEvent?.extendedProps?.projectId && (
               <Button 
                 onClick={() => {
                   setShowEventDetails(false);
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChangeOrder, Client, Project } from "@shared/schema";
+import {
+  CHANGE_ORDER_STATUS_LABELS,
+  changeOrderDelta,
+  changeOrderReference,
+  type ChangeOrderItem,
+  type ChangeOrderStatus,
+} from "@shared/change-orders";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadChangeOrderPdf } from "@/lib/change-order-pdf";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SignaturePad } from "@/components/signature-pad";
+import { Check, FileDiff, FileDown, Pencil, Plus, Trash2, X } from "lucide-react";
+
+const STATUS_CLASSES: Record<ChangeOrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-gray-100 text-gray-800",
+};
+
+const money = (value: number) =>
+  `${value < 0 ? "-" : "+"}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const emptyItem = (): ChangeOrderItem => ({ description: "", quantity: 1, unitPrice: 0 });
+
+function ItemRows({
+  label,
+  items,
+  onChange,
+}: {
+  label: string;
+  items: ChangeOrderItem[];
+  onChange: (items: ChangeOrderItem[]) => void;
+}) {
+  const setItem = (index: number, changes: Partial<ChangeOrderItem>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={item.description}
+            placeholder="Description"
+            onChange={(e) => setItem(index, { description: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            className="w-20"
+            value={item.quantity}
+            onChange={(e) => setItem(index, { quantity: Number(e.target.value) })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step={0.01}
+            className="w-28"
+            value={item.unitPrice}
+            onChange={(e) => setItem(index, { unitPrice: Number(e.target.value) })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-red-600"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...items, emptyItem()])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add item
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Change orders of a project: work added or removed after the quote, signed
+ * off by the client. Approved ones change the contract value and go on the
+ * next invoice.
+ */
+export function ProjectChangeOrders({ project }: { project: Project }) {
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const { can } = useAuth();
+  const canWrite = can("quotes", "write");
+  const [editing, setEditing] = useState<ChangeOrder | "new" | null>(null);
+  const [title, setTitle] = useState("");
+  const [reason, setReason] = useState("");
+  const [addedItems, setAddedItems] = useState<ChangeOrderItem[]>([]);
+  const [removedItems, setRemovedItems] = useState<ChangeOrderItem[]>([]);
+  const [approving, setApproving] = useState<ChangeOrder | null>(null);
+  const [signedBy, setSignedBy] = useState("");
+
+  const changeOrdersKey = `/api/projects/${project.id}/change-orders`;
+  const { data: changeOrders = [], isLoading } = useQuery<ChangeOrder[]>({ queryKey: [changeOrdersKey] });
+  const { data: client } = useQuery<Client>({ queryKey: [`/api/clients/${project.clientId}`] });
+
+  // Approval changes the project's contract value
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [changeOrdersKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const openEditor = (changeOrder: ChangeOrder | "new") => {
+    const existing = changeOrder === "new" ? undefined : changeOrder;
+    setTitle(existing?.title ?? "");
+    setReason(existing?.reason ?? "");
+    setAddedItems(existing?.addedItems ?? [emptyItem()]);
+    setRemovedItems(existing?.removedItems ?? []);
+    setEditing(changeOrder);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        title,
+        reason,
+        addedItems: addedItems.filter((item) => item.description.trim()),
+        removedItems: removedItems.filter((item) => item.description.trim()),
+      };
+      return editing === "new" || !editing
+        ? apiRequest("POST", changeOrdersKey, data)
+        : apiRequest("PUT", `${changeOrdersKey}/${editing.id}`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditing(null);
+      toast({ title: "Change order saved" });
+    },
+    onError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async ({ changeOrder, signatureData }: { changeOrder: ChangeOrder; signatureData: string }) =>
+      apiRequest("POST", `${changeOrdersKey}/${changeOrder.id}/approve`, { signedBy, signatureData }),
+    onSuccess: () => {
+      invalidate();
+      setApproving(null);
+      setSignedBy("");
+      toast({ title: "Change order approved", description: "The contract value has been updated" });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (changeOrder: ChangeOrder) => apiRequest("POST", `${changeOrdersKey}/${changeOrder.id}/reject`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (changeOrder: ChangeOrder) => apiRequest("DELETE", `${changeOrdersKey}/${changeOrder.id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const approvedTotal = changeOrders
+    .filter((changeOrder) => changeOrder.status === "approved")
+    .reduce((sum, changeOrder) => sum + parseFloat(changeOrder.priceDelta), 0);
+  const draftDelta = changeOrderDelta(addedItems, removedItems);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-500 flex items-center">
+          <FileDiff className="h-4 w-4 mr-1" />
+          Change Orders
+        </h4>
+        {canWrite && (
+          <Button variant="outline" size="sm" onClick={() => openEditor("new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            New change order
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading change orders...</p>
+      ) : changeOrders.length === 0 ? (
+        <p className="text-sm text-gray-500">No change orders for this project.</p>
+      ) : (
+        <>
+          <ul className="divide-y rounded-md border">
+            {changeOrders.map((changeOrder) => {
+              const status = changeOrder.status as ChangeOrderStatus;
+              return (
+                <li key={changeOrder.id} className="flex items-center gap-2 p-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {changeOrderReference(changeOrder)} · {changeOrder.title}
+                    </p>
+                    {changeOrder.signedBy && (
+                      <p className="text-xs text-gray-500">Signed by {changeOrder.signedBy}</p>
+                    )}
+                    {changeOrder.invoiceId && <p className="text-xs text-gray-500">Invoiced</p>}
+                  </div>
+                  <span className="font-medium">{money(parseFloat(changeOrder.priceDelta))}</span>
+                  <Badge className={STATUS_CLASSES[status]}>{CHANGE_ORDER_STATUS_LABELS[status]}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Download PDF"
+                    onClick={() => downloadChangeOrderPdf(changeOrder, project, client, company)}
+                  >
+                    <FileDown className="h-4 w-4" />
+                  </Button>
+                  {canWrite && status === "pending" && (
+                    <>
+                      <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(changeOrder)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-green-600"
+                        title="Client approval"
+                        onClick={() => setApproving(changeOrder)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Rejected by the client"
+                        onClick={() => rejectMutation.mutate(changeOrder)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  {canWrite && status !== "approved" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-600"
+                      title="Delete"
+                      onClick={() => deleteMutation.mutate(changeOrder)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-gray-500 text-right">Approved changes to the contract: {money(approvedTotal)}</p>
+        </>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing && editing !== "new" ? `Edit ${changeOrderReference(editing)}` : "New Change Order"}
+            </DialogTitle>
+            <DialogDescription>Work added to or removed from "{project.title}" after its quote</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="change-order-title">Title</Label>
+              <Input id="change-order-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="change-order-reason">Reason</Label>
+              <Textarea id="change-order-reason" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <ItemRows label="Added work (description, quantity, unit price)" items={addedItems} onChange={setAddedItems} />
+            <ItemRows label="Removed work" items={removedItems} onChange={setRemovedItems} />
+            <p className="text-sm font-medium text-right">Change to contract value: {money(draftDelta)}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!title.trim() || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={approving !== null} onOpenChange={(open) => !open && setApproving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Client Approval</DialogTitle>
+            <DialogDescription>
+              {approving &&
+                `${changeOrderReference(approving)} changes the contract value by ${money(parseFloat(approving.priceDelta))}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="change-order-signer">Signed by</Label>
+              <Input id="change-order-signer" value={signedBy} onChange={(e) => setSignedBy(e.target.value)} />
+            </div>
+            {signedBy.trim() ? (
+              <SignaturePad
+                onSave={(signatureData) => approving && approveMutation.mutate({ changeOrder: approving, signatureData })}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">Enter the name of the person signing to continue.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Client } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadStatementPdf, type AccountStatement } from "@/lib/statement-pdf";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DollarSign, Download } from "lucide-react";
+
+// Shape of GET /api/clients/:id/lifetime-value
+interface ClientLifetimeValue {
+  totalQuoted: number;
+  totalWon: number;
+  invoiced: number;
+  paid: number;
+  outstanding: number;
+  averageJobSize: number;
+  winRate: number | null;
+  lastJobDate: string | null;
+  quoteCount: number;
+  wonCount: number;
+  jobCount: number;
+}
+
+const money = (value: number) =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Lifetime value of the client and a printable account statement for a date
+ * range.
+ */
+export function ClientAccountCard({ client }: { client: Client }) {
+  const { toast } = useToast();
+  const { company } = useCompany();
+  const [from, setFrom] = useState(() => format(new Date(new Date().getFullYear(), 0, 1), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: value, isLoading } = useQuery<ClientLifetimeValue>({
+    queryKey: [`/api/clients/${client.id}/lifetime-value`],
+    staleTime: 0,
+  });
+
+  const statementMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/clients/${client.id}/statement?${new URLSearchParams({ from, to })}`);
+      return (await res.json()) as AccountStatement;
+    },
+    onSuccess: (statement) => downloadStatementPdf(statement, company),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stats = value
+    ? [
+        { label: "Quoted", value: money(value.totalQuoted), detail: `${value.quoteCount} quotes` },
+        { label: "Won", value: money(value.totalWon), detail: `${value.wonCount} approved` },
+        {
+          label: "Win Rate",
+          value: value.winRate === null ? "—" : `${Math.round(value.winRate * 100)}%`,
+          detail: "of decided quotes",
+        },
+        { label: "Invoiced", value: money(value.invoiced), detail: `${value.jobCount} jobs` },
+        { label: "Paid", value: money(value.paid) },
+        { label: "Outstanding", value: money(value.outstanding), highlight: value.outstanding > 0 },
+        { label: "Average Job", value: money(value.averageJobSize) },
+        {
+          label: "Last Job",
+          value: value.lastJobDate ? format(new Date(value.lastJobDate), "MMM dd, yyyy") : "—",
+        },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-4 w-4" />
+          Account
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map((stat) => (
+              <div key={stat.label} className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-sm text-gray-600">{stat.label}</div>
+                <div className={`text-lg font-bold ${stat.highlight ? "text-red-600" : "text-gray-800"}`}>
+                  {stat.value}
+                </div>
+                {stat.detail && <div className="text-xs text-gray-500">{stat.detail}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 border-t pt-4">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">Statement from</Label>
+            <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button
+            variant="outline"
+            disabled={!from || !to || statementMutation.isPending}
+            onClick={() => statementMutation.mutate()}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            {statementMutation.isPending ? "Preparing..." : "Statement PDF"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,461 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ClientContact, ClientProperty, CLIENT_CONTACT_ROLES } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit, Mail, MapPin, Phone, Plus, Star, Trash2 } from "lucide-react";
+
+type ContactRole = typeof CLIENT_CONTACT_ROLES[number];
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  billing: "Billing",
+  site_supervisor: "Site Supervisor",
+  owner: "Owner",
+  property_manager: "Property Manager",
+  other: "Other",
+};
+
+export function getContactRoleLabel(role: string) {
+  return CONTACT_ROLE_LABELS[role as ContactRole] ?? role;
+}
+
+// The clients row mirrors the primary contact and property, so lists refresh too
+function invalidateClient(clientId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/contacts`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/properties`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+}
+
+function useErrorToast() {
+  const { toast } = useToast();
+  return (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+const EMPTY_CONTACT = { name: "", role: "other" as ContactRole, email: "", phone: "", isPrimary: false };
+
+export function ClientContactList({ clientId }: { clientId: number }) {
+  const onError = useErrorToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [values, setValues] = useState(EMPTY_CONTACT);
+
+  const { data: contacts, isLoading } = useQuery<ClientContact[]>({
+    queryKey: [`/api/clients/${clientId}/contacts`],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...values,
+        email: values.email || null,
+        phone: values.phone || null,
+      };
+      if (editingId) {
+        return apiRequest("PUT", `/api/clients/${clientId}/contacts/${editingId}`, payload);
+      }
+      return apiRequest("POST", `/api/clients/${clientId}/contacts`, payload);
+    },
+    onSuccess: () => {
+      invalidateClient(clientId);
+      setIsFormOpen(false);
+    },
+    onError,
+  });
+
+  const makePrimaryMutation = useMutation({
+    mutationFn: async (contact: ClientContact) => {
+      return apiRequest("PUT", `/api/clients/${clientId}/contacts/${contact.id}`, { isPrimary: true });
+    },
+    onSuccess: () => invalidateClient(clientId),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (contact: ClientContact) => {
+      return apiRequest("DELETE", `/api/clients/${clientId}/contacts/${contact.id}`);
+    },
+    onSuccess: () => invalidateClient(clientId),
+    onError,
+  });
+
+  const openForm = (contact?: ClientContact) => {
+    setEditingId(contact?.id ?? null);
+    setValues(
+      contact
+        ? {
+            name: contact.name,
+            role: CLIENT_CONTACT_ROLES.find((role) => role === contact.role) ?? "other",
+            email: contact.email || "",
+            phone: contact.phone || "",
+            isPrimary: contact.isPrimary,
+          }
+        : EMPTY_CONTACT
+    );
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Contacts</h4>
+        <Button type="button" size="sm" variant="outline" onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Contact
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : contacts && contacts.length > 0 ? (
+        <div className="space-y-2">
+          {contacts.map((contact) => (
+            <div key={contact.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2 font-medium">
+                  {contact.name}
+                  <Badge variant="outline">{getContactRoleLabel(contact.role)}</Badge>
+                  {contact.isPrimary && <Badge>Primary</Badge>}
+                </div>
+                {contact.email && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Mail className="h-3 w-3" />
+                    {contact.email}
+                  </div>
+                )}
+                {contact.phone && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Phone className="h-3 w-3" />
+                    {contact.phone}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {!contact.isPrimary && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={makePrimaryMutation.isPending}
+                    onClick={() => makePrimaryMutation.mutate(contact)}
+                    aria-label="Make primary contact"
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button type="button" variant="ghost" size="icon" onClick={() => openForm(contact)}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                {!contact.isPrimary && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Delete contact ${contact.name}?`)) {
+                        deleteMutation.mutate(contact);
+                      }
+                    }}
+                    aria-label="Delete contact"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">No contacts</p>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Contact" : "Add Contact"}</DialogTitle>
+            <DialogDescription>Invoices are sent to the billing contact, or to the primary contact if there is none.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Name *</Label>
+              <Input
+                id="contact-name"
+                value={values.name}
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={values.role} onValueChange={(role) => setValues({ ...values, role: role as ContactRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLIENT_CONTACT_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {CONTACT_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact-email">Email</Label>
+                <Input
+                  id="contact-email"
+                  type="email"
+                  value={values.email}
+                  onChange={(e) => setValues({ ...values, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-phone">Phone</Label>
+                <Input
+                  id="contact-phone"
+                  value={values.phone}
+                  onChange={(e) => setValues({ ...values, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="contact-primary">Primary contact</Label>
+                <p className="text-xs text-muted-foreground">Shown as the client's email and phone</p>
+              </div>
+              <Switch
+                id="contact-primary"
+                checked={values.isPrimary}
+                disabled={!!contacts?.find((contact) => contact.id === editingId)?.isPrimary}
+                onCheckedChange={(isPrimary) => setValues({ ...values, isPrimary })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!values.name.trim() || saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const EMPTY_PROPERTY = { name: "", address: "", isPrimary: false };
+
+export function ClientPropertyList({ clientId }: { clientId: number }) {
+  const onError = useErrorToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [values, setValues] = useState(EMPTY_PROPERTY);
+
+  const { data: properties, isLoading } = useQuery<ClientProperty[]>({
+    queryKey: [`/api/clients/${clientId}/properties`],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { ...values, name: values.name || null };
+      if (editingId) {
+        return apiRequest("PUT", `/api/clients/${clientId}/properties/${editingId}`, payload);
+      }
+      return apiRequest("POST", `/api/clients/${clientId}/properties`, payload);
+    },
+    onSuccess: () => {
+      invalidateClient(clientId);
+      // Projects at an edited property take its new address
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setIsFormOpen(false);
+    },
+    onError,
+  });
+
+  const makePrimaryMutation = useMutation({
+    mutationFn: async (property: ClientProperty) => {
+      return apiRequest("PUT", `/api/clients/${clientId}/properties/${property.id}`, { isPrimary: true });
+    },
+    onSuccess: () => invalidateClient(clientId),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (property: ClientProperty) => {
+      return apiRequest("DELETE", `/api/clients/${clientId}/properties/${property.id}`);
+    },
+    onSuccess: () => invalidateClient(clientId),
+    onError,
+  });
+
+  const openForm = (property?: ClientProperty) => {
+    setEditingId(property?.id ?? null);
+    setValues(
+      property
+        ? { name: property.name || "", address: property.address, isPrimary: property.isPrimary }
+        : EMPTY_PROPERTY
+    );
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Properties</h4>
+        <Button type="button" size="sm" variant="outline" onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Property
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : properties && properties.length > 0 ? (
+        <div className="space-y-2">
+          {properties.map((property) => (
+            <div key={property.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2 font-medium">
+                  {property.name || property.address}
+                  {property.isPrimary && <Badge>Primary</Badge>}
+                </div>
+                {property.name && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    {property.address}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {!property.isPrimary && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={makePrimaryMutation.isPending}
+                    onClick={() => makePrimaryMutation.mutate(property)}
+                    aria-label="Make primary property"
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button type="button" variant="ghost" size="icon" onClick={() => openForm(property)}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                {!property.isPrimary && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Delete property ${property.name || property.address}?`)) {
+                        deleteMutation.mutate(property);
+                      }
+                    }}
+                    aria-label="Delete property"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">No properties</p>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Property" : "Add Property"}</DialogTitle>
+            <DialogDescription>A service address where projects for this client take place.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="property-name">Name</Label>
+              <Input
+                id="property-name"
+                value={values.name}
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+                placeholder="e.g. Main office, Unit 4B"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="property-address">Address *</Label>
+              <Input
+                id="property-address"
+                value={values.address}
+                onChange={(e) => setValues({ ...values, address: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="property-primary">Primary property</Label>
+                <p className="text-xs text-muted-foreground">Shown as the client's address</p>
+              </div>
+              <Switch
+                id="property-primary"
+                checked={values.isPrimary}
+                disabled={!!properties?.find((property) => property.id === editingId)?.isPrimary}
+                onCheckedChange={(isPrimary) => setValues({ ...values, isPrimary })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!values.address.trim() || saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Client, Project, Quote } from "@shared/schema";
 import {
   Dialog,
@@ -24,8 +24,6 @@ import {
 } from "@/components/ui/card";
 import {
   User,
-  Mail,
-  Phone,
   MapPin,
   Building,
   Calendar,
@@ -34,8 +32,16 @@ import {
   Clock,
   CheckCircle,
   XCircle,
+  Send,
 } from "lucide-react";
 import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AuditHistory } from "@/components/audit-history";
+import { ClientContactList, ClientPropertyList } from "@/components/client-contacts";
+import { CommunicationTimeline } from "@/components/communications";
+import { ClientAccountCard } from "@/components/client-account";
 
 interface ClientDetailProps {
   client: Client | null;
@@ -46,6 +52,33 @@ interface ClientDetailProps {
 export function ClientDetail({ client, isOpen, onClose }: ClientDetailProps) {
   if (!client) return null;
 
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canViewChanges = can("audit_log");
+  const canViewCommunications = can("communications");
+
+  // Goes to the billing contact, or the client's own email without one
+  const portalLinkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/clients/${client.id}/portal-link`, {});
+      return res.json();
+    },
+    onSuccess: (data: { email: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Portal link sent",
+        description: `A client portal login link was emailed to ${data.email}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Fetch related projects and quotes for this client
   const { data: projects } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
@@ -116,11 +149,12 @@ export function ClientDetail({ client, isOpen, onClose }: ClientDetailProps) {
         </DialogHeader>
 
         <Tabs defaultValue="info" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${canViewChanges ? "grid-cols-5" : "grid-cols-4"}`}>
             <TabsTrigger value="info">Information</TabsTrigger>
             <TabsTrigger value="projects">Projects ({totalProjects})</TabsTrigger>
             <TabsTrigger value="quotes">Quotes ({clientQuotes.length})</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
+            {canViewChanges && <TabsTrigger value="changes">Changes</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="info" className="space-y-6">
@@ -133,19 +167,9 @@ export function ClientDetail({ client, isOpen, onClose }: ClientDetailProps) {
                     Contact Information
                   </CardTitle>
                 </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center gap-2">
-                    <Mail className="h-4 w-4 text-gray-400" />
-                    <span>{client.email}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Phone className="h-4 w-4 text-gray-400" />
-                    <span>{client.phone}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <MapPin className="h-4 w-4 text-gray-400" />
-                    <span>{client.address}</span>
-                  </div>
+                <CardContent className="space-y-6">
+                  <ClientContactList clientId={client.id} />
+                  <ClientPropertyList clientId={client.id} />
                 </CardContent>
               </Card>
 
@@ -181,6 +205,8 @@ export function ClientDetail({ client, isOpen, onClose }: ClientDetailProps) {
               </Card>
             </div>
 
+            {can("invoices") && <ClientAccountCard client={client} />}
+
             {client.notes && (
               <Card>
                 <CardHeader>
@@ -311,65 +337,92 @@ export function ClientDetail({ client, isOpen, onClose }: ClientDetailProps) {
             <Card>
               <CardHeader>
                 <CardTitle>Activity Timeline</CardTitle>
+                {canViewCommunications && (
+                  <CardDescription>Calls, emails, texts and site visits, together with everything done for this client</CardDescription>
+                )}
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {/* Client creation */}
-                  <div className="flex items-start gap-3">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
-                    <div>
-                      <p className="font-medium">Client Created</p>
-                      <p className="text-sm text-gray-500">
-                        {format(new Date(client.createdAt), 'MMM dd, yyyy at h:mm a')}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  {/* Projects timeline */}
-                  {clientProjects.map((project) => (
-                    <div key={project.id} className="flex items-start gap-3">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mt-2"></div>
+                {canViewCommunications ? (
+                  <CommunicationTimeline clientId={client.id} projects={clientProjects} />
+                ) : (
+                  <div className="space-y-4">
+                    {/* Client creation */}
+                    <div className="flex items-start gap-3">
+                      <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
                       <div>
-                        <p className="font-medium">Project "{project.title}" created</p>
+                        <p className="font-medium">Client Created</p>
                         <p className="text-sm text-gray-500">
-                          {format(new Date(project.createdAt), 'MMM dd, yyyy at h:mm a')}
+                          {format(new Date(client.createdAt), 'MMM dd, yyyy at h:mm a')}
                         </p>
                       </div>
                     </div>
-                  ))}
-
-                  {/* Quotes timeline */}
-                  {clientQuotes.map((quote) => {
-                    const project = projects?.find(p => p.id === quote.projectId);
-                    return (
-                      <div key={quote.id} className="flex items-start gap-3">
-                        <div className="w-2 h-2 bg-purple-500 rounded-full mt-2"></div>
+                    
+                    {/* Projects timeline */}
+                    {clientProjects.map((project) => (
+                      <div key={project.id} className="flex items-start gap-3">
+                        <div className="w-2 h-2 bg-green-500 rounded-full mt-2"></div>
                         <div>
-                          <p className="font-medium">
-                            Quote created for "{project?.title || 'Unknown Project'}"
-                          </p>
+                          <p className="font-medium">Project "{project.title}" created</p>
                           <p className="text-sm text-gray-500">
-                            {format(new Date(quote.createdAt), 'MMM dd, yyyy at h:mm a')}
+                            {format(new Date(project.createdAt), 'MMM dd, yyyy at h:mm a')}
                           </p>
                         </div>
                       </div>
-                    );
-                  })}
+                    ))}
 
-                  {clientProjects.length === 0 && clientQuotes.length === 0 && (
-                    <div className="text-center py-8">
-                      <Clock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-                      <h3 className="text-lg font-medium text-gray-900 mb-2">No Activity Yet</h3>
-                      <p className="text-gray-500">Client history will appear here as projects and quotes are created.</p>
-                    </div>
-                  )}
-                </div>
+                    {/* Quotes timeline */}
+                    {clientQuotes.map((quote) => {
+                      const project = projects?.find(p => p.id === quote.projectId);
+                      return (
+                        <div key={quote.id} className="flex items-start gap-3">
+                          <div className="w-2 h-2 bg-purple-500 rounded-full mt-2"></div>
+                          <div>
+                            <p className="font-medium">
+                              Quote created for "{project?.title || 'Unknown Project'}"
+                            </p>
+                            <p className="text-sm text-gray-500">
+                              {format(new Date(quote.createdAt), 'MMM dd, yyyy at h:mm a')}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {clientProjects.length === 0 && clientQuotes.length === 0 && (
+                      <div className="text-center py-8">
+                        <Clock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No Activity Yet</h3>
+                        <p className="text-gray-500">Client history will appear here as projects and quotes are created.</p>
+                      </div>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          {canViewChanges && (
+            <TabsContent value="changes" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Change Log</CardTitle>
+                  <CardDescription>Every edit to this client's record, with who made it</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AuditHistory entityType="client" entityId={client.id} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
 
-        <div className="flex justify-end pt-4 border-t">
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          {can("clients", "write") && (
+            <Button variant="outline" onClick={() => portalLinkMutation.mutate()} disabled={portalLinkMutation.isPending}>
+              <Send className="mr-2 h-4 w-4" />
+              {portalLinkMutation.isPending ? "Sending..." : "Send Portal Link"}
+            </Button>
+          )}
           <Button variant="outline" onClick={onClose}>
             Close
           </Button>
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Client } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Mail, MapPin, Merge, Phone } from "lucide-react";
+
+interface DuplicatePair {
+  client: Client;
+  duplicate: Client;
+  score: number;
+  reasons: string[];
+}
+
+export interface ClientMatch {
+  client: Client;
+  score: number;
+  reasons: string[];
+}
+
+interface PendingMerge {
+  keep: Client;
+  remove: Client;
+}
+
+function ClientSummary({ client }: { client: Client }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="font-medium">
+        {client.name}
+        <span className="ml-2 text-xs text-muted-foreground">#{client.id}</span>
+      </div>
+      {client.email && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <Mail className="h-3 w-3" /> {client.email}
+        </div>
+      )}
+      {client.phone && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <Phone className="h-3 w-3" /> {client.phone}
+        </div>
+      )}
+      {client.address && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <MapPin className="h-3 w-3" /> {client.address}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lists clients that look like the same person or business and merges the
+ * one not kept into the other: its projects, invoices, payments, activities,
+ * communications, contacts and properties move over and the duplicate is
+ * deleted.
+ */
+export function ClientDuplicatesDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: ["/api/clients/duplicates"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keep, remove }: PendingMerge) => {
+      return apiRequest("POST", `/api/clients/${keep.id}/merge`, { duplicateId: remove.id });
+    },
+    onSuccess: (_, { keep, remove }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({
+        title: "Clients merged",
+        description: `${remove.name} was merged into ${keep.name}`,
+      });
+      setPendingMerge(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      setPendingMerge(null);
+    },
+  });
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Possible Duplicate Clients</DialogTitle>
+            <DialogDescription>
+              Clients with the same phone or email, or a very similar name or address. Choose which record to keep;
+              everything linked to the other one moves over.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : pairs.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">No duplicate clients found.</p>
+          ) : (
+            <div className="space-y-3">
+              {pairs.map((pair) => (
+                <div key={`${pair.client.id}-${pair.duplicate.id}`} className="rounded-lg border p-4">
+                  <div className="mb-3 flex flex-wrap items-center gap-2">
+                    <Badge variant={pair.score >= 80 ? "destructive" : "secondary"}>{pair.score}% match</Badge>
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {reason}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    {[
+                      { keep: pair.client, remove: pair.duplicate },
+                      { keep: pair.duplicate, remove: pair.client },
+                    ].map(({ keep, remove }) => (
+                      <div key={keep.id} className="flex flex-col justify-between gap-3 rounded-md bg-muted/40 p-3">
+                        <ClientSummary client={keep} />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={mergeMutation.isPending}
+                          onClick={() => setPendingMerge({ keep, remove })}
+                        >
+                          <Merge className="mr-2 h-4 w-4" />
+                          Keep this one
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(isOpen) => !isOpen && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge clients?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The projects, invoices, payments, activities, communications, contacts and properties of{" "}
+              {pendingMerge?.remove.name} will move to {pendingMerge?.keep.name}, and {pendingMerge?.remove.name} will be
+              deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={mergeMutation.isPending}
+              onClick={() => pendingMerge && mergeMutation.mutate(pendingMerge)}
+            >
+              {mergeMutation.isPending ? "Merging..." : "Merge"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
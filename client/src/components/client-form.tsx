@@ -2,7 +2,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { insertClientSchema } from "@shared/schema";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -30,7 +30,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { ClientContactList, ClientPropertyList } from "@/components/client-contacts";
+import type { ClientMatch } from "@/components/client-duplicates";
+import { TagInput, invalidateClientSegments } from "@/components/client-segments";
+import { HEARD_ABOUT_OPTIONS } from "@shared/attribution";
+import { AlertTriangle } from "lucide-react";
 
 const formSchema = insertClientSchema;
 type ClientFormValues = z.infer<typeof formSchema>;
@@ -44,6 +49,8 @@ interface ClientFormProps {
 
 export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client' }: ClientFormProps) {
   const { toast } = useToast();
+  // Query string for the duplicate check, refreshed when a field loses focus
+  const [matchQuery, setMatchQuery] = useState("");
 
   const form = useForm<ClientFormValues>({
     resolver: zodResolver(formSchema),
@@ -55,6 +62,8 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
       classification: "residential",
       type: defaultType,
       notes: "",
+      tags: [],
+      marketingSource: "",
     },
   });
 
@@ -70,6 +79,8 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
           classification: clientToEdit.classification || "residential",
           type: clientToEdit.type || defaultType,
           notes: clientToEdit.notes || "",
+          tags: clientToEdit.tags || [],
+          marketingSource: clientToEdit.marketingSource || "",
         });
       } else {
         form.reset({
@@ -80,15 +91,38 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
           classification: "residential",
           type: defaultType,
           notes: "",
+          tags: [],
+          marketingSource: "",
         });
       }
+      setMatchQuery("");
     }
   }, [open, clientToEdit, defaultType, form]);
 
+  const { data: matches = [] } = useQuery<ClientMatch[]>({
+    queryKey: [`/api/clients/duplicates/check?${matchQuery}`],
+    enabled: open && !clientToEdit?.id && !!matchQuery,
+    staleTime: 0,
+  });
+
+  const refreshMatches = () => {
+    if (clientToEdit?.id) return;
+    const { name, email, phone, address } = form.getValues();
+    if (!name && !email && !phone) return;
+    setMatchQuery(new URLSearchParams({
+      name: name || "",
+      email: email || "",
+      phone: phone || "",
+      address: address || "",
+    }).toString());
+  };
+
   const mutation = useMutation({
     mutationFn: async (data: ClientFormValues) => {
       if (clientToEdit?.id) {
-        const res = await apiRequest("PUT", `/api/clients/${clientToEdit.id}`, data);
+        // Email, phone and address follow the primary contact and property once the client exists
+        const { email, phone, address, ...clientData } = data;
+        const res = await apiRequest("PUT", `/api/clients/${clientToEdit.id}`, clientData);
         return await res.json();
       } else {
         const res = await apiRequest("POST", "/api/clients", data);
@@ -97,6 +131,7 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      invalidateClientSegments();
       toast({
         title: clientToEdit ? "Client updated" : "Client created",
         description: clientToEdit 
@@ -123,7 +158,7 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className={clientToEdit?.id ? "sm:max-w-2xl max-h-[90vh] overflow-y-auto" : "sm:max-w-[425px]"}>
         <DialogHeader>
           <DialogTitle>
             {clientToEdit 
@@ -146,22 +181,77 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
                 <FormItem>
                   <FormLabel>Name *</FormLabel>
                   <FormControl>
-                    <Input placeholder="Full name" {...field} />
+                    <Input placeholder="Full name" {...field} onBlur={() => { field.onBlur(); refreshMatches(); }} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {!clientToEdit?.id && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="email@example.com" type="email" {...field} onBlur={() => { field.onBlur(); refreshMatches(); }} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="(555) 123-4567" {...field} onBlur={() => { field.onBlur(); refreshMatches(); }} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Full address" {...field} onBlur={() => { field.onBlur(); refreshMatches(); }} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
             <FormField
               control={form.control}
-              name="email"
+              name="classification"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Email *</FormLabel>
-                  <FormControl>
-                    <Input placeholder="email@example.com" type="email" {...field} />
-                  </FormControl>
+                  <FormLabel>Classification *</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a classification" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="residential">Residential</SelectItem>
+                      <SelectItem value="commercial">Commercial</SelectItem>
+                      <SelectItem value="industrial">Industrial</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
@@ -169,12 +259,12 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
 
             <FormField
               control={form.control}
-              name="phone"
+              name="tags"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Phone *</FormLabel>
+                  <FormLabel>Tags</FormLabel>
                   <FormControl>
-                    <Input placeholder="(555) 123-4567" {...field} />
+                    <TagInput value={field.value || []} onChange={field.onChange} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -183,36 +273,23 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
 
             <FormField
               control={form.control}
-              name="address"
+              name="marketingSource"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Address *</FormLabel>
+                  <FormLabel>Marketing Source</FormLabel>
                   <FormControl>
-                    <Input placeholder="Full address" {...field} />
+                    <Input
+                      list="marketing-source-options"
+                      placeholder="How did they hear about us?"
+                      {...field}
+                      value={field.value || ""}
+                    />
                   </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="classification"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Classification *</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a classification" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="residential">Residential</SelectItem>
-                      <SelectItem value="commercial">Commercial</SelectItem>
-                      <SelectItem value="industrial">Industrial</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <datalist id="marketing-source-options">
+                    {HEARD_ABOUT_OPTIONS.map((option) => (
+                      <option key={option} value={option} />
+                    ))}
+                  </datalist>
                   <FormMessage />
                 </FormItem>
               )}
@@ -236,6 +313,23 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
               )}
             />
 
+            {!clientToEdit?.id && matches.length > 0 && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                <div className="mb-1 flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  This may already exist
+                </div>
+                <ul className="space-y-1">
+                  {matches.map((match) => (
+                    <li key={match.client.id}>
+                      {match.client.name}
+                      {match.client.type === 'prospect' ? " (prospect)" : ""} – {match.reasons.join(", ").toLowerCase()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
@@ -250,6 +344,14 @@ export function ClientForm({ open, onClose, clientToEdit, defaultType = 'client'
             </div>
           </form>
         </Form>
+
+        {/* Outside the form: their dialogs submit forms of their own */}
+        {clientToEdit?.id && (
+          <div className="space-y-6 border-t pt-4">
+            <ClientContactList clientId={clientToEdit.id} />
+            <ClientPropertyList clientId={clientToEdit.id} />
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,539 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Client,
+  ClientSegment,
+  COMMUNICATION_CHANNELS,
+  type CommunicationChannel,
+} from "@shared/schema";
+import {
+  SUGGESTED_CLIENT_TAGS,
+  EMPTY_SEGMENT_RULES,
+  describeSegmentRules,
+  normalizeTags,
+  type Presence,
+  type SegmentRules,
+} from "@shared/client-segments";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CHANNEL_LABELS, invalidateCommunications } from "@/components/communications";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2, X } from "lucide-react";
+
+// Client lists, tag suggestions and segment results all change when a client
+// or segment is saved
+export function invalidateClientSegments() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith("/api/client-segments") || key === "/api/client-tags";
+    },
+  });
+}
+
+function useErrorToast() {
+  const { toast } = useToast();
+  return (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+/**
+ * Free-text tag entry. Enter or a comma adds the typed tag; tags already used
+ * in the company and the suggested ones are offered as completions.
+ */
+export function TagInput({
+  value,
+  onChange,
+  placeholder = "Add a tag",
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}) {
+  const [draft, setDraft] = useState("");
+  const { data: usedTags = [] } = useQuery<string[]>({ queryKey: ["/api/client-tags"] });
+  const suggestions = normalizeTags([...SUGGESTED_CLIENT_TAGS, ...usedTags]);
+  const listId = `tag-suggestions-${placeholder.replace(/\W+/g, "-").toLowerCase()}`;
+
+  const add = (tag: string) => {
+    const tags = normalizeTags([...value, tag]);
+    if (tags.length !== value.length) onChange(tags);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove ${tag}`}
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        list={listId}
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if ((e.key === "Enter" || e.key === ",") && draft.trim()) {
+            e.preventDefault();
+            add(draft);
+          }
+        }}
+        onBlur={() => draft.trim() && add(draft)}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((tag) => !value.some((t) => t.toLowerCase() === tag.toLowerCase()))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
+
+const PRESENCE_OPTIONS: { value: Presence; label: string }[] = [
+  { value: "any", label: "Doesn't matter" },
+  { value: "with", label: "Has one" },
+  { value: "without", label: "Has none" },
+];
+
+interface SegmentDraft {
+  id?: number;
+  name: string;
+  description: string;
+  rules: SegmentRules;
+}
+
+const newDraft = (): SegmentDraft => ({ name: "", description: "", rules: EMPTY_SEGMENT_RULES });
+
+function toggle<T>(list: T[], item: T, on: boolean) {
+  return on ? [...list, item] : list.filter((value) => value !== item);
+}
+
+const toPositiveInt = (value: string) => {
+  const number = parseInt(value);
+  return number > 0 ? number : null;
+};
+
+/**
+ * Saved segments: pick one to edit its rules and see how many clients match
+ * before saving.
+ */
+export function ClientSegmentsDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const onError = useErrorToast();
+  const [draft, setDraft] = useState<SegmentDraft>(newDraft);
+  const rules = draft.rules;
+  const setRules = (changes: Partial<SegmentRules>) => setDraft({ ...draft, rules: { ...rules, ...changes } });
+
+  const { data: segments = [] } = useQuery<ClientSegment[]>({
+    queryKey: ["/api/client-segments"],
+    enabled: open,
+  });
+
+  const { data: preview, isFetching: previewLoading } = useQuery<Client[]>({
+    queryKey: [`/api/client-segments/preview?rules=${encodeURIComponent(JSON.stringify(rules))}`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: draft.name, description: draft.description || null, rules };
+      const res = draft.id
+        ? await apiRequest("PUT", `/api/client-segments/${draft.id}`, body)
+        : await apiRequest("POST", "/api/client-segments", body);
+      return (await res.json()) as ClientSegment;
+    },
+    onSuccess: (segment) => {
+      invalidateClientSegments();
+      setDraft({ ...draft, id: segment.id });
+      toast({ title: draft.id ? "Segment updated" : "Segment saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/client-segments/${id}`),
+    onSuccess: () => {
+      invalidateClientSegments();
+      setDraft(newDraft());
+      toast({ title: "Segment deleted" });
+    },
+    onError,
+  });
+
+  const edit = (segment: ClientSegment) =>
+    setDraft({
+      id: segment.id,
+      name: segment.name,
+      description: segment.description ?? "",
+      rules: { ...EMPTY_SEGMENT_RULES, ...segment.rules },
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Client Segments</DialogTitle>
+          <DialogDescription>
+            Save a filter such as "residential clients with a project completed over 2 years ago and no open quote".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+          <div className="space-y-2">
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setDraft(newDraft())}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Segment
+            </Button>
+            {segments.map((segment) => (
+              <button
+                key={segment.id}
+                type="button"
+                onClick={() => edit(segment)}
+                className={`w-full rounded-md border p-2 text-left text-sm hover:bg-gray-50 ${
+                  draft.id === segment.id ? "border-primary bg-gray-50" : ""
+                }`}
+              >
+                <div className="font-medium">{segment.name}</div>
+                <div className="text-xs text-gray-500 line-clamp-2">{describeSegmentRules(segment.rules)}</div>
+              </button>
+            ))}
+            {segments.length === 0 && <p className="text-sm text-gray-500">No saved segments yet.</p>}
+          </div>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="segment-name">Name</Label>
+                <Input
+                  id="segment-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Past residential clients"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="segment-description">Description</Label>
+                <Input
+                  id="segment-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <div className="flex gap-4">
+                  {(["client", "prospect"] as const).map((type) => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rules.types.includes(type)}
+                        onCheckedChange={(checked) => setRules({ types: toggle(rules.types, type, !!checked) })}
+                      />
+                      {type === "client" ? "Clients" : "Prospects"}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Classification</Label>
+                <div className="flex gap-4">
+                  {(["residential", "commercial", "industrial"] as const).map((classification) => (
+                    <label key={classification} className="flex items-center gap-2 text-sm capitalize">
+                      <Checkbox
+                        checked={rules.classifications.includes(classification)}
+                        onCheckedChange={(checked) =>
+                          setRules({ classifications: toggle(rules.classifications, classification, !!checked) })
+                        }
+                      />
+                      {classification}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Tagged with any of</Label>
+                <TagInput
+                  value={rules.includeTags}
+                  onChange={(includeTags) => setRules({ includeTags })}
+                  placeholder="Include tag"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Not tagged with</Label>
+                <TagInput
+                  value={rules.excludeTags}
+                  onChange={(excludeTags) => setRules({ excludeTags })}
+                  placeholder="Exclude tag"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="segment-completed">Last project completed over (months ago)</Label>
+                <Input
+                  id="segment-completed"
+                  type="number"
+                  min={1}
+                  value={rules.lastCompletedProjectMonthsAgo ?? ""}
+                  onChange={(e) => setRules({ lastCompletedProjectMonthsAgo: toPositiveInt(e.target.value) })}
+                  placeholder="Any time"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="segment-no-contact">No contact in (days)</Label>
+                <Input
+                  id="segment-no-contact"
+                  type="number"
+                  min={1}
+                  value={rules.noContactInDays ?? ""}
+                  onChange={(e) => setRules({ noContactInDays: toPositiveInt(e.target.value) })}
+                  placeholder="Any time"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Open quote</Label>
+                <Select value={rules.openQuote} onValueChange={(openQuote) => setRules({ openQuote: openQuote as Presence })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRESENCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Active project</Label>
+                <Select
+                  value={rules.activeProject}
+                  onValueChange={(activeProject) => setRules({ activeProject: activeProject as Presence })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRESENCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md bg-gray-50 p-3 text-sm">
+              <div className="text-gray-600">{describeSegmentRules(rules)}</div>
+              <div className="font-medium">
+                {previewLoading || !preview ? "Counting..." : `${preview.length} matching clients`}
+              </div>
+              {preview && preview.length > 0 && (
+                <div className="mt-1 text-xs text-gray-500 line-clamp-2">
+                  {preview.slice(0, 10).map((client) => client.name).join(", ")}
+                  {preview.length > 10 ? ` and ${preview.length - 10} more` : ""}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-between">
+              {draft.id ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(draft.id!)}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+                <Button type="submit" disabled={!draft.name.trim() || saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : draft.id ? "Update" : "Save Segment"}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Plans a follow-up for every client in a segment: each gets an outbound
+ * communication in their log with the follow-up date set, so the calls show
+ * up in the follow-ups due list.
+ */
+export function SegmentCampaignDialog({
+  segment,
+  onClose,
+}: {
+  segment: ClientSegment | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const onError = useErrorToast();
+  const [channel, setChannel] = useState<CommunicationChannel>("call");
+  const [summary, setSummary] = useState("");
+  const [followUpDate, setFollowUpDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: audience } = useQuery<Client[]>({
+    queryKey: [`/api/client-segments/${segment?.id}/clients`],
+    enabled: !!segment,
+  });
+
+  const campaignMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/client-segments/${segment!.id}/campaign`, {
+        channel,
+        summary,
+        followUpDate: new Date(followUpDate).toISOString(),
+      });
+      return (await res.json()) as { created: number; skipped: number };
+    },
+    onSuccess: ({ created, skipped }) => {
+      invalidateCommunications();
+      toast({
+        title: "Campaign created",
+        description: `Follow-ups planned for ${created} clients${skipped ? `; ${skipped} tagged "Do not service" were skipped` : ""}.`,
+      });
+      setSummary("");
+      onClose();
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!segment} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Follow-up Campaign</DialogTitle>
+          <DialogDescription>
+            {segment?.name}: {audience ? `${audience.length} clients` : "counting clients..."}. Each gets a follow-up
+            on their communication log.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            campaignMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select value={channel} onValueChange={(value) => setChannel(value as CommunicationChannel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMUNICATION_CHANNELS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {CHANNEL_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-follow-up">Follow up on</Label>
+              <Input
+                id="campaign-follow-up"
+                type="date"
+                value={followUpDate}
+                onChange={(e) => setFollowUpDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="campaign-summary">Message</Label>
+            <Textarea
+              id="campaign-summary"
+              rows={3}
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="Spring maintenance check-in"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!summary.trim() || !followUpDate || !audience?.length || campaignMutation.isPending}
+            >
+              {campaignMutation.isPending ? "Creating..." : "Create Follow-ups"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,530 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, isBefore, startOfDay } from "date-fns";
+import {
+  Activity,
+  CommunicationEntry,
+  Project,
+  COMMUNICATION_CHANNELS,
+  COMMUNICATION_DIRECTIONS,
+  type CommunicationChannel,
+  type CommunicationDirection,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ArrowDownLeft,
+  ArrowUpRight,
+  Bell,
+  Check,
+  Clock,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Phone,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+export const CHANNEL_LABELS: Record<CommunicationChannel, string> = {
+  call: "Call",
+  email: "Email",
+  text: "Text",
+  site_visit: "Site Visit",
+};
+
+const DIRECTION_LABELS: Record<CommunicationDirection, string> = {
+  inbound: "Inbound",
+  outbound: "Outbound",
+};
+
+const CHANNEL_ICONS: Record<CommunicationChannel, typeof Phone> = {
+  call: Phone,
+  email: Mail,
+  text: MessageSquare,
+  site_visit: MapPin,
+};
+
+function channelIcon(channel: string) {
+  return CHANNEL_ICONS[channel as CommunicationChannel] ?? MessageSquare;
+}
+
+// Lists, timelines and the dashboard widget all read /api/communications...
+export function invalidateCommunications() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/communications"),
+  });
+}
+
+function useErrorToast() {
+  const { toast } = useToast();
+  return (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+// What a new communication is linked to
+export interface CommunicationLinks {
+  clientId?: number;
+  leadId?: number;
+  projectId?: number;
+  quoteId?: number;
+}
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+function emptyValues() {
+  return {
+    direction: "outbound" as CommunicationDirection,
+    channel: "call" as CommunicationChannel,
+    summary: "",
+    occurredAt: toDateTimeInput(new Date()),
+    followUpDate: "",
+    projectId: "none",
+  };
+}
+
+export function CommunicationFormDialog({
+  open,
+  onOpenChange,
+  links,
+  projects = [],
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  links: CommunicationLinks;
+  projects?: Project[];
+}) {
+  const { toast } = useToast();
+  const onError = useErrorToast();
+  const [values, setValues] = useState(emptyValues);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/communications", {
+        ...links,
+        projectId: values.projectId !== "none" ? Number(values.projectId) : links.projectId,
+        direction: values.direction,
+        channel: values.channel,
+        summary: values.summary,
+        occurredAt: new Date(values.occurredAt).toISOString(),
+        followUpDate: values.followUpDate ? new Date(values.followUpDate).toISOString() : null,
+      });
+    },
+    onSuccess: () => {
+      invalidateCommunications();
+      toast({ title: "Communication logged" });
+      setValues(emptyValues());
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Log Communication</DialogTitle>
+          <DialogDescription>Record a call, email, text or site visit, and when to follow up.</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select
+                value={values.channel}
+                onValueChange={(channel) => setValues({ ...values, channel: channel as CommunicationChannel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMUNICATION_CHANNELS.map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select
+                value={values.direction}
+                onValueChange={(direction) => setValues({ ...values, direction: direction as CommunicationDirection })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMUNICATION_DIRECTIONS.map((direction) => (
+                    <SelectItem key={direction} value={direction}>
+                      {DIRECTION_LABELS[direction]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {projects.length > 0 && (
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={values.projectId} onValueChange={(projectId) => setValues({ ...values, projectId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No specific project</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={String(project.id)}>
+                      {project.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="communication-summary">Summary</Label>
+            <Textarea
+              id="communication-summary"
+              rows={4}
+              value={values.summary}
+              onChange={(e) => setValues({ ...values, summary: e.target.value })}
+              placeholder="What was discussed or agreed"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="communication-occurred-at">When</Label>
+              <Input
+                id="communication-occurred-at"
+                type="datetime-local"
+                value={values.occurredAt}
+                onChange={(e) => setValues({ ...values, occurredAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="communication-follow-up">Follow up on</Label>
+              <Input
+                id="communication-follow-up"
+                type="date"
+                value={values.followUpDate}
+                onChange={(e) => setValues({ ...values, followUpDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!values.summary.trim() || !values.occurredAt || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FollowUpBadge({ communication }: { communication: CommunicationEntry }) {
+  if (!communication.followUpDate) return null;
+  if (communication.followUpDoneAt) {
+    return <Badge variant="outline">Followed up</Badge>;
+  }
+  const overdue = isBefore(new Date(communication.followUpDate), startOfDay(new Date()));
+  return (
+    <Badge variant={overdue ? "destructive" : "secondary"}>
+      <Bell className="mr-1 h-3 w-3" />
+      Follow up {format(new Date(communication.followUpDate), "MMM dd")}
+    </Badge>
+  );
+}
+
+function useFollowUpDone() {
+  const onError = useErrorToast();
+  return useMutation({
+    mutationFn: async (communication: CommunicationEntry) => {
+      return apiRequest("POST", `/api/communications/${communication.id}/follow-up-done`);
+    },
+    onSuccess: invalidateCommunications,
+    onError,
+  });
+}
+
+type TimelineItem =
+  | { kind: "communication"; date: Date; communication: CommunicationEntry }
+  | { kind: "activity"; date: Date; activity: Activity };
+
+/**
+ * Communications with a client or lead, newest first. For a client the
+ * activity feed (projects, quotes, invoices...) is merged in.
+ */
+export function CommunicationTimeline({
+  clientId,
+  leadId,
+  projects = [],
+}: {
+  clientId?: number;
+  leadId?: number;
+  projects?: Project[];
+}) {
+  const { can } = useAuth();
+  const onError = useErrorToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const canWrite = can("communications", "write");
+  const filter = clientId ? `clientId=${clientId}` : `leadId=${leadId}`;
+
+  const { data: communications = [], isLoading } = useQuery<CommunicationEntry[]>({
+    queryKey: [`/api/communications?${filter}`],
+    staleTime: 0,
+  });
+
+  const { data: activities = [] } = useQuery<Activity[]>({
+    queryKey: [`/api/activities?clientId=${clientId}`],
+    enabled: !!clientId,
+    staleTime: 0,
+  });
+
+  const followUpDoneMutation = useFollowUpDone();
+
+  const deleteMutation = useMutation({
+    mutationFn: async (communication: CommunicationEntry) => {
+      return apiRequest("DELETE", `/api/communications/${communication.id}`);
+    },
+    onSuccess: invalidateCommunications,
+    onError,
+  });
+
+  const items: TimelineItem[] = [
+    ...communications.map((communication) => ({
+      kind: "communication" as const,
+      date: new Date(communication.occurredAt),
+      communication,
+    })),
+    ...(clientId ? activities : []).map((activity) => ({
+      kind: "activity" as const,
+      date: new Date(activity.createdAt),
+      activity,
+    })),
+  ].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const projectTitle = (projectId: number | null) => projects.find((project) => project.id === projectId)?.title;
+
+  return (
+    <div className="space-y-3">
+      {canWrite && (
+        <div className="flex justify-end">
+          <Button type="button" size="sm" variant="outline" onClick={() => setIsFormOpen(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Log Communication
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="py-8 text-center">
+          <Clock className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+          <p className="text-gray-500">No communications or activity yet.</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {items.map((item) => {
+            if (item.kind === "activity") {
+              return (
+                <li key={`activity-${item.activity.id}`} className="flex items-start gap-3">
+                  <div className="mt-2 h-2 w-2 rounded-full bg-gray-400"></div>
+                  <div>
+                    <p className="text-sm">{item.activity.description}</p>
+                    <p className="text-xs text-gray-500">{format(item.date, "MMM dd, yyyy 'at' h:mm a")}</p>
+                  </div>
+                </li>
+              );
+            }
+
+            const { communication } = item;
+            const Icon = channelIcon(communication.channel);
+            const DirectionIcon = communication.direction === "inbound" ? ArrowDownLeft : ArrowUpRight;
+            const project = projectTitle(communication.projectId);
+            return (
+              <li key={`communication-${communication.id}`} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="rounded-full bg-primary/10 p-2">
+                  <Icon className="h-4 w-4 text-primary" />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                    {CHANNEL_LABELS[communication.channel as CommunicationChannel] ?? communication.channel}
+                    <span className="flex items-center text-xs font-normal text-gray-500">
+                      <DirectionIcon className="mr-0.5 h-3 w-3" />
+                      {DIRECTION_LABELS[communication.direction as CommunicationDirection] ?? communication.direction}
+                    </span>
+                    {project && <Badge variant="outline">{project}</Badge>}
+                    <FollowUpBadge communication={communication} />
+                  </div>
+                  <p className="whitespace-pre-line text-sm">{communication.summary}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(item.date, "MMM dd, yyyy 'at' h:mm a")}
+                    {communication.userName && ` · ${communication.userName}`}
+                  </p>
+                </div>
+                {canWrite && (
+                  <div className="flex gap-1">
+                    {communication.followUpDate && !communication.followUpDoneAt && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        title="Mark follow-up done"
+                        onClick={() => followUpDoneMutation.mutate(communication)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      title="Delete"
+                      onClick={() => deleteMutation.mutate(communication)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <CommunicationFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        links={clientId ? { clientId } : { leadId }}
+        projects={projects}
+      />
+    </div>
+  );
+}
+
+/**
+ * Dashboard card with the follow-ups due today or overdue, so callbacks
+ * promised to clients and leads are not forgotten.
+ */
+export function FollowUpsDue() {
+  const { user } = useAuth();
+  const [scope, setScope] = useState<"mine" | "all">("mine");
+  const followUpDoneMutation = useFollowUpDone();
+
+  const { data: followUps = [], isLoading } = useQuery<CommunicationEntry[]>({
+    queryKey: [`/api/communications/follow-ups?mine=${scope === "mine"}`],
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  const today = startOfDay(new Date());
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg leading-6 font-medium text-gray-900">Follow-ups Due</CardTitle>
+        <Select value={scope} onValueChange={(value) => setScope(value as "mine" | "all")}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mine">Mine</SelectItem>
+            <SelectItem value="all">Everyone</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : followUps.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">No follow-ups due. Nice work!</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {followUps.map((followUp) => {
+              const Icon = channelIcon(followUp.channel);
+              const overdue = isBefore(new Date(followUp.followUpDate!), today);
+              return (
+                <li key={followUp.id} className="flex items-start justify-between gap-3 py-3">
+                  <div className="flex items-start gap-3">
+                    <Icon className="mt-0.5 h-4 w-4 text-gray-400" />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-primary">
+                        {followUp.clientName ?? followUp.leadName ?? "Unknown"}
+                        {!followUp.clientName && followUp.leadName && (
+                          <Badge variant="outline" className="ml-2">
+                            Lead
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="line-clamp-2 text-sm text-gray-600">{followUp.summary}</p>
+                      <p className={`text-xs ${overdue ? "text-red-600" : "text-gray-500"}`}>
+                        {overdue ? "Overdue since" : "Due"} {format(new Date(followUp.followUpDate!), "MMM dd")}
+                        {scope === "all" && followUp.userName && ` · ${followUp.userName}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={followUpDoneMutation.isPending}
+                    onClick={() => followUpDoneMutation.mutate(followUp)}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    Done
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
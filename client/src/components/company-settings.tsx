@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm, UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Company } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Building2, Plus } from "lucide-react";
+
+const companyFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  phone: z.string(),
+  email: z.string().email("Must be a valid email").or(z.literal("")),
+  website: z.string(),
+  invoicePrefix: z.string().min(1, "Invoice prefix is required").max(10),
+});
+
+type CompanyFormValues = z.infer<typeof companyFormSchema>;
+
+const EMPTY_COMPANY: CompanyFormValues = {
+  name: "",
+  address: "",
+  city: "",
+  state: "",
+  zip: "",
+  phone: "",
+  email: "",
+  website: "",
+  invoicePrefix: "INV",
+};
+
+// Blank optional fields are stored as null rather than empty strings
+function toCompanyPayload(data: CompanyFormValues) {
+  return {
+    name: data.name,
+    address: data.address || null,
+    city: data.city || null,
+    state: data.state || null,
+    zip: data.zip || null,
+    phone: data.phone || null,
+    email: data.email || null,
+    website: data.website || null,
+    invoicePrefix: data.invoicePrefix,
+  };
+}
+
+const TEXT_FIELDS: { name: Exclude<keyof CompanyFormValues, "invoicePrefix">; label: string }[] = [
+  { name: "name", label: "Company Name" },
+  { name: "phone", label: "Phone" },
+  { name: "email", label: "Email" },
+  { name: "website", label: "Website" },
+  { name: "address", label: "Address" },
+  { name: "city", label: "City" },
+  { name: "state", label: "State" },
+  { name: "zip", label: "ZIP" },
+];
+
+function CompanyFields({ form }: { form: UseFormReturn<CompanyFormValues> }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {TEXT_FIELDS.map(({ name, label }) => (
+        <FormField
+          key={name}
+          control={form.control}
+          name={name}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+      <FormField
+        control={form.control}
+        name="invoicePrefix"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Invoice Prefix</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormDescription>Invoices are numbered {field.value || "INV"}-000001, -000002…</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+// Settings > General: letterhead details of the current company, and new companies
+export function CompanySettings() {
+  const { company } = useCompany();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const form = useForm<CompanyFormValues>({
+    resolver: zodResolver(companyFormSchema),
+    defaultValues: EMPTY_COMPANY,
+  });
+
+  const createForm = useForm<CompanyFormValues>({
+    resolver: zodResolver(companyFormSchema),
+    defaultValues: EMPTY_COMPANY,
+  });
+
+  useEffect(() => {
+    if (company) {
+      form.reset({
+        name: company.name,
+        address: company.address || "",
+        city: company.city || "",
+        state: company.state || "",
+        zip: company.zip || "",
+        phone: company.phone || "",
+        email: company.email || "",
+        website: company.website || "",
+        invoicePrefix: company.invoicePrefix,
+      });
+    }
+  }, [company, form]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateCompanyMutation = useMutation({
+    mutationFn: async (data: CompanyFormValues) => {
+      return apiRequest("PUT", "/api/companies/current", toCompanyPayload(data));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      toast({
+        title: "Company updated",
+        description: "Quotes, invoices and service orders will use the new details",
+      });
+    },
+    onError,
+  });
+
+  const createCompanyMutation = useMutation({
+    mutationFn: async (data: CompanyFormValues) => {
+      const res = await apiRequest("POST", "/api/companies", toCompanyPayload(data));
+      return (await res.json()) as Company;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      toast({
+        title: "Company created",
+        description: `Switch to ${created.name} from the top bar to start working in it`,
+      });
+      setIsCreateOpen(false);
+      createForm.reset(EMPTY_COMPANY);
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          Company Profile
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Company
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => updateCompanyMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <CompanyFields form={form} />
+            <Button
+              type="submit"
+              disabled={!company || updateCompanyMutation.isPending}
+              className="w-full md:w-auto"
+            >
+              {updateCompanyMutation.isPending ? "Saving..." : "Save Company"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Company</DialogTitle>
+            <DialogDescription>
+              A separate business with its own clients, projects, invoices and users. You will be its owner.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...createForm}>
+            <form
+              onSubmit={createForm.handleSubmit((data) => createCompanyMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <CompanyFields form={createForm} />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createCompanyMutation.isPending}>
+                  {createCompanyMutation.isPending ? "Creating..." : "Create Company"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CompanyInvitationEntry } from "@shared/schema";
+import { getRoleLabel } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+
+// Top bar dropdown for users who belong to more than one company
+export function CompanySwitcher() {
+  const { company, companies, switchCompany, isSwitching } = useCompany();
+
+  if (!company || companies.length < 2) return null;
+
+  return (
+    <Select
+      value={String(company.id)}
+      onValueChange={(value) => switchCompany(parseInt(value))}
+      disabled={isSwitching}
+    >
+      <SelectTrigger className="h-9 w-[140px] sm:w-[200px]">
+        <Building2 className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {companies.map((option) => (
+          <SelectItem key={option.id} value={String(option.id)}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Invitations to join another company, accepted or declined by the invited user
+export function CompanyInvitations() {
+  const { toast } = useToast();
+  const { data: invitations = [] } = useQuery<CompanyInvitationEntry[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (invitation: CompanyInvitationEntry) =>
+      apiRequest("POST", `/api/invitations/${invitation.id}/accept`),
+    onSuccess: (_, invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      toast({
+        title: "Invitation accepted",
+        description: `You can now switch to ${invitation.companyName}`,
+      });
+    },
+    onError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (invitation: CompanyInvitationEntry) =>
+      apiRequest("POST", `/api/invitations/${invitation.id}/decline`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    },
+    onError,
+  });
+
+  if (invitations.length === 0) return null;
+
+  const pending = acceptMutation.isPending || declineMutation.isPending;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-400 hover:text-gray-500 h-10 w-10 ml-1">
+          <Building2 className="h-5 w-5" />
+          <span className="absolute top-1 right-1 h-4 min-w-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-white">
+            {invitations.length}
+          </span>
+          <span className="sr-only">Company invitations</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <p className="text-sm font-medium">Company invitations</p>
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="rounded-md border p-2 text-sm space-y-2">
+            <p>
+              Join <span className="font-medium">{invitation.companyName}</span> as {getRoleLabel(invitation.role)}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" disabled={pending} onClick={() => declineMutation.mutate(invitation)}>
+                Decline
+              </Button>
+              <Button size="sm" disabled={pending} onClick={() => acceptMutation.mutate(invitation)}>
+                Accept
+              </Button>
+            </div>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,10 +1,33 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Send, CheckCircle } from "lucide-react";
+import { HEARD_ABOUT_OPTIONS, type Attribution } from "@shared/attribution";
+
+// UTM parameters of the link the visitor arrived by, and the site that sent them
+function pageAttribution(): Attribution {
+  const params = new URLSearchParams(window.location.search);
+  let referrer: string | null = null;
+  try {
+    if (document.referrer && new URL(document.referrer).host !== window.location.host) {
+      referrer = document.referrer;
+    }
+  } catch {
+    referrer = null;
+  }
+  return {
+    utmSource: params.get("utm_source"),
+    utmMedium: params.get("utm_medium"),
+    utmCampaign: params.get("utm_campaign"),
+    utmTerm: params.get("utm_term"),
+    utmContent: params.get("utm_content"),
+    referrer,
+    landingPage: window.location.pathname + window.location.search,
+  };
+}
 
 export function ContactForm() {
   const { toast } = useToast();
@@ -13,9 +36,17 @@ export function ContactForm() {
     email: "",
     phone: "",
     service: "",
-    message: ""
+    zipCode: "",
+    message: "",
+    heardAbout: ""
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Spam checks: people never see the "website" field, and the server
+  // rejects forms submitted too soon after they were rendered
+  const [website, setWebsite] = useState("");
+  const formStartedAt = useRef(Date.now());
+  // Read once: the query string is gone if the visitor moves around the page
+  const [attribution] = useState(pageAttribution);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,11 +63,25 @@ export function ContactForm() {
           email: formData.email,
           phone: formData.phone,
           service: formData.service || null,
+          zipCode: formData.zipCode.trim() || null,
           message: formData.message || null,
           status: "new",
+          attribution: { ...attribution, heardAbout: formData.heardAbout || null },
+          website,
+          formStartedAt: formStartedAt.current,
         }),
       });
 
+      if (response.status === 429) {
+        const data = await response.json();
+        toast({
+          title: "Please wait",
+          description: data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
       if (!response.ok) {
         throw new Error("Failed to submit form");
       }
@@ -51,8 +96,11 @@ export function ContactForm() {
         email: "",
         phone: "",
         service: "",
-        message: ""
+        zipCode: "",
+        message: "",
+        heardAbout: ""
       });
+      formStartedAt.current = Date.now();
     } catch (error) {
       toast({
         title: "Error",
@@ -123,6 +171,23 @@ export function ContactForm() {
         />
       </div>
 
+      <div>
+        <Label htmlFor="zipCode" className="text-gray-700 font-medium">
+          Project ZIP Code
+        </Label>
+        <Input
+          id="zipCode"
+          name="zipCode"
+          value={formData.zipCode}
+          onChange={handleChange}
+          inputMode="numeric"
+          maxLength={10}
+          placeholder="28202"
+          className="mt-2 h-12 bg-gray-50 border-gray-200 focus:bg-white"
+          data-testid="input-zip-code"
+        />
+      </div>
+
       <div>
         <Label htmlFor="service" className="text-gray-700 font-medium">
           Service Needed
@@ -161,6 +226,38 @@ export function ContactForm() {
         />
       </div>
 
+      <div>
+        <Label htmlFor="heardAbout" className="text-gray-700 font-medium">
+          How did you hear about us?
+        </Label>
+        <select
+          id="heardAbout"
+          name="heardAbout"
+          value={formData.heardAbout}
+          onChange={handleChange}
+          className="mt-2 w-full h-12 px-4 bg-gray-50 border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent focus:bg-white"
+          data-testid="select-heard-about"
+        >
+          <option value="">Select an option</option>
+          {HEARD_ABOUT_OPTIONS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="absolute -left-[9999px] h-0 w-0 overflow-hidden" aria-hidden="true">
+        <label htmlFor="website">Website</label>
+        <input
+          id="website"
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
       <Button
         type="submit"
         disabled={isSubmitting}
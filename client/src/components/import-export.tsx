@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  IMPORT_ENTITY_LABELS,
+  IMPORT_FIELDS,
+  type ImportEntity,
+  type ImportResult,
+  type ImportRow,
+  type ParsedSpreadsheet,
+} from "@shared/imports";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Upload } from "lucide-react";
+
+const SKIP_COLUMN = "skip";
+
+// Column index of the file for each field, or SKIP_COLUMN
+type ColumnMapping = Record<string, string>;
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Maps file columns whose header matches a field label or one of its aliases
+function guessMapping(entity: ImportEntity, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS[entity]) {
+    const names = [field.label, field.key, ...(field.aliases ?? [])].map(normalizeHeader);
+    const index = normalized.findIndex((header) => names.includes(header));
+    mapping[field.key] = index >= 0 ? String(index) : SKIP_COLUMN;
+  }
+  return mapping;
+}
+
+function mapRows(file: ParsedSpreadsheet, mapping: ColumnMapping): ImportRow[] {
+  return file.rows.map((row) => {
+    const mapped: ImportRow = {};
+    for (const [key, column] of Object.entries(mapping)) {
+      if (column !== SKIP_COLUMN) mapped[key] = row[Number(column)] ?? "";
+    }
+    return mapped;
+  });
+}
+
+function readAsBase64(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(new Error("The file could not be read"));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Import wizard: upload a .csv or .xlsx file, map its columns to fields,
+ * review a dry run of errors and duplicates, then import in one go.
+ */
+function ImportWizard({ entity, open, onClose }: { entity: ImportEntity; open: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<ParsedSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const label = IMPORT_ENTITY_LABELS[entity].toLowerCase();
+  const fields = IMPORT_FIELDS[entity];
+  const missingRequired = fields.filter((field) => field.required && mapping[field.key] === SKIP_COLUMN);
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    setPreview(null);
+    setIncludeDuplicates(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const parseMutation = useMutation({
+    mutationFn: async (upload: File) => {
+      const res = await apiRequest("POST", `/api/import/${entity}/parse`, {
+        fileName: upload.name,
+        content: await readAsBase64(upload),
+      });
+      return (await res.json()) as ParsedSpreadsheet;
+    },
+    onSuccess: (parsed) => {
+      setFile(parsed);
+      setMapping(guessMapping(entity, parsed.headers));
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun }: { dryRun: boolean }) => {
+      const res = await apiRequest("POST", `/api/import/${entity}`, {
+        rows: mapRows(file!, mapping),
+        dryRun,
+        includeDuplicates,
+      });
+      return (await res.json()) as ImportResult;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/${entity}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Import complete",
+        description: `${result.imported} ${label} imported`,
+      });
+      handleClose();
+    },
+    onError,
+  });
+
+  const counts = preview
+    ? {
+        valid: preview.rows.filter((row) => row.status === "valid").length,
+        invalid: preview.rows.filter((row) => row.status === "invalid").length,
+        duplicate: preview.rows.filter((row) => row.status === "duplicate").length,
+      }
+    : null;
+  const toImport = counts ? counts.valid + (includeDuplicates ? counts.duplicate : 0) : 0;
+  const problemRows = preview?.rows.filter((row) => row.status !== "valid") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {IMPORT_ENTITY_LABELS[entity]}</DialogTitle>
+          <DialogDescription>
+            {!file
+              ? "Upload a .csv or .xlsx file. The first row must hold the column headers."
+              : !preview
+                ? `Choose the column of the file that holds each field. ${file.rows.length} rows found.`
+                : "Review the rows before importing. Rows with errors are skipped."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!file && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor={`import-${entity}`}>File</Label>
+            <Input
+              id={`import-${entity}`}
+              type="file"
+              accept=".csv,.xlsx"
+              disabled={parseMutation.isPending}
+              onChange={(e) => {
+                const upload = e.target.files?.[0];
+                if (upload) parseMutation.mutate(upload);
+              }}
+            />
+            {parseMutation.isPending && (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {file && !preview && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Column in file</TableHead>
+                <TableHead>First row</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field) => (
+                <TableRow key={field.key}>
+                  <TableCell className="font-medium">
+                    {field.label}
+                    {field.required && " *"}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[field.key]}
+                      onValueChange={(column) => setMapping({ ...mapping, [field.key]: column })}
+                    >
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                        {file.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="max-w-[200px] truncate text-muted-foreground">
+                    {mapping[field.key] !== SKIP_COLUMN ? file.rows[0]?.[Number(mapping[field.key])] : ""}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {preview && counts && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{counts.valid} ready</Badge>
+              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{counts.duplicate} possible duplicates</Badge>
+              <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{counts.invalid} with errors</Badge>
+            </div>
+
+            {counts.duplicate > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`include-duplicates-${entity}`}
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor={`include-duplicates-${entity}`}>Import possible duplicates anyway</Label>
+              </div>
+            )}
+
+            {problemRows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {problemRows.map((row) => (
+                    <TableRow key={row.row}>
+                      {/* Row numbers as seen in the spreadsheet, header included */}
+                      <TableCell>{row.row + 1}</TableCell>
+                      <TableCell>
+                        {row.status === "duplicate" ? (
+                          <span className="text-amber-700">Matches {row.duplicateOf}</span>
+                        ) : (
+                          <ul className="text-red-700">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {file && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => (preview ? setPreview(null) : reset())}>
+              Back
+            </Button>
+            {!preview ? (
+              <Button
+                disabled={missingRequired.length > 0 || importMutation.isPending}
+                onClick={() => importMutation.mutate({ dryRun: true })}
+              >
+                {importMutation.isPending ? "Checking..." : "Check rows"}
+              </Button>
+            ) : (
+              <Button
+                disabled={toImport === 0 || importMutation.isPending}
+                onClick={() => importMutation.mutate({ dryRun: false })}
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${toImport} ${label}`}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+async function downloadExport(entity: ImportEntity, format: "xlsx" | "csv") {
+  const res = await fetch(`/api/export/${entity}?format=${format}`, { credentials: "include" });
+  if (!res.ok) {
+    throw new Error(`Export failed: ${res.statusText}`);
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Import and Export buttons for a list page header.
+ */
+export function ImportExportButtons({ entity }: { entity: ImportEntity }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const handleExport = (format: "xlsx" | "csv") => {
+    downloadExport(entity, format).catch((error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+  };
+
+  return (
+    <>
+      {can(entity, "write") && (
+        <Button variant="outline" onClick={() => setIsImportOpen(true)} className="flex items-center space-x-2">
+          <Upload className="h-4 w-4" />
+          <span>Import</span>
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex items-center space-x-2">
+            <Download className="h-4 w-4" />
+            <span>Export</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ImportWizard entity={entity} open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+    </>
+  );
+}
@@ -1,10 +1,10 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Invoice, Client, Project } from "@shared/schema";
+import { Invoice, Client, ClientContact, Project } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Check, X, CreditCard, Copy as CopyIcon } from "lucide-react";
+import { Loader2, Check, X, CreditCard, Copy as CopyIcon, Send } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
 import {
   Card,
@@ -33,6 +33,9 @@ import {
   DialogDescription 
 } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit-history";
+import { useAuth } from "@/hooks/use-auth";
 import { useStripe, Elements, PaymentElement, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 
@@ -53,6 +56,8 @@ export function InvoiceDetail({ invoice, onClose, onSuccess, onDuplicate = () =>
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canViewChanges = can("audit_log");
   
   // Fetch related data
   const { data: client } = useQuery<Client>({
@@ -65,6 +70,18 @@ export function InvoiceDetail({ invoice, onClose, onSuccess, onDuplicate = () =>
     enabled: !!invoice.projectId,
   });
   
+  const { data: contacts } = useQuery<ClientContact[]>({
+    queryKey: [`/api/clients/${invoice.clientId}/contacts`],
+    enabled: !!invoice.clientId,
+  });
+  
+  // Same fallback as the server: the chosen contact, the billing contact, then the primary one
+  const billingContact = invoice.billingContactId
+    ? contacts?.find((contact) => contact.id === invoice.billingContactId)
+    : contacts?.find((contact) => contact.role === "billing" && contact.email)
+      ?? contacts?.find((contact) => contact.isPrimary);
+  const recipientEmail = billingContact?.email || client?.email;
+  
   // Delete invoice mutation
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -109,6 +126,28 @@ export function InvoiceDetail({ invoice, onClose, onSuccess, onDuplicate = () =>
     },
   });
   
+  // Email the invoice to the billing contact
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/invoices/${invoice.id}/send`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({
+        title: "Factura enviada",
+        description: `La factura se envió a ${recipientEmail}.`,
+      });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo enviar la factura: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Initialize payment
   const handleInitiatePayment = async () => {
     try {
@@ -180,65 +219,87 @@ export function InvoiceDetail({ invoice, onClose, onSuccess, onDuplicate = () =>
           <div>{getStatusBadge(invoice.status)}</div>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-            <div>
-              <h3 className="mb-2 text-sm font-medium text-muted-foreground">Cliente</h3>
-              <p className="font-medium">{client?.name || "Cargando..."}</p>
-              <p>{client?.email || ""}</p>
-              <p>{client?.phone || ""}</p>
-            </div>
-            <div>
-              <h3 className="mb-2 text-sm font-medium text-muted-foreground">Proyecto</h3>
-              <p className="font-medium">{project?.title || "Cargando..."}</p>
-              <p className="text-sm text-muted-foreground">{project?.address || ""}</p>
-            </div>
-          </div>
-          
-          <Separator />
-          
-          <div>
-            <h3 className="mb-2 text-sm font-medium text-muted-foreground">Detalles</h3>
-            <div className="rounded-md border border-border">
-              <div className="grid grid-cols-1 p-4 sm:grid-cols-2">
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Detalles</TabsTrigger>
+              {canViewChanges && <TabsTrigger value="history">Historial</TabsTrigger>}
+            </TabsList>
+            
+            <TabsContent value="details" className="space-y-6">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                 <div>
-                  <p className="text-sm text-muted-foreground">Fecha de emisión</p>
-                  <p className="font-medium">{formatDate(invoice.issueDate)}</p>
+                  <h3 className="mb-2 text-sm font-medium text-muted-foreground">Cliente</h3>
+                  <p className="font-medium">{client?.name || "Cargando..."}</p>
+                  <p>{client?.email || ""}</p>
+                  <p>{client?.phone || ""}</p>
+                  {billingContact && (
+                    <div className="mt-3">
+                      <h3 className="mb-1 text-sm font-medium text-muted-foreground">Facturar a</h3>
+                      <p className="font-medium">{billingContact.name}</p>
+                      <p>{billingContact.email || "Sin correo electrónico"}</p>
+                    </div>
+                  )}
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Fecha de vencimiento</p>
-                  <p className="font-medium">{formatDate(invoice.dueDate)}</p>
+                  <h3 className="mb-2 text-sm font-medium text-muted-foreground">Proyecto</h3>
+                  <p className="font-medium">{project?.title || "Cargando..."}</p>
+                  <p className="text-sm text-muted-foreground">{project?.address || ""}</p>
                 </div>
               </div>
-              
+          
               <Separator />
+          
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-muted-foreground">Detalles</h3>
+                <div className="rounded-md border border-border">
+                  <div className="grid grid-cols-1 p-4 sm:grid-cols-2">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Fecha de emisión</p>
+                      <p className="font-medium">{formatDate(invoice.issueDate)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Fecha de vencimiento</p>
+                      <p className="font-medium">{formatDate(invoice.dueDate)}</p>
+                    </div>
+                  </div>
+              
+                  <Separator />
               
-              <div className="p-4">
-                <p className="text-sm text-muted-foreground">Notas</p>
-                <p>{invoice.notes || "Sin notas"}</p>
+                  <div className="p-4">
+                    <p className="text-sm text-muted-foreground">Notas</p>
+                    <p>{invoice.notes || "Sin notas"}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
           
-          <Separator />
+              <Separator />
           
-          <div>
-            <h3 className="mb-2 text-sm font-medium text-muted-foreground">Resumen</h3>
-            <div className="rounded-md border border-border p-4">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Subtotal</span>
-                <span>{formatCurrency(Number(invoice.totalAmount))}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Impuestos</span>
-                <span>{formatCurrency(0)}</span>
-              </div>
-              <Separator className="my-2" />
-              <div className="flex justify-between font-bold">
-                <span>Total</span>
-                <span>{formatCurrency(Number(invoice.totalAmount))}</span>
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-muted-foreground">Resumen</h3>
+                <div className="rounded-md border border-border p-4">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Subtotal</span>
+                    <span>{formatCurrency(Number(invoice.totalAmount))}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Impuestos</span>
+                    <span>{formatCurrency(0)}</span>
+                  </div>
+                  <Separator className="my-2" />
+                  <div className="flex justify-between font-bold">
+                    <span>Total</span>
+                    <span>{formatCurrency(Number(invoice.totalAmount))}</span>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </TabsContent>
+            
+            {canViewChanges && (
+              <TabsContent value="history">
+                <AuditHistory entityType="invoice" entityId={invoice.id} />
+              </TabsContent>
+            )}
+          </Tabs>
         </CardContent>
         <CardFooter className="flex justify-between">
           <div className="flex space-x-2">
@@ -276,6 +337,21 @@ export function InvoiceDetail({ invoice, onClose, onSuccess, onDuplicate = () =>
                 Procesar pago
               </Button>
             )}
+            {invoice.status !== "paid" && invoice.status !== "cancelled" && (
+              <Button
+                variant="outline"
+                onClick={() => sendMutation.mutate()}
+                disabled={!recipientEmail || sendMutation.isPending}
+                title={recipientEmail ? `Enviar a ${recipientEmail}` : "El cliente no tiene correo de facturación"}
+              >
+                {sendMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="mr-2 h-4 w-4" />
+                )}
+                Enviar por correo
+              </Button>
+            )}
             {invoice.status === "draft" && (
               <Button
                 onClick={() => updateStatusMutation.mutate("sent")}
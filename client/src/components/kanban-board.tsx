@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from "react";
-import { DragDropContext, Droppable, Draggable, DropResult } from "react-beautiful-dnd";
+import { DragDropContext, Droppable, Draggable, DragStart, DropResult } from "react-beautiful-dnd";
 import { ProjectCard } from "@/components/project-card";
 import { Project } from "@shared/schema";
+import { canTransitionProject, PROJECT_STATUSES, PROJECT_STATUS_LABELS } from "@shared/project-status";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -24,19 +25,14 @@ export function KanbanBoard({ projects, onProjectClick }: KanbanBoardProps) {
   const { toast } = useToast();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [columns, setColumns] = useState<KanbanColumn[]>([]);
+  // Status of the card being dragged, to dim the columns it cannot move to
+  const [draggingStatus, setDraggingStatus] = useState<string | null>(null);
   
   // Initialize columns
   useEffect(() => {
-    const statusColumns: KanbanColumn[] = [
-      { id: "pending", title: "Pending Visit", status: "pending", projects: [] },
-      { id: "quoted", title: "Quote Sent", status: "quoted", projects: [] },
-      { id: "approved", title: "Quote Approved", status: "approved", projects: [] },
-      { id: "preparing", title: "In Preparation", status: "preparing", projects: [] },
-      { id: "in_progress", title: "In Progress", status: "in_progress", projects: [] },
-      { id: "reviewing", title: "Final Review", status: "reviewing", projects: [] },
-      { id: "completed", title: "Completed", status: "completed", projects: [] },
-      { id: "archived", title: "Archived", status: "archived", projects: [] },
-    ];
+    const statusColumns: KanbanColumn[] = PROJECT_STATUSES.map(status => (
+      { id: status, title: PROJECT_STATUS_LABELS[status], status, projects: [] }
+    ));
     
     // Distribute projects to their respective columns
     if (projects) {
@@ -51,8 +47,13 @@ export function KanbanBoard({ projects, onProjectClick }: KanbanBoardProps) {
     setColumns(statusColumns);
   }, [projects]);
   
+  const onDragStart = (start: DragStart) => {
+    setDraggingStatus(start.source.droppableId);
+  };
+
   const onDragEnd = async (result: DropResult) => {
     const { source, destination } = result;
+    setDraggingStatus(null);
     
     // Dropped outside the list
     if (!destination) return;
@@ -118,9 +119,10 @@ export function KanbanBoard({ projects, onProjectClick }: KanbanBoardProps) {
           description: `Project ${movedProject.title} has been moved to ${destColumn.title}`,
         });
       } catch (error) {
+        // The server explains moves the project workflow does not allow
         toast({
-          title: "Error updating project",
-          description: "Could not update project status",
+          title: "Move not allowed",
+          description: (error as Error).message,
           variant: "destructive",
         });
         
@@ -143,7 +145,7 @@ export function KanbanBoard({ projects, onProjectClick }: KanbanBoardProps) {
   };
   
   return (
-    <DragDropContext onDragEnd={onDragEnd}>
+    <DragDropContext onDragStart={onDragStart} onDragEnd={onDragEnd}>
       <div className="relative">
         {/* Navigation Arrows */}
         <Button
@@ -182,7 +184,10 @@ export function KanbanBoard({ projects, onProjectClick }: KanbanBoardProps) {
             {columns.map(column => (
               <div 
                 key={column.id}
-                className="flex flex-col w-56 bg-gray-100 rounded-md min-h-[65vh] flex-shrink-0"
+                className={cn(
+                  "flex flex-col w-56 bg-gray-100 rounded-md min-h-[65vh] flex-shrink-0",
+                  draggingStatus && !canTransitionProject(draggingStatus, column.status) ? "opacity-40" : ""
+                )}
               >
                 <div className="p-3 border-b flex justify-between items-center bg-gray-200 rounded-t-md">
                   <h3 className="font-medium text-gray-900">{column.title}</h3>
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import {
+  DragDropContext,
+  Droppable,
+  Draggable,
+  DropResult,
+  DroppableProvided,
+  DroppableStateSnapshot,
+  DraggableProvided,
+  DraggableStateSnapshot,
+} from "react-beautiful-dnd";
+import { Lead } from "@shared/schema";
+import { type LeadPipeline } from "@shared/lead-pipeline";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { User } from "lucide-react";
+import {
+  LeadScoreBadge,
+  LeadSlaBadge,
+  LostReasonDialog,
+  type LeadOwner,
+} from "@/components/lead-pipeline";
+
+interface LeadBoardProps {
+  leads: Lead[];
+  pipeline: LeadPipeline;
+  owners: LeadOwner[];
+  onLeadClick: (lead: Lead) => void;
+}
+
+interface LeadColumn {
+  status: string;
+  title: string;
+  leads: Lead[];
+}
+
+const buildColumns = (leads: Lead[], pipeline: LeadPipeline): LeadColumn[] =>
+  pipeline.stages.map((stage) => ({
+    status: stage.key,
+    title: stage.label,
+    leads: leads.filter((lead) => lead.status === stage.key),
+  }));
+
+/**
+ * Leads as cards in one column per pipeline stage. Dragging a card moves the
+ * lead to that stage; dropping it on "lost" asks for the reason first.
+ */
+export function LeadBoard({ leads, pipeline, owners, onLeadClick }: LeadBoardProps) {
+  const { toast } = useToast();
+  const [columns, setColumns] = useState<LeadColumn[]>([]);
+  const [pendingLost, setPendingLost] = useState<{ lead: Lead; previous: LeadColumn[] } | null>(null);
+
+  useEffect(() => {
+    setColumns(buildColumns(leads, pipeline));
+  }, [leads, pipeline]);
+
+  const ownerName = (ownerId: number | null) => owners.find((owner) => owner.id === ownerId)?.name;
+
+  const moveLead = async (lead: Lead, status: string, previous: LeadColumn[], lostReason?: string) => {
+    try {
+      await apiRequest("PUT", `/api/leads/${lead.id}`, { status, lostReason });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: "Lead Updated",
+        description: `${lead.name} has been moved to ${columns.find((col) => col.status === status)?.title ?? status}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error updating lead",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      setColumns(previous);
+    }
+  };
+
+  const onDragEnd = (result: DropResult) => {
+    const { source, destination } = result;
+    if (!destination || source.droppableId === destination.droppableId) return;
+
+    const sourceColumn = columns.find((col) => col.status === source.droppableId);
+    const destColumn = columns.find((col) => col.status === destination.droppableId);
+    if (!sourceColumn || !destColumn) return;
+
+    const sourceLeads = [...sourceColumn.leads];
+    const destLeads = [...destColumn.leads];
+    const [movedLead] = sourceLeads.splice(source.index, 1);
+    destLeads.splice(destination.index, 0, { ...movedLead, status: destColumn.status });
+
+    const previous = columns;
+    setColumns(
+      columns.map((col) => {
+        if (col.status === sourceColumn.status) return { ...col, leads: sourceLeads };
+        if (col.status === destColumn.status) return { ...col, leads: destLeads };
+        return col;
+      }),
+    );
+
+    if (destColumn.status === "lost") {
+      setPendingLost({ lead: movedLead, previous });
+    } else {
+      moveLead(movedLead, destColumn.status, previous);
+    }
+  };
+
+  return (
+    <>
+      <DragDropContext onDragEnd={onDragEnd}>
+        <div className="overflow-x-auto pb-4">
+          <div className="flex space-x-3">
+            {columns.map((column) => (
+              <div key={column.status} className="flex flex-col w-56 bg-gray-100 rounded-md min-h-[50vh] flex-shrink-0">
+                <div className="p-3 border-b flex justify-between items-center bg-gray-200 rounded-t-md">
+                  <h3 className="font-medium text-gray-900">{column.title}</h3>
+                  <span className="bg-gray-300 text-gray-700 rounded-full px-2 py-1 text-xs">{column.leads.length}</span>
+                </div>
+                <Droppable droppableId={column.status}>
+                  {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.droppableProps}
+                      className={cn("p-2 flex-1 overflow-y-auto space-y-2", snapshot.isDraggingOver ? "bg-gray-200" : "")}
+                    >
+                      {column.leads.map((lead, index) => (
+                        <Draggable key={lead.id.toString()} draggableId={lead.id.toString()} index={index}>
+                          {(provided: DraggableProvided, snapshot: DraggableStateSnapshot) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.draggableProps}
+                              {...provided.dragHandleProps}
+                              className={cn(snapshot.isDragging ? "opacity-50" : "")}
+                            >
+                              <Card className="cursor-pointer hover:shadow-md" onClick={() => onLeadClick(lead)}>
+                                <CardContent className="p-3 space-y-1">
+                                  <div className="flex items-start justify-between gap-2">
+                                    <p className="font-medium text-sm">{lead.name}</p>
+                                    <LeadScoreBadge lead={lead} pipeline={pipeline} />
+                                  </div>
+                                  {lead.zipCode && <p className="text-xs text-gray-500">ZIP {lead.zipCode}</p>}
+                                  <p className="flex items-center gap-1 text-xs text-gray-500">
+                                    <User className="h-3 w-3" />
+                                    {ownerName(lead.ownerId) ?? "Unassigned"}
+                                  </p>
+                                  <LeadSlaBadge lead={lead} pipeline={pipeline} />
+                                  {lead.status === "lost" && lead.lostReason && (
+                                    <p className="text-xs text-red-600 truncate">{lead.lostReason}</p>
+                                  )}
+                                </CardContent>
+                              </Card>
+                            </div>
+                          )}
+                        </Draggable>
+                      ))}
+                      {provided.placeholder}
+                    </div>
+                  )}
+                </Droppable>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DragDropContext>
+
+      <LostReasonDialog
+        lead={pendingLost?.lead ?? null}
+        onCancel={() => {
+          if (pendingLost) setColumns(pendingLost.previous);
+          setPendingLost(null);
+        }}
+        onConfirm={(lostReason) => {
+          if (pendingLost) moveLead(pendingLost.lead, "lost", pendingLost.previous, lostReason);
+          setPendingLost(null);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Lead, type LeadConversionRequest } from "@shared/schema";
+import { projectDefaultsForLead } from "@shared/lead-pipeline";
+import { PROJECT_SERVICE_TYPES } from "@shared/project-templates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLeadOwners } from "@/components/lead-pipeline";
+import type { ClientMatch } from "@/components/client-duplicates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+
+// Tomorrow at 9:00, in the format of a datetime-local input
+function defaultVisitTime() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T09:00`;
+}
+
+/**
+ * Converts a lead into a client, a pending project and optionally an estimate
+ * visit in one step. Clients that look like the lead are offered to link to
+ * instead of creating a duplicate.
+ */
+export function LeadConversionDialog({ lead, onClose }: { lead: Lead | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const owners = useLeadOwners();
+  const [address, setAddress] = useState("");
+  const [classification, setClassification] = useState<"residential" | "commercial" | "industrial">("residential");
+  // A matching client's id, "new" to create one anyway, or "" when not chosen yet
+  const [clientChoice, setClientChoice] = useState("");
+  const [matchAddress, setMatchAddress] = useState("");
+  const [project, setProject] = useState(() => projectDefaultsForLead({ name: "", service: null, message: null }));
+  const [scheduleVisit, setScheduleVisit] = useState(true);
+  const [visitAt, setVisitAt] = useState(defaultVisitTime);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [assignedUserId, setAssignedUserId] = useState("none");
+  const [visitNotes, setVisitNotes] = useState("");
+
+  useEffect(() => {
+    if (!lead) return;
+    setAddress("");
+    setMatchAddress("");
+    setClassification(lead.service === "commercial-painting" ? "commercial" : "residential");
+    setClientChoice("");
+    setProject(projectDefaultsForLead(lead));
+    setScheduleVisit(true);
+    setVisitAt(defaultVisitTime());
+    setDurationMinutes(60);
+    setAssignedUserId(lead.ownerId?.toString() ?? "none");
+    setVisitNotes("");
+  }, [lead]);
+
+  const matchQuery = lead
+    ? new URLSearchParams({ name: lead.name, email: lead.email, phone: lead.phone, address: matchAddress }).toString()
+    : "";
+  const { data: matches = [] } = useQuery<ClientMatch[]>({
+    queryKey: [`/api/clients/duplicates/check?${matchQuery}`],
+    enabled: !!lead,
+    staleTime: 0,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: LeadConversionRequest) => {
+      const res = await apiRequest("POST", `/api/leads/${lead!.id}/convert`, data);
+      return res.json();
+    },
+    onSuccess: (result: { clientCreated: boolean; visit: unknown }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/estimate-visits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Lead converted",
+        description: [
+          result.clientCreated ? "Client created" : "Linked to the existing client",
+          "pending project created",
+          result.visit ? "estimate visit booked" : null,
+        ].filter(Boolean).join(", ") + ".",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not convert the lead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({
+      clientId: clientChoice && clientChoice !== "new" ? parseInt(clientChoice) : null,
+      createNew: clientChoice === "new",
+      address,
+      classification,
+      project: { ...project, priority: "medium" },
+      visit: scheduleVisit
+        ? {
+            scheduledAt: new Date(visitAt),
+            durationMinutes,
+            assignedUserId: assignedUserId === "none" ? null : parseInt(assignedUserId),
+            notes: visitNotes || null,
+          }
+        : null,
+    });
+  };
+
+  return (
+    <Dialog open={!!lead} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Convert Lead</DialogTitle>
+          <DialogDescription>
+            Create the client and a pending project for {lead?.name}, and book the estimate visit
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-4">
+            <h3 className="font-medium">Client</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="conversion-address">Project address</Label>
+                <Input
+                  id="conversion-address"
+                  required
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  onBlur={() => setMatchAddress(address)}
+                  placeholder={lead?.zipCode ? `Street, city ${lead.zipCode}` : "Street, city, ZIP"}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Classification</Label>
+                <Select value={classification} onValueChange={(value) => setClassification(value as typeof classification)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="residential">Residential</SelectItem>
+                    <SelectItem value="commercial">Commercial</SelectItem>
+                    <SelectItem value="industrial">Industrial</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {matches.length > 0 && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                <div className="mb-2 flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  This client may already exist
+                </div>
+                <RadioGroup value={clientChoice} onValueChange={setClientChoice} className="space-y-1">
+                  {matches.map((match) => (
+                    <div key={match.client.id} className="flex items-center gap-2">
+                      <RadioGroupItem value={match.client.id.toString()} id={`match-${match.client.id}`} />
+                      <Label htmlFor={`match-${match.client.id}`} className="font-normal">
+                        Link to {match.client.name}
+                        {match.client.type === "prospect" ? " (prospect)" : ""} – {match.reasons.join(", ").toLowerCase()}
+                      </Label>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="new" id="match-new" />
+                    <Label htmlFor="match-new" className="font-normal">Create a new client anyway</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-medium">Project</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="conversion-title">Title</Label>
+                <Input
+                  id="conversion-title"
+                  required
+                  value={project.title}
+                  onChange={(e) => setProject({ ...project, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Service Type</Label>
+                <Select value={project.serviceType} onValueChange={(serviceType) => setProject({ ...project, serviceType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROJECT_SERVICE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="conversion-description">Description</Label>
+              <Textarea
+                id="conversion-description"
+                required
+                rows={3}
+                value={project.description}
+                onChange={(e) => setProject({ ...project, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch id="conversion-visit" checked={scheduleVisit} onCheckedChange={setScheduleVisit} />
+              <Label htmlFor="conversion-visit" className="font-medium">Book an estimate visit</Label>
+            </div>
+            {scheduleVisit && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="conversion-visit-at">Date and time</Label>
+                  <Input
+                    id="conversion-visit-at"
+                    type="datetime-local"
+                    required
+                    value={visitAt}
+                    onChange={(e) => setVisitAt(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="conversion-duration">Duration (minutes)</Label>
+                  <Input
+                    id="conversion-duration"
+                    type="number"
+                    min={15}
+                    max={480}
+                    step={15}
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Estimator</Label>
+                  <Select value={assignedUserId} onValueChange={setAssignedUserId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Unassigned</SelectItem>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id.toString()}>
+                          {owner.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 md:col-span-3">
+                  <Label htmlFor="conversion-visit-notes">Visit notes</Label>
+                  <Input id="conversion-visit-notes" value={visitNotes} onChange={(e) => setVisitNotes(e.target.value)} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending || (matches.length > 0 && !clientChoice)}>
+              {mutation.isPending ? "Converting..." : "Convert Lead"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FIXED_LEAD_STAGES, type LeadPipeline, type LeadStage } from "@shared/lead-pipeline";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLeadPipeline } from "@/components/lead-pipeline";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, Plus, Trash, Workflow } from "lucide-react";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const stageKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+/**
+ * Stages, response-time SLA and service area of the lead pipeline. "New" stays
+ * first and "Won"/"Lost" last; they can be renamed but not removed.
+ */
+export function LeadPipelineSettings() {
+  const { toast } = useToast();
+  const saved = useLeadPipeline();
+  const [pipeline, setPipeline] = useState<LeadPipeline>(saved);
+  const [zipCodes, setZipCodes] = useState("");
+  const [newStage, setNewStage] = useState("");
+
+  useEffect(() => {
+    setPipeline(saved);
+    setZipCodes(saved.serviceAreaZipCodes.join(", "));
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: LeadPipeline) => {
+      const res = await apiRequest("POST", "/api/settings/lead-pipeline", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-pipeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Lead pipeline saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving lead pipeline", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isFixed = (stage: LeadStage) => FIXED_LEAD_STAGES.includes(stage.key);
+  const setStages = (stages: LeadStage[]) => setPipeline({ ...pipeline, stages });
+  const lastMovable = pipeline.stages.findIndex((stage) => stage.key === "won") - 1;
+
+  const moveStage = (index: number, offset: number) => {
+    const stages = [...pipeline.stages];
+    [stages[index], stages[index + offset]] = [stages[index + offset], stages[index]];
+    setStages(stages);
+  };
+
+  const addStage = () => {
+    const key = stageKey(newStage);
+    if (!key) return;
+    if (pipeline.stages.some((stage) => stage.key === key)) {
+      toast({ title: "That stage already exists", variant: "destructive" });
+      return;
+    }
+    // New stages go right before "Won"
+    const stages = [...pipeline.stages];
+    stages.splice(lastMovable + 1, 0, { key, label: newStage.trim() });
+    setStages(stages);
+    setNewStage("");
+  };
+
+  const toggleDay = (day: number) => {
+    const days = pipeline.businessHours.days.includes(day)
+      ? pipeline.businessHours.days.filter((d) => d !== day)
+      : [...pipeline.businessHours.days, day].sort((a, b) => a - b);
+    setPipeline({ ...pipeline, businessHours: { ...pipeline.businessHours, days } });
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      ...pipeline,
+      serviceAreaZipCodes: zipCodes.split(/[\s,;]+/).map((zip) => zip.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="w-5 h-5" />
+          Lead Pipeline
+        </CardTitle>
+        <CardDescription>Stages of the leads board, first-contact SLA and the ZIP codes you serve</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Stages</Label>
+          {pipeline.stages.map((stage, index) => (
+            <div key={stage.key} className="flex items-center gap-2">
+              <Input
+                value={stage.label}
+                onChange={(e) =>
+                  setStages(pipeline.stages.map((s, i) => (i === index ? { ...s, label: e.target.value } : s)))
+                }
+                className="max-w-xs"
+              />
+              {!isFixed(stage) && (
+                <>
+                  <Button type="button" variant="ghost" size="icon" disabled={index <= 1} onClick={() => moveStage(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index >= lastMovable}
+                    onClick={() => moveStage(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-600"
+                    onClick={() => setStages(pipeline.stages.filter((_, i) => i !== index))}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="New stage"
+              value={newStage}
+              onChange={(e) => setNewStage(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addStage();
+                }
+              }}
+              className="max-w-xs"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={addStage}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sla-hours">First contact within (business hours)</Label>
+            <Input
+              id="sla-hours"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={pipeline.slaHours}
+              onChange={(e) => setPipeline({ ...pipeline, slaHours: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hours-start">Business hours start</Label>
+            <Input
+              id="hours-start"
+              type="number"
+              min={0}
+              max={23}
+              value={pipeline.businessHours.start}
+              onChange={(e) =>
+                setPipeline({ ...pipeline, businessHours: { ...pipeline.businessHours, start: Number(e.target.value) } })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hours-end">Business hours end</Label>
+            <Input
+              id="hours-end"
+              type="number"
+              min={1}
+              max={24}
+              value={pipeline.businessHours.end}
+              onChange={(e) =>
+                setPipeline({ ...pipeline, businessHours: { ...pipeline.businessHours, end: Number(e.target.value) } })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Business days</Label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((label, day) => (
+              <Button
+                key={label}
+                type="button"
+                size="sm"
+                variant={pipeline.businessHours.days.includes(day) ? "default" : "outline"}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="service-area">Service area ZIP codes</Label>
+          <Textarea
+            id="service-area"
+            rows={2}
+            placeholder="28202, 28203, 28204"
+            value={zipCodes}
+            onChange={(e) => setZipCodes(e.target.value)}
+          />
+          <p className="text-xs text-gray-500">Leads inside the service area score higher; leave empty to skip the check.</p>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Pipeline"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
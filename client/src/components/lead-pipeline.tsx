@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Lead } from "@shared/schema";
+import {
+  DEFAULT_LEAD_PIPELINE,
+  LOST_REASONS,
+  leadSla,
+  scoreLead,
+  stageLabel,
+  type LeadPipeline,
+} from "@shared/lead-pipeline";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Timer } from "lucide-react";
+import { Link } from "wouter";
+
+export interface LeadOwner {
+  id: number;
+  name: string;
+  role: string;
+}
+
+export function useLeadPipeline(enabled = true): LeadPipeline {
+  const { data } = useQuery<LeadPipeline>({ queryKey: ["/api/lead-pipeline"], enabled });
+  return data ?? DEFAULT_LEAD_PIPELINE;
+}
+
+export function useLeadOwners() {
+  const { data } = useQuery<LeadOwner[]>({ queryKey: ["/api/leads/owners"] });
+  return data ?? [];
+}
+
+const formatHours = (hours: number) => (hours < 1 ? `${Math.round(hours * 60)}m` : `${Math.round(hours * 10) / 10}h`);
+
+export function LeadStageBadge({ status, pipeline }: { status: string; pipeline: LeadPipeline }) {
+  const className =
+    status === "won"
+      ? "bg-green-600"
+      : status === "lost"
+        ? "bg-red-600"
+        : status === "new"
+          ? "bg-blue-500"
+          : "bg-yellow-500";
+  return <Badge className={className}>{stageLabel(pipeline, status)}</Badge>;
+}
+
+export function LeadScoreBadge({ lead, pipeline }: { lead: Lead; pipeline: LeadPipeline }) {
+  const { reasons } = scoreLead(lead, pipeline);
+  const className =
+    lead.score >= 60
+      ? "bg-green-100 text-green-800"
+      : lead.score >= 30
+        ? "bg-yellow-100 text-yellow-800"
+        : "bg-gray-100 text-gray-700";
+  return (
+    <Badge variant="outline" className={className} title={reasons.join("\n") || "Nothing to score yet"}>
+      {lead.score}
+    </Badge>
+  );
+}
+
+/**
+ * Business hours waiting for first contact, red once past the SLA. Shows the
+ * response time once the lead has been contacted.
+ */
+export function LeadSlaBadge({ lead, pipeline }: { lead: Lead; pipeline: LeadPipeline }) {
+  const sla = leadSla(lead, pipeline);
+  if (!sla.waiting && !lead.contactedAt) return null;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${sla.breached ? "text-red-600 font-medium" : "text-gray-500"}`}
+      title={`SLA: first contact within ${pipeline.slaHours} business hours`}
+    >
+      {sla.breached && sla.waiting ? <AlertTriangle className="h-3 w-3" /> : <Timer className="h-3 w-3" />}
+      {sla.waiting ? `Waiting ${formatHours(sla.hours)}` : `Answered in ${formatHours(sla.hours)}`}
+    </span>
+  );
+}
+
+/**
+ * Asks why a lead was lost before it is moved to "lost".
+ */
+export function LostReasonDialog({
+  lead,
+  onCancel,
+  onConfirm,
+}: {
+  lead: Lead | null;
+  onCancel: () => void;
+  onConfirm: (lostReason: string) => void;
+}) {
+  const [reason, setReason] = useState(LOST_REASONS[0]);
+  const [details, setDetails] = useState("");
+
+  return (
+    <Dialog open={!!lead} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mark Lead as Lost</DialogTitle>
+          <DialogDescription>Why did {lead?.name} not go ahead?</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onConfirm(details.trim() ? `${reason}: ${details.trim()}` : reason);
+            setDetails("");
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOST_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lost-details">Details</Label>
+            <Textarea id="lost-details" rows={2} value={details} onChange={(e) => setDetails(e.target.value)} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive">
+              Mark as Lost
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dashboard card listing leads still waiting for first contact, overdue ones first.
+ */
+export function LeadSlaWidget() {
+  const pipeline = useLeadPipeline();
+  const { data: leads = [] } = useQuery<Lead[]>({ queryKey: ["/api/leads"] });
+
+  const waiting = leads
+    .map((lead) => ({ lead, sla: leadSla(lead, pipeline) }))
+    .filter(({ sla }) => sla.waiting)
+    .sort((a, b) => b.sla.hours - a.sla.hours);
+  const breached = waiting.filter(({ sla }) => sla.breached).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            Leads Awaiting Contact
+          </span>
+          {breached > 0 && <Badge variant="destructive">{breached} past SLA</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {waiting.length === 0 ? (
+          <p className="text-sm text-gray-500">Every lead has been contacted.</p>
+        ) : (
+          <ul className="space-y-2">
+            {waiting.slice(0, 6).map(({ lead, sla }) => (
+              <li key={lead.id} className="flex items-center justify-between text-sm">
+                <span className={sla.breached ? "text-red-600 font-medium" : ""}>{lead.name}</span>
+                <LeadSlaBadge lead={lead} pipeline={pipeline} />
+              </li>
+            ))}
+          </ul>
+        )}
+        <Link href="/dashboard/leads" className="mt-3 inline-block text-sm text-primary hover:underline">
+          Open lead board
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
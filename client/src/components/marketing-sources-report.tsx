@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bar } from "react-chartjs-2";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Shape of GET /api/reports/marketing-sources
+interface MarketingSourceRow {
+  source: string;
+  leads: number;
+  convertedLeads: number;
+  wonLeads: number;
+  closeRate: number | null;
+  newClients: number;
+  invoiced: number;
+  revenue: number;
+}
+
+const percent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+/**
+ * Revenue and close rate per marketing source for the reports page. Chart.js
+ * components are registered by the page.
+ */
+export function MarketingSourcesReport({
+  start,
+  end,
+  formatCurrency,
+}: {
+  start: Date;
+  end: Date;
+  formatCurrency: (value: number) => string;
+}) {
+  const params = new URLSearchParams({
+    startDate: format(start, "yyyy-MM-dd"),
+    endDate: format(end, "yyyy-MM-dd"),
+  });
+  const { data: rows = [], isLoading } = useQuery<MarketingSourceRow[]>({
+    queryKey: [`/api/reports/marketing-sources?${params}`],
+  });
+
+  const chartData = {
+    labels: rows.map((row) => row.source),
+    datasets: [
+      {
+        label: "Ingresos cobrados",
+        data: rows.map((row) => row.revenue),
+        backgroundColor: "rgba(37, 99, 235, 0.7)",
+      },
+      {
+        label: "Facturado",
+        data: rows.map((row) => row.invoiced),
+        backgroundColor: "rgba(16, 185, 129, 0.5)",
+      },
+    ],
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fuentes de Marketing</CardTitle>
+        <CardDescription>
+          Leads, tasa de cierre e ingresos según cómo nos encontró el cliente (UTM, referencia o respuesta del formulario)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-gray-500 py-10">No hay leads, clientes ni facturas en este periodo.</p>
+        ) : (
+          <>
+            <Bar data={chartData} options={{ responsive: true }} height={80} />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fuente</TableHead>
+                  <TableHead className="text-right">Leads</TableHead>
+                  <TableHead className="text-right">Convertidos</TableHead>
+                  <TableHead className="text-right">Ganados</TableHead>
+                  <TableHead className="text-right">Tasa de cierre</TableHead>
+                  <TableHead className="text-right">Clientes nuevos</TableHead>
+                  <TableHead className="text-right">Facturado</TableHead>
+                  <TableHead className="text-right">Cobrado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.source}>
+                    <TableCell className="font-medium">{row.source}</TableCell>
+                    <TableCell className="text-right">{row.leads}</TableCell>
+                    <TableCell className="text-right">{row.convertedLeads}</TableCell>
+                    <TableCell className="text-right">{row.wonLeads}</TableCell>
+                    <TableCell className="text-right">{percent(row.closeRate)}</TableCell>
+                    <TableCell className="text-right">{row.newClients}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.invoiced)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,9 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertProjectSchema } from "@shared/schema";
+import { insertProjectSchema, ClientProperty } from "@shared/schema";
+import { canTransitionProject, INITIAL_PROJECT_STATUS, PROJECT_STATUSES, PROJECT_STATUS_LABELS } from "@shared/project-status";
+import { PROJECT_SERVICE_TYPES, templateFor } from "@shared/project-templates";
 import { useQuery } from "@tanstack/react-query";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -19,6 +21,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -38,6 +41,7 @@ import { enUS } from "date-fns/locale";
 import { StaffAssignment } from "@/components/staff-assignment";
 import { ImageUpload } from "@/components/ui/image-upload";
 import { ClientForm } from "@/components/client-form";
+import { useProjectTemplates } from "@/components/project-template-settings";
 import {
   Dialog,
   DialogContent,
@@ -55,13 +59,21 @@ const formSchema = insertProjectSchema
   .omit({ 
     assignedStaff: true,
     images: true,
-    documents: true
+    documents: true,
+    safetyRequirements: true,
+    materials: true
   });
 
 type ProjectFormValues = z.infer<typeof formSchema>;
 
 interface ProjectFormProps {
-  initialData?: ProjectFormValues & { id?: number; assignedStaff?: number[] };
+  initialData?: ProjectFormValues & {
+    id?: number;
+    assignedStaff?: number[];
+    progress?: number | null;
+    safetyRequirements?: string[] | null;
+    materials?: string[] | null;
+  };
   onSuccess: () => void;
 }
 
@@ -77,6 +89,12 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
     initialData?.documents as any[] || []
   );
   const [showClientForm, setShowClientForm] = useState(false);
+  // Typed one per line
+  const [safetyRequirements, setSafetyRequirements] = useState(initialData?.safetyRequirements?.join("\n") ?? "");
+  const [materials, setMaterials] = useState(initialData?.materials?.join("\n") ?? "");
+  // New projects start from the template of their service type
+  const [fromTemplate, setFromTemplate] = useState(!initialData?.id);
+  const templates = useProjectTemplates(!initialData?.id);
 
   // Fetch clients for the dropdown
   const { data: clients } = useQuery({
@@ -97,10 +115,41 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
       serviceType: "",
       status: "pending",
       priority: "medium",
-      progress: 0,
     },
   });
 
+  // Projects take place at one of the client's properties
+  const selectedClientId = form.watch("clientId");
+  const { data: properties } = useQuery<ClientProperty[]>({
+    queryKey: [`/api/clients/${selectedClientId}/properties`],
+    enabled: !!selectedClientId,
+  });
+
+  const selectProperty = (property: ClientProperty) => {
+    form.setValue("propertyId", property.id);
+    form.setValue("address", property.address);
+  };
+
+  // Default to the client's primary property once its properties load
+  useEffect(() => {
+    if (properties && !form.getValues("propertyId") && !form.getValues("address")) {
+      const primary = properties.find((property) => property.isPrimary) ?? properties[0];
+      if (primary) selectProperty(primary);
+    }
+  }, [properties]);
+
+  // Fill in what the template of the chosen service type has and the form does not yet
+  const selectedServiceType = form.watch("serviceType");
+  const template = !initialData?.id ? templateFor(templates, selectedServiceType) : undefined;
+  useEffect(() => {
+    if (!template || !fromTemplate) return;
+    if (!form.getValues("description")) form.setValue("description", template.description);
+    if (!safetyRequirements) setSafetyRequirements(template.safetyRequirements.join("\n"));
+    if (!materials) setMaterials(template.materials.join("\n"));
+  }, [template, fromTemplate]);
+
+  const toLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
   // Create or update mutation
   const mutation = useMutation({
     mutationFn: async (data: ProjectFormValues) => {
@@ -110,6 +159,9 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
         assignedStaff,
         images,
         documents,
+        safetyRequirements: toLines(safetyRequirements),
+        materials: toLines(materials),
+        fromTemplate: !!template && fromTemplate,
       };
 
       console.log("Project mutation data:", projectData);
@@ -222,11 +274,9 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
                     const clientId = parseInt(value);
                     field.onChange(clientId);
                     
-                    // Auto-populate address when client is selected
-                    const selectedClient = clients?.find((client: any) => client.id === clientId);
-                    if (selectedClient?.address) {
-                      form.setValue('address', selectedClient.address);
-                    }
+                    // The new client's primary property is picked once its properties load
+                    form.setValue("propertyId", null);
+                    form.setValue("address", "");
                   }}
                   value={field.value?.toString()}
                 >
@@ -268,16 +318,39 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
 
         <FormField
           control={form.control}
-          name="address"
+          name="propertyId"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Address</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Complete project address"
-                  {...field}
-                />
-              </FormControl>
+              <FormLabel>Property</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  const property = properties?.find((p) => p.id === parseInt(value));
+                  if (property) selectProperty(property);
+                }}
+                value={field.value?.toString() ?? ""}
+                disabled={!selectedClientId}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={selectedClientId ? "Select a property" : "Select a client first"} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {properties?.map((property) => (
+                    <SelectItem key={property.id} value={property.id.toString()}>
+                      {property.name ? `${property.name} — ${property.address}` : property.address}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedClientId && properties?.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  This client has no properties yet. Add one from the client's details.
+                </p>
+              )}
+              {form.formState.errors.address && !field.value && (
+                <p className="text-sm font-medium text-destructive">A property is required</p>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -300,12 +373,11 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="Interior Painting">Interior Painting</SelectItem>
-                    <SelectItem value="Exterior Painting">Exterior Painting</SelectItem>
-                    <SelectItem value="Interior and Exterior Painting">Interior and Exterior Painting</SelectItem>
-                    <SelectItem value="Industrial Painting">Industrial Painting</SelectItem>
-                    <SelectItem value="Commercial Painting">Commercial Painting</SelectItem>
-                    <SelectItem value="Residential Painting">Residential Painting</SelectItem>
+                    {PROJECT_SERVICE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -339,6 +411,44 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
           />
         </div>
 
+        {template && (
+          <div className="flex items-start gap-3 rounded-md border p-3">
+            <Switch id="from-template" checked={fromTemplate} onCheckedChange={setFromTemplate} />
+            <div className="space-y-1">
+              <label htmlFor="from-template" className="text-sm font-medium">
+                Start from the {template.serviceType} template
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Adds {template.tasks.length} tasks and a draft quote with {template.quoteLines.length} lines.
+                Typical duration {template.durationDays} days; the due date is set from it when left empty.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="safety-requirements" className="text-sm font-medium">Safety Requirements</label>
+            <Textarea
+              id="safety-requirements"
+              rows={4}
+              placeholder="One per line"
+              value={safetyRequirements}
+              onChange={(e) => setSafetyRequirements(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="materials" className="text-sm font-medium">Materials</label>
+            <Textarea
+              id="materials"
+              rows={4}
+              placeholder="One per line"
+              value={materials}
+              onChange={(e) => setMaterials(e.target.value)}
+            />
+          </div>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <FormField
             control={form.control}
@@ -384,14 +494,16 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="pending">Pending Visit</SelectItem>
-                    <SelectItem value="quoted">Quote Sent</SelectItem>
-                    <SelectItem value="approved">Quote Approved</SelectItem>
-                    <SelectItem value="preparing">In Preparation</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="reviewing">Final Review</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    {/* Only the moves the project workflow allows; new projects start as pending */}
+                    {PROJECT_STATUSES.map((status) => (
+                      <SelectItem
+                        key={status}
+                        value={status}
+                        disabled={initialData?.id ? !canTransitionProject(initialData.status ?? INITIAL_PROJECT_STATUS, status) : status !== INITIAL_PROJECT_STATUS}
+                      >
+                        {PROJECT_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -399,25 +511,13 @@ export function ProjectForm({ initialData, onSuccess }: ProjectFormProps) {
             )}
           />
 
-          <FormField
-            control={form.control}
-            name="progress"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Progress (%)</FormLabel>
-                <FormControl>
-                  <Input
-                    type="number"
-                    min="0"
-                    max="100"
-                    {...field}
-                    onChange={(e) => field.onChange(parseInt(e.target.value || "0"))}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          {/* Progress follows the project's task list */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Progress</p>
+            <p className="text-sm text-gray-500 pt-2">
+              {initialData?.progress ?? 0}% – updated as tasks are completed
+            </p>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
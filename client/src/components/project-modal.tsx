@@ -10,10 +10,14 @@ import { Button } from "@/components/ui/button";
 import { Project, Client, Staff } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { MapPin, Calendar, Clock } from "lucide-react";
+import { MapPin, Calendar, Clock, Package, ShieldCheck } from "lucide-react";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { Badge } from "@/components/ui/badge";
+import { ProjectTaskList } from "@/components/project-tasks";
+import { ProjectChangeOrders } from "@/components/change-orders";
+import { ProjectPunchList } from "@/components/punch-list";
+import { useAuth } from "@/hooks/use-auth";
 import worker1 from "@/assets/images/worker1.svg";
 import worker2 from "@/assets/images/worker2.svg";
 import worker3 from "@/assets/images/worker3.svg";
@@ -33,6 +37,8 @@ interface ProjectModalProps {
 }
 
 export function ProjectModal({ open, onOpenChange, project, onEdit }: ProjectModalProps) {
+  const { can } = useAuth();
+  
   // Fetch client data
   const { data: client } = useQuery<Client>({
     queryKey: ["/api/clients", project?.clientId],
@@ -145,7 +151,7 @@ export function ProjectModal({ open, onOpenChange, project, onEdit }: ProjectMod
   
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Project Details</DialogTitle>
           <DialogDescription>
@@ -225,6 +231,43 @@ export function ProjectModal({ open, onOpenChange, project, onEdit }: ProjectMod
               </div>
             )}
             
+            {(project.safetyRequirements?.length || project.materials?.length) ? (
+              <div className="grid grid-cols-2 gap-4">
+                {project.safetyRequirements && project.safetyRequirements.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-500 flex items-center">
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Safety Requirements
+                    </h4>
+                    <ul className="mt-1 list-disc pl-5 text-sm text-gray-900">
+                      {project.safetyRequirements.map((item) => (
+                        <li key={item}>{item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {project.materials && project.materials.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-500 flex items-center">
+                      <Package className="h-4 w-4 mr-1" />
+                      Materials
+                    </h4>
+                    <ul className="mt-1 list-disc pl-5 text-sm text-gray-900">
+                      {project.materials.map((item) => (
+                        <li key={item}>{item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : null}
+            
+            <ProjectTaskList projectId={project.id} />
+            
+            {can("quotes") && <ProjectChangeOrders project={project} />}
+            
+            {["reviewing", "completed", "archived"].includes(project.status) && <ProjectPunchList project={project} />}
+            
             <div>
               <h4 className="text-sm font-medium text-gray-500">Project Images</h4>
               <div className="grid grid-cols-3 gap-2 mt-1">
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ProjectTask, Staff, Subcontractor } from "@shared/schema";
+import { projectProgress, taskAssigneeKey, type ChecklistItem } from "@shared/project-tasks";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Calendar, ChevronDown, ChevronRight, ListChecks, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+type TaskUpdate = Partial<{
+  title: string;
+  checklist: ChecklistItem[];
+  assigneeType: "staff" | "subcontractor" | null;
+  assigneeId: number | null;
+  dueDate: string | null;
+  completed: boolean;
+}>;
+
+// Staff and subcontractors tasks can be assigned to, keyed like taskAssigneeKey
+export function useAssignees() {
+  const { data: staff = [] } = useQuery<Staff[]>({ queryKey: ["/api/staff"] });
+  const { data: subcontractors = [] } = useQuery<Subcontractor[]>({ queryKey: ["/api/subcontractors"] });
+  return [
+    ...staff.map((member) => ({ key: `staff:${member.id}`, name: member.name, kind: "Staff" })),
+    ...subcontractors
+      .filter((subcontractor) => subcontractor.status === "active")
+      .map((subcontractor) => ({ key: `subcontractor:${subcontractor.id}`, name: subcontractor.name, kind: "Subcontractor" })),
+  ];
+}
+
+// "staff:3" → the assignee fields of a task; "none" clears them
+export function assigneeFields(key: string) {
+  if (key === "none") return { assigneeType: null, assigneeId: null };
+  const [type, id] = key.split(":");
+  return { assigneeType: type as "staff" | "subcontractor", assigneeId: parseInt(id) };
+}
+
+/**
+ * Ordered task list of a project with checklists, assignees and due dates.
+ * Ticking tasks off drives the project's progress.
+ */
+export function ProjectTaskList({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const assignees = useAssignees();
+  const [filter, setFilter] = useState("all");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [newAssignee, setNewAssignee] = useState("none");
+  const [newDueDate, setNewDueDate] = useState("");
+  const [newItem, setNewItem] = useState("");
+
+  const tasksKey = `/api/projects/${projectId}/tasks`;
+  const { data: tasks = [], isLoading } = useQuery<ProjectTask[]>({ queryKey: [tasksKey] });
+
+  // Progress is stored on the project, so project lists refresh too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [tasksKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", tasksKey, {
+        title: newTitle,
+        ...assigneeFields(newAssignee),
+        dueDate: newDueDate || null,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setNewTitle("");
+      setNewDueDate("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ task, changes }: { task: ProjectTask; changes: TaskUpdate }) =>
+      apiRequest("PUT", `${tasksKey}/${task.id}`, changes),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (task: ProjectTask) => apiRequest("DELETE", `${tasksKey}/${task.id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (taskIds: number[]) => apiRequest("PUT", `${tasksKey}/order`, { taskIds }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const moveTask = (index: number, offset: number) => {
+    const ids = tasks.map((task) => task.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const updateChecklist = (task: ProjectTask, checklist: ChecklistItem[]) => {
+    updateMutation.mutate({ task, changes: { checklist } });
+  };
+
+  const addChecklistItem = (task: ProjectTask) => {
+    if (!newItem.trim()) return;
+    updateChecklist(task, [...task.checklist, { text: newItem.trim(), done: false }]);
+    setNewItem("");
+  };
+
+  const assigneeName = (task: ProjectTask) => {
+    const key = taskAssigneeKey(task);
+    return key ? assignees.find((assignee) => assignee.key === key)?.name ?? "Unknown" : "Unassigned";
+  };
+
+  // Only people with tasks on this project are offered in the filter
+  const assignedKeys = new Set(tasks.map(taskAssigneeKey));
+  const visibleTasks = tasks.filter((task) =>
+    filter === "all" ? true : filter === "none" ? !taskAssigneeKey(task) : taskAssigneeKey(task) === filter
+  );
+  const progress = projectProgress(tasks);
+  const isOverdue = (task: ProjectTask) => !task.completedAt && !!task.dueDate && new Date(task.dueDate) < new Date();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium text-gray-500 flex items-center">
+          <ListChecks className="h-4 w-4 mr-1" />
+          Tasks
+        </h4>
+        {tasks.length > 0 && (
+          <Select value={filter} onValueChange={setFilter}>
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {assignees
+                .filter((assignee) => assignedKeys.has(assignee.key))
+                .map((assignee) => (
+                  <SelectItem key={assignee.key} value={assignee.key}>
+                    {assignee.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {tasks.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <Progress value={progress} className="h-2" />
+          <span className="w-24 text-right">
+            {tasks.filter((task) => task.completedAt).length}/{tasks.length} done
+          </span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : visibleTasks.length > 0 ? (
+        <div className="space-y-2">
+          {visibleTasks.map((task) => {
+            const index = tasks.indexOf(task);
+            const itemsDone = task.checklist.filter((item) => item.done).length;
+            return (
+              <div key={task.id} className="rounded-md border p-2 text-sm">
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={!!task.completedAt}
+                    onCheckedChange={(checked) => updateMutation.mutate({ task, changes: { completed: checked === true } })}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <button
+                      type="button"
+                      className={cn("flex items-center text-left font-medium", task.completedAt && "line-through text-gray-400")}
+                      onClick={() => setExpanded(expanded === task.id ? null : task.id)}
+                    >
+                      {expanded === task.id ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+                      {task.title}
+                    </button>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+                      <span>{assigneeName(task)}</span>
+                      {task.dueDate && (
+                        <span className={cn("flex items-center", isOverdue(task) && "text-red-600")}>
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {format(new Date(task.dueDate), "MMM d")}
+                        </span>
+                      )}
+                      {task.checklist.length > 0 && <span>{itemsDone}/{task.checklist.length} items</span>}
+                      {task.completedAt && <span>Done {format(new Date(task.completedAt), "MMM d, h:mm a")}</span>}
+                    </div>
+                  </div>
+                  {filter === "all" && (
+                    <>
+                      <Button type="button" variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => moveTask(index, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={index === tasks.length - 1}
+                        onClick={() => moveTask(index, 1)}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-red-600"
+                    onClick={() => deleteMutation.mutate(task)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+
+                {expanded === task.id && (
+                  <div className="mt-2 ml-6 space-y-2">
+                    <Select
+                      value={taskAssigneeKey(task) ?? "none"}
+                      onValueChange={(key) => updateMutation.mutate({ task, changes: assigneeFields(key) })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {assignees.map((assignee) => (
+                          <SelectItem key={assignee.key} value={assignee.key}>
+                            {assignee.name} ({assignee.kind})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {task.checklist.map((item, itemIndex) => (
+                      <div key={itemIndex} className="flex items-center gap-2">
+                        <Checkbox
+                          checked={item.done}
+                          onCheckedChange={(checked) =>
+                            updateChecklist(
+                              task,
+                              task.checklist.map((i, n) => (n === itemIndex ? { ...i, done: checked === true } : i))
+                            )
+                          }
+                        />
+                        <span className={cn("flex-1", item.done && "line-through text-gray-400")}>{item.text}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => updateChecklist(task, task.checklist.filter((_, n) => n !== itemIndex))}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-2">
+                      <Input
+                        className="h-8"
+                        placeholder="Add checklist item"
+                        value={newItem}
+                        onChange={(e) => setNewItem(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            addChecklistItem(task);
+                          }
+                        }}
+                      />
+                      <Button type="button" variant="outline" size="sm" onClick={() => addChecklistItem(task)}>
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{tasks.length > 0 ? "No tasks for this person" : "No tasks yet"}</p>
+      )}
+
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (newTitle.trim()) createMutation.mutate();
+        }}
+      >
+        <Input
+          className="h-8 flex-1 min-w-[10rem]"
+          placeholder="New task"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+        />
+        <Select value={newAssignee} onValueChange={setNewAssignee}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Unassigned</SelectItem>
+            {assignees.map((assignee) => (
+              <SelectItem key={assignee.key} value={assignee.key}>
+                {assignee.name} ({assignee.kind})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="date" className="h-8 w-36" value={newDueDate} onChange={(e) => setNewDueDate(e.target.value)} />
+        <Button type="submit" size="sm" disabled={createMutation.isPending || !newTitle.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  DEFAULT_PROJECT_TEMPLATES,
+  PROJECT_SERVICE_TYPES,
+  templateFor,
+  type ProjectTemplate,
+} from "@shared/project-templates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ClipboardList, Plus, Trash } from "lucide-react";
+
+export function useProjectTemplates(enabled = true): ProjectTemplate[] {
+  const { data } = useQuery<ProjectTemplate[]>({ queryKey: ["/api/project-templates"], enabled });
+  return data ?? DEFAULT_PROJECT_TEMPLATES;
+}
+
+// A template as edited: lists are typed one item per line
+interface TemplateDraft {
+  description: string;
+  durationDays: number;
+  tasks: string;
+  safetyRequirements: string;
+  materials: string;
+  quoteLines: ProjectTemplate["quoteLines"];
+}
+
+const toLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+// Tasks are written one per line, with their checklist items below them starting with "-"
+function tasksToText(tasks: ProjectTemplate["tasks"]) {
+  return tasks.map((task) => [task.title, ...task.checklist.map((item) => `- ${item}`)].join("\n")).join("\n");
+}
+
+function textToTasks(text: string): ProjectTemplate["tasks"] {
+  const tasks: ProjectTemplate["tasks"] = [];
+  for (const line of toLines(text)) {
+    if (line.startsWith("-") && tasks.length > 0) {
+      const item = line.replace(/^-\s*/, "");
+      if (item) tasks[tasks.length - 1].checklist.push(item);
+    } else {
+      tasks.push({ title: line.replace(/^-\s*/, ""), checklist: [] });
+    }
+  }
+  return tasks;
+}
+
+function toDraft(template: ProjectTemplate | undefined): TemplateDraft {
+  return {
+    description: template?.description ?? "",
+    durationDays: template?.durationDays ?? 5,
+    tasks: tasksToText(template?.tasks ?? []),
+    safetyRequirements: (template?.safetyRequirements ?? []).join("\n"),
+    materials: (template?.materials ?? []).join("\n"),
+    quoteLines: template?.quoteLines ?? [],
+  };
+}
+
+/**
+ * What a new project of each service type starts with: description, typical
+ * duration, task list, safety requirements, materials and draft quote lines.
+ */
+export function ProjectTemplateSettings() {
+  const { toast } = useToast();
+  const saved = useProjectTemplates();
+  const [serviceType, setServiceType] = useState(PROJECT_SERVICE_TYPES[0]);
+  const [drafts, setDrafts] = useState<Record<string, TemplateDraft>>({});
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(PROJECT_SERVICE_TYPES.map((type) => [type, toDraft(templateFor(saved, type))])));
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (templates: ProjectTemplate[]) => {
+      const res = await apiRequest("POST", "/api/settings/project-templates", templates);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/project-templates"] });
+      toast({ title: "Project templates saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving project templates", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const draft = drafts[serviceType] ?? toDraft(undefined);
+  const setDraft = (changes: Partial<TemplateDraft>) => setDrafts({ ...drafts, [serviceType]: { ...draft, ...changes } });
+  const setQuoteLine = (index: number, changes: Partial<ProjectTemplate["quoteLines"][number]>) =>
+    setDraft({ quoteLines: draft.quoteLines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+
+  const handleSave = () => {
+    saveMutation.mutate(
+      Object.entries(drafts).map(([type, d]) => ({
+        serviceType: type,
+        description: d.description.trim(),
+        durationDays: d.durationDays,
+        tasks: textToTasks(d.tasks),
+        safetyRequirements: toLines(d.safetyRequirements),
+        materials: toLines(d.materials),
+        quoteLines: d.quoteLines.filter((line) => line.description.trim()),
+      })),
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Project Templates
+        </CardTitle>
+        <CardDescription>What new projects start with for each service type, including a draft quote</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Service type</Label>
+            <Select value={serviceType} onValueChange={setServiceType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROJECT_SERVICE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-duration">Typical duration (days)</Label>
+            <Input
+              id="template-duration"
+              type="number"
+              min={1}
+              max={365}
+              value={draft.durationDays}
+              onChange={(e) => setDraft({ durationDays: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-description">Description</Label>
+          <Textarea
+            id="template-description"
+            rows={3}
+            value={draft.description}
+            onChange={(e) => setDraft({ description: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-tasks">Tasks</Label>
+          <Textarea
+            id="template-tasks"
+            rows={8}
+            value={draft.tasks}
+            onChange={(e) => setDraft({ tasks: e.target.value })}
+          />
+          <p className="text-xs text-gray-500">One task per line. Lines starting with "-" are checklist items of the task above.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-safety">Safety requirements</Label>
+            <Textarea
+              id="template-safety"
+              rows={5}
+              value={draft.safetyRequirements}
+              onChange={(e) => setDraft({ safetyRequirements: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-materials">Materials</Label>
+            <Textarea
+              id="template-materials"
+              rows={5}
+              value={draft.materials}
+              onChange={(e) => setDraft({ materials: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Draft quote lines</Label>
+          {draft.quoteLines.map((line, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={line.description}
+                placeholder="Description"
+                onChange={(e) => setQuoteLine(index, { description: e.target.value })}
+              />
+              <Select value={line.area} onValueChange={(area) => setQuoteLine(index, { area: area as "interior" | "exterior" })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="interior">Interior</SelectItem>
+                  <SelectItem value="exterior">Exterior</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                className="w-28"
+                value={line.price}
+                onChange={(e) => setQuoteLine(index, { price: Number(e.target.value) })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-red-600"
+                onClick={() => setDraft({ quoteLines: draft.quoteLines.filter((_, i) => i !== index) })}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft({ quoteLines: [...draft.quoteLines, { area: "interior", description: "", price: 0 }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add line
+          </Button>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save Templates"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Project, PunchListItem } from "@shared/schema";
+import { taskAssigneeKey } from "@shared/project-tasks";
+import { openPunchItems, PUNCH_ITEM_STATUS_LABELS, type PunchItemStatus } from "@shared/punch-list";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { assigneeFields, useAssignees } from "@/components/project-tasks";
+import { SignaturePad } from "@/components/signature-pad";
+import { ImageUpload } from "@/components/ui/image-upload";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, ClipboardCheck, MapPin, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+const STATUS_CLASSES: Record<PunchItemStatus, string> = {
+  open: "bg-red-100 text-red-800",
+  closed: "bg-green-100 text-green-800",
+  waived: "bg-gray-100 text-gray-800",
+};
+
+/**
+ * Punch list of the final walkthrough: defects with a photo and who fixes
+ * them, closed with a photo of the fix, and the client's sign-off. The
+ * project cannot be completed while items are open.
+ */
+export function ProjectPunchList({ project }: { project: Project }) {
+  const { toast } = useToast();
+  const assignees = useAssignees();
+  const [adding, setAdding] = useState(false);
+  const [location, setLocation] = useState("");
+  const [description, setDescription] = useState("");
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [responsible, setResponsible] = useState("none");
+  const [closing, setClosing] = useState<number | null>(null);
+  const [resolutionPhoto, setResolutionPhoto] = useState<string | null>(null);
+  const [signedBy, setSignedBy] = useState("");
+  const [waivedIds, setWaivedIds] = useState<number[]>([]);
+
+  const punchListKey = `/api/projects/${project.id}/punch-list`;
+  const { data: items = [], isLoading } = useQuery<PunchListItem[]>({ queryKey: [punchListKey] });
+  const inReview = project.status === "reviewing";
+  const openItems = openPunchItems(items);
+  // Every open item must be closed or explicitly waived by the client
+  const readyToSign = openItems.every((item) => waivedIds.includes(item.id));
+
+  // Sign-off changes the project and the items it waives
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [punchListKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { assigneeType, assigneeId } = assigneeFields(responsible);
+      return apiRequest("POST", punchListKey, {
+        location,
+        description,
+        photo,
+        responsibleType: assigneeType,
+        responsibleId: assigneeId,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setAdding(false);
+      setLocation("");
+      setDescription("");
+      setPhoto(null);
+      setResponsible("none");
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (item: PunchListItem) => apiRequest("POST", `${punchListKey}/${item.id}/close`, { resolutionPhoto }),
+    onSuccess: () => {
+      invalidate();
+      setClosing(null);
+      setResolutionPhoto(null);
+    },
+    onError,
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (item: PunchListItem) => apiRequest("POST", `${punchListKey}/${item.id}/reopen`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (item: PunchListItem) => apiRequest("DELETE", `${punchListKey}/${item.id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const signOffMutation = useMutation({
+    mutationFn: async (signatureData: string) =>
+      apiRequest("POST", `${punchListKey}/sign-off`, {
+        signedBy,
+        signatureData,
+        waivedItemIds: waivedIds.filter((id) => openItems.some((item) => item.id === id)),
+      }),
+    onSuccess: () => {
+      invalidate();
+      setSignedBy("");
+      setWaivedIds([]);
+      toast({ title: "Walkthrough signed off" });
+    },
+    onError,
+  });
+
+  const responsibleName = (item: PunchListItem) => {
+    const key = taskAssigneeKey({ assigneeType: item.responsibleType, assigneeId: item.responsibleId });
+    return key ? assignees.find((assignee) => assignee.key === key)?.name ?? "Unknown" : "Unassigned";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-500 flex items-center">
+          <ClipboardCheck className="h-4 w-4 mr-1" />
+          Punch List
+          {items.length > 0 && (
+            <span className="ml-2 text-xs font-normal">
+              {openItems.length} open of {items.length}
+            </span>
+          )}
+        </h4>
+        {inReview && !adding && (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add item
+          </Button>
+        )}
+      </div>
+
+      {adding && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="punch-location">Location</Label>
+              <Input
+                id="punch-location"
+                placeholder="e.g. Kitchen, ceiling by the window"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Responsible</Label>
+              <Select value={responsible} onValueChange={setResponsible}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.key} value={assignee.key}>
+                      {assignee.name} ({assignee.kind})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="punch-description">Defect</Label>
+            <Input id="punch-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <ImageUpload
+            label="Photo"
+            multiple={false}
+            value={photo ? [photo] : []}
+            onChange={(files) => setPhoto(files[0] ?? null)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={!location.trim() || !description.trim() || createMutation.isPending}
+            >
+              Save item
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {inReview ? "No defects recorded in the walkthrough." : "The punch list is kept during the final review."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) => {
+            const status = item.status as PunchItemStatus;
+            return (
+              <div key={item.id} className="rounded-md border p-2 text-sm space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{item.description}</p>
+                    <p className="text-xs text-gray-500 flex items-center">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {item.location} · {responsibleName(item)}
+                    </p>
+                    {item.resolvedAt && (
+                      <p className="text-xs text-gray-500">Fixed {format(new Date(item.resolvedAt), "MMM d, yyyy")}</p>
+                    )}
+                    {item.waivedBy && <p className="text-xs text-gray-500">Accepted as is by {item.waivedBy}</p>}
+                  </div>
+                  <Badge className={STATUS_CLASSES[status]}>{PUNCH_ITEM_STATUS_LABELS[status]}</Badge>
+                  {status === "open" && inReview && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-green-600"
+                      title="Close with a photo of the fix"
+                      onClick={() => {
+                        setClosing(closing === item.id ? null : item.id);
+                        setResolutionPhoto(null);
+                      }}
+                    >
+                      <CheckCircle2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {status === "closed" && inReview && (
+                    <Button variant="ghost" size="icon" title="Reopen" onClick={() => reopenMutation.mutate(item)}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {status !== "waived" && inReview && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-600"
+                      title="Delete"
+                      onClick={() => deleteMutation.mutate(item)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {(item.photo || item.resolutionPhoto) && (
+                  <div className="flex gap-2">
+                    {item.photo && <img src={item.photo} alt="Defect" className="h-20 w-20 rounded object-cover" />}
+                    {item.resolutionPhoto && (
+                      <img src={item.resolutionPhoto} alt="Fix" className="h-20 w-20 rounded object-cover border-2 border-green-400" />
+                    )}
+                  </div>
+                )}
+                {closing === item.id && (
+                  <div className="space-y-2 border-t pt-2">
+                    <ImageUpload
+                      label="Photo of the fix"
+                      multiple={false}
+                      value={resolutionPhoto ? [resolutionPhoto] : []}
+                      onChange={(files) => setResolutionPhoto(files[0] ?? null)}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => closeMutation.mutate(item)}
+                      disabled={!resolutionPhoto || closeMutation.isPending}
+                    >
+                      Close item
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {project.walkthroughSignedAt ? (
+        <div className="rounded-md border p-3 text-sm">
+          <p className="font-medium">
+            Walkthrough signed off by {project.walkthroughSignedBy} on{" "}
+            {format(new Date(project.walkthroughSignedAt), "MMM d, yyyy")}
+          </p>
+          {project.walkthroughSignature && (
+            <img src={project.walkthroughSignature} alt="Client signature" className="mt-2 max-h-24" />
+          )}
+        </div>
+      ) : inReview && (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm font-medium">Client sign-off</p>
+          {openItems.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-amber-700">
+                Close the open items, or tick the ones the client accepts as is.
+              </p>
+              {openItems.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    id={`waive-${item.id}`}
+                    checked={waivedIds.includes(item.id)}
+                    onCheckedChange={(checked) =>
+                      setWaivedIds((ids) => (checked ? [...ids, item.id] : ids.filter((id) => id !== item.id)))
+                    }
+                  />
+                  <Label htmlFor={`waive-${item.id}`} className="font-normal">
+                    {item.description} ({item.location})
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          <Input placeholder="Name of the person signing" value={signedBy} onChange={(e) => setSignedBy(e.target.value)} />
+          {signedBy.trim() && readyToSign && <SignaturePad onSave={(signatureData) => signOffMutation.mutate(signatureData)} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,16 @@ import { useState } from "react";
 import { Quote, Project, Client } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { FileDown, Printer, Eye, X, Check, ArrowRight } from "lucide-react";
+import { FileDown, Printer, Eye, X, Check, ArrowRight, History } from "lucide-react";
 import { format } from "date-fns";
 import { enUS } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AuditHistory } from "@/components/audit-history";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany, companyAddressLines } from "@/hooks/use-company";
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
 
@@ -27,6 +30,9 @@ export function QuoteDetail({ quote, project, client, onClose, open }: QuoteDeta
   const { toast } = useToast();
   const [isApproving, setIsApproving] = useState(false);
   const [isRejecting, setIsRejecting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { can } = useAuth();
+  const { company } = useCompany();
 
   // Mutation to approve the quote
   const approvalMutation = useMutation({
@@ -281,7 +287,7 @@ export function QuoteDetail({ quote, project, client, onClose, open }: QuoteDeta
       });
       
       // Generate a filename for the PDF
-      const filename = `Dovalina_Painting_Quote_${quote.id}_${project?.title || 'Project'}.pdf`.replace(/\s+/g, '_');
+      const filename = `${company?.name || 'Company'}_Quote_${quote.id}_${project?.title || 'Project'}.pdf`.replace(/\s+/g, '_');
       
       // Capture the content as an image using html2canvas
       const canvas = await html2canvas(printableContent, {
@@ -393,11 +399,10 @@ export function QuoteDetail({ quote, project, client, onClose, open }: QuoteDeta
           {/* Company information header */}
           <div className="flex justify-between items-start border-b pb-4 mb-6 company-header">
             <div>
-              <h1 className="text-2xl font-bold company-name">DOVALINA PRO PAINTERS</h1>
-              <p>3731 Aster Drive</p>
-              <p>Charlotte, N.C. 28227</p>
-              <p>704-506-9741</p>
-              <p>contact@dovalinapropainters.com</p>
+              <h1 className="text-2xl font-bold company-name">{company?.name.toUpperCase()}</h1>
+              {companyAddressLines(company).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
             </div>
             <div className="text-right quote-info">
               <h2 className="text-xl font-semibold">Quote #{quote.id}</h2>
@@ -526,6 +531,16 @@ export function QuoteDetail({ quote, project, client, onClose, open }: QuoteDeta
           )}
         </div>
         
+        {/* Change history - not printed */}
+        {showHistory && (
+          <Card className="mb-6 print:hidden">
+            <CardContent className="p-4">
+              <h3 className="text-lg font-semibold mb-4">Change History</h3>
+              <AuditHistory entityType="quote" entityId={quote.id} />
+            </CardContent>
+          </Card>
+        )}
+        
         {/* Action buttons - not printed */}
         <div className="flex justify-between items-center print:hidden">
           <div>
@@ -544,6 +559,16 @@ export function QuoteDetail({ quote, project, client, onClose, open }: QuoteDeta
               <FileDown className="mr-2 h-4 w-4" />
               Download PDF
             </Button>
+            {can("audit_log") && (
+              <Button 
+                variant="outline" 
+                onClick={() => setShowHistory(!showHistory)}
+                className="ml-2"
+              >
+                <History className="mr-2 h-4 w-4" />
+                {showHistory ? "Hide History" : "History"}
+              </Button>
+            )}
           </div>
           
           <div>
@@ -1,164 +1,22 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { ServiceOrder, Project, Client, Staff, Subcontractor } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { FileDown, Printer, Check, X, Save } from "lucide-react";
+import { FileDown, Printer, Check, X } from "lucide-react";
 import { format } from "date-fns";
 import { enUS } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
+import { useCompany, companyAddressLines } from "@/hooks/use-company";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SignaturePad } from "@/components/signature-pad";
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
 
 // Import print styles
 import "./service-order-print.css";
 
-// Simple signature pad component
-interface SignaturePadProps {
-  onSave: (signatureDataUrl: string) => void;
-}
-
-function SignaturePad({ onSave }: SignaturePadProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [hasSignature, setHasSignature] = useState(false);
-
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    setIsDrawing(true);
-    
-    // Get position
-    let clientX: number, clientY: number;
-    
-    if ('touches' in e) {
-      // Touch event
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      // Mouse event
-      clientX = e.clientX;
-      clientY = e.clientY;
-    }
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
-    
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-  };
-
-  const draw = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Get position
-    let clientX: number, clientY: number;
-    
-    if ('touches' in e) {
-      e.preventDefault(); // Prevent scrolling when drawing on touch devices
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = e.clientX;
-      clientY = e.clientY;
-    }
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
-    
-    ctx.lineWidth = 2;
-    ctx.lineCap = 'round';
-    ctx.strokeStyle = '#000';
-    
-    ctx.lineTo(x, y);
-    ctx.stroke();
-    
-    setHasSignature(true);
-  };
-
-  const endDrawing = () => {
-    setIsDrawing(false);
-  };
-
-  const clearSignature = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    setHasSignature(false);
-  };
-
-  const saveSignature = () => {
-    if (!hasSignature) {
-      return;
-    }
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const dataUrl = canvas.toDataURL('image/png');
-    onSave(dataUrl);
-  };
-
-  return (
-    <div className="mt-4">
-      <p className="mb-2 font-medium">Client Signature:</p>
-      <div className="border rounded-md p-2">
-        <canvas
-          ref={canvasRef}
-          width={400}
-          height={200}
-          className="border border-gray-300 rounded w-full touch-none"
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={endDrawing}
-          onMouseLeave={endDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={endDrawing}
-        />
-        <div className="flex space-x-2 mt-2">
-          <Button
-            type="button"
-            variant="outline"
-            size="sm"
-            onClick={clearSignature}
-          >
-            Clear
-          </Button>
-          <Button
-            type="button"
-            variant="default"
-            size="sm"
-            onClick={saveSignature}
-            disabled={!hasSignature}
-          >
-            <Save className="mr-2 h-4 w-4" />
-            Save Signature
-          </Button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 interface ServiceOrderDetailProps {
   serviceOrder: ServiceOrder;
   project?: Project;
@@ -179,6 +37,8 @@ export function ServiceOrderDetail({
   open 
 }: ServiceOrderDetailProps) {
   const { toast } = useToast();
+  const { company } = useCompany();
+  const companyLines = companyAddressLines(company);
   const [showSignaturePad, setShowSignaturePad] = useState(false);
   const [clientSignature, setClientSignature] = useState<string | null>(serviceOrder.clientSignature || null);
   
@@ -240,7 +100,7 @@ export function ServiceOrderDetail({
       });
       
       // Generate a filename for the PDF
-      const filename = `Dovalina_Pro_Painters_ServiceOrder_${serviceOrder.id}.pdf`;
+      const filename = `${(company?.name || 'Company').replace(/\s+/g, '_')}_ServiceOrder_${serviceOrder.id}.pdf`;
       
       // Set margins
       const leftMargin = 15;
@@ -253,7 +113,7 @@ export function ServiceOrderDetail({
       // Company info (left side)
       pdf.setFontSize(16);
       pdf.setFont('helvetica', 'bold');
-      pdf.text("DOVALINA PRO PAINTERS", leftMargin, yPos);
+      pdf.text((company?.name ?? "").toUpperCase(), leftMargin, yPos);
       
       // Service order info (right side)
       const rightColStart = 160;
@@ -264,7 +124,7 @@ export function ServiceOrderDetail({
       yPos += 5;
       pdf.setFontSize(10);
       pdf.setFont('helvetica', 'normal');
-      pdf.text("3731 Aster Drive", leftMargin, yPos);
+      pdf.text(companyLines[0] ?? "", leftMargin, yPos);
       
       // Order date
       pdf.text(`Date: ${serviceOrder.createdAt 
@@ -277,7 +137,7 @@ export function ServiceOrderDetail({
       
       // More company details
       yPos += 5;
-      pdf.text("Charlotte, N.C. 28227", leftMargin, yPos);
+      pdf.text(companyLines[1] ?? "", leftMargin, yPos);
       
       // Status
       pdf.text(`Status: ${serviceOrder.status || 'pending'}`, 
@@ -288,7 +148,7 @@ export function ServiceOrderDetail({
       
       // Phone
       yPos += 5;
-      pdf.text("704-506-9741", leftMargin, yPos);
+      pdf.text(companyLines[2] ?? "", leftMargin, yPos);
       
       // Due date
       pdf.text(`Due Date: ${serviceOrder.dueDate 
@@ -301,7 +161,7 @@ export function ServiceOrderDetail({
       
       // Email
       yPos += 5;
-      pdf.text("contact@dovalinapropainters.com", leftMargin, yPos);
+      pdf.text(companyLines[3] ?? "", leftMargin, yPos);
       
       // Add horizontal line separator
       yPos += 10;
@@ -1006,11 +866,10 @@ export function ServiceOrderDetail({
           {/* Company information header */}
           <div className="flex justify-between items-start border-b pb-4 mb-6 company-header">
             <div>
-              <h1 className="text-2xl font-bold company-name">DOVALINA PRO PAINTERS</h1>
-              <p>3731 Aster Drive</p>
-              <p>Charlotte, N.C. 28227</p>
-              <p>704-506-9741</p>
-              <p>contact@dovalinapropainters.com</p>
+              <h1 className="text-2xl font-bold company-name">{company?.name.toUpperCase()}</h1>
+              {companyLines.map((line) => (
+                <p key={line}>{line}</p>
+              ))}
             </div>
             <div className="text-right service-order-info">
               <h2 className="text-xl font-semibold">Service Order #{serviceOrder.id}</h2>
@@ -14,6 +14,7 @@ import logoPath from "@assets/JPG_1_1764824638626.jpg";
 import jsPDF from "jspdf";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCompany, companyAddressLines } from "@/hooks/use-company";
 
 interface SimpleQuoteDetailProps {
   open: boolean;
@@ -25,6 +26,9 @@ interface SimpleQuoteDetailProps {
 export function SimpleQuoteDetail({ open, onOpenChange, quote, onEdit }: SimpleQuoteDetailProps) {
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const { toast } = useToast();
+  const { company } = useCompany();
+  const companyName = company?.name ?? "";
+  const companyLines = companyAddressLines(company);
 
   // Fetch project and client data
   const { data: projects = [] } = useQuery({
@@ -288,14 +292,13 @@ export function SimpleQuoteDetail({ open, onOpenChange, quote, onEdit }: SimpleQ
       // Company Header (next to logo)
       pdf.setFontSize(16);
       pdf.setFont("helvetica", "bold");
-      pdf.text("DOVALINA PRO PAINTERS", margin + 22, yPosition + 6);
+      pdf.text(companyName.toUpperCase(), margin + 22, yPosition + 6);
       
       pdf.setFontSize(9);
       pdf.setFont("helvetica", "normal");
-      pdf.text("3731 Aster Drive", margin + 22, yPosition + 11);
-      pdf.text("Charlotte, N.C. 28227", margin + 22, yPosition + 15);
-      pdf.text("704-506-9741", margin + 22, yPosition + 19);
-      pdf.text("contact@dovalinapropainters.com", margin + 22, yPosition + 23);
+      companyLines.forEach((line, index) => {
+        pdf.text(line, margin + 22, yPosition + 11 + index * 4);
+      });
 
       // Quote number and details (right aligned)
       const rightX = pageWidth - margin;
@@ -587,7 +590,7 @@ export function SimpleQuoteDetail({ open, onOpenChange, quote, onEdit }: SimpleQ
       pdf.setFontSize(9);
       pdf.setFont("helvetica", "normal");
       pdf.setTextColor(100, 100, 100);
-      pdf.text("Thank you for choosing Dovalina Pro Painters!", margin, yPosition);
+      pdf.text(`Thank you for choosing ${companyName}!`, margin, yPosition);
       yPosition += 5;
       pdf.text("This quote is valid for 30 days from the date above.", margin, yPosition);
 
@@ -701,16 +704,15 @@ export function SimpleQuoteDetail({ open, onOpenChange, quote, onEdit }: SimpleQ
               <div className="flex items-start space-x-4">
                 <img 
                   src={logoPath} 
-                  alt="Dovalina Pro Painters Logo" 
+                  alt={`${companyName} Logo`} 
                   className="h-16 w-16 object-contain"
                 />
                 <div>
-                  <h1 className="text-3xl font-bold text-gray-900">DOVALINA PRO PAINTERS</h1>
+                  <h1 className="text-3xl font-bold text-gray-900">{companyName.toUpperCase()}</h1>
                   <div className="mt-2 text-sm text-gray-600 space-y-1">
-                    <p>3731 Aster Drive</p>
-                    <p>Charlotte, N.C. 28227</p>
-                    <p>704-506-9741</p>
-                    <p>contact@dovalinapropainters.com</p>
+                    {companyLines.map((line) => (
+                      <p key={line}>{line}</p>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -722,6 +724,12 @@ export function SimpleQuoteDetail({ open, onOpenChange, quote, onEdit }: SimpleQ
                   {quote.validUntil && (
                     <p><span className="font-medium">Valid until:</span> {format(new Date(quote.validUntil), "MMMM do, yyyy")}</p>
                   )}
+                  {quote.signedBy && quote.signedAt && (
+                    <p><span className="font-medium">Signed online by:</span> {quote.signedBy}, {format(new Date(quote.signedAt), "MMMM do, yyyy")}</p>
+                  )}
+                  {quote.signatureData && (
+                    <img src={quote.signatureData} alt={`Signature of ${quote.signedBy}`} className="ml-auto h-16 w-auto" />
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Setting } from "@shared/schema";
+import {
+  USER_ROLES,
+  SUPERADMIN_ROLE,
+  TWO_FACTOR_POLICY_KEY,
+  getRoleLabel,
+  type TwoFactorPolicy,
+} from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+};
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function BackupCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these backup codes somewhere safe. Each one can be used once to log in if you lose your
+        phone. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+      >
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+// Enrollment, backup codes and disabling 2FA for the logged-in user
+export function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [showDisable, setShowDisable] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const closeDialogs = () => {
+    setSetup(null);
+    setShowRegenerate(false);
+    setShowDisable(false);
+    setBackupCodes(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setCode("");
+      setSetup(data);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return await res.json();
+    },
+    onSuccess: (data: { backupCodes: string[] }) => {
+      setBackupCodes(data.backupCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You will be asked for a code the next time you log in",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/backup-codes", { code });
+      return await res.json();
+    },
+    onSuccess: (data: { backupCodes: string[] }) => {
+      setBackupCodes(data.backupCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { password });
+      return await res.json();
+    },
+    onSuccess: () => {
+      closeDialogs();
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication disabled",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h4 className="font-medium">Two-Factor Authentication</h4>
+        {user?.totpEnabled ? (
+          <Badge variant="default" className="bg-green-500">Enabled</Badge>
+        ) : (
+          <Badge variant="secondary">Disabled</Badge>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {user?.totpEnabled
+          ? "A code from your authenticator app is required every time you log in"
+          : "Add an extra layer of security to your account with an authenticator app"}
+      </p>
+      {user?.twoFactorSetupRequired && (
+        <p className="text-sm text-red-600">
+          Your role requires two-factor authentication. Set it up to continue using the system.
+        </p>
+      )}
+      {user?.totpEnabled ? (
+        <div className="flex flex-col md:flex-row gap-2">
+          <Button variant="outline" onClick={() => setShowRegenerate(true)}>
+            New Backup Codes
+          </Button>
+          <Button variant="outline" onClick={() => setShowDisable(true)}>
+            Disable 2FA
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="w-full md:w-auto"
+          disabled={setupMutation.isPending}
+          onClick={() => setupMutation.mutate()}
+        >
+          {setupMutation.isPending ? "Preparing..." : "Enable 2FA"}
+        </Button>
+      )}
+
+      {/* Enrollment Dialog */}
+      <Dialog open={!!setup} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              {backupCodes
+                ? "Two-factor authentication is now enabled"
+                : "Scan the QR code with Google Authenticator, Authy or 1Password, then enter the 6-digit code it shows"}
+            </DialogDescription>
+          </DialogHeader>
+          {backupCodes ? (
+            <div className="space-y-4">
+              <BackupCodesList codes={backupCodes} />
+              <div className="flex justify-end">
+                <Button onClick={closeDialogs}>Done</Button>
+              </div>
+            </div>
+          ) : (
+            setup && (
+              <div className="space-y-4">
+                <div className="flex justify-center">
+                  <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48" />
+                </div>
+                <p className="text-xs text-muted-foreground text-center break-all">
+                  Can't scan it? Enter this key manually: <span className="font-mono">{setup.secret}</span>
+                </p>
+                <div className="flex justify-center">
+                  <CodeInput value={code} onChange={setCode} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeDialogs}>
+                    Cancel
+                  </Button>
+                  <Button
+                    disabled={code.length < 6 || enableMutation.isPending}
+                    onClick={() => enableMutation.mutate()}
+                  >
+                    {enableMutation.isPending ? "Verifying..." : "Enable"}
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Regenerate Backup Codes Dialog */}
+      <Dialog open={showRegenerate} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Backup Codes</DialogTitle>
+            <DialogDescription>
+              {backupCodes
+                ? "Your previous backup codes no longer work"
+                : "Enter a code from your authenticator app to replace your backup codes"}
+            </DialogDescription>
+          </DialogHeader>
+          {backupCodes ? (
+            <div className="space-y-4">
+              <BackupCodesList codes={backupCodes} />
+              <div className="flex justify-end">
+                <Button onClick={closeDialogs}>Done</Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={closeDialogs}>
+                  Cancel
+                </Button>
+                <Button
+                  disabled={code.length < 6 || regenerateMutation.isPending}
+                  onClick={() => regenerateMutation.mutate()}
+                >
+                  {regenerateMutation.isPending ? "Generating..." : "Generate"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Disable 2FA Dialog */}
+      <Dialog open={showDisable} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Disable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>Enter your password to confirm</DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              disableMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-password">Password</Label>
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={closeDialogs}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={!password || disableMutation.isPending}>
+                {disableMutation.isPending ? "Disabling..." : "Disable 2FA"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Admin switches for which roles must use 2FA
+export function TwoFactorPolicySettings() {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<Setting[]>({
+    queryKey: ["/api/settings"],
+  });
+
+  const policy = settings?.find((setting) => setting.key === TWO_FACTOR_POLICY_KEY)?.value as
+    | TwoFactorPolicy
+    | undefined;
+  const requiredRoles = policy?.requiredRoles ?? [];
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      return apiRequest("POST", "/api/settings/two-factor", { requiredRoles: roles });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor policy saved",
+        description: "Users in the selected roles must set up 2FA before continuing",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: string, required: boolean) => {
+    const roles = required
+      ? [...requiredRoles, role]
+      : requiredRoles.filter((requiredRole) => requiredRole !== role);
+    savePolicyMutation.mutate(roles);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium">Require Two-Factor Authentication</h4>
+      <p className="text-sm text-muted-foreground">
+        Users in these roles must set up an authenticator app before they can use the system
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {[...USER_ROLES, SUPERADMIN_ROLE].map((role) => (
+          <div key={role} className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor={`require-2fa-${role}`}>{getRoleLabel(role)}</Label>
+            <Switch
+              id={`require-2fa-${role}`}
+              checked={requiredRoles.includes(role)}
+              disabled={savePolicyMutation.isPending}
+              onCheckedChange={(checked) => toggleRole(role, checked)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
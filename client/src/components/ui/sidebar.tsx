@@ -21,11 +21,13 @@ import {
   TrendingUp,
   PackageOpen,
   ShoppingBag,
-  MessageSquarePlus
+  MessageSquarePlus,
+  History
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useState } from "react";
+import { getRoleLabel, type Resource } from "@shared/permissions";
 import logoImg from "@assets/PNG_2_1764825814505.png";
 
 interface SidebarProps {
@@ -33,7 +35,7 @@ interface SidebarProps {
 }
 
 export function Sidebar({ className }: SidebarProps) {
-  const { user, logoutMutation } = useAuth();
+  const { user, logoutMutation, can } = useAuth();
   const [location, setLocation] = useLocation();
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
   
@@ -54,26 +56,29 @@ export function Sidebar({ className }: SidebarProps) {
     closeMobileSidebar();
   };
   
-  const navLinks = [
+  const navLinks: { name: string; path: string; resource?: Resource; icon: JSX.Element }[] = [
     { name: "Dashboard", path: "/dashboard", icon: <Home className="w-5 h-5" /> },
-    { name: "Leads", path: "/dashboard/leads", icon: <MessageSquarePlus className="w-5 h-5" /> },
-    { name: "Clients & Prospects", path: "/dashboard/clients", icon: <Users className="w-5 h-5" /> },
-    // { name: "Quotes", path: "/dashboard/quotes", icon: <FileText className="w-5 h-5" /> },
-    { name: "Simple Quotes", path: "/dashboard/simple-quotes", icon: <FileText className="w-5 h-5" /> },
-    { name: "Service Orders", path: "/dashboard/service-orders", icon: <Clipboard className="w-5 h-5" /> },
-    { name: "Project Management", path: "/dashboard/projects", icon: <Network className="w-5 h-5" /> },
-    { name: "Calendar", path: "/dashboard/calendar", icon: <Calendar className="w-5 h-5" /> },
-    { name: "Staff Management", path: "/dashboard/personnel", icon: <UserCog className="w-5 h-5" /> },
-    { name: "Subcontractors", path: "/dashboard/subcontractors", icon: <Briefcase className="w-5 h-5" /> },
-    { name: "Suppliers", path: "/dashboard/suppliers", icon: <PackageOpen className="w-5 h-5" /> },
-    { name: "Purchase Orders", path: "/dashboard/purchase-orders", icon: <ShoppingBag className="w-5 h-5" /> },
-    { name: "Invoices", path: "/dashboard/invoices", icon: <File className="w-5 h-5" /> },
-    { name: "Payments", path: "/dashboard/payments", icon: <DollarSign className="w-5 h-5" /> },
-    { name: "Financial Reports", path: "/dashboard/financial-reports", icon: <TrendingUp className="w-5 h-5" /> },
-    { name: "Reports & Analytics", path: "/dashboard/reports", icon: <BarChart className="w-5 h-5" /> },
+    { name: "Leads", path: "/dashboard/leads", resource: "leads", icon: <MessageSquarePlus className="w-5 h-5" /> },
+    { name: "Clients & Prospects", path: "/dashboard/clients", resource: "clients", icon: <Users className="w-5 h-5" /> },
+    // { name: "Quotes", path: "/dashboard/quotes", resource: "quotes", icon: <FileText className="w-5 h-5" /> },
+    { name: "Simple Quotes", path: "/dashboard/simple-quotes", resource: "quotes", icon: <FileText className="w-5 h-5" /> },
+    { name: "Service Orders", path: "/dashboard/service-orders", resource: "service_orders", icon: <Clipboard className="w-5 h-5" /> },
+    { name: "Project Management", path: "/dashboard/projects", resource: "projects", icon: <Network className="w-5 h-5" /> },
+    { name: "Calendar", path: "/dashboard/calendar", resource: "calendar", icon: <Calendar className="w-5 h-5" /> },
+    { name: "Staff Management", path: "/dashboard/personnel", resource: "staff", icon: <UserCog className="w-5 h-5" /> },
+    { name: "Subcontractors", path: "/dashboard/subcontractors", resource: "subcontractors", icon: <Briefcase className="w-5 h-5" /> },
+    { name: "Suppliers", path: "/dashboard/suppliers", resource: "suppliers", icon: <PackageOpen className="w-5 h-5" /> },
+    { name: "Purchase Orders", path: "/dashboard/purchase-orders", resource: "purchase_orders", icon: <ShoppingBag className="w-5 h-5" /> },
+    { name: "Invoices", path: "/dashboard/invoices", resource: "invoices", icon: <File className="w-5 h-5" /> },
+    { name: "Payments", path: "/dashboard/payments", resource: "payments", icon: <DollarSign className="w-5 h-5" /> },
+    { name: "Financial Reports", path: "/dashboard/financial-reports", resource: "financial_reports", icon: <TrendingUp className="w-5 h-5" /> },
+    { name: "Reports & Analytics", path: "/dashboard/reports", resource: "reports", icon: <BarChart className="w-5 h-5" /> },
+    { name: "Audit Log", path: "/dashboard/audit-log", resource: "audit_log", icon: <History className="w-5 h-5" /> },
     { name: "Settings", path: "/dashboard/settings", icon: <Settings className="w-5 h-5" /> },
   ];
   
+  const visibleNavLinks = navLinks.filter((link) => !link.resource || can(link.resource));
+  
   const userInitials = user?.name
     ? user.name
         .split(" ")
@@ -144,14 +149,14 @@ export function Sidebar({ className }: SidebarProps) {
               </Avatar>
               <div className="ml-3">
                 <p className="text-sm font-medium text-gray-700">{user?.name}</p>
-                <p className="text-xs text-gray-500">{user?.role}</p>
+                <p className="text-xs text-gray-500">{user && getRoleLabel(user.role)}</p>
               </div>
             </div>
           </div>
           
           {/* Navigation - optimized for iPhone 14 Pro Max */}
           <nav className="p-2 space-y-1">
-            {navLinks.map((link) => (
+            {visibleNavLinks.map((link) => (
               <Button
                 key={link.path}
                 variant={location === link.path ? "default" : "ghost"}
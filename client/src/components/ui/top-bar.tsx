@@ -3,6 +3,7 @@ import { Bell, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/use-auth";
+import { CompanyInvitations, CompanySwitcher } from "@/components/company-switcher";
 
 interface TopBarProps {
   title: string;
@@ -32,6 +33,8 @@ export function TopBar({ title, className }: TopBarProps) {
           {title}
         </h2>
         <div className="flex items-center">
+          <CompanySwitcher />
+          <CompanyInvitations />
           <Button variant="ghost" size="icon" className="text-gray-400 hover:text-gray-500 h-10 w-10 ml-1">
             <Bell className="h-5 w-5" />
             <span className="sr-only">Notifications</span>
@@ -0,0 +1,634 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { CompanyInvitationEntry, User } from "@shared/schema";
+import { USER_ROLES, ROLE_LABELS, getRoleLabel, UserRole } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserSessionsDialog } from "@/components/active-sessions";
+import { Label } from "@/components/ui/label";
+import { Users, UserPlus, Edit, KeyRound, ShieldOff, MonitorSmartphone, UserMinus } from "lucide-react";
+
+type SafeUser = Omit<User, "password" | "totpSecret" | "totpBackupCodes" | "totpLastUsedStep">;
+
+const userFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  username: z.string().min(1, "Username is required"),
+  email: z.string().email("Must be a valid email").or(z.literal("")),
+  role: z.enum(USER_ROLES),
+  active: z.boolean().default(true),
+  password: z.string().optional(),
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+type UserFormValues = z.infer<typeof userFormSchema>;
+type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+
+export function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [showUserForm, setShowUserForm] = useState(false);
+  const [userToEdit, setUserToEdit] = useState<SafeUser | null>(null);
+  const [userToReset, setUserToReset] = useState<SafeUser | null>(null);
+  const [userForSessions, setUserForSessions] = useState<SafeUser | null>(null);
+  const [showAddMember, setShowAddMember] = useState(false);
+  const [memberUsername, setMemberUsername] = useState("");
+  const [memberRole, setMemberRole] = useState<UserRole>("crew");
+
+  const { data: users, isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: invitations = [] } = useQuery<CompanyInvitationEntry[]>({
+    queryKey: ["/api/companies/current/invitations"],
+  });
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(
+      userFormSchema.refine((data) => userToEdit || (data.password && data.password.length >= 8), {
+        message: "Temporary password must be at least 8 characters",
+        path: ["password"],
+      })
+    ),
+    defaultValues: {
+      name: "",
+      username: "",
+      email: "",
+      role: "crew",
+      active: true,
+      password: "",
+    },
+  });
+
+  const resetForm = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "" },
+  });
+
+  useEffect(() => {
+    if (userToEdit) {
+      form.reset({
+        name: userToEdit.name,
+        username: userToEdit.username,
+        email: userToEdit.email || "",
+        role: USER_ROLES.find((role) => role === userToEdit.role) || "crew",
+        active: userToEdit.active,
+        password: "",
+      });
+    } else {
+      form.reset({
+        name: "",
+        username: "",
+        email: "",
+        role: "crew",
+        active: true,
+        password: "",
+      });
+    }
+  }, [userToEdit, form]);
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: UserFormValues) => {
+      const payload = {
+        name: data.name,
+        email: data.email || null,
+        role: data.role,
+        active: data.active,
+      };
+      if (userToEdit) {
+        return apiRequest("PUT", `/api/users/${userToEdit.id}`, payload);
+      }
+      return apiRequest("POST", "/api/users", {
+        ...payload,
+        username: data.username,
+        password: data.password,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: userToEdit ? "User updated" : "User invited",
+        description: userToEdit
+          ? "The user has been updated successfully"
+          : "Share the username and temporary password with the new user",
+      });
+      setShowUserForm(false);
+      setUserToEdit(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (user: SafeUser) => {
+      return apiRequest("PUT", `/api/users/${user.id}`, { active: !user.active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordValues) => {
+      return apiRequest("POST", `/api/users/${userToReset!.id}/reset-password`, data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: `A new password has been set for ${userToReset?.name}`,
+      });
+      setUserToReset(null);
+      resetForm.reset({ password: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: SafeUser) => {
+      return apiRequest("POST", `/api/users/${user.id}/reset-2fa`);
+    },
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Two-factor authentication reset",
+        description: `${user.name} can log in with just their password and set up 2FA again`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Users who already have an account in another company join once they accept
+  const addMemberMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/companies/current/members", {
+        username: memberUsername,
+        role: memberRole,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies/current/invitations"] });
+      toast({
+        title: "Invitation sent",
+        description: `${memberUsername} joins this company once they accept`,
+      });
+      setShowAddMember(false);
+      setMemberUsername("");
+      setMemberRole("crew");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (user: SafeUser) => {
+      return apiRequest("DELETE", `/api/companies/current/members/${user.id}`);
+    },
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User removed",
+        description: `${user.name} no longer has access to this company`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelInvitationMutation = useMutation({
+    mutationFn: async (invitation: CompanyInvitationEntry) => {
+      return apiRequest("DELETE", `/api/companies/current/invitations/${invitation.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies/current/invitations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleInvite = () => {
+    setUserToEdit(null);
+    setShowUserForm(true);
+  };
+
+  const handleEdit = (user: SafeUser) => {
+    setUserToEdit(user);
+    setShowUserForm(true);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Users
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setShowAddMember(true)}>
+              Invite Existing User
+            </Button>
+            <Button size="sm" onClick={handleInvite}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite User
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">{user.name}</div>
+                      {user.email && <div className="text-xs text-muted-foreground">{user.email}</div>}
+                    </TableCell>
+                    <TableCell>{user.username}</TableCell>
+                    <TableCell>{getRoleLabel(user.role)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {user.active ? (
+                          <Badge variant="default" className="bg-green-500">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Inactive</Badge>
+                        )}
+                        {user.totpEnabled && <Badge variant="outline">2FA</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end items-center gap-2">
+                        <Switch
+                          checked={user.active}
+                          disabled={user.id === currentUser?.id || toggleActiveMutation.isPending}
+                          onCheckedChange={() => toggleActiveMutation.mutate(user)}
+                          aria-label={user.active ? "Deactivate user" : "Activate user"}
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(user)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setUserToReset(user)}>
+                          <KeyRound className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setUserForSessions(user)}
+                          aria-label="View sessions"
+                        >
+                          <MonitorSmartphone className="w-4 h-4" />
+                        </Button>
+                        {user.totpEnabled && user.id !== currentUser?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={resetTwoFactorMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Turn off two-factor authentication for ${user.name}?`)) {
+                                resetTwoFactorMutation.mutate(user);
+                              }
+                            }}
+                            aria-label="Reset two-factor authentication"
+                          >
+                            <ShieldOff className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {user.id !== currentUser?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={removeMemberMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Remove ${user.name} from this company?`)) {
+                                removeMemberMutation.mutate(user);
+                              }
+                            }}
+                            aria-label="Remove from company"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {invitations.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium">Waiting to accept</p>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <span>
+                    {invitation.userName} · {getRoleLabel(invitation.role)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={cancelInvitationMutation.isPending}
+                    onClick={() => cancelInvitationMutation.mutate(invitation)}
+                  >
+                    Cancel invitation
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Existing User Dialog */}
+      <Dialog open={showAddMember} onOpenChange={setShowAddMember}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Invite Existing User</DialogTitle>
+            <DialogDescription>
+              Invite someone who already works in another company. They join this one once they accept.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addMemberMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="member-username">Username</Label>
+              <Input
+                id="member-username"
+                value={memberUsername}
+                onChange={(e) => setMemberUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role in this company</Label>
+              <Select value={memberRole} onValueChange={(value) => setMemberRole(value as UserRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowAddMember(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!memberUsername.trim() || addMemberMutation.isPending}>
+                {addMemberMutation.isPending ? "Sending..." : "Send Invitation"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Invite / Edit User Dialog */}
+      <Dialog open={showUserForm} onOpenChange={setShowUserForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{userToEdit ? "Edit User" : "Invite User"}</DialogTitle>
+            <DialogDescription>
+              {userToEdit
+                ? "Update the user's details, role and status"
+                : "Create an account with a temporary password the user can change after logging in"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveUserMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={!!userToEdit} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={userToEdit?.id === currentUser?.id}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {!userToEdit && (
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Temporary Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormDescription>At least 8 characters</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowUserForm(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveUserMutation.isPending}>
+                  {saveUserMutation.isPending ? "Saving..." : userToEdit ? "Save Changes" : "Invite User"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <UserSessionsDialog user={userForSessions} onClose={() => setUserForSessions(null)} />
+
+      {/* Reset Password Dialog */}
+      <Dialog open={!!userToReset} onOpenChange={(open) => !open && setUserToReset(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {userToReset?.name}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...resetForm}>
+            <form onSubmit={resetForm.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={resetForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setUserToReset(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={resetPasswordMutation.isPending}>
+                  {resetPasswordMutation.isPending ? "Saving..." : "Reset Password"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
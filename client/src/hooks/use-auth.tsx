@@ -5,16 +5,25 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { hasPermission, type Access, type Resource } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+// /api/user flags accounts whose role requires 2FA but who haven't enrolled yet
+type AuthUser = SelectUser & { twoFactorSetupRequired?: boolean };
+
+// Accounts with 2FA get this instead of the user after the password step
+type LoginResult = AuthUser | { twoFactorRequired: true };
+
 type AuthContextType = {
-  user: SelectUser | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<AuthUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  can: (resource: Resource, access?: Access) => boolean;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
@@ -27,7 +36,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | null, Error>({
+  } = useQuery<AuthUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -37,7 +46,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (result: LoginResult) => {
+      // The auth page asks for the code; nothing is logged in yet
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.name}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return await res.json();
+    },
+    onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Login successful",
@@ -46,7 +78,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -94,6 +126,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const can = (resource: Resource, access: Access = "read") =>
+    hasPermission(user?.role, resource, access);
+
   return (
     <AuthContext.Provider
       value={{
@@ -101,8 +136,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
+        can,
       }}
     >
       {children}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Company, CompanyMembership } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * The company the user is working in and the ones they can switch to.
+ */
+export function useCompany() {
+  const { toast } = useToast();
+
+  const { data: company } = useQuery<Company>({
+    queryKey: ["/api/companies/current"],
+  });
+
+  const { data: companies } = useQuery<CompanyMembership[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const switchCompanyMutation = useMutation({
+    mutationFn: async (companyId: number) => {
+      const res = await apiRequest("POST", "/api/companies/switch", { companyId });
+      return (await res.json()) as CompanyMembership;
+    },
+    onSuccess: (switchedTo) => {
+      // Every cached list belongs to the previous company, and so does the user's role
+      queryClient.invalidateQueries();
+      toast({
+        title: "Company switched",
+        description: `You are now working in ${switchedTo.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    company,
+    companies: companies ?? [],
+    switchCompany: switchCompanyMutation.mutate,
+    isSwitching: switchCompanyMutation.isPending,
+  };
+}
+
+// Letterhead lines under the company name on quotes, invoices and service orders
+export function companyAddressLines(company?: Company) {
+  if (!company) return [];
+  const cityLine = [company.city, [company.state, company.zip].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+  return [company.address, cityLine, company.phone, company.email].filter(
+    (line): line is string => !!line,
+  );
+}
@@ -0,0 +1,139 @@
+import jsPDF from "jspdf";
+import type { ChangeOrder, Client, Company, Project } from "@shared/schema";
+import { CHANGE_ORDER_STATUS_LABELS, changeOrderReference, itemsTotal, type ChangeOrderItem } from "@shared/change-orders";
+import { companyAddressLines } from "@/hooks/use-company";
+
+const money = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const day = (value: Date | string) => new Date(value).toLocaleDateString("en-US");
+
+// Column x positions in mm; amounts are right aligned on their x
+const COLUMNS = { description: 15, quantity: 140, unitPrice: 168, total: 195 };
+const PAGE_BOTTOM = 280;
+
+/**
+ * Draws a change order as its own document, with the client's signature once
+ * approved, then downloads it.
+ */
+export function downloadChangeOrderPdf(
+  changeOrder: ChangeOrder,
+  project: Project,
+  client?: Client,
+  company?: Company,
+) {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const blue: [number, number, number] = [37, 99, 235];
+  const reference = changeOrderReference(changeOrder);
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(20);
+  pdf.setTextColor(...blue);
+  pdf.text(`CHANGE ORDER ${reference}`, 15, 20);
+
+  pdf.setFontSize(11);
+  pdf.setTextColor(0);
+  pdf.text(company?.name ?? "", 15, 28);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(100);
+  companyAddressLines(company).forEach((line, i) => pdf.text(line, 15, 33 + i * 4));
+
+  pdf.setTextColor(0);
+  pdf.setFontSize(10);
+  pdf.text(`Date: ${day(changeOrder.createdAt)}`, 195, 28, { align: "right" });
+  pdf.text(`Status: ${CHANGE_ORDER_STATUS_LABELS[changeOrder.status as keyof typeof CHANGE_ORDER_STATUS_LABELS] ?? changeOrder.status}`, 195, 33, { align: "right" });
+
+  let y = 58;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("CLIENT:", 15, y);
+  pdf.text("PROJECT:", 110, y);
+  pdf.setFont("helvetica", "normal");
+  const clientLines = [client?.name, client?.address, client?.email, client?.phone].filter(Boolean) as string[];
+  const projectLines = [project.title, project.address].filter(Boolean);
+  for (let i = 0; i < Math.max(clientLines.length, projectLines.length); i++) {
+    y += 5;
+    if (clientLines[i]) pdf.text(clientLines[i], 15, y);
+    if (projectLines[i]) pdf.text(pdf.splitTextToSize(projectLines[i], 85)[0], 110, y);
+  }
+
+  y += 12;
+  pdf.setFont("helvetica", "bold");
+  pdf.text(changeOrder.title, 15, y);
+  pdf.setFont("helvetica", "normal");
+  if (changeOrder.reason) {
+    const reason: string[] = pdf.splitTextToSize(`Reason: ${changeOrder.reason}`, 180);
+    reason.forEach((line) => {
+      y += 5;
+      pdf.text(line, 15, y);
+    });
+  }
+
+  const ensureRoom = (needed: number) => {
+    if (y > PAGE_BOTTOM - needed) {
+      pdf.addPage();
+      y = 20;
+    }
+  };
+
+  const itemTable = (title: string, items: ChangeOrderItem[], sign: 1 | -1) => {
+    if (items.length === 0) return;
+    y += 12;
+    ensureRoom(20);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(10);
+    pdf.text(title, 15, y);
+    y += 6;
+    pdf.setFillColor(248, 250, 252);
+    pdf.rect(13, y - 5, 184, 8, "F");
+    pdf.setFontSize(9);
+    pdf.text("Description", COLUMNS.description, y);
+    pdf.text("Qty", COLUMNS.quantity, y, { align: "right" });
+    pdf.text("Unit price", COLUMNS.unitPrice, y, { align: "right" });
+    pdf.text("Amount", COLUMNS.total, y, { align: "right" });
+    pdf.setFont("helvetica", "normal");
+    y += 7;
+    for (const item of items) {
+      ensureRoom(0);
+      pdf.text(pdf.splitTextToSize(item.description, COLUMNS.quantity - COLUMNS.description - 15)[0], COLUMNS.description, y);
+      pdf.text(String(item.quantity), COLUMNS.quantity, y, { align: "right" });
+      pdf.text(money(item.unitPrice), COLUMNS.unitPrice, y, { align: "right" });
+      pdf.text(money(sign * item.quantity * item.unitPrice), COLUMNS.total, y, { align: "right" });
+      y += 6;
+    }
+    pdf.setFont("helvetica", "bold");
+    pdf.text(`Total ${title.toLowerCase()}`, COLUMNS.unitPrice, y, { align: "right" });
+    pdf.text(money(sign * itemsTotal(items)), COLUMNS.total, y, { align: "right" });
+    pdf.setFont("helvetica", "normal");
+  };
+
+  itemTable("Added work", changeOrder.addedItems, 1);
+  itemTable("Removed work", changeOrder.removedItems, -1);
+
+  y += 10;
+  ensureRoom(10);
+  pdf.setDrawColor(...blue);
+  pdf.line(13, y - 5, 197, y - 5);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(12);
+  pdf.setTextColor(...blue);
+  pdf.text("Change to contract value:", COLUMNS.unitPrice, y, { align: "right" });
+  pdf.text(money(parseFloat(changeOrder.priceDelta)), COLUMNS.total, y, { align: "right" });
+
+  y += 16;
+  ensureRoom(40);
+  pdf.setTextColor(0);
+  pdf.setFontSize(10);
+  pdf.text("CLIENT APPROVAL", 15, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  if (changeOrder.signatureData) {
+    pdf.addImage(changeOrder.signatureData, "PNG", 15, y + 3, 60, 20);
+  }
+  pdf.setDrawColor(150);
+  pdf.line(15, y + 25, 90, y + 25);
+  pdf.text(changeOrder.signedBy ?? "Name", 15, y + 30);
+  pdf.line(120, y + 25, 195, y + 25);
+  pdf.text(changeOrder.signedAt ? day(changeOrder.signedAt) : "Date", 120, y + 30);
+
+  pdf.save(`${reference}-${project.title.replace(/\W+/g, "_")}.pdf`);
+}
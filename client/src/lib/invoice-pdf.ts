@@ -0,0 +1,300 @@
+import jsPDF from "jspdf";
+import html2canvas from "html2canvas";
+import type { Client, ClientContact, Company, Project } from "@shared/schema";
+import { companyAddressLines } from "@/hooks/use-company";
+
+export interface InvoicePdfItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface InvoicePdfData {
+  invoice: {
+    invoiceNumber: string;
+    issueDate: string | Date | null;
+    dueDate: string | Date | null;
+    items: unknown;
+    notes?: string | null;
+  };
+  client?: Pick<Client, "name" | "email" | "phone" | "address"> | null;
+  project?: Pick<Project, "title" | "address" | "description"> | null;
+  billingContact?: ClientContact | null;
+  company?: Company;
+}
+
+/**
+ * Renders the invoice letterhead layout and downloads it as a PDF. Used by
+ * the invoices page and the client portal.
+ */
+export async function downloadInvoicePdf({ invoice, client, project, billingContact, company }: InvoicePdfData) {
+  const items = Array.isArray(invoice.items) ? (invoice.items as InvoicePdfItem[]) : [];
+
+  // Create a temporary div for PDF content
+  const pdfContent = document.createElement('div');
+  pdfContent.style.width = '8.5in';
+  pdfContent.style.minHeight = '11in';
+  pdfContent.style.padding = '0.5in';
+  pdfContent.style.backgroundColor = 'white';
+  pdfContent.style.fontFamily = 'Arial, sans-serif';
+  pdfContent.style.fontSize = '12px';
+  pdfContent.style.lineHeight = '1.4';
+  pdfContent.style.color = '#000';
+
+  // Calculate totals
+  const subtotal = Array.isArray(items) 
+    ? items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0)
+    : 0;
+  const tax = subtotal * 0.08; // 8% tax
+  const total = subtotal + tax;
+
+  pdfContent.innerHTML = `
+    <div style="border-bottom: 3px solid #2563eb; padding-bottom: 20px; margin-bottom: 30px;">
+      <div style="display: flex; justify-content: space-between; align-items: flex-start;">
+        <div>
+          <h1 style="color: #2563eb; font-size: 32px; font-weight: bold; margin: 0;">INVOICE</h1>
+          <div style="margin-top: 10px; color: #666;">
+            <div style="font-weight: bold; font-size: 14px;">${company?.name ?? ""}</div>
+            ${companyAddressLines(company).map((line) => `<div>${line}</div>`).join("")}
+          </div>
+        </div>
+        <div style="text-align: right;">
+          <div style="background: #f8fafc; padding: 15px; border-radius: 8px; border: 1px solid #e2e8f0;">
+            <div style="font-size: 14px; color: #666; margin-bottom: 5px;">Invoice Number</div>
+            <div style="font-size: 18px; font-weight: bold; color: #2563eb;">#${invoice.invoiceNumber}</div>
+            <div style="margin-top: 10px; font-size: 14px; color: #666;">Issue Date</div>
+            <div style="font-weight: bold;">${invoice.issueDate ? new Date(invoice.issueDate).toLocaleDateString('en-US') : ''}</div>
+            <div style="margin-top: 10px; font-size: 14px; color: #666;">Due Date</div>
+            <div style="font-weight: bold;">${invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString('en-US') : ''}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+
+    <div style="display: flex; justify-content: space-between; margin-bottom: 40px;">
+      <div style="width: 48%;">
+        <h3 style="color: #2563eb; font-size: 16px; margin-bottom: 10px; border-bottom: 2px solid #e2e8f0; padding-bottom: 5px;">BILL TO:</h3>
+        <div style="background: #f8fafc; padding: 15px; border-radius: 8px; border: 1px solid #e2e8f0;">
+          <div style="font-weight: bold; font-size: 16px; margin-bottom: 8px;">${client?.name || 'Unknown Client'}</div>
+          ${billingContact ? `<div style="margin-bottom: 4px;">Attn: ${billingContact.name}</div>` : ''}
+          <div style="color: #666; margin-bottom: 4px;">${billingContact?.email || client?.email || ''}</div>
+          <div style="color: #666; margin-bottom: 4px;">${billingContact?.phone || client?.phone || ''}</div>
+          <div style="color: #666;">${client?.address || ''}</div>
+        </div>
+      </div>
+      
+      <div style="width: 48%;">
+        <h3 style="color: #2563eb; font-size: 16px; margin-bottom: 10px; border-bottom: 2px solid #e2e8f0; padding-bottom: 5px;">PROJECT:</h3>
+        <div style="background: #f8fafc; padding: 15px; border-radius: 8px; border: 1px solid #e2e8f0;">
+          <div style="font-weight: bold; font-size: 16px; margin-bottom: 8px;">${project?.title || 'General Services'}</div>
+          <div style="color: #666; margin-bottom: 4px;">${project?.address || ''}</div>
+          <div style="color: #666;">${project?.description || ''}</div>
+        </div>
+      </div>
+    </div>
+
+    <div style="margin-bottom: 30px;">
+      <h3 style="color: #2563eb; font-size: 16px; margin-bottom: 15px; border-bottom: 2px solid #e2e8f0; padding-bottom: 5px;">EXTERIOR PAINTING SERVICES:</h3>
+      
+      ${Array.isArray(items) && items.length > 0 ? `
+        <div style="background: #f8fafc; padding: 20px; border-radius: 8px; border: 1px solid #e2e8f0; margin-bottom: 20px;">
+          <h4 style="color: #2563eb; margin-bottom: 15px; font-size: 16px;">Project Breakdown:</h4>
+          ${items.map((item, index) => {
+            // Transform generic descriptions into professional ones
+            let displayDescription = item.description;
+            let serviceDetails = '';
+            
+            // Professional English descriptions for painting industry standard
+            if (item.description === 'Material 1' || item.description.toLowerCase().includes('material')) {
+              displayDescription = 'Exterior House Body Painting - Siding & Main Surfaces';
+              serviceDetails = '• Complete surface preparation and power washing<br>• Quality control inspection and cleanup';
+            } else if (item.description === 'Labor' || item.description.toLowerCase().includes('labor')) {
+              displayDescription = 'Trim & Detail Work - Windows, Doors & Moldings';
+              serviceDetails = '• Detailed preparation of all trim surfaces<br>• Precision brush and roll application<br>• Window sash and frame painting<br>• Door and shutter refinishing';
+            } else if (item.description.includes('Servicio de pintura')) {
+              displayDescription = 'Complete Exterior Painting Package';
+              serviceDetails = '• Comprehensive house painting service<br>• Professional surface preparation<br>• Premium paint application system<br>• Final inspection and warranty';
+            } else if (item.description.includes('Exterior House Body')) {
+              serviceDetails = '• Complete surface preparation and power washing<br>• Quality control inspection and cleanup';
+            } else if (item.description.includes('Trim & Detail Work')) {
+              serviceDetails = '• Detailed preparation of all trim surfaces<br>• Precision brush and roll application<br>• Window sash and frame painting<br>• Door and shutter refinishing';
+            } else if (item.description.includes('Soffit, Fascia & Gutters')) {
+              serviceDetails = '• Power washing and surface preparation<br>• Scraping and sanding as needed<br>• Primer and finish coat application<br>• Professional cleanup and protection';
+            } else if (item.description.includes('Surface Preparation')) {
+              serviceDetails = '• High-pressure washing of all surfaces<br>• Scraping of loose and peeling paint<br>• Sanding of rough areas and wood repair<br>• Caulking and sealing of gaps and cracks';
+            } else if (item.description.includes('Front door') || item.description.includes('door')) {
+              displayDescription = item.description.includes('Front door') ? 'Entry Door Refinishing & Painting' : displayDescription;
+              serviceDetails = '• Complete door surface preparation<br>• Hardware removal and protection<br>• Multi-coat paint system application<br>• Hardware reinstallation and cleanup';
+            } else {
+              serviceDetails = '• Professional painting service<br>• Quality materials and workmanship<br>• Complete project management<br>• 100% satisfaction guarantee';
+            }
+            
+            return `
+            <div style="background: white; margin-bottom: 15px; padding: 15px; border-radius: 6px; border: 1px solid #e2e8f0; border-left: 4px solid #2563eb;">
+              <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 8px;">
+                <div style="flex: 1;">
+                  <div style="font-weight: bold; color: #1e40af; font-size: 14px; margin-bottom: 4px;">${displayDescription}</div>
+                  <div style="font-size: 11px; color: #666; line-height: 1.4;">
+                    ${serviceDetails}
+                  </div>
+                </div>
+                <div style="text-align: right; margin-left: 20px;">
+                  <div style="font-size: 12px; color: #666;">Qty: ${item.quantity}</div>
+                  <div style="font-size: 18px; font-weight: bold; color: #2563eb;">$${(item.quantity * item.unitPrice).toFixed(2)}</div>
+                </div>
+              </div>
+            </div>
+            `;
+          }).join('')}
+          
+          <div style="background: #e0f2fe; padding: 15px; border-radius: 6px; border: 1px solid #bae6fd; margin-top: 20px;">
+            <h5 style="color: #1e40af; margin-bottom: 10px; font-size: 14px;">Additional Services Included:</h5>
+            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px; font-size: 11px; color: #374151;">
+              <div>
+                <strong>Surface Protection:</strong><br>
+                • Drop cloths and protective coverings<br>
+                • Landscape and walkway protection<br>
+                • Professional masking and preparation
+              </div>
+              <div>
+                <strong>Quality Assurance:</strong><br>
+                • Multi-coat application process<br>
+                • Quality control inspections<br>
+                • Complete job site cleanup
+              </div>
+            </div>
+          </div>
+        </div>
+      ` : `
+        <div style="background: #f8fafc; padding: 20px; border-radius: 8px; border: 1px solid #e2e8f0; text-align: center;">
+          <h4 style="color: #2563eb; margin-bottom: 15px;">Complete Exterior Painting Package</h4>
+          <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 20px;">
+            <div>
+              <h5 style="color: #1e40af; margin-bottom: 10px;">Surface Preparation:</h5>
+              <ul style="text-align: left; color: #666; font-size: 12px; list-style: none; padding: 0;">
+                <li>• High-pressure washing</li>
+                <li>• Scraping loose and peeling paint</li>
+                <li>• Sanding rough surfaces</li>
+                <li>• Caulking gaps and cracks</li>
+                <li>• Professional primer application</li>
+              </ul>
+            </div>
+            <div>
+              <h5 style="color: #1e40af; margin-bottom: 10px;">Painting Services:</h5>
+              <ul style="text-align: left; color: #666; font-size: 12px; list-style: none; padding: 0;">
+                <li>• House body and siding painting</li>
+                <li>• Trim and detail work</li>
+                <li>• Doors and shutters</li>
+                <li>• Soffit and fascia</li>
+                <li>• Final quality inspection</li>
+              </ul>
+            </div>
+          </div>
+          <div style="background: white; padding: 15px; border-radius: 6px; border: 1px solid #e2e8f0;">
+            <div style="font-size: 18px; font-weight: bold; color: #2563eb;">
+              Total Project Value: $${total.toFixed(2)}
+            </div>
+          </div>
+        </div>
+      `}
+      
+      <div style="margin-top: 20px; background: #f0f9ff; padding: 15px; border-radius: 8px; border: 1px solid #bae6fd;">
+        <h4 style="color: #1e40af; margin-bottom: 10px;">What's Included in Your Service:</h4>
+        <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px; font-size: 12px; color: #374151;">
+          <div>
+            <strong>Materials & Equipment:</strong><br>
+            • Premium quality exterior paint<br>
+            • Drop cloths and protective materials<br>
+            • Professional painting equipment
+          </div>
+          <div>
+            <strong>Labor & Expertise:</strong><br>
+            • Licensed and insured crew<br>
+            • Surface preparation and cleanup<br>
+            • Quality control inspection
+          </div>
+        </div>
+      </div>
+    </div>
+
+    <div style="display: flex; justify-content: flex-end; margin-bottom: 30px;">
+      <div style="width: 300px;">
+        <table style="width: 100%; border-collapse: collapse;">
+          <tr style="border-top: 2px solid #2563eb;">
+            <td style="padding: 12px; text-align: right; font-size: 18px; font-weight: bold; color: #2563eb;">TOTAL:</td>
+            <td style="padding: 12px; text-align: right; font-size: 20px; font-weight: bold; color: #2563eb;">$${subtotal.toFixed(2)}</td>
+          </tr>
+        </table>
+      </div>
+    </div>
+
+    ${invoice.notes ? `
+      <div style="margin-bottom: 30px;">
+        <h3 style="color: #2563eb; font-size: 16px; margin-bottom: 10px; border-bottom: 2px solid #e2e8f0; padding-bottom: 5px;">NOTES:</h3>
+        <div style="background: #f8fafc; padding: 15px; border-radius: 8px; border: 1px solid #e2e8f0;">
+          ${invoice.notes}
+        </div>
+      </div>
+    ` : ''}
+
+    <div style="border-top: 2px solid #e2e8f0; padding-top: 20px; margin-top: 40px;">
+      <div style="display: flex; justify-content: space-between; align-items: center;">
+        <div>
+          <div style="font-weight: bold; color: #2563eb; margin-bottom: 5px;">Payment Terms:</div>
+          <div style="color: #666; font-size: 11px;">
+            Payment is due within 30 days of invoice date.<br>
+            Late payments may incur additional charges.<br>
+            Thank you for choosing ${company?.name ?? "us"}!
+          </div>
+        </div>
+        <div style="text-align: right;">
+          <div style="font-weight: bold; color: #2563eb; margin-bottom: 5px;">Contact Information:</div>
+          <div style="color: #666; font-size: 11px;">
+            ${[
+              company?.email && `Email: ${company.email}`,
+              company?.phone && `Phone: ${company.phone}`,
+              company?.website,
+            ].filter(Boolean).join("<br>")}
+          </div>
+        </div>
+      </div>
+    </div>
+  `;
+
+  // Temporarily add to DOM
+  document.body.appendChild(pdfContent);
+
+  try {
+    // Convert to canvas
+    const canvas = await html2canvas(pdfContent, {
+      scale: 2,
+      useCORS: true,
+      allowTaint: true,
+      backgroundColor: '#ffffff'
+    });
+
+    // Create PDF
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    const imgData = canvas.toDataURL('image/png');
+    
+    const pdfWidth = pdf.internal.pageSize.getWidth();
+    const pdfHeight = pdf.internal.pageSize.getHeight();
+    const imgWidth = canvas.width;
+    const imgHeight = canvas.height;
+    const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
+    const imgX = (pdfWidth - imgWidth * ratio) / 2;
+    const imgY = 0;
+
+    pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
+    
+    // Download PDF
+    pdf.save(`Invoice-${invoice.invoiceNumber}.pdf`);
+    
+  } catch (error) {
+    console.error('Error generating PDF:', error);
+    alert('Error generating PDF. Please try again.');
+  } finally {
+    // Remove temporary element
+    document.body.removeChild(pdfContent);
+  }
+}
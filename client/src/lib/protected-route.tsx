@@ -1,16 +1,21 @@
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2 } from "lucide-react";
-import { Route, useLocation } from "wouter";
+import { Loader2, Lock } from "lucide-react";
+import { Link, Route, useLocation } from "wouter";
 import { useEffect } from "react";
+import type { Resource } from "@shared/permissions";
+
+const SETTINGS_PATH = "/dashboard/settings";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  resource,
 }: {
   path: string;
   component: () => React.JSX.Element;
+  resource?: Resource;
 }) {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, can } = useAuth();
   const [, setLocation] = useLocation();
   
   // Usar useEffect para redirigir después del renderizado
@@ -20,6 +25,14 @@ export function ProtectedRoute({
     }
   }, [user, isLoading, setLocation]);
 
+  // The API refuses every request until 2FA is set up, so send the user to Settings > Security
+  const mustSetUpTwoFactor = !!user?.twoFactorSetupRequired && path !== SETTINGS_PATH;
+  useEffect(() => {
+    if (mustSetUpTwoFactor) {
+      setLocation(SETTINGS_PATH);
+    }
+  }, [mustSetUpTwoFactor, setLocation]);
+
   return (
     <Route path={path}>
       {() => {
@@ -31,11 +44,24 @@ export function ProtectedRoute({
           );
         }
 
-        if (!user) {
+        if (!user || mustSetUpTwoFactor) {
           // No renderizamos nada mientras se ejecuta la redirección
           return null;
         }
 
+        if (resource && !can(resource)) {
+          return (
+            <div className="flex flex-col items-center justify-center min-h-screen gap-2 text-center px-4">
+              <Lock className="h-8 w-8 text-gray-400" />
+              <h1 className="text-lg font-medium text-gray-900">Access restricted</h1>
+              <p className="text-sm text-gray-500">Your role does not have access to this section.</p>
+              <Link href="/dashboard" className="text-sm text-primary underline">
+                Back to dashboard
+              </Link>
+            </div>
+          );
+        }
+
         return <Component />;
       }}
     </Route>
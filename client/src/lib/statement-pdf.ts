@@ -0,0 +1,137 @@
+import jsPDF from "jspdf";
+import type { Client, Company } from "@shared/schema";
+import { companyAddressLines } from "@/hooks/use-company";
+
+// Shape of GET /api/clients/:id/statement (dates arrive as strings)
+export interface StatementLine {
+  date: string;
+  type: "invoice" | "payment";
+  reference: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+export interface AccountStatement {
+  client: Client;
+  from: string;
+  to: string;
+  openingBalance: number;
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+  entries: StatementLine[];
+}
+
+const money = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const day = (value: string) => new Date(value).toLocaleDateString("en-US");
+
+// Column x positions in mm; amounts are right aligned on their x
+const COLUMNS = { date: 15, reference: 40, description: 72, charge: 140, payment: 168, balance: 195 };
+const PAGE_BOTTOM = 280;
+
+/**
+ * Draws the statement as text rather than a screenshot so long histories
+ * flow onto extra pages, then downloads it.
+ */
+export function downloadStatementPdf(statement: AccountStatement, company?: Company) {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const blue: [number, number, number] = [37, 99, 235];
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(20);
+  pdf.setTextColor(...blue);
+  pdf.text("ACCOUNT STATEMENT", 15, 20);
+
+  pdf.setFontSize(11);
+  pdf.setTextColor(0);
+  pdf.text(company?.name ?? "", 15, 28);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(100);
+  companyAddressLines(company).forEach((line, i) => pdf.text(line, 15, 33 + i * 4));
+
+  pdf.setTextColor(0);
+  pdf.setFontSize(10);
+  pdf.text(`Period: ${day(statement.from)} - ${day(statement.to)}`, 195, 28, { align: "right" });
+  pdf.text(`Issued: ${new Date().toLocaleDateString("en-US")}`, 195, 33, { align: "right" });
+
+  let y = 58;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("STATEMENT FOR:", 15, y);
+  pdf.setFont("helvetica", "normal");
+  [statement.client.name, statement.client.address, statement.client.email, statement.client.phone]
+    .filter(Boolean)
+    .forEach((line) => {
+      y += 5;
+      pdf.text(line, 15, y);
+    });
+
+  const header = () => {
+    pdf.setFillColor(248, 250, 252);
+    pdf.rect(13, y - 5, 184, 8, "F");
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.text("Date", COLUMNS.date, y);
+    pdf.text("Reference", COLUMNS.reference, y);
+    pdf.text("Description", COLUMNS.description, y);
+    pdf.text("Charges", COLUMNS.charge, y, { align: "right" });
+    pdf.text("Payments", COLUMNS.payment, y, { align: "right" });
+    pdf.text("Balance", COLUMNS.balance, y, { align: "right" });
+    pdf.setFont("helvetica", "normal");
+    y += 7;
+  };
+
+  y += 12;
+  header();
+  pdf.text(day(statement.from), COLUMNS.date, y);
+  pdf.text("Balance brought forward", COLUMNS.description, y);
+  pdf.text(money(statement.openingBalance), COLUMNS.balance, y, { align: "right" });
+  y += 6;
+
+  for (const entry of statement.entries) {
+    if (y > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = 20;
+      header();
+    }
+    const description = pdf.splitTextToSize(entry.description, COLUMNS.charge - COLUMNS.description - 22)[0];
+    pdf.text(day(entry.date), COLUMNS.date, y);
+    pdf.text(pdf.splitTextToSize(entry.reference, 30)[0], COLUMNS.reference, y);
+    pdf.text(description, COLUMNS.description, y);
+    if (entry.charge) pdf.text(money(entry.charge), COLUMNS.charge, y, { align: "right" });
+    if (entry.payment) pdf.text(money(entry.payment), COLUMNS.payment, y, { align: "right" });
+    pdf.text(money(entry.balance), COLUMNS.balance, y, { align: "right" });
+    y += 6;
+  }
+
+  if (y > PAGE_BOTTOM - 20) {
+    pdf.addPage();
+    y = 20;
+  }
+  pdf.setDrawColor(...blue);
+  pdf.line(13, y - 3, 197, y - 3);
+  y += 3;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Totals for the period", COLUMNS.description, y);
+  pdf.text(money(statement.totalCharges), COLUMNS.charge, y, { align: "right" });
+  pdf.text(money(statement.totalPayments), COLUMNS.payment, y, { align: "right" });
+  y += 8;
+  pdf.setFontSize(12);
+  pdf.setTextColor(...blue);
+  pdf.text(statement.closingBalance > 0 ? "Balance due:" : "Balance:", COLUMNS.payment, y, { align: "right" });
+  pdf.text(money(statement.closingBalance), COLUMNS.balance, y, { align: "right" });
+
+  const pageCount = pdf.getNumberOfPages();
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(100);
+  for (let i = 1; i <= pageCount; i++) {
+    pdf.setPage(i);
+    pdf.text(`Page ${i} of ${pageCount}`, 105, 292, { align: "center" });
+  }
+
+  pdf.save(`Statement-${statement.client.name.replace(/\W+/g, "_")}-${statement.to.slice(0, 10)}.pdf`);
+}
@@ -0,0 +1,231 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AuditLogEntry, AUDIT_ENTITY_TYPES, AUDIT_ACTIONS } from "@shared/schema";
+import { Layout } from "@/components/layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AuditActionBadge,
+  AuditChangeList,
+  AUDIT_ENTITY_LABELS,
+} from "@/components/audit-history";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+
+const ALL = "all";
+
+export default function AuditLog() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [entityId, setEntityId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [userSearch, setUserSearch] = useState("");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const params = new URLSearchParams();
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (action !== ALL) params.set("action", action);
+  if (entityId) params.set("entityId", entityId);
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  // Include the whole "to" day
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit-logs?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  const visibleEntries = entries?.filter((entry) =>
+    !userSearch || (entry.userName || "System").toLowerCase().includes(userSearch.toLowerCase())
+  );
+
+  const toggleExpanded = (id: number) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const clearFilters = () => {
+    setEntityType(ALL);
+    setAction(ALL);
+    setEntityId("");
+    setFromDate("");
+    setToDate("");
+    setUserSearch("");
+  };
+
+  return (
+    <Layout title="Audit Log">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-primary">Audit Log</h1>
+          <p className="text-gray-500">Every change made to records, who made it and what changed</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
+              <div className="space-y-2">
+                <Label>Record type</Label>
+                <Select value={entityType} onValueChange={setEntityType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All types</SelectItem>
+                    {AUDIT_ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {AUDIT_ENTITY_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-entity-id">Record ID</Label>
+                <Input
+                  id="audit-entity-id"
+                  type="number"
+                  value={entityId}
+                  onChange={(e) => setEntityId(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actions</SelectItem>
+                    {AUDIT_ACTIONS.map((auditAction) => (
+                      <SelectItem key={auditAction} value={auditAction}>
+                        <span className="capitalize">{auditAction}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-user">User</Label>
+                <Input
+                  id="audit-user"
+                  value={userSearch}
+                  onChange={(e) => setUserSearch(e.target.value)}
+                  placeholder="Any user"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="mt-4 flex justify-end">
+              <Button variant="outline" size="sm" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+              </div>
+            ) : visibleEntries && visibleEntries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Fields</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleEntries.map((entry) => {
+                    const isExpanded = expanded.has(entry.id);
+                    const fields = Object.keys(entry.changes as object);
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow className="cursor-pointer" onClick={() => toggleExpanded(entry.id)}>
+                          <TableCell>
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                          </TableCell>
+                          <TableCell>{entry.userName || "System"}</TableCell>
+                          <TableCell>
+                            <AuditActionBadge action={entry.action} />
+                          </TableCell>
+                          <TableCell>
+                            {AUDIT_ENTITY_LABELS[entry.entityType as keyof typeof AUDIT_ENTITY_LABELS] || entry.entityType} #{entry.entityId}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {entry.action === "update" ? fields.join(", ") : `${fields.length} fields`}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell></TableCell>
+                            <TableCell colSpan={5}>
+                              <AuditChangeList entry={entry} />
+                              {entry.ip && (
+                                <p className="mt-2 text-xs text-muted-foreground">IP {entry.ip}</p>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-10">
+                <History className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Changes Found</h3>
+                <p className="text-gray-500">Try widening the filters.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -3,12 +3,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Lock } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Lock, KeyRound, ShieldCheck } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useLocation } from "wouter";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import logoImg from "@assets/JPG_3_1764824638626.jpg";
 
 const loginSchema = z.object({
@@ -16,11 +20,34 @@ const loginSchema = z.object({
   password: z.string().min(1, { message: "Password is required" }),
 });
 
+const forgotPasswordSchema = z.object({
+  identifier: z.string().min(1, { message: "Username or email is required" }),
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, { message: "Password must be at least 8 characters" }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
 type LoginFormValues = z.infer<typeof loginSchema>;
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+
+type AuthMode = "login" | "forgot" | "reset" | "two-factor";
 
 export default function AuthPage() {
-  const { user, loginMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  // Reset links look like /auth?reset=<token>
+  const [resetToken, setResetToken] = useState(() => new URLSearchParams(window.location.search).get("reset"));
+  const [mode, setMode] = useState<AuthMode>(resetToken ? "reset" : "login");
+  const [resetRequested, setResetRequested] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
   
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -30,6 +57,77 @@ export default function AuthPage() {
     },
   });
   
+  const forgotPasswordForm = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+  
+  const resetPasswordForm = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+  
+  // Check the reset link before asking for a new password
+  const { error: resetTokenError, isLoading: isCheckingResetToken } = useQuery({
+    queryKey: [`/api/password-reset/${resetToken}`],
+    enabled: mode === "reset" && !!resetToken,
+  });
+  
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordValues) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setResetRequested(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordValues) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", {
+        token: resetToken,
+        password: data.password,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Password reset",
+        description: data.message,
+      });
+      window.history.replaceState(null, "", "/auth");
+      setResetToken(null);
+      setMode("login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const showMode = (nextMode: AuthMode) => {
+    setResetRequested(false);
+    setTwoFactorCode("");
+    setUseBackupCode(false);
+    setMode(nextMode);
+  };
+  
   useEffect(() => {
     if (user) {
       setLocation("/dashboard");
@@ -40,9 +138,22 @@ export default function AuthPage() {
     loginMutation.mutate({
       username: data.username,
       password: data.password,
+    }, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          showMode("two-factor");
+        }
+      },
     });
   };
   
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (twoFactorCode.trim()) {
+      verifyTwoFactorMutation.mutate(twoFactorCode.trim());
+    }
+  };
+  
   return (
     <div className="min-h-screen flex bg-gray-50 safe-area-inset">
       {/* Left side - Company info and features */}
@@ -95,52 +206,243 @@ export default function AuthPage() {
           
           <Card className="shadow-lg border-0">
             <CardContent className="pt-6">
-              <div className="text-center">
-                <div className="mx-auto inline-flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 mb-4">
-                  <Lock className="h-6 w-6 text-primary" />
-                </div>
-                <h2 className="text-xl font-semibold mb-1">Login</h2>
-                <p className="text-sm text-gray-500 mb-6">Enter your credentials to access the system</p>
-              </div>
+              {mode === "login" && (
+                <>
+                  <div className="text-center">
+                    <div className="mx-auto inline-flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 mb-4">
+                      <Lock className="h-6 w-6 text-primary" />
+                    </div>
+                    <h2 className="text-xl font-semibold mb-1">Login</h2>
+                    <p className="text-sm text-gray-500 mb-6">Enter your credentials to access the system</p>
+                  </div>
               
-              <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="username">Username</Label>
-                  <Input 
-                    id="username" 
-                    placeholder="username"
-                    {...loginForm.register("username")}
-                  />
-                  {loginForm.formState.errors.username && (
-                    <p className="text-sm text-red-500">{loginForm.formState.errors.username.message}</p>
-                  )}
-                </div>
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input 
+                        id="username" 
+                        placeholder="username"
+                        {...loginForm.register("username")}
+                      />
+                      {loginForm.formState.errors.username && (
+                        <p className="text-sm text-red-500">{loginForm.formState.errors.username.message}</p>
+                      )}
+                    </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <Input 
-                    id="password" 
-                    type="password"
-                    placeholder="********"
-                    {...loginForm.register("password")}
-                  />
-                  {loginForm.formState.errors.password && (
-                    <p className="text-sm text-red-500">{loginForm.formState.errors.password.message}</p>
-                  )}
-                </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input 
+                        id="password" 
+                        type="password"
+                        placeholder="********"
+                        {...loginForm.register("password")}
+                      />
+                      {loginForm.formState.errors.password && (
+                        <p className="text-sm text-red-500">{loginForm.formState.errors.password.message}</p>
+                      )}
+                    </div>
                 
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={loginMutation.isPending}
-                >
-                  {loginMutation.isPending ? "Logging in..." : "Login"}
-                </Button>
-              </form>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending ? "Logging in..." : "Login"}
+                    </Button>
+                  </form>
+                  
+                  <p className="mt-4 text-center text-sm">
+                    <button type="button" className="text-primary hover:underline" onClick={() => showMode("forgot")}>
+                      Forgot your password?
+                    </button>
+                  </p>
+              
+                  <p className="mt-6 text-center text-sm text-gray-500">
+                    If you don't have an account, please contact an administrator to provide you with access to the system.
+                  </p>
+                </>
+              )}
               
-              <p className="mt-6 text-center text-sm text-gray-500">
-                If you don't have an account, please contact an administrator to provide you with access to the system.
-              </p>
+              {mode === "two-factor" && (
+                <>
+                  <div className="text-center">
+                    <div className="mx-auto inline-flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 mb-4">
+                      <ShieldCheck className="h-6 w-6 text-primary" />
+                    </div>
+                    <h2 className="text-xl font-semibold mb-1">Two-Factor Authentication</h2>
+                    <p className="text-sm text-gray-500 mb-6">
+                      {useBackupCode
+                        ? "Enter one of the backup codes you saved when setting up two-factor authentication"
+                        : "Enter the 6-digit code from your authenticator app"}
+                    </p>
+                  </div>
+                  
+                  <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                    {useBackupCode ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="backup-code">Backup code</Label>
+                        <Input 
+                          id="backup-code" 
+                          placeholder="xxxx-xxxx"
+                          autoComplete="off"
+                          value={twoFactorCode}
+                          onChange={(e) => setTwoFactorCode(e.target.value)}
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex justify-center">
+                        <InputOTP 
+                          maxLength={6} 
+                          value={twoFactorCode} 
+                          onChange={setTwoFactorCode}
+                          autoFocus
+                        >
+                          <InputOTPGroup>
+                            {[0, 1, 2, 3, 4, 5].map((index) => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    )}
+                    
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={verifyTwoFactorMutation.isPending || (!useBackupCode && twoFactorCode.length < 6)}
+                    >
+                      {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                    </Button>
+                  </form>
+                  
+                  <p className="mt-4 text-center text-sm">
+                    <button 
+                      type="button" 
+                      className="text-primary hover:underline" 
+                      onClick={() => {
+                        setTwoFactorCode("");
+                        setUseBackupCode(!useBackupCode);
+                      }}
+                    >
+                      {useBackupCode ? "Use your authenticator app" : "Use a backup code"}
+                    </button>
+                  </p>
+                  
+                  <p className="mt-6 text-center text-sm">
+                    <button type="button" className="text-primary hover:underline" onClick={() => showMode("login")}>
+                      Back to login
+                    </button>
+                  </p>
+                </>
+              )}
+              
+              {mode === "forgot" && (
+                <>
+                  <div className="text-center">
+                    <div className="mx-auto inline-flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 mb-4">
+                      <KeyRound className="h-6 w-6 text-primary" />
+                    </div>
+                    <h2 className="text-xl font-semibold mb-1">Forgot Password</h2>
+                    <p className="text-sm text-gray-500 mb-6">We will email you a link to choose a new password</p>
+                  </div>
+                  
+                  {resetRequested ? (
+                    <p className="text-sm text-gray-600 text-center">
+                      If an account matches what you entered, a reset link is on its way to the email address on file. The link expires in one hour.
+                    </p>
+                  ) : (
+                    <form onSubmit={forgotPasswordForm.handleSubmit((data) => forgotPasswordMutation.mutate(data))} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="identifier">Username or email</Label>
+                        <Input 
+                          id="identifier" 
+                          placeholder="username"
+                          {...forgotPasswordForm.register("identifier")}
+                        />
+                        {forgotPasswordForm.formState.errors.identifier && (
+                          <p className="text-sm text-red-500">{forgotPasswordForm.formState.errors.identifier.message}</p>
+                        )}
+                      </div>
+                      
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={forgotPasswordMutation.isPending}
+                      >
+                        {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+                      </Button>
+                    </form>
+                  )}
+                  
+                  <p className="mt-6 text-center text-sm">
+                    <button type="button" className="text-primary hover:underline" onClick={() => showMode("login")}>
+                      Back to login
+                    </button>
+                  </p>
+                </>
+              )}
+              
+              {mode === "reset" && (
+                <>
+                  <div className="text-center">
+                    <div className="mx-auto inline-flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 mb-4">
+                      <KeyRound className="h-6 w-6 text-primary" />
+                    </div>
+                    <h2 className="text-xl font-semibold mb-1">Choose a New Password</h2>
+                    <p className="text-sm text-gray-500 mb-6">Enter and confirm your new password</p>
+                  </div>
+                  
+                  {isCheckingResetToken ? (
+                    <div className="flex justify-center py-6">
+                      <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+                    </div>
+                  ) : resetTokenError ? (
+                    <p className="text-sm text-red-500 text-center">{resetTokenError.message}</p>
+                  ) : (
+                    <form onSubmit={resetPasswordForm.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="new-password">New Password</Label>
+                        <Input 
+                          id="new-password" 
+                          type="password"
+                          placeholder="********"
+                          {...resetPasswordForm.register("password")}
+                        />
+                        {resetPasswordForm.formState.errors.password && (
+                          <p className="text-sm text-red-500">{resetPasswordForm.formState.errors.password.message}</p>
+                        )}
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <Label htmlFor="confirm-password">Confirm Password</Label>
+                        <Input 
+                          id="confirm-password" 
+                          type="password"
+                          placeholder="********"
+                          {...resetPasswordForm.register("confirmPassword")}
+                        />
+                        {resetPasswordForm.formState.errors.confirmPassword && (
+                          <p className="text-sm text-red-500">{resetPasswordForm.formState.errors.confirmPassword.message}</p>
+                        )}
+                      </div>
+                      
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={resetPasswordMutation.isPending}
+                      >
+                        {resetPasswordMutation.isPending ? "Saving..." : "Reset Password"}
+                      </Button>
+                    </form>
+                  )}
+                  
+                  <p className="mt-6 text-center text-sm">
+                    <button type="button" className="text-primary hover:underline" onClick={() => showMode("forgot")}>
+                      Request a new link
+                    </button>
+                  </p>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { Project, ServiceOrder, Staff, Subcontractor } from '@shared/schema';
+import { EstimateVisit, Project, ServiceOrder, Staff, Subcontractor } from '@shared/schema';
 import { Layout } from '@/components/layout';
 import { CalendarView } from '@/components/calendar-view';
 import { Button } from '@/components/ui/button';
@@ -27,6 +27,11 @@ export default function Calendar() {
     },
   });
 
+  // Fetch estimate visits
+  const { data: estimateVisits, refetch: refetchEstimateVisits } = useQuery<EstimateVisit[]>({
+    queryKey: ['/api/estimate-visits'],
+  });
+
   // Fetch staff members
   const { data: staff, isLoading: isLoadingStaff } = useQuery<Staff[]>({
     queryKey: ['/api/staff'],
@@ -51,6 +56,7 @@ export default function Calendar() {
   const refreshData = () => {
     refetchProjects();
     refetchServiceOrders();
+    refetchEstimateVisits();
   };
 
   // Estado para controlar cuando debemos abrir el formulario de nuevo evento
@@ -77,6 +83,7 @@ export default function Calendar() {
       <CalendarView
         projects={projects}
         serviceOrders={serviceOrders}
+        estimateVisits={estimateVisits}
         staff={staff}
         subcontractors={subcontractors}
         isLoadingProjects={isLoadingProjects}
@@ -1,9 +1,14 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Client } from "@shared/schema";
+import { Client, ClientSegment } from "@shared/schema";
+import { hasTag } from "@shared/client-segments";
 import { Layout } from "@/components/layout";
+import { ImportExportButtons } from "@/components/import-export";
 import { ClientForm } from "@/components/client-form";
 import { ClientDetail } from "@/components/client-detail";
+import { ClientDuplicatesDialog } from "@/components/client-duplicates";
+import { ClientSegmentsDialog, SegmentCampaignDialog } from "@/components/client-segments";
+import { useAuth } from "@/hooks/use-auth";
 import {
   Card,
   CardContent,
@@ -29,6 +34,9 @@ import {
   List,
   UserPlus,
   Users,
+  Copy,
+  Filter,
+  Megaphone,
 } from "lucide-react";
 import {
   Dialog,
@@ -64,11 +72,17 @@ export default function Clients() {
   const [clientToEdit, setClientToEdit] = useState<Client | null>(null);
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
   const [clientToView, setClientToView] = useState<Client | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [classificationFilter, setClassificationFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [segmentFilter, setSegmentFilter] = useState("all");
+  const [showSegments, setShowSegments] = useState(false);
+  const [campaignSegment, setCampaignSegment] = useState<ClientSegment | null>(null);
   const [viewMode, setViewMode] = useState<"cards" | "list">("cards");
   const [activeTab, setActiveTab] = useState("clients");
   const { toast } = useToast();
+  const { can } = useAuth();
 
   // Fetch clients
   const { data: clients, isLoading } = useQuery<Client[]>({
@@ -80,6 +94,17 @@ export default function Clients() {
     },
   });
 
+  const { data: tags = [] } = useQuery<string[]>({ queryKey: ["/api/client-tags"] });
+  const { data: segments = [] } = useQuery<ClientSegment[]>({ queryKey: ["/api/client-segments"] });
+  const selectedSegment = segments.find((segment) => String(segment.id) === segmentFilter) ?? null;
+
+  // Members of the selected saved segment
+  const { data: segmentClients } = useQuery<Client[]>({
+    queryKey: [`/api/client-segments/${selectedSegment?.id}/clients`],
+    enabled: !!selectedSegment,
+  });
+  const segmentClientIds = new Set(segmentClients?.map((client) => client.id));
+
   const handleEditClient = (client: Client) => {
     setClientToEdit(client);
     setShowClientForm(true);
@@ -176,6 +201,14 @@ export default function Clients() {
       if (classificationFilter !== "all" && client.classification !== classificationFilter) {
         return false;
       }
+
+      if (tagFilter !== "all" && !hasTag(client.tags, tagFilter)) {
+        return false;
+      }
+
+      if (selectedSegment && !segmentClientIds.has(client.id)) {
+        return false;
+      }
       
       // Filter by search term
       if (searchTerm) {
@@ -248,6 +281,15 @@ export default function Clients() {
               <MapPin className="h-4 w-4 mr-2 mt-1 text-gray-400" />
               <span className="flex-1">{item.address}</span>
             </div>
+            {item.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {item.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
             {item.notes && (
               <div className="text-sm text-gray-500 mt-2 pt-2 border-t">
                 <p className="line-clamp-2">{item.notes}</p>
@@ -344,6 +386,23 @@ export default function Clients() {
           </TabsList>
 
           <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => setShowDuplicates(true)}
+              className="flex items-center space-x-2"
+            >
+              <Copy className="h-4 w-4" />
+              <span>Find Duplicates</span>
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowSegments(true)}
+              className="flex items-center space-x-2"
+            >
+              <Filter className="h-4 w-4" />
+              <span>Segments</span>
+            </Button>
+            <ImportExportButtons entity="clients" />
             <Button 
               onClick={activeTab === 'clients' ? handleNewClient : handleNewProspect}
               className="flex items-center space-x-2"
@@ -355,8 +414,8 @@ export default function Clients() {
         </div>
 
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
-          <div className="flex items-center space-x-2 w-full max-w-md">
-            <div className="relative w-full">
+          <div className="flex flex-wrap items-center gap-2 w-full max-w-4xl">
+            <div className="relative w-full max-w-xs">
               <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
                 placeholder={activeTab === 'clients' ? "Search clients..." : "Search prospects..."}
@@ -379,6 +438,47 @@ export default function Clients() {
                 <SelectItem value="industrial">Industrial</SelectItem>
               </SelectContent>
             </Select>
+            {tags.length > 0 && (
+              <Select value={tagFilter} onValueChange={setTagFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Filter by tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tags</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag} value={tag}>
+                      {tag}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {segments.length > 0 && (
+              <Select value={segmentFilter} onValueChange={setSegmentFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Saved segment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clients</SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={String(segment.id)}>
+                      {segment.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {selectedSegment && can("communications", "write") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCampaignSegment(selectedSegment)}
+                className="flex items-center space-x-1 whitespace-nowrap"
+              >
+                <Megaphone className="h-4 w-4" />
+                <span>Campaign</span>
+              </Button>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
@@ -461,6 +561,21 @@ export default function Clients() {
         isOpen={!!clientToView}
         onClose={() => setClientToView(null)}
       />
+
+      <ClientDuplicatesDialog
+        open={showDuplicates}
+        onClose={() => setShowDuplicates(false)}
+      />
+
+      <ClientSegmentsDialog
+        open={showSegments}
+        onClose={() => setShowSegments(false)}
+      />
+
+      <SegmentCampaignDialog
+        segment={campaignSegment}
+        onClose={() => setCampaignSegment(null)}
+      />
     </Layout>
   );
 }
\ No newline at end of file
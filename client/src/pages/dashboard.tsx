@@ -5,6 +5,8 @@ import { Layout } from "@/components/layout";
 import { KanbanBoard } from "@/components/kanban-board";
 import { ProjectModal } from "@/components/project-modal";
 import { ActivityList } from "@/components/activity-list";
+import { FollowUpsDue } from "@/components/communications";
+import { LeadSlaWidget } from "@/components/lead-pipeline";
 import { StatsCard } from "@/components/stats-card";
 import {
   ChartGantt,
@@ -15,6 +17,7 @@ import {
   Plus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 import { ProjectForm } from "@/components/project-form";
 import {
   Dialog,
@@ -37,6 +40,9 @@ export default function Dashboard() {
   const [showProjectForm, setShowProjectForm] = useState(false);
   const [projectToEdit, setProjectToEdit] = useState<Project | null>(null);
   const [projectFilter, setProjectFilter] = useState<string>("all");
+  const { can } = useAuth();
+  const hasSideColumn = can("communications") || can("leads");
+  const canSeeFinancials = can("financial_reports");
 
   // Fetch projects for the Kanban board
   const { data: projects, isLoading: isLoadingProjects } = useQuery<Project[]>({
@@ -66,6 +72,7 @@ export default function Dashboard() {
       if (!res.ok) throw new Error("Failed to fetch quotes");
       return res.json();
     },
+    enabled: canSeeFinancials,
   });
 
   const handleProjectClick = (project: Project) => {
@@ -201,12 +208,14 @@ export default function Dashboard() {
           icon={<File className="text-white h-5 w-5" />}
           iconBgColor="bg-yellow-500"
         />
-        <StatsCard
-          title="Revenue (Current Month)"
-          value={`$${currentMonthIncome.toLocaleString()}`}
-          icon={<DollarSign className="text-white h-5 w-5" />}
-          iconBgColor="bg-green-500"
-        />
+        {canSeeFinancials && (
+          <StatsCard
+            title="Revenue (Current Month)"
+            value={`$${currentMonthIncome.toLocaleString()}`}
+            icon={<DollarSign className="text-white h-5 w-5" />}
+            iconBgColor="bg-green-500"
+          />
+        )}
         <StatsCard
           title="New Clients (Month)"
           value={newClients}
@@ -247,10 +256,12 @@ export default function Dashboard() {
               <Filter className="h-4 w-4 mr-2" />
               Filters
             </Button>
-            <Button size="sm" onClick={handleNewProject}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Project
-            </Button>
+            {can("projects", "write") && (
+              <Button size="sm" onClick={handleNewProject}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Project
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -267,15 +278,23 @@ export default function Dashboard() {
         />
       )}
 
-      {/* Recent Activity */}
-      <div className="mt-8">
-        {isLoadingActivities ? (
-          <div className="flex justify-center py-10">
-            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      {/* Follow-ups, leads awaiting contact and Recent Activity */}
+      <div className={`mt-8 grid grid-cols-1 gap-6 ${hasSideColumn ? "lg:grid-cols-3" : ""}`}>
+        {hasSideColumn && (
+          <div className="space-y-6">
+            {can("communications") && <FollowUpsDue />}
+            {can("leads") && <LeadSlaWidget />}
           </div>
-        ) : (
-          <ActivityList activities={activities || []} />
         )}
+        <div className={hasSideColumn ? "lg:col-span-2" : ""}>
+          {isLoadingActivities ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <ActivityList activities={activities || []} />
+          )}
+        </div>
       </div>
 
       {/* Project Details Modal */}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Lead } from "@shared/schema";
 import { Layout } from "@/components/layout";
 import {
@@ -21,9 +22,11 @@ import {
   Trash,
   CheckCircle,
   Clock,
-  XCircle,
+  AlertTriangle,
   UserPlus,
   Filter,
+  LayoutGrid,
+  List,
 } from "lucide-react";
 import {
   Dialog,
@@ -43,9 +46,21 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { CommunicationTimeline } from "@/components/communications";
+import { LeadBoard } from "@/components/lead-board";
+import { LeadConversionDialog } from "@/components/lead-conversion";
+import {
+  LeadScoreBadge,
+  LeadSlaBadge,
+  LeadStageBadge,
+  LostReasonDialog,
+  useLeadOwners,
+  useLeadPipeline,
+} from "@/components/lead-pipeline";
+import { leadSla, scoreLead } from "@shared/lead-pipeline";
 import {
   Select,
   SelectContent,
@@ -67,7 +82,14 @@ export default function Leads() {
   const [leadToDelete, setLeadToDelete] = useState<Lead | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [view, setView] = useState<"table" | "board">("table");
+  const [leadToLose, setLeadToLose] = useState<Lead | null>(null);
+  const [leadToConvert, setLeadToConvert] = useState<Lead | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const pipeline = useLeadPipeline();
+  const owners = useLeadOwners();
 
   const { data: leads, isLoading } = useQuery<Lead[]>({
     queryKey: ["/api/leads"],
@@ -99,48 +121,33 @@ export default function Leads() {
     }
   };
 
-  const updateLeadStatus = async (lead: Lead, newStatus: string) => {
+  const updateLead = async (lead: Lead, changes: Partial<Lead>, description: string) => {
     try {
-      await apiRequest("PUT", `/api/leads/${lead.id}`, { status: newStatus });
+      const res = await apiRequest("PUT", `/api/leads/${lead.id}`, changes);
+      const updated: Lead = await res.json();
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-      toast({
-        title: "Status updated",
-        description: `Lead status changed to ${newStatus}.`,
-      });
+      setLeadToView((current) => (current?.id === updated.id ? updated : current));
+      toast({ title: "Lead updated", description });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Could not update lead status.",
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
   };
 
-  const convertToClient = async (lead: Lead) => {
-    try {
-      await apiRequest("POST", "/api/clients", {
-        name: lead.name,
-        email: lead.email,
-        phone: lead.phone,
-        address: "To be updated",
-        type: "prospect",
-        classification: "residential",
-        notes: lead.message || "",
-      });
-      await apiRequest("PUT", `/api/leads/${lead.id}`, { status: "converted" });
-      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
-      toast({
-        title: "Lead converted",
-        description: "The lead has been converted to a client prospect.",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Could not convert lead to client.",
-        variant: "destructive",
-      });
+  const updateLeadStatus = (lead: Lead, newStatus: string) => {
+    if (newStatus === "lost") {
+      setLeadToLose(lead);
+      return;
     }
+    updateLead(lead, { status: newStatus }, `Lead moved to ${pipeline.stages.find((stage) => stage.key === newStatus)?.label ?? newStatus}.`);
+  };
+
+  const updateLeadOwner = (lead: Lead, ownerId: string) => {
+    const owner = owners.find((candidate) => candidate.id.toString() === ownerId);
+    updateLead(lead, { ownerId: owner?.id ?? null }, owner ? `Lead assigned to ${owner.name}.` : "Lead unassigned.");
   };
 
   const filteredLeads = leads?.filter((lead) => {
@@ -148,26 +155,18 @@ export default function Leads() {
       lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
       lead.phone.includes(searchTerm);
-    const matchesStatus = statusFilter === "all" || lead.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const sla = leadSla(lead, pipeline);
+    const matchesStatus =
+      statusFilter === "all" ||
+      (statusFilter === "breached" ? sla.waiting && sla.breached : lead.status === statusFilter);
+    const matchesOwner =
+      ownerFilter === "all" ||
+      (ownerFilter === "unassigned" ? !lead.ownerId : lead.ownerId?.toString() === ownerFilter);
+    return matchesSearch && matchesStatus && matchesOwner;
   });
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "new":
-        return <Badge className="bg-blue-500">New</Badge>;
-      case "contacted":
-        return <Badge className="bg-yellow-500">Contacted</Badge>;
-      case "qualified":
-        return <Badge className="bg-green-500">Qualified</Badge>;
-      case "converted":
-        return <Badge className="bg-primary">Converted</Badge>;
-      case "lost":
-        return <Badge variant="destructive">Lost</Badge>;
-      default:
-        return <Badge variant="outline">{status}</Badge>;
-    }
-  };
+  const getStatusBadge = (status: string) => <LeadStageBadge status={status} pipeline={pipeline} />;
+  const ownerName = (ownerId: number | null) => owners.find((owner) => owner.id === ownerId)?.name;
 
   const formatDate = (date: Date | string | null) => {
     if (!date) return "N/A";
@@ -196,8 +195,11 @@ export default function Leads() {
   const leadStats = {
     total: leads?.length || 0,
     new: leads?.filter((l) => l.status === "new").length || 0,
-    contacted: leads?.filter((l) => l.status === "contacted").length || 0,
-    converted: leads?.filter((l) => l.status === "converted").length || 0,
+    breached: leads?.filter((l) => {
+      const sla = leadSla(l, pipeline);
+      return sla.waiting && sla.breached;
+    }).length || 0,
+    won: leads?.filter((l) => l.status === "won").length || 0,
   };
 
   return (
@@ -239,23 +241,26 @@ export default function Leads() {
           </Card>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Contacted</CardTitle>
-              <Phone className="h-4 w-4 text-yellow-500" />
+              <CardTitle className="text-sm font-medium">Past Response SLA</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-red-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-yellow-500" data-testid="text-contacted-leads">
-                {leadStats.contacted}
+              <div className="text-2xl font-bold text-red-500" data-testid="text-breached-leads">
+                {leadStats.breached}
               </div>
+              <p className="text-xs text-muted-foreground">
+                Not contacted within {pipeline.slaHours} business hours
+              </p>
             </CardContent>
           </Card>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Converted</CardTitle>
+              <CardTitle className="text-sm font-medium">Won</CardTitle>
               <CheckCircle className="h-4 w-4 text-green-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-green-500" data-testid="text-converted-leads">
-                {leadStats.converted}
+              <div className="text-2xl font-bold text-green-500" data-testid="text-won-leads">
+                {leadStats.won}
               </div>
             </CardContent>
           </Card>
@@ -282,19 +287,54 @@ export default function Leads() {
                   />
                 </div>
                 <Select value={statusFilter} onValueChange={setStatusFilter}>
-                  <SelectTrigger className="w-full md:w-[150px]" data-testid="select-status-filter">
+                  <SelectTrigger className="w-full md:w-[170px]" data-testid="select-status-filter">
                     <Filter className="h-4 w-4 mr-2" />
-                    <SelectValue placeholder="Filter by status" />
+                    <SelectValue placeholder="Filter by stage" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="new">New</SelectItem>
-                    <SelectItem value="contacted">Contacted</SelectItem>
-                    <SelectItem value="qualified">Qualified</SelectItem>
-                    <SelectItem value="converted">Converted</SelectItem>
-                    <SelectItem value="lost">Lost</SelectItem>
+                    <SelectItem value="all">All Stages</SelectItem>
+                    {pipeline.stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="breached">Past SLA</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+                  <SelectTrigger className="w-full md:w-[170px]" data-testid="select-owner-filter">
+                    <SelectValue placeholder="Filter by estimator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Estimators</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {owners.map((owner) => (
+                      <SelectItem key={owner.id} value={owner.id.toString()}>
+                        {owner.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex">
+                  <Button
+                    variant={view === "table" ? "default" : "outline"}
+                    size="icon"
+                    className="rounded-r-none"
+                    onClick={() => setView("table")}
+                    title="Table"
+                  >
+                    <List className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={view === "board" ? "default" : "outline"}
+                    size="icon"
+                    className="rounded-l-none"
+                    onClick={() => setView("board")}
+                    title="Board"
+                  >
+                    <LayoutGrid className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             </div>
           </CardHeader>
@@ -309,6 +349,8 @@ export default function Leads() {
                   Leads from your website contact form will appear here
                 </p>
               </div>
+            ) : view === "board" ? (
+              <LeadBoard leads={filteredLeads} pipeline={pipeline} owners={owners} onLeadClick={setLeadToView} />
             ) : (
               <div className="overflow-x-auto">
                 <Table>
@@ -317,7 +359,10 @@ export default function Leads() {
                       <TableHead>Name</TableHead>
                       <TableHead>Contact</TableHead>
                       <TableHead>Service</TableHead>
-                      <TableHead>Status</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Estimator</TableHead>
+                      <TableHead>Stage</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -339,9 +384,15 @@ export default function Leads() {
                           </div>
                         </TableCell>
                         <TableCell>{getServiceLabel(lead.service)}</TableCell>
+                        <TableCell className="text-sm">{lead.marketingSource || "Unknown"}</TableCell>
+                        <TableCell>
+                          <LeadScoreBadge lead={lead} pipeline={pipeline} />
+                        </TableCell>
+                        <TableCell className="text-sm">{ownerName(lead.ownerId) ?? "Unassigned"}</TableCell>
                         <TableCell>{getStatusBadge(lead.status)}</TableCell>
                         <TableCell className="text-sm text-gray-500">
-                          {formatDate(lead.createdAt)}
+                          <div>{formatDate(lead.createdAt)}</div>
+                          <LeadSlaBadge lead={lead} pipeline={pipeline} />
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-1">
@@ -353,11 +404,11 @@ export default function Leads() {
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
-                            {lead.status !== "converted" && (
+                            {!lead.clientId && (
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => convertToClient(lead)}
+                                onClick={() => setLeadToConvert(lead)}
                                 className="text-green-600 hover:text-green-700"
                                 data-testid={`button-convert-${lead.id}`}
                               >
@@ -386,7 +437,7 @@ export default function Leads() {
       </div>
 
       <Dialog open={!!leadToView} onOpenChange={() => setLeadToView(null)}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Lead Details</DialogTitle>
             <DialogDescription>
@@ -426,10 +477,54 @@ export default function Leads() {
                   <p className="text-sm text-gray-500">Service Requested</p>
                   <p>{getServiceLabel(leadToView.service)}</p>
                 </div>
-                <div className="col-span-2">
+                <div>
                   <p className="text-sm text-gray-500">Received</p>
                   <p>{formatDate(leadToView.createdAt)}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-500">ZIP Code</p>
+                  <p>{leadToView.zipCode || "Not given"}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Response</p>
+                  {leadToView.contactedAt || leadSla(leadToView, pipeline).waiting ? (
+                    <LeadSlaBadge lead={leadToView} pipeline={pipeline} />
+                  ) : (
+                    <p>Never contacted</p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Score</p>
+                  <LeadScoreBadge lead={leadToView} pipeline={pipeline} />
+                  <ul className="mt-1 text-xs text-gray-500">
+                    {scoreLead(leadToView, pipeline).reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Source</p>
+                  <p>{leadToView.marketingSource || "Unknown"}</p>
+                </div>
+                {leadToView.status === "lost" && leadToView.lostReason && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-gray-500">Lost Reason</p>
+                    <p className="text-red-600">{leadToView.lostReason}</p>
+                  </div>
+                )}
+                {leadToView.attribution && (
+                  <div className="col-span-2 text-xs text-gray-500 space-y-0.5">
+                    {leadToView.attribution.heardAbout && <p>Heard about us: {leadToView.attribution.heardAbout}</p>}
+                    {leadToView.attribution.utmCampaign && (
+                      <p>
+                        Campaign: {leadToView.attribution.utmCampaign}
+                        {leadToView.attribution.utmMedium ? ` (${leadToView.attribution.utmMedium})` : ""}
+                      </p>
+                    )}
+                    {leadToView.attribution.referrer && <p className="truncate">Referrer: {leadToView.attribution.referrer}</p>}
+                    {leadToView.attribution.landingPage && <p className="truncate">Landing page: {leadToView.attribution.landingPage}</p>}
+                  </div>
+                )}
               </div>
               {leadToView.message && (
                 <div>
@@ -439,43 +534,54 @@ export default function Leads() {
                   </p>
                 </div>
               )}
-              <div className="flex flex-wrap gap-2 pt-4 border-t">
-                <p className="w-full text-sm text-gray-500 mb-1">Update Status:</p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => updateLeadStatus(leadToView, "contacted")}
-                  disabled={leadToView.status === "contacted"}
-                  data-testid="button-status-contacted"
-                >
-                  <Phone className="h-4 w-4 mr-1" />
-                  Contacted
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => updateLeadStatus(leadToView, "qualified")}
-                  disabled={leadToView.status === "qualified"}
-                  data-testid="button-status-qualified"
-                >
-                  <CheckCircle className="h-4 w-4 mr-1" />
-                  Qualified
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => updateLeadStatus(leadToView, "lost")}
-                  disabled={leadToView.status === "lost"}
-                  data-testid="button-status-lost"
-                >
-                  <XCircle className="h-4 w-4 mr-1" />
-                  Lost
-                </Button>
-                {leadToView.status !== "converted" && (
+              {can("communications") && (
+                <div className="pt-4 border-t">
+                  <p className="text-sm text-gray-500 mb-2">Communications</p>
+                  <CommunicationTimeline leadId={leadToView.id} />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4 pt-4 border-t">
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-500">Stage</p>
+                  <Select value={leadToView.status} onValueChange={(value) => updateLeadStatus(leadToView, value)}>
+                    <SelectTrigger data-testid="select-lead-stage">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipeline.stages.map((stage) => (
+                        <SelectItem key={stage.key} value={stage.key}>
+                          {stage.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-500">Estimator</p>
+                  <Select
+                    value={leadToView.ownerId?.toString() ?? "unassigned"}
+                    onValueChange={(value) => updateLeadOwner(leadToView, value)}
+                  >
+                    <SelectTrigger data-testid="select-lead-owner">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id.toString()}>
+                          {owner.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {!leadToView.clientId && (
                   <Button
                     size="sm"
                     onClick={() => {
-                      convertToClient(leadToView);
+                      setLeadToConvert(leadToView);
                       setLeadToView(null);
                     }}
                     className="bg-green-600 hover:bg-green-700"
@@ -485,12 +591,36 @@ export default function Leads() {
                     Convert to Client
                   </Button>
                 )}
+                {leadToView.convertedAt && (
+                  <p className="text-sm text-gray-500">
+                    Converted {formatDate(leadToView.convertedAt)}
+                    {leadToView.projectId && (
+                      <>
+                        {" – "}
+                        <Link href={`/dashboard/projects/${leadToView.projectId}`} className="text-primary hover:underline">
+                          View project
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                )}
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      <LeadConversionDialog lead={leadToConvert} onClose={() => setLeadToConvert(null)} />
+
+      <LostReasonDialog
+        lead={leadToLose}
+        onCancel={() => setLeadToLose(null)}
+        onConfirm={(lostReason) => {
+          if (leadToLose) updateLead(leadToLose, { status: "lost", lostReason }, "Lead marked as lost.");
+          setLeadToLose(null);
+        }}
+      />
+
       <AlertDialog
         open={!!leadToDelete}
         onOpenChange={() => setLeadToDelete(null)}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Staff } from "@shared/schema";
 import { Layout } from "@/components/layout";
+import { ImportExportButtons } from "@/components/import-export";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -302,10 +303,13 @@ export default function Personnel() {
             </SelectContent>
           </Select>
         </div>
-        <Button onClick={handleNewStaff}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Staff
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportButtons entity="staff" />
+          <Button onClick={handleNewStaff}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Staff
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
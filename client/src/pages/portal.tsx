@@ -0,0 +1,624 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import type { Company } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { downloadInvoicePdf } from "@/lib/invoice-pdf";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { SignaturePad } from "@/components/signature-pad";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, CreditCard, Download, FileSignature, Loader2, LogOut, Mail } from "lucide-react";
+import logoImg from "@assets/JPG_3_1764824638626.jpg";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+interface PortalSession {
+  client: { id: number; name: string; email: string };
+  company: Company;
+  stripeEnabled: boolean;
+}
+
+interface PortalProject {
+  id: number;
+  title: string;
+  description: string;
+  address: string;
+  serviceType: string;
+  status: string;
+  progress: number | null;
+  startDate: string | null;
+  dueDate: string | null;
+  completedDate: string | null;
+}
+
+interface PortalQuote {
+  id: number;
+  projectId: number;
+  totalEstimate: string;
+  scopeOfWork: string | null;
+  status: string;
+  sentDate: string | null;
+  validUntil: string | null;
+  approvedDate: string | null;
+  rejectedDate: string | null;
+  signedBy: string | null;
+  signedAt: string | null;
+}
+
+interface PortalInvoice {
+  id: number;
+  projectId: number;
+  invoiceNumber: string;
+  amount: string;
+  tax: string;
+  totalAmount: string;
+  status: string;
+  items: unknown;
+  issueDate: string | null;
+  dueDate: string | null;
+  paidDate: string | null;
+  notes: string | null;
+}
+
+interface PortalServiceOrder {
+  id: number;
+  projectId: number;
+  status: string;
+  startDate: string | null;
+  endDate: string | null;
+  beforeImages: string[] | null;
+  afterImages: string[] | null;
+}
+
+const PROJECT_STATUS_LABELS: Record<string, string> = {
+  pending: "Awaiting visit",
+  quoted: "Quote sent",
+  approved: "Quote approved",
+  preparing: "Preparing",
+  in_progress: "In progress",
+  reviewing: "Final review",
+  completed: "Completed",
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : "—");
+
+function Spinner() {
+  return (
+    <div className="flex justify-center py-10">
+      <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+    </div>
+  );
+}
+
+/**
+ * Client portal at /portal. Clients ask for a login link by email; the
+ * link comes back as /portal?token=... and is exchanged for a portal session.
+ */
+export default function PortalPage() {
+  const { toast } = useToast();
+  const [token, setToken] = useState(() => new URLSearchParams(window.location.search).get("token"));
+
+  const { data: session, isLoading } = useQuery<PortalSession | null>({
+    queryKey: ["/api/portal/session"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !token,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", "/api/portal/login", { token });
+      return res.json();
+    },
+    onSettled: () => {
+      // The token is single-use; keep it out of the address bar and history
+      window.history.replaceState(null, "", "/portal");
+      setToken(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not open the portal",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (token) loginMutation.mutate(token);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 safe-area-inset">
+      {token || isLoading ? (
+        <Spinner />
+      ) : session ? (
+        <PortalDashboard session={session} />
+      ) : (
+        <RequestLinkForm />
+      )}
+    </div>
+  );
+}
+
+function RequestLinkForm() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const requestMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("POST", "/api/portal/request-link", { email });
+      return res.json();
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <img src={logoImg} alt="Dovalina Pro Painters" className="mx-auto mb-4 h-24 w-auto" />
+          <CardTitle>Client Portal</CardTitle>
+          <CardDescription>Follow your projects, approve quotes and pay invoices online.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sent ? (
+            <div className="flex flex-col items-center gap-3 text-center text-sm text-muted-foreground">
+              <Mail className="h-8 w-8 text-primary" />
+              <p>
+                If <span className="font-medium text-foreground">{email}</span> is on file with us, a login link is on
+                its way. It works once and expires in 24 hours.
+              </p>
+              <Button variant="link" onClick={() => setSent(false)}>
+                Use a different email
+              </Button>
+            </div>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (email.trim()) requestMutation.mutate(email.trim());
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="portal-email">Email address</Label>
+                <Input
+                  id="portal-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestMutation.isPending || !email.trim()}>
+                {requestMutation.isPending ? "Sending..." : "Email me a login link"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function PortalDashboard({ session }: { session: PortalSession }) {
+  const { data: projects = [], isLoading } = useQuery<PortalProject[]>({ queryKey: ["/api/portal/projects"] });
+  const { data: quotes = [] } = useQuery<PortalQuote[]>({ queryKey: ["/api/portal/quotes"] });
+  const { data: invoices = [] } = useQuery<PortalInvoice[]>({ queryKey: ["/api/portal/invoices"] });
+  const { data: serviceOrders = [] } = useQuery<PortalServiceOrder[]>({ queryKey: ["/api/portal/service-orders"] });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/portal/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/portal/session"], null);
+      queryClient.removeQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/portal/") && query.queryKey[0] !== "/api/portal/session" });
+    },
+  });
+
+  const projectTitle = (projectId: number) => projects.find((project) => project.id === projectId)?.title ?? "Project";
+
+  return (
+    <div className="mx-auto max-w-5xl px-4 py-6">
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <img src={logoImg} alt={session.company.name} className="h-12 w-auto" />
+          <div>
+            <h1 className="text-xl font-semibold">{session.company.name}</h1>
+            <p className="text-sm text-muted-foreground">Welcome, {session.client.name}</p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => logoutMutation.mutate()}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Log out
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Spinner />
+      ) : (
+        <Tabs defaultValue="projects">
+          <TabsList>
+            <TabsTrigger value="projects">Projects</TabsTrigger>
+            <TabsTrigger value="quotes">Quotes</TabsTrigger>
+            <TabsTrigger value="invoices">Invoices</TabsTrigger>
+            <TabsTrigger value="photos">Photos</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="projects" className="space-y-3">
+            {projects.length === 0 && <EmptyState text="You have no projects with us yet." />}
+            {projects.map((project) => (
+              <Card key={project.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-lg">{project.title}</CardTitle>
+                    <Badge variant="secondary">{PROJECT_STATUS_LABELS[project.status] ?? project.status}</Badge>
+                  </div>
+                  <CardDescription>{project.address}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <p className="text-muted-foreground">{project.description}</p>
+                  <div className="flex items-center gap-3">
+                    <Progress value={project.progress ?? 0} className="h-2" />
+                    <span className="w-10 text-right text-muted-foreground">{project.progress ?? 0}%</span>
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-muted-foreground">
+                    <span>Start: {formatDate(project.startDate)}</span>
+                    <span>Due: {formatDate(project.dueDate)}</span>
+                    {project.completedDate && <span>Completed: {formatDate(project.completedDate)}</span>}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="quotes" className="space-y-3">
+            {quotes.length === 0 && <EmptyState text="No quotes have been sent to you yet." />}
+            {quotes.map((quote) => (
+              <QuoteCard key={quote.id} quote={quote} projectTitle={projectTitle(quote.projectId)} />
+            ))}
+          </TabsContent>
+
+          <TabsContent value="invoices" className="space-y-3">
+            {invoices.length === 0 && <EmptyState text="You have no invoices." />}
+            {invoices.map((invoice) => (
+              <InvoiceCard
+                key={invoice.id}
+                invoice={invoice}
+                session={session}
+                project={projects.find((project) => project.id === invoice.projectId)}
+              />
+            ))}
+          </TabsContent>
+
+          <TabsContent value="photos" className="space-y-3">
+            {!serviceOrders.some((order) => order.beforeImages?.length || order.afterImages?.length) && (
+              <EmptyState text="Photos from your job site will appear here." />
+            )}
+            {serviceOrders
+              .filter((order) => order.beforeImages?.length || order.afterImages?.length)
+              .map((order) => (
+                <Card key={order.id}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{projectTitle(order.projectId)}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <PhotoGrid title="Before" images={order.beforeImages} />
+                    <PhotoGrid title="After" images={order.afterImages} />
+                  </CardContent>
+                </Card>
+              ))}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
+
+function EmptyState({ text }: { text: string }) {
+  return <p className="py-10 text-center text-sm text-muted-foreground">{text}</p>;
+}
+
+function PhotoGrid({ title, images }: { title: string; images: string[] | null }) {
+  if (!images?.length) return null;
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-medium">{title}</h4>
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {images.map((image, index) => (
+          <a key={index} href={image} target="_blank" rel="noreferrer">
+            <img src={image} alt={`${title} ${index + 1}`} className="h-32 w-full rounded-md object-cover" />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QuoteCard({ quote, projectTitle }: { quote: PortalQuote; projectTitle: string }) {
+  const { toast } = useToast();
+  const [signing, setSigning] = useState(false);
+  const [signedBy, setSignedBy] = useState("");
+  const [signatureData, setSignatureData] = useState<string | null>(null);
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/portal/quotes/${quote.id}/sign`, { signedBy, signatureData });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/projects"] });
+      toast({
+        title: "Quote approved",
+        description: "Thank you! We will be in touch to schedule the work.",
+      });
+      setSigning(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not approve the quote",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">{projectTitle}</CardTitle>
+          <Badge variant={quote.status === "approved" ? "default" : "secondary"} className="capitalize">
+            {quote.status}
+          </Badge>
+        </div>
+        <CardDescription>
+          Sent {formatDate(quote.sentDate)}
+          {quote.validUntil && ` · Valid until ${formatDate(quote.validUntil)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {quote.scopeOfWork && <p className="whitespace-pre-line text-muted-foreground">{quote.scopeOfWork}</p>}
+        <div className="flex items-center justify-between">
+          <span className="text-lg font-semibold">{formatCurrency(parseFloat(quote.totalEstimate))}</span>
+          {quote.status === "sent" && (
+            <Button size="sm" onClick={() => setSigning(true)}>
+              <FileSignature className="mr-2 h-4 w-4" />
+              Review and sign
+            </Button>
+          )}
+          {quote.signedBy && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              Signed by {quote.signedBy} on {formatDate(quote.signedAt)}
+            </span>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={signing} onOpenChange={setSigning}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve quote</DialogTitle>
+            <DialogDescription>
+              By signing you approve the quote for {projectTitle} of{" "}
+              {formatCurrency(parseFloat(quote.totalEstimate))}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`signed-by-${quote.id}`}>Full name</Label>
+            <Input id={`signed-by-${quote.id}`} value={signedBy} onChange={(e) => setSignedBy(e.target.value)} />
+          </div>
+          <SignaturePad onSave={setSignatureData} />
+          {signatureData && <p className="text-sm text-green-700">Signature saved.</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setSigning(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!signedBy.trim() || !signatureData || signMutation.isPending}
+              onClick={() => signMutation.mutate()}
+            >
+              {signMutation.isPending ? "Approving..." : "Approve and sign"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function InvoiceCard({
+  invoice,
+  session,
+  project,
+}: {
+  invoice: PortalInvoice;
+  session: PortalSession;
+  project?: PortalProject;
+}) {
+  const { toast } = useToast();
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const payable = session.stripeEnabled && !!stripePromise && !["paid", "cancelled"].includes(invoice.status);
+
+  const paymentIntentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/portal/invoices/${invoice.id}/payment-intent`);
+      return res.json();
+    },
+    onSuccess: (data: { clientSecret: string }) => {
+      setClientSecret(data.clientSecret);
+    },
+    onError: (error: Error) => {
+      setIsPaymentDialogOpen(false);
+      toast({
+        title: "Payment unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/portal/invoices/${invoice.id}/paid`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/invoices"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Payment not recorded yet",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openPayment = () => {
+    setClientSecret(null);
+    setIsPaymentDialogOpen(true);
+    paymentIntentMutation.mutate();
+  };
+
+  const downloadPdf = () =>
+    downloadInvoicePdf({
+      invoice,
+      client: { ...session.client, phone: "", address: project?.address ?? "" },
+      project,
+      company: session.company,
+    });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">Invoice {invoice.invoiceNumber}</CardTitle>
+          <Badge variant={invoice.status === "paid" ? "default" : invoice.status === "overdue" ? "destructive" : "secondary"} className="capitalize">
+            {invoice.status}
+          </Badge>
+        </div>
+        <CardDescription>
+          {project?.title ?? "Project"} · Issued {formatDate(invoice.issueDate)} · Due {formatDate(invoice.dueDate)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="text-lg font-semibold">{formatCurrency(parseFloat(invoice.totalAmount))}</span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={downloadPdf}>
+            <Download className="mr-2 h-4 w-4" />
+            PDF
+          </Button>
+          {payable && (
+            <Button size="sm" onClick={openPayment}>
+              <CreditCard className="mr-2 h-4 w-4" />
+              Pay now
+            </Button>
+          )}
+          {invoice.paidDate && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              Paid {formatDate(invoice.paidDate)}
+            </span>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay invoice {invoice.invoiceNumber}</DialogTitle>
+            <DialogDescription>Amount due: {formatCurrency(parseFloat(invoice.totalAmount))}</DialogDescription>
+          </DialogHeader>
+          {clientSecret && stripePromise ? (
+            <Elements stripe={stripePromise} options={{ clientSecret }}>
+              <PaymentForm
+                onSuccess={() => {
+                  markPaidMutation.mutate();
+                  setIsPaymentDialogOpen(false);
+                }}
+                onCancel={() => setIsPaymentDialogOpen(false)}
+              />
+            </Elements>
+          ) : (
+            <div className="flex justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function PaymentForm({ onSuccess, onCancel }: { onSuccess: () => void; onCancel: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    setErrorMessage(null);
+    const { error, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      redirect: "if_required",
+    });
+    setIsProcessing(false);
+
+    if (error) {
+      setErrorMessage(error.message || "The payment could not be processed");
+    } else if (paymentIntent && paymentIntent.status === "succeeded") {
+      toast({
+        title: "Payment received",
+        description: "Thank you for your payment.",
+      });
+      onSuccess();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {errorMessage && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{errorMessage}</div>
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isProcessing}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!stripe || isProcessing}>
+          {isProcessing ? "Processing..." : "Pay"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Project, Client, Activity, Quote, ServiceOrder } from "@shared/schema";
 import { Layout } from "@/components/layout";
+import { MarketingSourcesReport } from "@/components/marketing-sources-report";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Card,
@@ -465,11 +466,12 @@ export default function Reports() {
 
           {/* Tabs for different reports */}
           <Tabs defaultValue="ingresos" value={reportType} onValueChange={setReportType} className="mb-8">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="ingresos">Ingresos</TabsTrigger>
               <TabsTrigger value="clientes">Clientes</TabsTrigger>
               <TabsTrigger value="proyectos">Proyectos</TabsTrigger>
               <TabsTrigger value="servicios">Servicios</TabsTrigger>
+              <TabsTrigger value="marketing">Marketing</TabsTrigger>
             </TabsList>
             
             <TabsContent value="ingresos" className="mt-6">
@@ -547,6 +549,14 @@ export default function Reports() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="marketing" className="mt-6">
+              <MarketingSourcesReport
+                start={dateRange.start}
+                end={dateRange.end}
+                formatCurrency={formatCurrency}
+              />
+            </TabsContent>
           </Tabs>
 
           {/* Additional data tables or visualizations could go here */}
@@ -33,6 +33,14 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { UserManagement } from "@/components/user-management";
+import { BlockedAttempts } from "@/components/blocked-attempts";
+import { ActiveSessions } from "@/components/active-sessions";
+import { ApiTokens } from "@/components/api-tokens";
+import { CompanySettings } from "@/components/company-settings";
+import { LeadPipelineSettings } from "@/components/lead-pipeline-settings";
+import { ProjectTemplateSettings } from "@/components/project-template-settings";
+import { TwoFactorSettings, TwoFactorPolicySettings } from "@/components/two-factor-settings";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -75,12 +83,26 @@ const generalSettingsSchema = z.object({
   smsNotifications: z.boolean().default(false),
 });
 
+// Schema for changing the current user's password
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "New password must be at least 8 characters"),
+});
+
 type GoogleCalendarSettings = z.infer<typeof googleCalendarSchema>;
 type GeneralSettings = z.infer<typeof generalSettingsSchema>;
+type ChangePasswordValues = z.infer<typeof changePasswordSchema>;
+
+const TAB_GRID_COLS = ["grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6"];
 
 export default function SettingsPage() {
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canManageSettings = can("settings");
+  const canManageUsers = can("users");
+  const isSuperadmin = user?.role === "superadmin";
+  // Security is always visible; the rest depends on the user's role
+  const tabCount = (canManageSettings ? 3 : 0) + 1 + (canManageUsers ? 1 : 0) + (isSuperadmin ? 1 : 0);
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connected' | 'error'>('disconnected');
   const [showResetConfirmation, setShowResetConfirmation] = useState(false);
@@ -116,6 +138,15 @@ export default function SettingsPage() {
     },
   });
 
+  // Change password form
+  const changePasswordForm = useForm<ChangePasswordValues>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+    },
+  });
+
   // Fetch current settings
   const { data: currentSettings, isLoading } = useQuery({
     queryKey: ["/api/settings"],
@@ -130,6 +161,7 @@ export default function SettingsPage() {
         return null;
       }
     },
+    enabled: canManageSettings,
   });
 
   // Google Calendar connection mutation
@@ -223,6 +255,28 @@ export default function SettingsPage() {
     },
   });
 
+  // Change password mutation
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePasswordValues) => {
+      const response = await apiRequest("POST", "/api/user/password", data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      changePasswordForm.reset();
+      toast({
+        title: "Password Updated",
+        description: "Your password has been changed successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Reset database mutation
   const resetDatabaseMutation = useMutation({
     mutationFn: async () => {
@@ -302,25 +356,35 @@ export default function SettingsPage() {
       />
 
       <div className="space-y-6">
-        <Tabs defaultValue="general" className="w-full">
-          <TabsList className={`grid w-full ${user?.role === "superadmin" ? "grid-cols-5" : "grid-cols-4"}`}>
-            <TabsTrigger value="general" className="flex items-center gap-2">
-              <SettingsIcon className="w-4 h-4" />
-              General
-            </TabsTrigger>
-            <TabsTrigger value="google-calendar" className="flex items-center gap-2">
-              <Calendar className="w-4 h-4" />
-              Google Calendar
-            </TabsTrigger>
-            <TabsTrigger value="notifications" className="flex items-center gap-2">
-              <Bell className="w-4 h-4" />
-              Notifications
-            </TabsTrigger>
+        <Tabs defaultValue={canManageSettings && !user?.twoFactorSetupRequired ? "general" : "security"} className="w-full">
+          <TabsList className={`grid w-full ${TAB_GRID_COLS[tabCount - 1]}`}>
+            {canManageSettings && (
+              <>
+                <TabsTrigger value="general" className="flex items-center gap-2">
+                  <SettingsIcon className="w-4 h-4" />
+                  General
+                </TabsTrigger>
+                <TabsTrigger value="google-calendar" className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4" />
+                  Google Calendar
+                </TabsTrigger>
+                <TabsTrigger value="notifications" className="flex items-center gap-2">
+                  <Bell className="w-4 h-4" />
+                  Notifications
+                </TabsTrigger>
+              </>
+            )}
             <TabsTrigger value="security" className="flex items-center gap-2">
               <Shield className="w-4 h-4" />
               Security
             </TabsTrigger>
-            {user?.role === "superadmin" && (
+            {canManageUsers && (
+              <TabsTrigger value="users" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Users
+              </TabsTrigger>
+            )}
+            {isSuperadmin && (
               <TabsTrigger value="admin" className="flex items-center gap-2">
                 <Shield className="w-4 h-4" />
                 Administration
@@ -466,6 +530,12 @@ export default function SettingsPage() {
                 </Form>
               </CardContent>
             </Card>
+
+            <LeadPipelineSettings />
+
+            <ProjectTemplateSettings />
+
+            {can("companies", "write") && <CompanySettings />}
           </TabsContent>
 
           {/* Google Calendar Tab */}
@@ -805,39 +875,80 @@ export default function SettingsPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="current-password">Current Password</Label>
-                      <Input id="current-password" type="password" placeholder="Enter current password" />
-                    </div>
-                    <div>
-                      <Label htmlFor="new-password">New Password</Label>
-                      <Input id="new-password" type="password" placeholder="Enter new password" />
+                <Form {...changePasswordForm}>
+                  <form
+                    onSubmit={changePasswordForm.handleSubmit((data) => changePasswordMutation.mutate(data))}
+                    className="space-y-4"
+                  >
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={changePasswordForm.control}
+                        name="currentPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Current Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="Enter current password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={changePasswordForm.control}
+                        name="newPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>New Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="Enter new password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
-                  </div>
-                  <Button variant="outline" className="w-full md:w-auto">
-                    Update Password
-                  </Button>
-                </div>
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      disabled={changePasswordMutation.isPending}
+                      className="w-full md:w-auto"
+                    >
+                      {changePasswordMutation.isPending ? "Updating..." : "Update Password"}
+                    </Button>
+                  </form>
+                </Form>
 
                 <Separator />
 
-                <div className="space-y-3">
-                  <h4 className="font-medium">Two-Factor Authentication</h4>
-                  <p className="text-sm text-muted-foreground">
-                    Add an extra layer of security to your account
-                  </p>
-                  <Button variant="outline" className="w-full md:w-auto">
-                    Enable 2FA
-                  </Button>
-                </div>
+                <TwoFactorSettings />
+
+                <Separator />
+
+                <ActiveSessions />
+
+                {can("settings", "write") && (
+                  <>
+                    <Separator />
+                    <TwoFactorPolicySettings />
+                  </>
+                )}
               </CardContent>
             </Card>
+
+            <ApiTokens />
           </TabsContent>
 
+          {/* Users Tab (only for admins) */}
+          {canManageUsers && (
+            <TabsContent value="users" className="space-y-6">
+              <UserManagement />
+              <BlockedAttempts />
+            </TabsContent>
+          )}
+
           {/* Administration Tab (only for superadmin) */}
-          {user?.role === "superadmin" && (
+          {isSuperadmin && (
             <TabsContent value="admin" className="space-y-6">
               <Card className="border-red-200">
                 <CardHeader>
@@ -853,8 +964,8 @@ export default function SettingsPage() {
                   <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                     <h4 className="font-medium text-red-900 mb-2">Reset Database</h4>
                     <p className="text-sm text-red-800 mb-4">
-                      This will delete all data (clients, projects, quotes, invoices, etc.) from the database. 
-                      User accounts will be preserved. This action cannot be undone.
+                      This will delete all data (clients, projects, quotes, invoices, etc.) of the company you are working in.
+                      User accounts and other companies will be preserved. This action cannot be undone.
                     </p>
                     <Button 
                       variant="destructive"
@@ -878,7 +989,7 @@ export default function SettingsPage() {
             <AlertDialogHeader>
               <AlertDialogTitle className="text-red-600">Confirm Database Reset</AlertDialogTitle>
               <AlertDialogDescription className="space-y-2 mt-4">
-                <p>Are you absolutely sure you want to reset the database?</p>
+                <p>Are you absolutely sure you want to reset this company's data?</p>
                 <p className="font-medium text-red-600">
                   This will permanently delete:
                 </p>
@@ -889,7 +1000,7 @@ export default function SettingsPage() {
                   <li>All service orders and activities</li>
                   <li>All other business data</li>
                 </ul>
-                <p className="font-medium text-green-600 mt-2">User accounts will be preserved.</p>
+                <p className="font-medium text-green-600 mt-2">User accounts and other companies will be preserved.</p>
               </AlertDialogDescription>
             </AlertDialogHeader>
             <div className="flex gap-4 justify-end mt-4">
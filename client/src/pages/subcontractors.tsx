@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Subcontractor } from "@shared/schema";
 import { Layout } from "@/components/layout";
+import { ImportExportButtons } from "@/components/import-export";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -315,10 +316,13 @@ export default function Subcontractors() {
             </SelectContent>
           </Select>
         </div>
-        <Button onClick={handleNewSubcontractor}>
-          <Plus className="h-4 w-4 mr-2" />
-          Nuevo Subcontratista
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportButtons entity="subcontractors" />
+          <Button onClick={handleNewSubcontractor}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Subcontratista
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -6,6 +6,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import PageHeader from "@/components/page-header";
 import { Layout } from "@/components/layout";
+import { ImportExportButtons } from "@/components/import-export";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -253,10 +254,13 @@ export default function Suppliers() {
         title="Suppliers Management"
         description="Add and manage your suppliers and materials sources."
         actions={
-          <Button onClick={handleAddNew}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add New Supplier
-          </Button>
+          <div className="flex items-center gap-2">
+            <ImportExportButtons entity="suppliers" />
+            <Button onClick={handleAddNew}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add New Supplier
+            </Button>
+          </div>
         }
       />
 
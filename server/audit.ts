@@ -0,0 +1,50 @@
+import { currentRequest } from "./request-context";
+
+/**
+ * The logged-in user and IP behind the current storage call. Both are null
+ * outside a request (startup scripts) and the user is null for public endpoints.
+ */
+export function getAuditActor() {
+  const req = currentRequest();
+  return {
+    userId: req?.user?.id ?? null,
+    ip: req?.ip ?? null,
+  };
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Never copied into the audit log; a change only shows up as "[redacted]"
+const REDACTED_FIELDS = new Set(["password", "totpSecret", "totpBackupCodes", "totpLastUsedStep"]);
+// Bookkeeping columns that change on every update
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+function normalize(value: unknown) {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+/**
+ * Field-by-field difference between two versions of a row. Creates pass no
+ * `before` and deletes no `after`, so every field shows up as added or removed.
+ */
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = normalize(previous[field]);
+    const to = normalize(next[field]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { from: "[redacted]", to: "[redacted]" }
+      : { from, to };
+  }
+
+  return changes;
+}
@@ -1,31 +1,314 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { appUrl, mailer } from "./mail";
+import QRCode from "qrcode";
+import { z } from "zod";
+import {
+  loginIpLimiter,
+  loginUsernameLimiter,
+  passwordResetIpLimiter,
+  passwordResetIdentifierLimiter,
+  clientIp,
+  formatLockout,
+  recordBlockedAttempt,
+} from "./rate-limit";
+import {
+  generateTotpSecret,
+  buildOtpAuthUrl,
+  verifyTotp,
+  generateBackupCodes,
+  hashBackupCode,
+} from "./totp";
+import { requestContextMiddleware, getDefaultCompanyId } from "./request-context";
+import { companyContextMiddleware, resolveCompany } from "./companies";
+import { User as SelectUser, UserSession, ApiToken } from "@shared/schema";
+import {
+  SUPERADMIN_ROLE,
+  TWO_FACTOR_POLICY_KEY,
+  normalizeRole,
+  type TwoFactorPolicy,
+} from "@shared/permissions";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      // Set when the request authenticated with an API token instead of a session
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for an account with 2FA, until the code is verified
+    pendingTwoFactor?: { userId: number; startedAt: number };
+    // Shown in Settings > Security so users can recognise their devices
+    device?: { userAgent: string | null; ip: string; loggedInAt: number };
+    lastSeenAt?: number;
   }
 }
 
 const scryptAsync = promisify(scrypt);
 
-// Simplified password system for testing
-async function hashPassword(password: string) {
-  // Just for testing - in production this should be a proper secure hash
-  return `hashed_${password}`;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Prefix used by the original placeholder scheme. Rows still carrying it are
+// upgraded to a salted scrypt hash the next time the user logs in.
+const LEGACY_PASSWORD_PREFIX = "hashed_";
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export function isLegacyPasswordHash(stored: string) {
+  return stored.startsWith(LEGACY_PASSWORD_PREFIX);
+}
+
+function safeEqual(a: Buffer, b: Buffer) {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  if (isLegacyPasswordHash(stored)) {
+    return safeEqual(
+      Buffer.from(`${LEGACY_PASSWORD_PREFIX}${supplied}`),
+      Buffer.from(stored),
+    );
+  }
+
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, hashedBuf.length)) as Buffer;
+  return safeEqual(hashedBuf, suppliedBuf);
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  // Just for testing - in production this should use secure comparison
-  return stored === `hashed_${supplied}`;
+// How long the second login step may take after the password was accepted
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Strips credentials and two-factor secrets before a user is sent to the client.
+ */
+export function sanitizeUser(user: SelectUser) {
+  const { password, totpSecret, totpBackupCodes, totpLastUsedStep, ...safeUser } = user;
+  return safeUser;
 }
 
+/**
+ * Whether the two-factor policy in Settings requires this user's role to use 2FA.
+ */
+export async function isTwoFactorRequired(user: SelectUser) {
+  const setting = await storage.getSetting(TWO_FACTOR_POLICY_KEY);
+  const policy = setting?.value as TwoFactorPolicy | undefined;
+  const role = user.role === SUPERADMIN_ROLE ? user.role : normalizeRole(user.role);
+  return !!policy?.requiredRoles?.includes(role);
+}
+
+/**
+ * Checks a 6-digit authenticator code or, failing that, a backup code.
+ * Consumes the backup code or records the TOTP step so neither can be reused.
+ */
+async function verifySecondFactor(user: SelectUser, code: string) {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== null) {
+    await storage.updateUserTwoFactor(user.id, { totpLastUsedStep: step });
+    return true;
+  }
+
+  const backupCodes = (user.totpBackupCodes as string[] | null) ?? [];
+  const hashed = hashBackupCode(code);
+  if (backupCodes.includes(hashed)) {
+    await storage.updateUserTwoFactor(user.id, {
+      totpBackupCodes: backupCodes.filter((backupCode) => backupCode !== hashed),
+    });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Answers 429 when the caller's IP or the username is locked out after too
+ * many failed logins. Returns true when the request was refused.
+ */
+async function rejectLockedLogin(req: Request, res: Response, username: string) {
+  const ipLockedFor = loginIpLimiter.lockedFor(clientIp(req));
+  const usernameLockedFor = loginUsernameLimiter.lockedFor(username);
+  const lockedFor = Math.max(ipLockedFor, usernameLockedFor);
+  if (!lockedFor) return false;
+
+  await recordBlockedAttempt(req, "login", ipLockedFor ? "ip_locked" : "username_locked", username);
+  res.status(429).json({
+    message: `Too many failed login attempts. Try again in ${formatLockout(lockedFor)}.`,
+  });
+  return true;
+}
+
+function recordLoginFailure(req: Request, username: string) {
+  loginIpLimiter.hit(clientIp(req));
+  loginUsernameLimiter.hit(username);
+}
+
+// Sessions refresh their last-seen time at most once a minute to avoid a store write per request
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+function stampSessionDevice(req: Request) {
+  const now = Date.now();
+  req.session.device = { userAgent: req.get("user-agent") ?? null, ip: clientIp(req), loggedInAt: now };
+  req.session.lastSeenAt = now;
+}
+
+/**
+ * Session ids are never sent to the browser; the list uses a hash of them instead.
+ */
+export function sessionPublicId(sid: string) {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+export function toSessionInfo(row: UserSession, currentSid?: string) {
+  const sess = row.sess as { device?: { userAgent: string | null; ip: string; loggedInAt: number }; lastSeenAt?: number };
+  return {
+    id: sessionPublicId(row.sid),
+    userAgent: sess.device?.userAgent ?? null,
+    ip: sess.device?.ip ?? null,
+    loggedInAt: sess.device?.loggedInAt ? new Date(sess.device.loggedInAt) : null,
+    lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+    expiresAt: row.expire,
+    current: row.sid === currentSid,
+  };
+}
+
+function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  req.login(user, async (err) => {
+    if (err) return next(err);
+
+    try {
+      stampSessionDevice(req);
+      // Applies the user's role in their company to the response below
+      await resolveCompany(req);
+
+      // Create a login activity
+      storage.createActivity({
+        type: "user_login",
+        description: `User ${user.name} logged in`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.status(200).json({
+        ...sanitizeUser(user),
+        twoFactorSetupRequired: !user.totpEnabled && (await isTwoFactorRequired(user)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+// Password reset links are valid for one hour and can only be used once
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+function hashResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Looks a user up by what they type into the login form. Usernames win;
+ * an email address is accepted as a fallback.
+ */
+async function findUserByLogin(identifier: string) {
+  const user = await storage.getUserByUsername(identifier);
+  if (user) return user;
+  return identifier.includes("@") ? storage.getUserByEmail(identifier) : undefined;
+}
+
+/**
+ * Returns the unexpired, unused reset token matching the raw token from
+ * the emailed link, or undefined when the link is no longer valid.
+ */
+async function findValidResetToken(token: string) {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() < Date.now()) {
+    return undefined;
+  }
+  return resetToken;
+}
+
+// Personal API tokens are sent as "Authorization: Bearer dpp_..."
+const API_TOKEN_PREFIX = "dpp_";
+const MAX_API_TOKEN_DAYS = 365 * 5;
+const READ_ONLY_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toApiTokenInfo(token: ApiToken) {
+  const { tokenHash, ...info } = token;
+  return info;
+}
+
+// Account security (password, 2FA, sessions, the tokens themselves) and the
+// management of users, companies and the install need a real login
+const TOKEN_RESTRICTED_PREFIXES = ["/api/user/", "/api/users", "/api/companies", "/api/invitations", "/api/security/", "/api/admin/"];
+
+function isTokenRestrictedPath(path: string) {
+  return path === "/api/logout" || TOKEN_RESTRICTED_PREFIXES.some((prefix) => path.startsWith(prefix));
+}
+
+/**
+ * Accepts a personal API token from the Authorization header. The token's
+ * user becomes req.user for the request only; no session is created.
+ * Read-only tokens are limited to GET requests.
+ */
+async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  if (!match) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(match[1]));
+    const user = token && (await storage.getUser(token.userId));
+    if (!token || !user || !user.active || (token.expiresAt && token.expiresAt.getTime() < Date.now())) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+    if (token.readOnly && !READ_ONLY_METHODS.has(req.method)) {
+      return res.status(403).json({ message: "This API token is read-only" });
+    }
+    if (isTokenRestrictedPath(req.path)) {
+      return res.status(403).json({ message: "API tokens cannot be used to manage accounts, companies or security" });
+    }
+
+    req.user = user;
+    req.apiToken = token;
+
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      storage.touchApiToken(token.id, clientIp(req));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  readOnly: z.boolean().default(false),
+  // Omitted or null means the token never expires
+  expiresInDays: z.number().int().positive().max(MAX_API_TOKEN_DAYS).nullable().optional(),
+});
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "dovalina-painting-session-secret",
@@ -41,6 +324,21 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) {
+      const now = Date.now();
+      if (!req.session.lastSeenAt || now - req.session.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+        req.session.lastSeenAt = now;
+      }
+    }
+    next();
+  });
+  // After the last-seen stamp so token requests never touch a session
+  app.use(authenticateApiToken);
+  // Everything after this runs in the request context (audit actor) and
+  // inside the company the user is working in
+  app.use(requestContextMiddleware);
+  app.use(companyContextMiddleware);
 
   passport.use(
     new LocalStrategy({
@@ -48,12 +346,24 @@ export function setupAuth(app: Express) {
       passwordField: "password",
     }, async (username, password, done) => {
       try {
-        const user = await storage.getUserByUsername(username);
+        const user = await findUserByLogin(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+
+        if (!user.active) {
+          return done(null, false, { message: "This account has been deactivated" });
+        }
+
+        // Upgrade placeholder hashes now that we have the plaintext in hand
+        if (isLegacyPasswordHash(user.password)) {
+          const upgraded = await storage.updateUser(user.id, {
+            password: await hashPassword(password),
+          });
+          return done(null, upgraded ?? user);
+        }
+
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
@@ -64,7 +374,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Deactivated users lose any session they still had open
+      done(null, user && user.active ? user : false);
     } catch (error) {
       done(error);
     }
@@ -72,20 +383,24 @@ export function setupAuth(app: Express) {
 
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
-      }
-
+      // Sign-up only creates the very first account, which owns the install.
+      // Everyone after that is added by an administrator through /api/users or
+      // invited to a company
       const hashedPassword = await hashPassword(req.body.password);
-      const user = await storage.createUser({
+      const user = await storage.createFirstUser({
         ...req.body,
+        role: "owner",
         password: hashedPassword,
-      });
+      }, getDefaultCompanyId());
+      if (!user) {
+        return res.status(403).json({ message: "Registration is closed. Ask an administrator of your company for an account" });
+      }
 
       req.login(user, (err) => {
         if (err) return next(err);
         
+        stampSessionDevice(req);
+        
         // Create a user activity
         storage.createActivity({
           type: "user_registered",
@@ -95,39 +410,74 @@ export function setupAuth(app: Express) {
           clientId: null,
         });
         
-        // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json(sanitizeUser(user));
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  app.post("/api/login", async (req, res, next) => {
+    const username = String(req.body?.username ?? "").trim().toLowerCase();
+    try {
+      if (await rejectLockedLogin(req, res, username)) return;
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message?: string }) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
+      if (!user) {
+        recordLoginFailure(req, username);
+        return res.status(401).json({ message: info?.message || "Invalid credentials" });
+      }
       
-      req.login(user, (err) => {
-        if (err) return next(err);
-        
-        // Create a login activity
-        storage.createActivity({
-          type: "user_login",
-          description: `User ${user.name} logged in`,
-          userId: user.id,
-          projectId: null,
-          clientId: null,
-        });
-        
-        // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
-      });
+      // Password was right; accounts with 2FA still have to send a code
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = { userId: user.id, startedAt: Date.now() };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      loginUsernameLimiter.reset(username);
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || Date.now() - pending.startedAt > TWO_FACTOR_LOGIN_TTL_MS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your login has expired. Please enter your password again." });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.active) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      // Wrong codes count against the same lockout as wrong passwords
+      const username = user.username.toLowerCase();
+      if (await rejectLockedLogin(req, res, username)) {
+        delete req.session.pendingTwoFactor;
+        return;
+      }
+
+      const { code } = req.body;
+      if (!code || !(await verifySecondFactor(user, String(code)))) {
+        recordLoginFailure(req, username);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      loginUsernameLimiter.reset(username);
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     // Create a logout activity if user is authenticated
     if (req.isAuthenticated()) {
@@ -147,11 +497,415 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
-    // Return user without password
-    const { password, ...userWithoutPassword } = req.user;
-    res.json(userWithoutPassword);
+    try {
+      res.json({
+        ...sanitizeUser(req.user),
+        twoFactorSetupRequired: !req.user.totpEnabled && (await isTwoFactorRequired(req.user)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password are required" });
+      }
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+
+      storage.createActivity({
+        type: "password_changed",
+        description: `User ${user.name} changed their password`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Self-service password reset. The request endpoint always answers the same
+  // way so it cannot be used to discover which usernames exist.
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const identifier = typeof req.body.identifier === "string" ? req.body.identifier.trim() : "";
+      if (!identifier) {
+        return res.status(400).json({ message: "Username or email is required" });
+      }
+
+      const genericResponse = {
+        message: "If an account matches, a password reset link has been sent to its email address",
+      };
+
+      // Throttled like portal links so it cannot be used to flood an inbox
+      const ip = clientIp(req);
+      const key = identifier.toLowerCase();
+      const lockedFor = Math.max(passwordResetIpLimiter.lockedFor(ip), passwordResetIdentifierLimiter.lockedFor(key));
+      if (lockedFor) {
+        await recordBlockedAttempt(req, "password_reset", "rate_limited", identifier);
+        return res.status(429).json({
+          message: `Too many requests. Please try again in ${formatLockout(lockedFor)}.`,
+        });
+      }
+      passwordResetIpLimiter.hit(ip);
+      passwordResetIdentifierLimiter.hit(key);
+
+      const user = await findUserByLogin(identifier);
+      if (!user || !user.active || !user.email) {
+        return res.json(genericResponse);
+      }
+
+      const baseUrl = appUrl();
+      // A new link replaces any earlier one still waiting to be used
+      await storage.invalidatePasswordResetTokens(user.id);
+
+      const token = randomBytes(32).toString("hex");
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashResetToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+        requestedIp: req.ip ?? null,
+      });
+
+      const resetLink = `${baseUrl}/auth?reset=${token}`;
+
+      await mailer.send({
+        to: user.email,
+        subject: "Reset your Dovalina Pro Painters password",
+        text: [
+          `Hi ${user.name},`,
+          "",
+          "We received a request to reset your password. Use the link below within the next hour to choose a new one:",
+          "",
+          resetLink,
+          "",
+          "If you did not ask for this, you can ignore this email and your password will stay the same.",
+        ].join("\n"),
+      });
+
+      await storage.createActivity({
+        type: "password_reset_requested",
+        description: `Password reset requested for user ${user.name}`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json(genericResponse);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/password-reset/:token", async (req, res, next) => {
+    try {
+      const resetToken = await findValidResetToken(req.params.token);
+      if (!resetToken) {
+        return res.status(400).json({ message: "This password reset link is invalid or has expired" });
+      }
+      res.json({ valid: true, expiresAt: resetToken.expiresAt });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const { token, password } = req.body;
+      if (!token || !password) {
+        return res.status(400).json({ message: "Token and new password are required" });
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const resetToken = await findValidResetToken(token);
+      const user = resetToken && (await storage.getUser(resetToken.userId));
+      if (!resetToken || !user || !user.active) {
+        return res.status(400).json({ message: "This password reset link is invalid or has expired" });
+      }
+
+      if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(400).json({ message: "This password reset link has already been used" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(password) });
+      // Whoever may have had the old password loses the access it gave them
+      await storage.deleteUserSessions(user.id);
+      await storage.deleteUserApiTokens(user.id);
+
+      await storage.createActivity({
+        type: "password_reset_completed",
+        description: `User ${user.name} reset their password`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ message: "Your password has been reset. You can now log in." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor enrollment for the logged-in user
+  app.post("/api/user/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // The secret is stored now but only takes effect once a code is confirmed
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(req.user.id, { totpSecret: secret, totpLastUsedStep: null });
+
+      const otpauthUrl = buildOtpAuthUrl(secret, req.user.username);
+      const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+      res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(user.totpSecret, String(req.body.code ?? ""));
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        totpEnabled: true,
+        totpBackupCodes: hashes,
+        totpLastUsedStep: step,
+      });
+
+      await storage.createActivity({
+        type: "two_factor_enabled",
+        description: `User ${user.name} enabled two-factor authentication`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ backupCodes: codes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/backup-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(user, String(req.body.code ?? "")))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateBackupCodes();
+      await storage.updateUserTwoFactor(user.id, { totpBackupCodes: hashes });
+
+      res.json({ backupCodes: codes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequired(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!req.body.password || !(await comparePasswords(req.body.password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpBackupCodes: null,
+        totpLastUsedStep: null,
+      });
+
+      await storage.createActivity({
+        type: "two_factor_disabled",
+        description: `User ${user.name} disabled two-factor authentication`,
+        userId: user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Personal API tokens of the logged-in user
+  app.get("/api/user/tokens", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const tokens = await storage.getApiTokens(req.user.id);
+      res.json(tokens.map(toApiTokenInfo));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/tokens", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid API token data", errors: parsed.error.errors });
+      }
+      const { name, readOnly, expiresInDays } = parsed.data;
+
+      const rawToken = `${API_TOKEN_PREFIX}${randomBytes(24).toString("hex")}`;
+      const token = await storage.createApiToken({
+        userId: req.user.id,
+        name,
+        tokenPrefix: rawToken.slice(0, API_TOKEN_PREFIX.length + 6),
+        tokenHash: hashApiToken(rawToken),
+        readOnly,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      await storage.createActivity({
+        type: "api_token_created",
+        description: `User ${req.user.name} created ${readOnly ? "read-only " : ""}API token "${name}"`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      // The only time the raw token leaves the server
+      res.status(201).json({ ...toApiTokenInfo(token), token: rawToken });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/tokens/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.deleteApiToken(id, req.user.id))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.createActivity({
+        type: "api_token_revoked",
+        description: `User ${req.user.name} revoked an API token`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Devices the logged-in user is signed in on
+  app.get("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await storage.getUserSessions(req.user.id);
+      res.json(sessions.map((row) => toSessionInfo(row, req.sessionID)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Signs out every other device, keeping the current session
+  app.delete("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const revoked = await storage.deleteUserSessions(req.user.id, req.sessionID);
+
+      await storage.createActivity({
+        type: "sessions_revoked",
+        description: `User ${req.user.name} signed out ${revoked} other session(s)`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null,
+      });
+
+      res.json({ message: "Other sessions signed out", revoked });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await storage.getUserSessions(req.user.id);
+      const target = sessions.find((row) => sessionPublicId(row.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      // Revoking the current session is the same as logging out
+      if (target.sid === req.sessionID) {
+        return req.logout((err) => {
+          if (err) return next(err);
+          res.json({ message: "Session signed out", current: true });
+        });
+      }
+
+      await storage.deleteSession(target.sid);
+      res.json({ message: "Session signed out", current: false });
+    } catch (error) {
+      next(error);
+    }
   });
 }
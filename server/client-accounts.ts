@@ -0,0 +1,188 @@
+import type { Client, Invoice, Payment } from "@shared/schema";
+import { storage } from "./storage";
+
+// Money rollups for a single client: lifetime value and the account
+// statement. Both are built from the same ledger of invoices and the
+// payments received against them.
+
+// Draft invoices have not been sent and cancelled ones are void
+const UNBILLED_INVOICE_STATUSES = new Set(["draft", "cancelled"]);
+
+export interface LedgerEntry {
+  date: Date;
+  type: "invoice" | "payment";
+  reference: string;
+  description: string;
+  charge: number;
+  payment: number;
+  invoiceId: number | null;
+  projectId: number | null;
+}
+
+export interface StatementEntry extends LedgerEntry {
+  balance: number;
+}
+
+export interface ClientLifetimeValue {
+  clientId: number;
+  totalQuoted: number;
+  totalWon: number;
+  invoiced: number;
+  paid: number;
+  outstanding: number;
+  averageJobSize: number;
+  winRate: number | null; // share of decided quotes that were approved, 0 to 1
+  lastJobDate: Date | null;
+  quoteCount: number;
+  wonCount: number;
+  jobCount: number;
+}
+
+export interface ClientStatement {
+  client: Client;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toNumber = (value: string | number | null | undefined) => Number(value ?? 0) || 0;
+
+function isClientPayment(payment: Payment, clientId: number, invoiceIds: Set<number>) {
+  if (payment.status !== "completed") return false;
+  if (payment.invoiceId != null) return invoiceIds.has(payment.invoiceId);
+  return payment.recipientType === "client" && payment.recipientId === clientId;
+}
+
+/**
+ * Every billed invoice as a charge and every payment received as a credit,
+ * oldest first. Invoices marked paid without a matching payment record
+ * (marked by hand or paid through the portal) get a credit for the rest of
+ * their total on the paid date.
+ */
+function buildLedger(clientId: number, invoices: Invoice[], payments: Payment[]): LedgerEntry[] {
+  const billed = invoices.filter((invoice) => !UNBILLED_INVOICE_STATUSES.has(invoice.status));
+  const invoiceIds = new Set(billed.map((invoice) => invoice.id));
+  const received = payments.filter((payment) => isClientPayment(payment, clientId, invoiceIds));
+
+  const entries: LedgerEntry[] = billed.map((invoice) => ({
+    date: invoice.issueDate ?? invoice.createdAt,
+    type: "invoice",
+    reference: invoice.invoiceNumber,
+    description: `Invoice ${invoice.invoiceNumber}`,
+    charge: toNumber(invoice.totalAmount),
+    payment: 0,
+    invoiceId: invoice.id,
+    projectId: invoice.projectId,
+  }));
+
+  for (const payment of received) {
+    const invoice = billed.find((i) => i.id === payment.invoiceId);
+    entries.push({
+      date: payment.date,
+      type: "payment",
+      reference: payment.reference || payment.paymentMethod,
+      description: payment.description || (invoice ? `Payment on invoice ${invoice.invoiceNumber}` : "Payment received"),
+      charge: 0,
+      payment: toNumber(payment.amount),
+      invoiceId: payment.invoiceId,
+      projectId: payment.projectId ?? invoice?.projectId ?? null,
+    });
+  }
+
+  for (const invoice of billed) {
+    if (invoice.status !== "paid") continue;
+    const recorded = received
+      .filter((payment) => payment.invoiceId === invoice.id)
+      .reduce((sum, payment) => sum + toNumber(payment.amount), 0);
+    const remaining = round(toNumber(invoice.totalAmount) - recorded);
+    if (remaining <= 0) continue;
+    entries.push({
+      date: invoice.paidDate ?? invoice.issueDate ?? invoice.createdAt,
+      type: "payment",
+      reference: invoice.transactionId || invoice.paymentMethod || invoice.invoiceNumber,
+      description: `Invoice ${invoice.invoiceNumber} paid${invoice.paymentMethod ? ` (${invoice.paymentMethod.replace(/_/g, " ")})` : ""}`,
+      charge: 0,
+      payment: remaining,
+      invoiceId: invoice.id,
+      projectId: invoice.projectId,
+    });
+  }
+
+  // Charges come before payments made the same day
+  return entries.sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || (a.type === b.type ? 0 : a.type === "invoice" ? -1 : 1),
+  );
+}
+
+async function loadLedger(clientId: number) {
+  const [invoices, payments] = await Promise.all([storage.getInvoicesByClient(clientId), storage.getPayments()]);
+  return buildLedger(clientId, invoices, payments);
+}
+
+export async function getClientLifetimeValue(clientId: number): Promise<ClientLifetimeValue> {
+  const [quotes, ledger] = await Promise.all([storage.getQuotesByClient(clientId), loadLedger(clientId)]);
+
+  const offered = quotes.filter((quote) => quote.status !== "draft");
+  const won = offered.filter((quote) => quote.status === "approved");
+  const decided = won.length + offered.filter((quote) => quote.status === "rejected").length;
+
+  const charges = ledger.filter((entry) => entry.type === "invoice");
+  const invoiced = charges.reduce((sum, entry) => sum + entry.charge, 0);
+  const paid = ledger.reduce((sum, entry) => sum + entry.payment, 0);
+  const jobCount = new Set(charges.map((entry) => entry.projectId)).size;
+
+  return {
+    clientId,
+    totalQuoted: round(offered.reduce((sum, quote) => sum + toNumber(quote.totalEstimate), 0)),
+    totalWon: round(won.reduce((sum, quote) => sum + toNumber(quote.totalEstimate), 0)),
+    invoiced: round(invoiced),
+    paid: round(paid),
+    outstanding: round(invoiced - paid),
+    averageJobSize: jobCount ? round(invoiced / jobCount) : 0,
+    winRate: decided ? won.length / decided : null,
+    lastJobDate: charges.length ? charges[charges.length - 1].date : null,
+    quoteCount: offered.length,
+    wonCount: won.length,
+    jobCount,
+  };
+}
+
+/**
+ * Invoices and payments dated from `from` through the end of `to`, with the
+ * balance carried in from before the range and a running balance per line.
+ */
+export async function getClientStatement(client: Client, from: Date, to: Date): Promise<ClientStatement> {
+  const ledger = await loadLedger(client.id);
+  const end = new Date(to);
+  end.setHours(23, 59, 59, 999);
+
+  let balance = 0;
+  let totalCharges = 0;
+  let totalPayments = 0;
+  const entries: StatementEntry[] = [];
+  for (const entry of ledger) {
+    if (entry.date > end) break;
+    balance += entry.charge - entry.payment;
+    if (entry.date < from) continue;
+    totalCharges += entry.charge;
+    totalPayments += entry.payment;
+    entries.push({ ...entry, balance: round(balance) });
+  }
+  const closingBalance = round(balance);
+
+  return {
+    client,
+    from,
+    to,
+    openingBalance: round(closingBalance - totalCharges + totalPayments),
+    totalCharges: round(totalCharges),
+    totalPayments: round(totalPayments),
+    closingBalance,
+    entries,
+  };
+}
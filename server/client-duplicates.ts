@@ -0,0 +1,208 @@
+import type { Client } from "@shared/schema";
+
+// Finds clients that are probably the same person or business: leads
+// converted more than once, or someone typed in again by hand.
+
+export interface ClientMatch {
+  client: Client;
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface DuplicatePair {
+  client: Client;
+  duplicate: Client;
+  score: number;
+  reasons: string[];
+}
+
+type ClientCandidate = Pick<Client, "name" | "email" | "phone" | "address">;
+
+// Pairs scoring below this are not reported
+const MATCH_THRESHOLD = 50;
+const SIMILAR = 0.85;
+
+// Typed when the address was not known yet, e.g. by lead conversion
+const PLACEHOLDER_ADDRESSES = new Set(["", "to be updated", "tbd", "n/a", "unknown"]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  drive: "dr",
+  road: "rd",
+  boulevard: "blvd",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  circle: "cir",
+  suite: "ste",
+  apartment: "apt",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+// US numbers with or without the leading country code compare equal
+export function normalizePhone(phone: string | null | undefined) {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  const national = digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+  return national.length >= 7 ? national : "";
+}
+
+export function normalizeEmail(email: string | null | undefined) {
+  return (email ?? "").trim().toLowerCase();
+}
+
+// Word order and punctuation don't matter: "Torres, Ana" matches "Ana Torres"
+export function normalizeName(name: string | null | undefined) {
+  return (name ?? "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+export function normalizeAddress(address: string | null | undefined) {
+  const normalized = (address ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+  return PLACEHOLDER_ADDRESSES.has(normalized) ? "" : normalized;
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, 0 for nothing in common
+export function similarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+interface NormalizedClient {
+  phone: string;
+  email: string;
+  name: string;
+  address: string;
+}
+
+function normalizeClient(client: ClientCandidate): NormalizedClient {
+  return {
+    phone: normalizePhone(client.phone),
+    email: normalizeEmail(client.email),
+    name: normalizeName(client.name),
+    address: normalizeAddress(client.address),
+  };
+}
+
+function scoreMatch(a: NormalizedClient, b: NormalizedClient) {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (a.phone && a.phone === b.phone) {
+    score += 50;
+    reasons.push("Same phone");
+  }
+  if (a.email && a.email === b.email) {
+    score += 50;
+    reasons.push("Same email");
+  }
+  const nameSimilarity = similarity(a.name, b.name);
+  if (nameSimilarity >= SIMILAR) {
+    score += Math.round(30 * nameSimilarity);
+    reasons.push(nameSimilarity === 1 ? "Same name" : "Similar name");
+  }
+  const addressSimilarity = similarity(a.address, b.address);
+  if (addressSimilarity >= SIMILAR) {
+    score += Math.round(20 * addressSimilarity);
+    reasons.push(addressSimilarity === 1 ? "Same address" : "Similar address");
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+// Only clients sharing at least one key are compared, so this stays fast
+// with thousands of clients
+function blockingKeys(client: NormalizedClient) {
+  const keys: string[] = [];
+  if (client.phone) keys.push(`phone:${client.phone}`);
+  if (client.email) keys.push(`email:${client.email}`);
+  for (const word of client.name.split(" ")) {
+    if (word.length >= 3) keys.push(`name:${word.slice(0, 4)}`);
+  }
+  const houseNumber = client.address.match(/^\d+/)?.[0];
+  if (houseNumber) keys.push(`address:${houseNumber}`);
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Existing clients that look like the given one, best match first. Used to
+ * warn before creating a client.
+ */
+export function findClientMatches(candidate: ClientCandidate, clients: Client[], excludeId?: number): ClientMatch[] {
+  const normalized = normalizeClient(candidate);
+  return clients
+    .filter((client) => client.id !== excludeId)
+    .map((client) => ({ client, ...scoreMatch(normalized, normalizeClient(client)) }))
+    .filter((match) => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Every pair of clients that are probably duplicates, most likely first.
+ * The older client of each pair comes first.
+ */
+export function findDuplicatePairs(clients: Client[]): DuplicatePair[] {
+  const sorted = [...clients].sort((a, b) => a.id - b.id);
+  const normalized = sorted.map(normalizeClient);
+
+  const blocks = new Map<string, number[]>();
+  normalized.forEach((client, index) => {
+    for (const key of blockingKeys(client)) {
+      const block = blocks.get(key) ?? [];
+      block.push(index);
+      blocks.set(key, block);
+    }
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  blocks.forEach((block) => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = `${block[i]}:${block[j]}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const { score, reasons } = scoreMatch(normalized[block[i]], normalized[block[j]]);
+        if (score >= MATCH_THRESHOLD) {
+          pairs.push({ client: sorted[block[i]], duplicate: sorted[block[j]], score, reasons });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
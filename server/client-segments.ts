@@ -0,0 +1,76 @@
+import type { Client } from "@shared/schema";
+import { hasTag, type Presence, type SegmentRules } from "@shared/client-segments";
+import { storage } from "./storage";
+
+// Evaluates saved segment rules against the current company's clients.
+// Rules look at projects, quotes and communications, so everything is loaded
+// once and matched in memory, as the duplicate finder does.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const OPEN_QUOTE_STATUSES = new Set(["draft", "sent"]);
+const INACTIVE_PROJECT_STATUSES = new Set(["completed", "archived"]);
+
+function matchesPresence(presence: Presence, present: boolean) {
+  return presence === "any" || (presence === "with") === present;
+}
+
+function monthsAgo(months: number, now: Date) {
+  const date = new Date(now);
+  date.setMonth(date.getMonth() - months);
+  return date;
+}
+
+/**
+ * Clients matching every rule that is set, in name order.
+ */
+export async function findSegmentClients(rules: SegmentRules, now = new Date()): Promise<Client[]> {
+  const [clients, projects, quotes, lastContacts] = await Promise.all([
+    storage.getClients(),
+    storage.getProjects(),
+    storage.getQuotes(),
+    rules.noContactInDays ? storage.getLastContactDates() : Promise.resolve(new Map<number, Date>()),
+  ]);
+
+  const projectClient = new Map(projects.map((project) => [project.id, project.clientId]));
+  const clientsWithOpenQuote = new Set(
+    quotes
+      .filter((quote) => OPEN_QUOTE_STATUSES.has(quote.status))
+      .map((quote) => projectClient.get(quote.projectId)),
+  );
+  const clientsWithActiveProject = new Set(
+    projects.filter((project) => !INACTIVE_PROJECT_STATUSES.has(project.status)).map((project) => project.clientId),
+  );
+  const lastCompleted = new Map<number, Date>();
+  for (const project of projects) {
+    if (project.status !== "completed") continue;
+    const completed = project.completedDate ?? project.createdAt;
+    const latest = lastCompleted.get(project.clientId);
+    if (!latest || completed > latest) lastCompleted.set(project.clientId, completed);
+  }
+
+  return clients
+    .filter((client) => {
+      if (rules.types.length && !rules.types.includes(client.type as SegmentRules["types"][number])) return false;
+      if (
+        rules.classifications.length &&
+        !rules.classifications.includes(client.classification as SegmentRules["classifications"][number])
+      ) {
+        return false;
+      }
+      if (rules.includeTags.length && !rules.includeTags.some((tag) => hasTag(client.tags, tag))) return false;
+      if (rules.excludeTags.some((tag) => hasTag(client.tags, tag))) return false;
+      if (rules.lastCompletedProjectMonthsAgo) {
+        const completed = lastCompleted.get(client.id);
+        if (!completed || completed > monthsAgo(rules.lastCompletedProjectMonthsAgo, now)) return false;
+      }
+      if (!matchesPresence(rules.openQuote, clientsWithOpenQuote.has(client.id))) return false;
+      if (!matchesPresence(rules.activeProject, clientsWithActiveProject.has(client.id))) return false;
+      if (rules.noContactInDays) {
+        const lastContact = lastContacts.get(client.id);
+        if (lastContact && now.getTime() - lastContact.getTime() < rules.noContactInDays * DAY) return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { setDefaultCompanyId } from "./request-context";
+import { CompanyMembership, InsertCompany } from "@shared/schema";
+import { SUPERADMIN_ROLE } from "@shared/permissions";
+
+declare module "express-session" {
+  interface SessionData {
+    // Picked with the company switcher in the layout
+    companyId?: number;
+  }
+}
+
+// The business this install was built for; seeds the first company
+const FIRST_COMPANY: InsertCompany = {
+  name: "Dovalina Pro Painters",
+  address: "3731 Aster Drive",
+  city: "Charlotte",
+  state: "N.C.",
+  zip: "28227",
+  phone: "704-506-9741",
+  email: "contact@dovalinapropainters.com",
+  website: "dovalinapropainters.com",
+  invoicePrefix: "INV",
+};
+
+/**
+ * Makes sure a company exists and everything created before multi-company
+ * support belongs to it. The oldest company is the default for public
+ * endpoints such as the website contact form.
+ */
+export async function initCompanies() {
+  let [company] = await storage.getCompanies();
+  if (!company) {
+    company = await storage.createCompany(FIRST_COMPANY);
+  }
+  setDefaultCompanyId(company.id);
+  await storage.assignUnscopedRecords(company.id);
+}
+
+/**
+ * Companies a user can switch to, with their role in each. superadmin can
+ * work in every company.
+ */
+export async function getUserCompanies(user: Express.User): Promise<CompanyMembership[]> {
+  if (user.role === SUPERADMIN_ROLE) {
+    const companies = await storage.getCompanies();
+    return companies.map((company) => ({ ...company, role: SUPERADMIN_ROLE }));
+  }
+  return storage.getUserCompanies(user.id);
+}
+
+/**
+ * Picks the company for a logged-in request: the X-Company-Id header (for
+ * API tokens), then the one chosen in the switcher, then the user's first.
+ * req.user.role becomes the user's role in that company, so permission
+ * checks further down apply per company. Returns undefined when the user
+ * belongs to no company.
+ */
+export async function resolveCompany(req: Request) {
+  if (!req.user) return undefined;
+
+  const companies = await getUserCompanies(req.user);
+  const requestedId = Number(req.get("x-company-id")) || req.session?.companyId;
+  const company = companies.find(({ id }) => id === requestedId) ?? companies[0];
+  if (!company) return undefined;
+
+  req.companyId = company.id;
+  req.user.role = company.role;
+  return company;
+}
+
+export async function companyContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return next();
+
+  try {
+    const company = await resolveCompany(req);
+    if (!company && req.path.startsWith("/api/") && req.path !== "/api/logout") {
+      return res.status(403).json({ message: "Your account does not belong to any company" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
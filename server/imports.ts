@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { insertClientSchema, insertStaffSchema, insertSubcontractorSchema, insertSupplierSchema, type Client } from "@shared/schema";
+import { IMPORT_FIELDS, type ImportEntity, type ImportResult, type ImportRow, type ImportRowResult } from "@shared/imports";
+import { storage, type ImportBatch } from "./storage";
+import { findClientMatches, normalizeEmail, normalizeName, normalizePhone } from "./client-duplicates";
+
+const INSERT_SCHEMAS: Record<ImportEntity, z.ZodTypeAny> = {
+  clients: insertClientSchema,
+  suppliers: insertSupplierSchema,
+  subcontractors: insertSubcontractorSchema,
+  staff: insertStaffSchema,
+};
+
+// Columns holding one of a fixed set of values. Cells are matched ignoring
+// case, with spaces read as underscores ("On Leave" is on_leave).
+const CHOICES: Record<ImportEntity, Record<string, string[]>> = {
+  clients: {
+    classification: ["residential", "commercial", "industrial"],
+    type: ["client", "prospect"],
+  },
+  suppliers: {
+    status: ["active", "inactive"],
+  },
+  subcontractors: {
+    status: ["active", "inactive", "blacklisted"],
+    rateType: ["hourly", "daily", "fixed"],
+  },
+  staff: {
+    availability: ["available", "assigned", "on_leave"],
+  },
+};
+
+type ImportedRecord = { name: string; email?: string | null; phone?: string | null };
+type ExistingRecord = ImportedRecord & { id: number };
+
+function fieldLabel(entity: ImportEntity, key: string) {
+  return IMPORT_FIELDS[entity].find((field) => field.key === key)?.label ?? key;
+}
+
+// Spreadsheet cells are text: blank cells are left out so schema defaults
+// apply, and numbers and lists are parsed
+function toRecord(entity: ImportEntity, row: ImportRow) {
+  const record: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const { key, label } of IMPORT_FIELDS[entity]) {
+    const value = (row[key] ?? "").trim();
+    if (!value) continue;
+
+    const choices = CHOICES[entity][key];
+    if (choices) {
+      const choice = value.toLowerCase().replace(/\s+/g, "_");
+      if (choices.includes(choice)) {
+        record[key] = choice;
+      } else {
+        errors.push(`${label}: "${value}" is not one of ${choices.join(", ")}`);
+      }
+    } else if (key === "rate") {
+      record[key] = Number(value.replace(/[$,]/g, ""));
+    } else if (key === "skills" || key === "tags") {
+      record[key] = value.split(/[,;]/).map((item) => item.trim()).filter(Boolean);
+    } else {
+      record[key] = value;
+    }
+  }
+  return { record, errors };
+}
+
+// Two records are the same if they share an email or phone, or have the same name
+function identityKeys(record: ImportedRecord) {
+  const keys: string[] = [];
+  const email = normalizeEmail(record.email);
+  const phone = normalizePhone(record.phone);
+  const name = normalizeName(record.name);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+  if (name) keys.push(`name:${name}`);
+  return keys;
+}
+
+async function getExistingRecords(entity: ImportEntity): Promise<ExistingRecord[]> {
+  switch (entity) {
+    case "clients":
+      return storage.getClients();
+    case "suppliers":
+      return storage.getSuppliers();
+    case "subcontractors":
+      return storage.getSubcontractors();
+    case "staff":
+      return storage.getStaff();
+  }
+}
+
+/**
+ * Validates mapped spreadsheet rows against the entity's insert schema and
+ * flags rows that match an existing record or an earlier row. On a dry run
+ * nothing is saved; otherwise the valid rows (and duplicates, if asked) are
+ * inserted in a single transaction. Invalid rows are never imported.
+ */
+export async function runImport(
+  entity: ImportEntity,
+  rows: ImportRow[],
+  options: { dryRun: boolean; includeDuplicates: boolean },
+): Promise<ImportResult> {
+  const existing = await getExistingRecords(entity);
+  const existingByKey = new Map<string, ExistingRecord>();
+  for (const record of existing) {
+    for (const key of identityKeys(record)) {
+      if (!existingByKey.has(key)) existingByKey.set(key, record);
+    }
+  }
+  const rowsByKey = new Map<string, number>();
+
+  const results: ImportRowResult[] = [];
+  const records: ImportedRecord[] = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const { record, errors } = toRecord(entity, row);
+    const parsed = INSERT_SCHEMAS[entity].safeParse(record);
+    if (!parsed.success) {
+      errors.push(...parsed.error.errors.map((issue) => `${fieldLabel(entity, String(issue.path[0]))}: ${issue.message}`));
+    }
+    if (errors.length > 0 || !parsed.success) {
+      results.push({ row: rowNumber, status: "invalid", errors });
+      return;
+    }
+
+    const values = parsed.data as ImportedRecord;
+    const keys = identityKeys(values);
+    // Clients are also compared by similar name and address, as in the duplicate finder
+    const match = entity === "clients"
+      ? findClientMatches(parsed.data, existing as Client[])[0]?.client
+      : keys.map((key) => existingByKey.get(key)).find(Boolean);
+    const earlierRow = keys.map((key) => rowsByKey.get(key)).find((row) => row !== undefined);
+    keys.forEach((key) => {
+      if (!rowsByKey.has(key)) rowsByKey.set(key, rowNumber);
+    });
+
+    const duplicateOf = match ? `${match.name} (#${match.id})` : earlierRow !== undefined ? `Row ${earlierRow}` : undefined;
+    results.push({ row: rowNumber, status: duplicateOf ? "duplicate" : "valid", errors: [], duplicateOf });
+    if (!duplicateOf || options.includeDuplicates) records.push(values);
+  });
+
+  const imported = options.dryRun || records.length === 0
+    ? records.length
+    : await storage.importRecords({ entity, records } as ImportBatch);
+  return { dryRun: options.dryRun, rows: results, imported };
+}
+
+/**
+ * Every record of the entity as spreadsheet rows, in the same columns the
+ * import reads, so an exported file can be edited and imported again.
+ */
+export async function getExportRows(entity: ImportEntity) {
+  const fields = IMPORT_FIELDS[entity];
+  const records = (await getExistingRecords(entity)) as unknown as Record<string, unknown>[];
+  const rows = records.map((record) =>
+    fields.map(({ key }) => {
+      const value = record[key];
+      if (Array.isArray(value)) return value.join(", ");
+      if (typeof value === "number") return value;
+      return value == null ? "" : String(value);
+    }),
+  );
+  return { headers: fields.map((field) => field.label), rows };
+}
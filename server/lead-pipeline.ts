@@ -0,0 +1,22 @@
+import { DEFAULT_LEAD_PIPELINE, LEAD_PIPELINE_KEY, leadPipelineSchema, type LeadPipeline } from "@shared/lead-pipeline";
+import { storage } from "./storage";
+
+/**
+ * The current company's lead pipeline, or the default one until it is saved
+ * in Settings. Settings missing a newer field get the default for it.
+ */
+export async function getLeadPipeline(): Promise<LeadPipeline> {
+  const setting = await storage.getSetting(LEAD_PIPELINE_KEY);
+  const saved = (setting?.value ?? {}) as Partial<LeadPipeline>;
+  const parsed = leadPipelineSchema.safeParse({ ...DEFAULT_LEAD_PIPELINE, ...saved });
+  return parsed.success ? parsed.data : DEFAULT_LEAD_PIPELINE;
+}
+
+export async function saveLeadPipeline(pipeline: LeadPipeline) {
+  const existing = await storage.getSetting(LEAD_PIPELINE_KEY);
+  if (existing) {
+    await storage.updateSetting(LEAD_PIPELINE_KEY, pipeline);
+  } else {
+    await storage.createSetting({ key: LEAD_PIPELINE_KEY, value: pipeline });
+  }
+}
@@ -0,0 +1,99 @@
+import sgMail from "@sendgrid/mail";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "no-reply@dovalinapropainters.com";
+
+// Sends through SendGrid using SENDGRID_API_KEY
+class SendGridTransport implements MailTransport {
+  name = "sendgrid";
+
+  constructor(apiKey: string, private from: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage) {
+    await sgMail.send({
+      to: message.to,
+      from: this.from,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+// Writes every message as a JSON file so it can be opened during local development
+class FileOutboxTransport implements MailTransport {
+  name = "file";
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+    const filePath = path.join(this.directory, fileName);
+    await writeFile(filePath, JSON.stringify({ from: this.from, ...message, sentAt: new Date() }, null, 2));
+    log(`mail to ${message.to} written to ${filePath}`, "mail");
+  }
+}
+
+// Prints messages to the server log
+class LogTransport implements MailTransport {
+  name = "log";
+
+  async send(message: MailMessage) {
+    log(`mail to ${message.to}: ${message.subject}\n${message.text}`, "mail");
+  }
+}
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (sendgrid, file or log).
+ * Without it, SendGrid is used when SENDGRID_API_KEY is set and the
+ * file outbox otherwise.
+ */
+export function createMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? "sendgrid" : "file");
+
+  switch (transport) {
+    case "sendgrid":
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error("MAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set");
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY, from);
+    case "log":
+      return new LogTransport();
+    case "file":
+      return new FileOutboxTransport(process.env.MAIL_OUTBOX_DIR || path.resolve("outbox"), from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+export const mailer = createMailTransport();
+
+/**
+ * Base URL for links sent by email, from APP_URL. The request's Host header is
+ * never used: anyone can set it, and a link pointing at their site would hand
+ * them the token.
+ */
+export function appUrl() {
+  if (!process.env.APP_URL) {
+    throw new Error("APP_URL must be set to send links by email");
+  }
+  return process.env.APP_URL.replace(/\/+$/, "");
+}
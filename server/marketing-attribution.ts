@@ -0,0 +1,86 @@
+import { UNKNOWN_SOURCE } from "@shared/attribution";
+import { storage } from "./storage";
+
+// Revenue and close rate per marketing source, for the reports page
+
+const UNBILLED_INVOICE_STATUSES = new Set(["draft", "cancelled"]);
+
+export interface MarketingSourceRow {
+  source: string;
+  leads: number;
+  convertedLeads: number; // became a client
+  wonLeads: number; // that client has an approved quote or a billed invoice
+  closeRate: number | null; // wonLeads / leads, 0 to 1
+  newClients: number;
+  invoiced: number;
+  revenue: number; // paid invoices
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Leads and clients created, invoices issued and invoices paid between
+ * `start` and `end`, grouped by marketing source. Invoices and clients
+ * without a source of their own fall back to their client's.
+ */
+export async function getMarketingSourceReport(start: Date, end: Date): Promise<MarketingSourceRow[]> {
+  const [leads, clients, projects, quotes, invoices] = await Promise.all([
+    storage.getLeads(),
+    storage.getClients(),
+    storage.getProjects(),
+    storage.getQuotes(),
+    storage.getInvoices(),
+  ]);
+  const inRange = (date: Date | null) => !!date && date >= start && date <= end;
+
+  const clientSource = new Map(clients.map((client) => [client.id, client.marketingSource]));
+  const billed = invoices.filter((invoice) => !UNBILLED_INVOICE_STATUSES.has(invoice.status));
+
+  // Clients that became paying customers
+  const projectClient = new Map(projects.map((project) => [project.id, project.clientId]));
+  const wonClients = new Set([
+    ...quotes.filter((quote) => quote.status === "approved").map((quote) => projectClient.get(quote.projectId)),
+    ...billed.map((invoice) => invoice.clientId),
+  ]);
+
+  const rows = new Map<string, MarketingSourceRow>();
+  const row = (source: string | null | undefined) => {
+    const key = source || UNKNOWN_SOURCE;
+    let existing = rows.get(key);
+    if (!existing) {
+      existing = { source: key, leads: 0, convertedLeads: 0, wonLeads: 0, closeRate: null, newClients: 0, invoiced: 0, revenue: 0 };
+      rows.set(key, existing);
+    }
+    return existing;
+  };
+
+  for (const lead of leads) {
+    if (!inRange(lead.createdAt)) continue;
+    const entry = row(lead.marketingSource);
+    entry.leads++;
+    if (lead.clientId) entry.convertedLeads++;
+    if (lead.clientId && wonClients.has(lead.clientId)) entry.wonLeads++;
+  }
+
+  for (const client of clients) {
+    if (inRange(client.createdAt)) row(client.marketingSource).newClients++;
+  }
+
+  for (const invoice of billed) {
+    const source = invoice.marketingSource || clientSource.get(invoice.clientId);
+    const total = Number(invoice.totalAmount) || 0;
+    if (inRange(invoice.issueDate ?? invoice.createdAt)) row(source).invoiced += total;
+    if (invoice.status === "paid" && inRange(invoice.paidDate ?? invoice.issueDate ?? invoice.createdAt)) {
+      row(source).revenue += total;
+    }
+  }
+
+  return Array.from(rows.values())
+    .map((entry) => ({
+      ...entry,
+      closeRate: entry.leads ? entry.wonLeads / entry.leads : null,
+      invoiced: round(entry.invoiced),
+      revenue: round(entry.revenue),
+    }))
+    .sort((a, b) => b.revenue - a.revenue || b.leads - a.leads || a.source.localeCompare(b.source));
+}
@@ -0,0 +1,386 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { randomBytes, createHash } from "crypto";
+import Stripe from "stripe";
+import { z } from "zod";
+import { storage } from "./storage";
+import { advanceProject } from "./project-workflow";
+import { appUrl, mailer } from "./mail";
+import { getDefaultCompanyId } from "./request-context";
+import { clientIp, formatLockout, portalLinkIpLimiter, recordBlockedAttempt } from "./rate-limit";
+import type { Client } from "@shared/schema";
+
+// The client portal lets a client see their own projects, quotes, invoices
+// and job photos without a staff account. Clients log in with a single-use
+// link mailed to an address on file; the portal session is kept apart from
+// the passport login so it never grants access to the staff API.
+
+declare module "express-session" {
+  interface SessionData {
+    portal?: { clientId: number; companyId: number };
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requirePortalClient for the logged-in portal client
+      portalClient?: Client;
+    }
+  }
+}
+
+// Portal links are valid for a day and can only be used once
+const PORTAL_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+function hashPortalToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Mails a portal login link for the client to the given address. Links still
+ * waiting to be used stay valid, so a client with several contacts can get
+ * one at each address.
+ */
+export async function sendPortalLink(req: Request, client: Client, email: string) {
+  const token = randomBytes(32).toString("hex");
+  const companyId = client.companyId ?? getDefaultCompanyId();
+  await storage.createPortalToken(
+    {
+      clientId: client.id,
+      email,
+      tokenHash: hashPortalToken(token),
+      expiresAt: new Date(Date.now() + PORTAL_LINK_TTL_MS),
+      requestedIp: req.ip ?? null,
+    },
+    companyId,
+  );
+
+  const company = await storage.getCompany(companyId);
+  const companyName = company?.name ?? "Dovalina Pro Painters";
+  const portalLink = `${appUrl()}/portal?token=${token}`;
+
+  await mailer.send({
+    to: email,
+    subject: `Your ${companyName} client portal link`,
+    text: [
+      `Hi ${client.name},`,
+      "",
+      `Use the link below within the next 24 hours to open your ${companyName} client portal, where you can follow your projects, approve quotes and pay invoices:`,
+      "",
+      portalLink,
+      "",
+      "The link works once. You can ask for a new one from the portal page at any time.",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Lets the request through only with a portal session. Portal requests work
+ * in the client's company, so the company-scoped storage methods apply.
+ */
+export async function requirePortalClient(req: Request, res: Response, next: NextFunction) {
+  const portal = req.session?.portal;
+  if (!portal) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  try {
+    req.companyId = portal.companyId;
+    const client = await storage.getClient(portal.clientId);
+    if (!client) {
+      delete req.session.portal;
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    req.portalClient = client;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function getStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error("Stripe secret key not configured");
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY);
+}
+
+// Invoices the client can see: everything but drafts
+async function getPortalInvoice(client: Client, id: number) {
+  const invoice = await storage.getInvoice(id);
+  if (!invoice || invoice.clientId !== client.id || invoice.status === "draft") {
+    return undefined;
+  }
+  return invoice;
+}
+
+const signQuoteSchema = z.object({
+  signedBy: z.string().trim().min(1, "Please type your full name"),
+  signatureData: z.string().startsWith("data:image/png;base64,", "Please sign before approving"),
+});
+
+export function setupPortal(app: Express) {
+  // Always answers the same way so it cannot be used to find out who is a client
+  app.post("/api/portal/request-link", async (req, res) => {
+    try {
+      const email = typeof req.body?.email === "string" ? req.body.email.trim() : "";
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const ip = clientIp(req);
+      const lockedFor = portalLinkIpLimiter.lockedFor(ip);
+      if (lockedFor) {
+        await recordBlockedAttempt(req, "portal", "rate_limited", email);
+        return res.status(429).json({
+          message: `Too many requests. Please try again in ${formatLockout(lockedFor)}.`,
+        });
+      }
+      portalLinkIpLimiter.hit(ip);
+
+      const clients = await storage.findPortalClientsByEmail(email);
+      for (const client of clients) {
+        await sendPortalLink(req, client, email);
+      }
+
+      res.json({ message: "If this email is on file, a link to your client portal has been sent to it" });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/portal/login", async (req, res) => {
+    try {
+      const token = typeof req.body?.token === "string" ? req.body.token : "";
+      const portalToken = token && (await storage.getPortalTokenByHash(hashPortalToken(token)));
+      if (!portalToken || portalToken.usedAt || portalToken.expiresAt.getTime() < Date.now()) {
+        return res.status(400).json({ message: "This portal link is invalid or has expired" });
+      }
+      if (!(await storage.markPortalTokenUsed(portalToken.id))) {
+        return res.status(400).json({ message: "This portal link has already been used" });
+      }
+
+      const companyId = portalToken.companyId ?? getDefaultCompanyId();
+      req.companyId = companyId;
+      const client = await storage.getClient(portalToken.clientId);
+      if (!client) {
+        return res.status(400).json({ message: "This portal link is invalid or has expired" });
+      }
+
+      // A fresh session id, as on staff login. Regenerating would also sign
+      // out a staff login in the same browser, which already got a fresh id
+      // when it logged in, so that session is kept.
+      if (!req.isAuthenticated()) {
+        await new Promise<void>((resolve, reject) =>
+          req.session.regenerate((err) => (err ? reject(err) : resolve())),
+        );
+      }
+      req.session.portal = { clientId: client.id, companyId };
+
+      await storage.createActivity({
+        type: "portal_login",
+        description: `${client.name} opened the client portal (${portalToken.email})`,
+        userId: null,
+        projectId: null,
+        clientId: client.id,
+      });
+
+      res.json({ clientId: client.id });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/portal/logout", (req, res) => {
+    delete req.session.portal;
+    res.sendStatus(200);
+  });
+
+  app.get("/api/portal/session", requirePortalClient, async (req, res) => {
+    try {
+      const client = req.portalClient!;
+      const company = await storage.getCompany(req.companyId!);
+      res.json({
+        client: { id: client.id, name: client.name, email: client.email },
+        company,
+        stripeEnabled: !!process.env.STRIPE_SECRET_KEY,
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/portal/projects", requirePortalClient, async (req, res) => {
+    try {
+      const projects = await storage.getProjectsByClient(req.portalClient!.id);
+      res.json(
+        projects
+          .filter((project) => project.status !== "archived")
+          .map(({ id, title, description, address, serviceType, status, progress, startDate, dueDate, completedDate }) => ({
+            id, title, description, address, serviceType, status, progress, startDate, dueDate, completedDate,
+          })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Internal estimate breakdowns and notes stay out of the portal
+  app.get("/api/portal/quotes", requirePortalClient, async (req, res) => {
+    try {
+      const quotes = await storage.getQuotesByClient(req.portalClient!.id);
+      res.json(
+        quotes
+          .filter((quote) => quote.status !== "draft")
+          .map(({ id, projectId, totalEstimate, scopeOfWork, status, sentDate, validUntil, approvedDate, rejectedDate, signedBy, signedAt }) => ({
+            id, projectId, totalEstimate, scopeOfWork, status, sentDate, validUntil, approvedDate, rejectedDate, signedBy, signedAt,
+          })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/portal/quotes/:id/sign", requirePortalClient, async (req, res) => {
+    try {
+      const client = req.portalClient!;
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      const project = quote && (await storage.getProject(quote.projectId));
+      if (!quote || !project || project.clientId !== client.id || quote.status === "draft") {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (quote.status !== "sent") {
+        return res.status(400).json({ message: "This quote can no longer be approved" });
+      }
+
+      const { signedBy, signatureData } = signQuoteSchema.parse(req.body);
+      const signedQuote = await storage.signQuote(quote.id, { signedBy, signatureData, signedIp: clientIp(req) });
+      if (!signedQuote) {
+        return res.status(400).json({ message: "This quote can no longer be approved" });
+      }
+
+      // Same follow-up as when staff mark the quote approved
+      await advanceProject(project.id, "approved", null);
+      await storage.createActivity({
+        type: "quote_approved",
+        description: `Quote for project "${project.title}" was approved and signed by ${signedBy} in the client portal`,
+        userId: null,
+        projectId: project.id,
+        clientId: client.id,
+      });
+
+      res.json({ id: signedQuote.id, status: signedQuote.status, signedBy: signedQuote.signedBy, signedAt: signedQuote.signedAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid signature", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/portal/invoices", requirePortalClient, async (req, res) => {
+    try {
+      const invoices = await storage.getInvoicesByClient(req.portalClient!.id);
+      res.json(
+        invoices
+          .filter((invoice) => invoice.status !== "draft")
+          .map(({ id, projectId, billingContactId, invoiceNumber, amount, tax, totalAmount, status, items, issueDate, dueDate, paidDate, notes }) => ({
+            id, projectId, billingContactId, invoiceNumber, amount, tax, totalAmount, status, items, issueDate, dueDate, paidDate, notes,
+          })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // The amount always comes from the invoice, never from the browser
+  app.post("/api/portal/invoices/:id/payment-intent", requirePortalClient, async (req, res) => {
+    try {
+      const client = req.portalClient!;
+      const invoice = await getPortalInvoice(client, parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "paid" || invoice.status === "cancelled") {
+        return res.status(400).json({ message: `This invoice is ${invoice.status}` });
+      }
+
+      const amount = parseFloat(invoice.totalAmount);
+      const paymentIntent = await getStripe().paymentIntents.create({
+        amount: Math.round(amount * 100), // Convert to cents for Stripe
+        currency: "usd",
+        metadata: {
+          invoiceId: String(invoice.id),
+          clientId: String(client.id),
+        },
+      });
+      await storage.updateInvoice(invoice.id, { stripePaymentIntentId: paymentIntent.id });
+
+      await storage.createActivity({
+        type: "payment_intent_created",
+        description: `Payment intent created for $${amount.toFixed(2)} by ${client.name} in the client portal`,
+        userId: null,
+        projectId: invoice.projectId,
+        clientId: client.id,
+      });
+
+      res.json({ clientSecret: paymentIntent.client_secret });
+    } catch (error) {
+      console.error("Error creating portal payment intent:", error);
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Called after Stripe confirms the payment in the browser. The intent is
+  // checked with Stripe before the invoice is marked paid and the payment
+  // recorded.
+  app.post("/api/portal/invoices/:id/paid", requirePortalClient, async (req, res) => {
+    try {
+      const client = req.portalClient!;
+      const invoice = await getPortalInvoice(client, parseInt(req.params.id));
+      if (!invoice || !invoice.stripePaymentIntentId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "paid") {
+        return res.json({ id: invoice.id, status: invoice.status });
+      }
+
+      const paymentIntent = await getStripe().paymentIntents.retrieve(invoice.stripePaymentIntentId);
+      if (paymentIntent.status !== "succeeded" || paymentIntent.metadata.invoiceId !== String(invoice.id)) {
+        return res.status(400).json({ message: "The payment has not been completed" });
+      }
+
+      const updatedInvoice = await storage.recordOnlinePayment(invoice.id, {
+        amount: (paymentIntent.amount_received / 100).toFixed(2),
+        date: new Date(),
+        paymentMethod: "stripe",
+        transactionId: paymentIntent.id,
+      });
+
+      await storage.createActivity({
+        type: "invoice_paid",
+        description: `Invoice ${invoice.invoiceNumber} was paid online by ${client.name}`,
+        userId: null,
+        projectId: invoice.projectId,
+        clientId: client.id,
+      });
+
+      res.json({ id: invoice.id, status: updatedInvoice?.status ?? "paid" });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/portal/service-orders", requirePortalClient, async (req, res) => {
+    try {
+      const projects = await storage.getProjectsByClient(req.portalClient!.id);
+      const orders = (await Promise.all(projects.map((project) => storage.getServiceOrdersByProject(project.id)))).flat();
+      res.json(
+        orders.map(({ id, projectId, status, startDate, endDate, beforeImages, afterImages }) => ({
+          id, projectId, status, startDate, endDate, beforeImages, afterImages,
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+}
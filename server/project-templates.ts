@@ -0,0 +1,63 @@
+import type { InsertProject } from "@shared/schema";
+import {
+  DEFAULT_PROJECT_TEMPLATES,
+  PROJECT_TEMPLATES_KEY,
+  projectTemplatesSchema,
+  type ProjectTemplate,
+} from "@shared/project-templates";
+import { storage, type ProjectTemplateSeed } from "./storage";
+
+/**
+ * The current company's project templates, or the defaults until they are
+ * saved in Settings.
+ */
+export async function getProjectTemplates(): Promise<ProjectTemplate[]> {
+  const setting = await storage.getSetting(PROJECT_TEMPLATES_KEY);
+  if (!setting) return DEFAULT_PROJECT_TEMPLATES;
+  const parsed = projectTemplatesSchema.safeParse(setting.value);
+  return parsed.success ? parsed.data : DEFAULT_PROJECT_TEMPLATES;
+}
+
+export async function saveProjectTemplates(templates: ProjectTemplate[]) {
+  const existing = await storage.getSetting(PROJECT_TEMPLATES_KEY);
+  if (existing) {
+    await storage.updateSetting(PROJECT_TEMPLATES_KEY, templates);
+  } else {
+    await storage.createSetting({ key: PROJECT_TEMPLATES_KEY, value: templates });
+  }
+}
+
+/**
+ * The template's task list and a draft simple quote with its breakdown lines,
+ * to be created with the project (storage.createProjectFromTemplate).
+ */
+export function projectTemplateSeed(project: InsertProject, template: ProjectTemplate): ProjectTemplateSeed {
+  const tasks = template.tasks.map((task) => ({
+    title: task.title,
+    checklist: task.checklist.map((text) => ({ text, done: false })),
+  }));
+
+  // Simple quotes keep their lines in the miscellaneous module of each breakdown
+  const linesFor = (area: "interior" | "exterior") =>
+    template.quoteLines
+      .filter((line) => line.area === area)
+      .map(({ description, price }) => ({ description, price }));
+  const interior = linesFor("interior");
+  const exterior = linesFor("exterior");
+  const total = template.quoteLines.reduce((sum, line) => sum + line.price, 0);
+
+  return {
+    tasks,
+    quote: {
+      scopeOfWork: project.description || template.description || project.title,
+      isInterior: interior.length > 0,
+      isExterior: exterior.length > 0,
+      interiorBreakdown: interior.length > 0 ? { miscellaneous: { enabled: true, lines: interior } } : null,
+      exteriorBreakdown: exterior.length > 0 ? { miscellaneous: { enabled: true, lines: exterior } } : null,
+      totalEstimate: total.toFixed(2),
+      status: "draft",
+      images: project.images || null,
+      documents: project.documents || null,
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { Project } from "@shared/schema";
+import {
+  canTransitionProject,
+  isProjectStatus,
+  projectStatusLabel,
+  PROJECT_STATUSES,
+  PROJECT_TRANSITIONS,
+  type ProjectStatus,
+} from "@shared/project-status";
+import { openPunchItems } from "@shared/punch-list";
+import { storage, type ProjectRecord } from "./storage";
+
+// Server side of the project status workflow in shared/project-status.ts:
+// which moves are allowed, what has to be true first, and what changes along
+// with the status.
+
+/**
+ * Why `project` cannot move to `to`, or null if it can.
+ */
+export async function projectTransitionError(project: Project, to: string): Promise<string | null> {
+  if (!isProjectStatus(to)) return `"${to}" is not a project status`;
+  if (project.status === to) return null;
+  if (!canTransitionProject(project.status, to)) {
+    const allowed = isProjectStatus(project.status) ? PROJECT_TRANSITIONS[project.status].map(projectStatusLabel) : [];
+    return `A project in "${projectStatusLabel(project.status)}" cannot move to "${projectStatusLabel(to)}"` +
+      (allowed.length ? `; it can move to ${allowed.map((label) => `"${label}"`).join(", ")}` : "");
+  }
+
+  if (to === "approved") {
+    const quotes = await storage.getQuotes();
+    if (!quotes.some((quote) => quote.projectId === project.id && quote.status === "approved")) {
+      return "The project needs an approved quote first";
+    }
+  }
+  if (to === "completed") {
+    const serviceOrders = await storage.getServiceOrdersByProject(project.id);
+    if (!serviceOrders.some((order) => order.clientSignature)) {
+      return "The project needs a service order signed by the client first";
+    }
+    const openItems = openPunchItems(await storage.getPunchListItems(project.id)).length;
+    if (openItems > 0) {
+      return `${openItems} punch list item${openItems === 1 ? " is" : "s are"} still open; close them or have the client waive them when signing off the walkthrough`;
+    }
+  }
+  return null;
+}
+
+// Fields that change along with the status
+function transitionEffects(project: Project, to: ProjectStatus): Partial<ProjectRecord> {
+  switch (to) {
+    case "in_progress":
+      return project.startDate ? {} : { startDate: new Date() };
+    case "completed":
+      return { completedDate: project.completedDate ?? new Date(), progress: 100 };
+    case "reviewing":
+      // Reopened after completion: the walkthrough has to be signed off again
+      return project.status === "completed"
+        ? { completedDate: null, walkthroughSignedBy: null, walkthroughSignature: null, walkthroughSignedAt: null }
+        : {};
+    default:
+      return {};
+  }
+}
+
+/**
+ * Saves a move already checked with projectTransitionError, with its side
+ * effects and any other `changes`, and logs it.
+ */
+export async function applyProjectTransition(
+  project: Project,
+  to: ProjectStatus,
+  userId: number | null,
+  changes: Partial<ProjectRecord> = {},
+): Promise<Project | undefined> {
+  const updated = await storage.updateProject(project.id, {
+    ...changes,
+    status: to,
+    ...(to !== project.status && transitionEffects(project, to)),
+  });
+
+  if (updated && to !== project.status) {
+    await storage.createActivity({
+      type: "project_status_changed",
+      description: `Project "${updated.title}" moved from ${projectStatusLabel(project.status)} to ${projectStatusLabel(to)}`,
+      userId,
+      projectId: updated.id,
+      clientId: updated.clientId,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Moves a project forward as a result of something else, e.g. a quote being
+ * sent or approved. Does nothing when the workflow does not allow the move,
+ * so a project further along is never sent back.
+ */
+export async function advanceProject(projectId: number, to: ProjectStatus, userId: number | null) {
+  const project = await storage.getProject(projectId);
+  if (!project || project.status === to) return project;
+  if (PROJECT_STATUSES.indexOf(to) < PROJECT_STATUSES.indexOf(project.status as ProjectStatus)) return project;
+  if (await projectTransitionError(project, to)) return project;
+  return applyProjectTransition(project, to, userId);
+}
@@ -0,0 +1,170 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+// In-memory attempt counters for login lockouts and public form throttling.
+// They reset when the server restarts, which is fine for a single instance.
+
+const MINUTE = 60 * 1000;
+
+type LimiterOptions = {
+  maxAttempts: number;
+  windowMs: number;
+  lockoutMs: number;
+};
+
+type LimiterEntry = {
+  attempts: number[];
+  lockedUntil?: number;
+};
+
+export type Lockout = {
+  limiter: string;
+  key: string;
+  lockedUntil: Date;
+};
+
+/**
+ * Counts attempts per key inside a sliding window. Once `maxAttempts` is
+ * reached the key is locked out for `lockoutMs`.
+ */
+export class AttemptLimiter {
+  private entries = new Map<string, LimiterEntry>();
+
+  constructor(public name: string, private options: LimiterOptions) {}
+
+  /** Milliseconds left on the lockout, or 0 when the key is not locked. */
+  lockedFor(key: string, now = Date.now()) {
+    const entry = this.entries.get(key);
+    if (!entry?.lockedUntil) return 0;
+    if (entry.lockedUntil <= now) {
+      this.entries.delete(key);
+      return 0;
+    }
+    return entry.lockedUntil - now;
+  }
+
+  /** Records an attempt and returns true when it triggered a lockout. */
+  hit(key: string, now = Date.now()) {
+    const entry = this.entries.get(key) ?? { attempts: [] };
+    entry.attempts = entry.attempts.filter((time) => now - time < this.options.windowMs);
+    entry.attempts.push(now);
+
+    let lockedOut = false;
+    if (entry.attempts.length >= this.options.maxAttempts) {
+      entry.lockedUntil = now + this.options.lockoutMs;
+      entry.attempts = [];
+      lockedOut = true;
+    }
+
+    this.entries.set(key, entry);
+    this.prune(now);
+    return lockedOut;
+  }
+
+  reset(key: string) {
+    this.entries.delete(key);
+  }
+
+  lockouts(now = Date.now()): Lockout[] {
+    const result: Lockout[] = [];
+    this.entries.forEach((entry, key) => {
+      if (entry.lockedUntil && entry.lockedUntil > now) {
+        result.push({ limiter: this.name, key, lockedUntil: new Date(entry.lockedUntil) });
+      }
+    });
+    return result;
+  }
+
+  // Drop stale entries so a flood of random usernames can't grow the map forever
+  private prune(now: number) {
+    if (this.entries.size < 1000) return;
+    this.entries.forEach((entry, key) => {
+      const locked = entry.lockedUntil && entry.lockedUntil > now;
+      const recent = entry.attempts.some((time) => now - time < this.options.windowMs);
+      if (!locked && !recent) this.entries.delete(key);
+    });
+  }
+}
+
+// Failed logins from one IP, across any usernames
+export const loginIpLimiter = new AttemptLimiter("login_ip", {
+  maxAttempts: 20,
+  windowMs: 15 * MINUTE,
+  lockoutMs: 15 * MINUTE,
+});
+
+// Failed logins (password or 2FA code) for one username, from any IP
+export const loginUsernameLimiter = new AttemptLimiter("login_username", {
+  maxAttempts: 5,
+  windowMs: 15 * MINUTE,
+  lockoutMs: 15 * MINUTE,
+});
+
+// Contact form submissions from one IP
+export const leadIpLimiter = new AttemptLimiter("lead_ip", {
+  maxAttempts: 5,
+  windowMs: 60 * MINUTE,
+  lockoutMs: 60 * MINUTE,
+});
+
+// Client portal login links requested from one IP
+export const portalLinkIpLimiter = new AttemptLimiter("portal_link_ip", {
+  maxAttempts: 5,
+  windowMs: 15 * MINUTE,
+  lockoutMs: 15 * MINUTE,
+});
+
+// Password reset links requested from one IP
+export const passwordResetIpLimiter = new AttemptLimiter("password_reset_ip", {
+  maxAttempts: 5,
+  windowMs: 15 * MINUTE,
+  lockoutMs: 15 * MINUTE,
+});
+
+// Password reset links requested for one username or email, from any IP
+export const passwordResetIdentifierLimiter = new AttemptLimiter("password_reset_identifier", {
+  maxAttempts: 3,
+  windowMs: 60 * MINUTE,
+  lockoutMs: 60 * MINUTE,
+});
+
+export const limiters = [
+  loginIpLimiter,
+  loginUsernameLimiter,
+  leadIpLimiter,
+  portalLinkIpLimiter,
+  passwordResetIpLimiter,
+  passwordResetIdentifierLimiter,
+];
+
+export function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+export function formatLockout(ms: number) {
+  const minutes = Math.ceil(ms / MINUTE);
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+/**
+ * Stores a refused request for the admin view. Failures are logged rather
+ * than thrown so they never change the response the client gets.
+ */
+export async function recordBlockedAttempt(
+  req: Request,
+  kind: "login" | "lead" | "portal" | "password_reset",
+  reason: string,
+  identifier?: string | null,
+) {
+  try {
+    await storage.createBlockedAttempt({
+      kind,
+      reason,
+      ip: clientIp(req),
+      identifier: identifier ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error("Error recording blocked attempt:", error);
+  }
+}
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+
+// DatabaseStorage has no access to the request, so this middleware keeps it
+// in AsyncLocalStorage for the lifetime of each request. Storage reads the
+// acting user (audit log) and the active company (tenant scoping) from here.
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Company the request works in, resolved from the session or X-Company-Id header
+      companyId?: number;
+    }
+  }
+}
+
+const requestContext = new AsyncLocalStorage<Request>();
+
+export function requestContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run(req, next);
+}
+
+export function currentRequest(): Request | undefined {
+  return requestContext.getStore();
+}
+
+// Used outside a company-scoped request: public endpoints and startup tasks
+let defaultCompanyId: number | null = null;
+
+export function setDefaultCompanyId(id: number) {
+  defaultCompanyId = id;
+}
+
+export function getDefaultCompanyId(): number {
+  if (defaultCompanyId === null) {
+    throw new Error("Companies have not been initialised");
+  }
+  return defaultCompanyId;
+}
+
+/**
+ * The company every storage read and write is scoped to.
+ */
+export function getCurrentCompanyId(): number {
+  return currentRequest()?.companyId ?? getDefaultCompanyId();
+}
@@ -1,25 +1,75 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, isLegacyPasswordHash, hashPassword, sanitizeUser, isTwoFactorRequired, toSessionInfo, MIN_PASSWORD_LENGTH } from "./auth";
+import { initCompanies, getUserCompanies } from "./companies";
+import { getCurrentCompanyId } from "./request-context";
+import { mailer } from "./mail";
+import { findClientMatches, findDuplicatePairs } from "./client-duplicates";
+import { runImport, getExportRows } from "./imports";
+import { parseSpreadsheet, buildSpreadsheet, SPREADSHEET_CONTENT_TYPES } from "./spreadsheets";
+import { setupPortal, sendPortalLink } from "./portal";
+import { findSegmentClients } from "./client-segments";
+import { getClientLifetimeValue, getClientStatement } from "./client-accounts";
+import { getMarketingSourceReport } from "./marketing-attribution";
+import { getLeadPipeline, saveLeadPipeline } from "./lead-pipeline";
+import { advanceProject, applyProjectTransition, projectTransitionError } from "./project-workflow";
+import { getProjectTemplates, projectTemplateSeed, saveProjectTemplates } from "./project-templates";
+import { clientIp, formatLockout, leadIpLimiter, limiters, recordBlockedAttempt } from "./rate-limit";
 import { z } from "zod";
 import { google } from 'googleapis';
-import { insertClientSchema, insertProjectSchema, insertQuoteSchema, insertServiceOrderSchema, insertStaffSchema, insertActivitySchema, insertSubcontractorSchema, insertInvoiceSchema, insertSupplierSchema, insertPaymentSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema, insertSettingsSchema, insertLeadSchema } from "@shared/schema";
+import { IMPORT_ENTITIES, IMPORT_ENTITY_LABELS, MAX_IMPORT_ROWS } from "@shared/imports";
+import { hasTag, segmentRulesSchema } from "@shared/client-segments";
+import { marketingSourceFor } from "@shared/attribution";
+import { CLOSED_LEAD_STAGES, leadPipelineSchema, scoreLead, stageLabel } from "@shared/lead-pipeline";
+import { ACTIVE_PROJECT_STATUSES, INITIAL_PROJECT_STATUS, projectStatusLabel, type ProjectStatus } from "@shared/project-status";
+import { projectTemplatesSchema, templateFor } from "@shared/project-templates";
+import { changeOrderDelta, changeOrderReference, contractValue } from "@shared/change-orders";
+import { openPunchItems } from "@shared/punch-list";
+import { canSeeActivity, hasPermission, USER_ROLES, SUPERADMIN_ROLE, DEFAULT_USER_ROLE, TWO_FACTOR_POLICY_KEY, type Access, type Resource } from "@shared/permissions";
+import { AUDIT_ENTITY_TYPES, AUDIT_ACTIONS, insertClientSchema, insertProjectSchema, insertQuoteSchema, insertServiceOrderSchema, insertStaffSchema, insertActivitySchema, insertSubcontractorSchema, insertInvoiceSchema, insertSupplierSchema, insertPaymentSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema, insertSettingsSchema, insertLeadSchema, insertUserSchema, insertCompanySchema, insertClientContactSchema, insertClientPropertySchema, insertCommunicationSchema, insertClientSegmentSchema, leadConversionSchema, insertProjectTaskSchema, insertChangeOrderSchema, changeOrderApprovalSchema, insertPunchListItemSchema, punchItemResolutionSchema, punchListSignOffSchema, COMMUNICATION_CHANNELS, type InsertCommunication, type InsertProject, type InvoiceItem, type User } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  await initCompanies();
+  await storage.backfillClientContactsAndProperties();
+  await storage.backfillLeadStages();
+
   // Set up authentication routes
   setupAuth(app);
+  setupPortal(app);
 
   // Middleware to check if user is authenticated
-  const isAuthenticated = (req, res, next) => {
-    if (req.isAuthenticated()) {
+  // Users whose role requires 2FA are locked out of the API until they enroll;
+  // the enrollment endpoints in auth.ts don't go through this middleware
+  const isAuthenticated = async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    try {
+      if (!req.user.totpEnabled && (await isTwoFactorRequired(req.user))) {
+        return res.status(403).json({
+          message: "Two-factor authentication must be set up before continuing",
+          twoFactorSetupRequired: true,
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Middleware to check the user's role against the permission matrix in
+  // @shared/permissions. GET requests need read access, everything else write.
+  const authorize = (resource: Resource) => (req: Request, res: Response, next: NextFunction) => {
+    const access: Access = req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+    if (hasPermission(req.user?.role, resource, access)) {
       return next();
     }
-    res.status(401).json({ message: "Unauthorized" });
+    res.status(403).json({ message: "You do not have permission to perform this action" });
   };
 
   // Client routes
-  app.get("/api/clients", isAuthenticated, async (req, res) => {
+  app.get("/api/clients", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const clients = await storage.getClients();
       res.json(clients);
@@ -28,7 +78,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/clients/:id", isAuthenticated, async (req, res) => {
+  // Before /api/clients/:id so "duplicates" is not taken for an id
+  app.get("/api/clients/duplicates", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const clients = await storage.getClients();
+      res.json(findDuplicatePairs(clients));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Existing clients that look like the one about to be created
+  app.get("/api/clients/duplicates/check", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const candidate = z.object({
+        name: z.string().default(""),
+        email: z.string().default(""),
+        phone: z.string().default(""),
+        address: z.string().default(""),
+      }).parse(req.query);
+      const clients = await storage.getClients();
+      res.json(findClientMatches(candidate, clients).slice(0, 5));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/clients/:id", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const client = await storage.getClient(parseInt(req.params.id));
       if (!client) {
@@ -40,9 +119,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/clients", isAuthenticated, async (req, res) => {
+  app.post("/api/clients", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const clientData = insertClientSchema.parse(req.body);
+      if (!clientData.marketingSource && clientData.attribution) {
+        clientData.marketingSource = marketingSourceFor(clientData.attribution);
+      }
       const client = await storage.createClient(clientData);
       
       // Create activity for client creation
@@ -63,7 +145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/clients/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/clients/:id", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const clientData = insertClientSchema.partial().parse(req.body);
@@ -91,7 +173,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/clients/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/clients/:id", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const clientData = insertClientSchema.partial().parse(req.body);
@@ -122,7 +204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/clients/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/clients/:id", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const client = await storage.getClient(id);
@@ -152,917 +234,2745 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Project routes
-  app.get("/api/projects", isAuthenticated, async (req, res) => {
+  // Keeps :id and folds the duplicate into it
+  app.post("/api/clients/:id/merge", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      let projects;
-      
-      if (req.query.status) {
-        projects = await storage.getProjectsByStatus(req.query.status as string);
-      } else if (req.query.clientId) {
-        projects = await storage.getProjectsByClient(parseInt(req.query.clientId as string));
-      } else {
-        projects = await storage.getProjects();
+      const survivorId = parseInt(req.params.id);
+      const { duplicateId } = z.object({ duplicateId: z.number().int() }).parse(req.body);
+      if (duplicateId === survivorId) {
+        return res.status(400).json({ message: "A client cannot be merged into itself" });
       }
-      
-      res.json(projects);
+
+      const duplicate = await storage.getClient(duplicateId);
+      const result = duplicate ? await storage.mergeClients(survivorId, duplicateId) : undefined;
+      if (!duplicate || !result) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      await storage.createActivity({
+        type: "client_merged",
+        description: `Client ${duplicate.name} merged into ${result.client.name}`,
+        userId: req.user!.id,
+        clientId: result.client.id,
+        projectId: null
+      });
+
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid merge data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Projects Financial API for Financial Reports (must be before :id route)
-  app.get("/api/projects/financial", isAuthenticated, async (req, res) => {
+  // Emails the client a login link for the client portal, by default to the
+  // billing contact or the client's own address
+  app.post("/api/clients/:id/portal-link", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      const { startDate, endDate } = req.query;
-      
-      let projects;
-      if (startDate && endDate && startDate !== 'undefined' && endDate !== 'undefined') {
-        try {
-          const start = new Date(startDate as string);
-          const end = new Date(endDate as string);
-          if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-            projects = await storage.getProjects();
-          } else {
-            projects = await storage.getProjects(); // Using getProjects as getProjectsByDateRange doesn't exist
-          }
-        } catch (dateError) {
-          projects = await storage.getProjects();
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const { contactId } = z.object({ contactId: z.number().int().optional() }).parse(req.body ?? {});
+      let email = client.email;
+      if (contactId) {
+        const contact = await storage.getClientContact(contactId);
+        if (!contact || contact.clientId !== client.id) {
+          return res.status(404).json({ message: "Contact not found" });
         }
+        email = contact.email ?? "";
       } else {
-        projects = await storage.getProjects();
+        email = (await storage.getBillingContact(client.id))?.email || client.email;
       }
-      
-      // Calculate totals
-      const totalRevenue = projects.reduce((sum: any, project: any) => {
-        return sum + (Number(project.totalCost) || 0);
-      }, 0);
-      
-      const totalProjects = projects.length;
-      const activeProjects = projects.filter((project: any) => project.status === 'Active' || project.status === 'In Progress').length;
-      const completedProjects = projects.filter((project: any) => project.status === 'Completed').length;
-      
-      // Group by project type
-      const projectTypeSummary = projects.reduce((acc: any[], project: any) => {
-        const type = project.projectType || 'Other';
-        const existing = acc.find(item => item.type === type);
-        if (existing) {
-          existing.count += 1;
-          existing.revenue += Number(project.totalCost) || 0;
-        } else {
-          acc.push({
-            type,
-            count: 1,
-            revenue: Number(project.totalCost) || 0
-          });
-        }
-        return acc;
-      }, []);
-      
-      // Time series data for charts
-      const timeSeriesData = projects.reduce((acc: any[], project: any) => {
-        const date = project.createdAt.toISOString().split('T')[0];
-        const existing = acc.find(item => item.date === date);
-        if (existing) {
-          existing.revenue += Number(project.totalCost) || 0;
-        } else {
-          acc.push({
-            date,
-            revenue: Number(project.totalCost) || 0
-          });
-        }
-        return acc;
-      }, []);
-      
-      res.json({
-        totalRevenue,
-        totalProjects,
-        activeProjects,
-        completedProjects,
-        projectTypeSummary,
-        timeSeriesData
+      if (!email) {
+        return res.status(400).json({ message: "This contact has no email address" });
+      }
+
+      await sendPortalLink(req, client, email);
+
+      await storage.createActivity({
+        type: "portal_link_sent",
+        description: `Client portal link sent to ${email}`,
+        userId: req.user!.id,
+        clientId: client.id,
+        projectId: null
       });
+
+      res.json({ email });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid portal link data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/projects/:id", isAuthenticated, async (req, res) => {
+  // Money rollups for the client detail; they show invoice totals, so they
+  // follow the invoices permission rather than the clients one
+  app.get("/api/clients/:id/lifetime-value", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid project ID" });
-      }
-      const project = await storage.getProject(id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
       }
-      res.json(project);
+      res.json(await getClientLifetimeValue(client.id));
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/projects", isAuthenticated, async (req, res) => {
+  // Account statement for ?from=&to= (defaults to the start of the year through today)
+  app.get("/api/clients/:id/statement", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const projectData = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(projectData);
-      
-      // Create activity for project creation
-      await storage.createActivity({
-        type: "project_created",
-        description: `New project "${project.title}" created`,
-        userId: req.user.id,
-        projectId: project.id,
-        clientId: project.clientId
-      });
-      
-      res.status(201).json(project);
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const now = new Date();
+      const { from, to } = z.object({
+        from: z.coerce.date().default(new Date(now.getFullYear(), 0, 1)),
+        to: z.coerce.date().default(now),
+      }).parse(req.query);
+      if (from > to) {
+        return res.status(400).json({ message: "The start date must be before the end date" });
+      }
+      res.json(await getClientStatement(client, from, to));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid project data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid statement dates", errors: error.errors });
       }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put("/api/projects/:id", isAuthenticated, async (req, res) => {
+  // Client tags and segments
+  app.get("/api/client-tags", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      console.log("PUT /api/projects/:id - Request received");
-      console.log("Project ID:", req.params.id);
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      console.log("User:", req.user?.id, req.user?.username);
-      
-      const id = parseInt(req.params.id);
-      const projectData = insertProjectSchema.partial().parse(req.body);
-      
-      console.log("Parsed project data:", JSON.stringify(projectData, null, 2));
-      
-      const updatedProject = await storage.updateProject(id, projectData);
-      
-      if (!updatedProject) {
-        console.log("Project not found for ID:", id);
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      console.log("Project updated successfully:", updatedProject.id);
-      
-      // Create activity for project update
-      await storage.createActivity({
-        type: "project_updated",
-        description: `Project "${updatedProject.title}" updated`,
-        userId: req.user!.id,
-        projectId: updatedProject.id,
-        clientId: updatedProject.clientId
-      });
-      
-      res.json(updatedProject);
+      res.json(await storage.getClientTags());
     } catch (error) {
-      console.error("Error updating project:", error);
-      if (error instanceof z.ZodError) {
-        console.log("Validation errors:", error.errors);
-        return res.status(400).json({ message: "Invalid project data", errors: error.errors });
-      }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/projects/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/client-segments", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const project = await storage.getProject(id);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      const deleted = await storage.deleteProject(id);
-      
-      if (deleted) {
-        // Create activity for project deletion
-        await storage.createActivity({
-          type: "project_deleted",
-          description: `Project "${project.title}" deleted`,
-          userId: req.user.id,
-          projectId: id,
-          clientId: project.clientId
-        });
-        
-        res.sendStatus(204);
-      } else {
-        res.status(500).json({ message: "Failed to delete project" });
-      }
+      res.json(await storage.getClientSegments());
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-
-
-  // Quote routes
-  app.get("/api/quotes", isAuthenticated, async (req, res) => {
+  // Matching clients for rules not saved yet, passed as JSON in ?rules=
+  app.get("/api/client-segments/preview", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      const quotes = await storage.getQuotes();
-      res.json(quotes);
+      const rules = segmentRulesSchema.parse(JSON.parse(String(req.query.rules ?? "{}")));
+      res.json(await findSegmentClients(rules));
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid segment rules" });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/quotes/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/client-segments/:id/clients", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      const quote = await storage.getQuote(parseInt(req.params.id));
-      if (!quote) {
-        return res.status(404).json({ message: "Quote not found" });
+      const segment = await storage.getClientSegment(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
       }
-      res.json(quote);
+      res.json(await findSegmentClients(segmentRulesSchema.parse(segment.rules)));
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
-  
-  app.get("/api/projects/:projectId/quote", isAuthenticated, async (req, res) => {
+
+  app.post("/api/client-segments", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const quote = await storage.getQuoteByProject(projectId);
-      
-      if (!quote) {
-        return res.status(404).json({ message: "Quote not found for project" });
+      const segmentData = insertClientSegmentSchema.parse(req.body);
+      const segment = await storage.createClientSegment({ ...segmentData, createdBy: req.user!.id });
+      res.status(201).json(segment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid segment data", errors: error.errors });
       }
-      
-      res.json(quote);
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/client-segments/:id", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const segmentData = insertClientSegmentSchema.partial().parse(req.body);
+      const segment = await storage.updateClientSegment(parseInt(req.params.id), segmentData);
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      res.json(segment);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid segment data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/quotes", isAuthenticated, async (req, res) => {
+  app.delete("/api/client-segments/:id", isAuthenticated, authorize("clients"), async (req, res) => {
     try {
-      console.log("Request body:", JSON.stringify(req.body, null, 2));
-      
-      try {
+      const deleted = await storage.deleteClientSegment(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Follow-up campaign: logs a planned outbound communication with a follow-up
+  // date for every client in the segment. Clients tagged "Do not service" are left out.
+  const campaignSchema = z.object({
+    channel: z.enum(COMMUNICATION_CHANNELS),
+    summary: z.string().trim().min(1, "Summary is required"),
+    followUpDate: z.coerce.date(),
+  });
+
+  app.post("/api/client-segments/:id/campaign", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const segment = await storage.getClientSegment(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      const { channel, summary, followUpDate } = campaignSchema.parse(req.body);
+
+      const audience = await findSegmentClients(segmentRulesSchema.parse(segment.rules));
+      const recipients = audience.filter((client) => !hasTag(client.tags, "Do not service"));
+      const created = recipients.length === 0 ? 0 : await storage.createCommunications(
+        recipients.map((client) => ({
+          clientId: client.id,
+          direction: "outbound" as const,
+          channel,
+          summary: `${segment.name}: ${summary}`,
+          followUpDate,
+          userId: req.user!.id,
+        })),
+      );
+
+      await storage.createActivity({
+        type: "segment_campaign_created",
+        description: `Follow-up campaign for segment "${segment.name}" created for ${created} clients`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.status(201).json({ created, skipped: audience.length - recipients.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Client contact routes
+  app.get("/api/clients/:id/contacts", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await storage.getClientContacts(client.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/clients/:id/contacts", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const contactData = insertClientContactSchema.parse({ ...req.body, clientId: client.id });
+      const contact = await storage.createClientContact(contactData);
+
+      await storage.createActivity({
+        type: "client_updated",
+        description: `Contact ${contact.name} added to ${client.name}`,
+        userId: req.user!.id,
+        clientId: client.id,
+        projectId: null
+      });
+
+      res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/clients/:id/contacts/:contactId", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const existing = await storage.getClientContact(parseInt(req.params.contactId));
+      if (!existing || existing.clientId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const contactData = insertClientContactSchema.omit({ clientId: true }).partial().parse(req.body);
+      if (existing.isPrimary && contactData.isPrimary === false) {
+        return res.status(400).json({ message: "Make another contact primary instead" });
+      }
+      const contact = await storage.updateClientContact(existing.id, contactData);
+      res.json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/clients/:id/contacts/:contactId", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const contact = await storage.getClientContact(parseInt(req.params.contactId));
+      if (!contact || contact.clientId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      if (contact.isPrimary) {
+        return res.status(400).json({ message: "The primary contact cannot be deleted. Make another contact primary first." });
+      }
+      await storage.deleteClientContact(contact.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Client property routes
+  app.get("/api/clients/:id/properties", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await storage.getClientProperties(client.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/clients/:id/properties", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const propertyData = insertClientPropertySchema.parse({ ...req.body, clientId: client.id });
+      const property = await storage.createClientProperty(propertyData);
+
+      await storage.createActivity({
+        type: "client_updated",
+        description: `Property ${property.name || property.address} added to ${client.name}`,
+        userId: req.user!.id,
+        clientId: client.id,
+        projectId: null
+      });
+
+      res.status(201).json(property);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid property data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/clients/:id/properties/:propertyId", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const existing = await storage.getClientProperty(parseInt(req.params.propertyId));
+      if (!existing || existing.clientId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const propertyData = insertClientPropertySchema.omit({ clientId: true }).partial().parse(req.body);
+      if (existing.isPrimary && propertyData.isPrimary === false) {
+        return res.status(400).json({ message: "Make another property primary instead" });
+      }
+      const property = await storage.updateClientProperty(existing.id, propertyData);
+      res.json(property);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid property data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/clients/:id/properties/:propertyId", isAuthenticated, authorize("clients"), async (req, res) => {
+    try {
+      const property = await storage.getClientProperty(parseInt(req.params.propertyId));
+      if (!property || property.clientId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (property.isPrimary) {
+        return res.status(400).json({ message: "The primary property cannot be deleted. Make another property primary first." });
+      }
+      // Projects keep their address but are no longer linked to the property
+      await storage.deleteClientProperty(property.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Projects take their address from the client property they are at.
+  // Returns an error message when the property is not one of the client's.
+  const applyProjectProperty = async (projectData: Partial<InsertProject>, clientId: number | undefined) => {
+    if (!projectData.propertyId) return null;
+    const property = await storage.getClientProperty(projectData.propertyId);
+    if (!property || property.clientId !== clientId) {
+      return "The property does not belong to the project's client";
+    }
+    projectData.address = property.address;
+    return null;
+  };
+
+  // New projects and invoices are credited to the marketing source of the
+  // client they are for, unless one is given
+  const inheritedMarketingSource = async (clientId: number, projectId?: number) => {
+    if (projectId) {
+      const project = await storage.getProject(projectId);
+      if (project?.marketingSource) return project.marketingSource;
+    }
+    return (await storage.getClient(clientId))?.marketingSource ?? null;
+  };
+
+  // Tasks are assigned to someone on the company's staff or subcontractor list
+  // Also checks who is responsible for punch list items
+  const taskAssigneeError = async (assigneeType: string | null | undefined, assigneeId: number | null | undefined) => {
+    if (!assigneeType && !assigneeId) return null;
+    if (!assigneeType || !assigneeId) return "Choose both the person and whether they are staff or a subcontractor";
+    const assignee = assigneeType === "staff"
+      ? await storage.getStaffMember(assigneeId)
+      : await storage.getSubcontractor(assigneeId);
+    return assignee ? null : "The assignee was not found";
+  };
+
+  // Project routes
+  app.get("/api/projects", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      let projects;
+      
+      if (req.query.status) {
+        projects = await storage.getProjectsByStatus(req.query.status as string);
+      } else if (req.query.clientId) {
+        projects = await storage.getProjectsByClient(parseInt(req.query.clientId as string));
+      } else {
+        projects = await storage.getProjects();
+      }
+      
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Projects Financial API for Financial Reports (must be before :id route)
+  app.get("/api/projects/financial", isAuthenticated, authorize("financial_reports"), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      
+      let projects;
+      if (startDate && endDate && startDate !== 'undefined' && endDate !== 'undefined') {
+        try {
+          const start = new Date(startDate as string);
+          const end = new Date(endDate as string);
+          if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+            projects = await storage.getProjects();
+          } else {
+            projects = await storage.getProjects(); // Using getProjects as getProjectsByDateRange doesn't exist
+          }
+        } catch (dateError) {
+          projects = await storage.getProjects();
+        }
+      } else {
+        projects = await storage.getProjects();
+      }
+      
+      // Calculate totals
+      const totalRevenue = projects.reduce((sum: any, project: any) => {
+        return sum + contractValue(project);
+      }, 0);
+      
+      const totalProjects = projects.length;
+      const activeProjects = projects.filter((project) => ACTIVE_PROJECT_STATUSES.includes(project.status as ProjectStatus)).length;
+      const completedProjects = projects.filter((project) => project.status === "completed").length;
+      
+      // Group by project type
+      const projectTypeSummary = projects.reduce((acc: any[], project: any) => {
+        const type = project.projectType || 'Other';
+        const existing = acc.find(item => item.type === type);
+        if (existing) {
+          existing.count += 1;
+          existing.revenue += contractValue(project);
+        } else {
+          acc.push({
+            type,
+            count: 1,
+            revenue: contractValue(project)
+          });
+        }
+        return acc;
+      }, []);
+      
+      // Time series data for charts
+      const timeSeriesData = projects.reduce((acc: any[], project: any) => {
+        const date = project.createdAt.toISOString().split('T')[0];
+        const existing = acc.find(item => item.date === date);
+        if (existing) {
+          existing.revenue += contractValue(project);
+        } else {
+          acc.push({
+            date,
+            revenue: contractValue(project)
+          });
+        }
+        return acc;
+      }, []);
+      
+      res.json({
+        totalRevenue,
+        totalProjects,
+        activeProjects,
+        completedProjects,
+        projectTypeSummary,
+        timeSeriesData
+      });
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/projects/:id", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid project ID" });
+      }
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // With `fromTemplate`, the template of the service type fills in what the
+  // request leaves out and adds the task list and a draft quote
+  app.post("/api/projects", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const projectData = insertProjectSchema.parse(req.body);
+      if (projectData.status && projectData.status !== INITIAL_PROJECT_STATUS) {
+        return res.status(400).json({ message: `New projects start as "${projectStatusLabel(INITIAL_PROJECT_STATUS)}"` });
+      }
+      const propertyError = await applyProjectProperty(projectData, projectData.clientId);
+      if (propertyError) {
+        return res.status(400).json({ message: propertyError });
+      }
+
+      const template = req.body.fromTemplate === true
+        ? templateFor(await getProjectTemplates(), projectData.serviceType)
+        : undefined;
+      if (req.body.fromTemplate === true && !template) {
+        return res.status(400).json({ message: `There is no template for "${projectData.serviceType}"` });
+      }
+      if (template) {
+        const startDate = projectData.startDate ?? new Date();
+        projectData.description = projectData.description || template.description;
+        projectData.dueDate = projectData.dueDate ?? new Date(startDate.getTime() + template.durationDays * 24 * 60 * 60 * 1000);
+        projectData.safetyRequirements = projectData.safetyRequirements ?? template.safetyRequirements;
+        projectData.materials = projectData.materials ?? template.materials;
+      }
+
+      const newProject = {
+        ...projectData,
+        marketingSource: projectData.marketingSource || await inheritedMarketingSource(projectData.clientId),
+      };
+      // Seeded in the same transaction as the project
+      const seeded = template
+        ? await storage.createProjectFromTemplate(newProject, projectTemplateSeed(newProject, template))
+        : undefined;
+      const project = seeded?.project ?? await storage.createProject(newProject);
+      
+      // Create activity for project creation
+      await storage.createActivity({
+        type: "project_created",
+        description: `New project "${project.title}" created`,
+        userId: req.user.id,
+        projectId: project.id,
+        clientId: project.clientId
+      });
+
+      if (template && seeded) {
+        await storage.createActivity({
+          type: "quote_created",
+          description: `Draft quote and ${seeded.tasks.length} tasks created for project "${project.title}" from the ${template.serviceType} template`,
+          userId: req.user!.id,
+          projectId: project.id,
+          clientId: project.clientId
+        });
+      }
+      
+      res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid project data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/projects/:id", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      console.log("PUT /api/projects/:id - Request received");
+      console.log("Project ID:", req.params.id);
+      console.log("Request body:", JSON.stringify(req.body, null, 2));
+      console.log("User:", req.user?.id, req.user?.username);
+      
+      const id = parseInt(req.params.id);
+      const projectData = insertProjectSchema.partial().parse(req.body);
+      
+      console.log("Parsed project data:", JSON.stringify(projectData, null, 2));
+      
+      const existingProject = await storage.getProject(id);
+      if (!existingProject) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (projectData.propertyId) {
+        const propertyError = await applyProjectProperty(projectData, projectData.clientId ?? existingProject.clientId);
+        if (propertyError) {
+          return res.status(400).json({ message: propertyError });
+        }
+      }
+      
+      // Status changes go through the project workflow
+      const { status, ...changes } = projectData;
+      let updatedProject;
+      if (status && status !== existingProject.status) {
+        const transitionError = await projectTransitionError(existingProject, status);
+        if (transitionError) {
+          return res.status(409).json({ message: transitionError });
+        }
+        updatedProject = await applyProjectTransition(existingProject, status as ProjectStatus, req.user!.id, changes);
+      } else {
+        updatedProject = await storage.updateProject(id, changes);
+      }
+      
+      if (!updatedProject) {
+        console.log("Project not found for ID:", id);
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      console.log("Project updated successfully:", updatedProject.id);
+      
+      // Create activity for project update
+      await storage.createActivity({
+        type: "project_updated",
+        description: `Project "${updatedProject.title}" updated`,
+        userId: req.user!.id,
+        projectId: updatedProject.id,
+        clientId: updatedProject.clientId
+      });
+      
+      res.json(updatedProject);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      if (error instanceof z.ZodError) {
+        console.log("Validation errors:", error.errors);
+        return res.status(400).json({ message: "Invalid project data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/projects/:id", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const deleted = await storage.deleteProject(id);
+      
+      if (deleted) {
+        // Create activity for project deletion
+        await storage.createActivity({
+          type: "project_deleted",
+          description: `Project "${project.title}" deleted`,
+          userId: req.user.id,
+          projectId: id,
+          clientId: project.clientId
+        });
+        
+        res.sendStatus(204);
+      } else {
+        res.status(500).json({ message: "Failed to delete project" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Project task routes
+  app.get("/api/projects/:id/tasks", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await storage.getProjectTasks(project.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/projects/:id/tasks", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const taskData = insertProjectTaskSchema.parse({ ...req.body, projectId: project.id });
+      const assigneeError = await taskAssigneeError(taskData.assigneeType, taskData.assigneeId);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
+      }
+      const task = await storage.createProjectTask(taskData);
+      res.status(201).json(task);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid task data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Body: { taskIds } with every task of the project in its new order
+  app.put("/api/projects/:id/tasks/order", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { taskIds } = z.object({ taskIds: z.array(z.number().int()) }).parse(req.body);
+      const tasks = await storage.getProjectTasks(project.id);
+      if (taskIds.length !== tasks.length || !tasks.every((task) => taskIds.includes(task.id))) {
+        return res.status(400).json({ message: "The new order must list every task of the project once" });
+      }
+      res.json(await storage.reorderProjectTasks(project.id, taskIds));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid task order", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Besides the task fields, `completed` ticks the task off or reopens it
+  app.put("/api/projects/:id/tasks/:taskId", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const existing = await storage.getProjectTask(parseInt(req.params.taskId));
+      if (!existing || existing.projectId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const { completed, ...taskData } = insertProjectTaskSchema
+        .omit({ projectId: true })
+        .partial()
+        .extend({ completed: z.boolean().optional() })
+        .parse(req.body);
+      if (taskData.assigneeType !== undefined || taskData.assigneeId !== undefined) {
+        const assigneeError = await taskAssigneeError(
+          taskData.assigneeType === undefined ? existing.assigneeType : taskData.assigneeType,
+          taskData.assigneeId === undefined ? existing.assigneeId : taskData.assigneeId,
+        );
+        if (assigneeError) {
+          return res.status(400).json({ message: assigneeError });
+        }
+      }
+
+      const completion = completed === undefined || completed === !!existing.completedAt
+        ? {}
+        : completed
+          ? { completedAt: new Date(), completedBy: req.user!.id }
+          : { completedAt: null, completedBy: null };
+      const task = await storage.updateProjectTask(existing.id, { ...taskData, ...completion });
+
+      if (task && completed && !existing.completedAt) {
+        const project = await storage.getProject(task.projectId);
+        await storage.createActivity({
+          type: "project_task_completed",
+          description: `Task "${task.title}" completed on project "${project?.title}"`,
+          userId: req.user!.id,
+          projectId: task.projectId,
+          clientId: project?.clientId ?? null
+        });
+      }
+
+      res.json(task);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid task data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/projects/:id/tasks/:taskId", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const task = await storage.getProjectTask(parseInt(req.params.taskId));
+      if (!task || task.projectId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      await storage.deleteProjectTask(task.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Change order routes. A change order belongs to the project's quote: the
+  // approved one, or the latest when none is approved yet
+  const contractQuote = async (projectId: number) => {
+    const quotes = (await storage.getQuotes()).filter((quote) => quote.projectId === projectId);
+    return quotes.find((quote) => quote.status === "approved") ?? quotes[quotes.length - 1];
+  };
+
+  const findChangeOrder = async (projectId: string, changeOrderId: string) => {
+    const changeOrder = await storage.getChangeOrder(parseInt(changeOrderId));
+    return changeOrder && changeOrder.projectId === parseInt(projectId) ? changeOrder : undefined;
+  };
+
+  app.get("/api/projects/:id/change-orders", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await storage.getChangeOrdersByProject(project.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/projects/:id/change-orders", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const changeOrderData = insertChangeOrderSchema.parse({ ...req.body, projectId: project.id });
+      if (changeOrderData.addedItems.length === 0 && changeOrderData.removedItems.length === 0) {
+        return res.status(400).json({ message: "Add or remove at least one item" });
+      }
+      const quote = await contractQuote(project.id);
+      if (!quote) {
+        return res.status(400).json({ message: "The project needs a quote before it can have change orders" });
+      }
+
+      const changeOrder = await storage.createChangeOrder({
+        ...changeOrderData,
+        quoteId: quote.id,
+        priceDelta: changeOrderDelta(changeOrderData.addedItems, changeOrderData.removedItems).toFixed(2),
+        createdBy: req.user!.id,
+      });
+
+      await storage.createActivity({
+        type: "change_order_created",
+        description: `Change order ${changeOrderReference(changeOrder)} "${changeOrder.title}" created for project "${project.title}"`,
+        userId: req.user!.id,
+        projectId: project.id,
+        clientId: project.clientId
+      });
+
+      res.status(201).json(changeOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid change order data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/projects/:id/change-orders/:changeOrderId", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const existing = await findChangeOrder(req.params.id, req.params.changeOrderId);
+      if (!existing) {
+        return res.status(404).json({ message: "Change order not found" });
+      }
+      if (existing.status !== "pending") {
+        return res.status(409).json({ message: "Only change orders awaiting approval can be edited" });
+      }
+      const changeOrderData = insertChangeOrderSchema.omit({ projectId: true }).partial().parse(req.body);
+      const addedItems = changeOrderData.addedItems ?? existing.addedItems;
+      const removedItems = changeOrderData.removedItems ?? existing.removedItems;
+      if (addedItems.length === 0 && removedItems.length === 0) {
+        return res.status(400).json({ message: "Add or remove at least one item" });
+      }
+      const changeOrder = await storage.updateChangeOrder(existing.id, {
+        ...changeOrderData,
+        priceDelta: changeOrderDelta(addedItems, removedItems).toFixed(2),
+      });
+      res.json(changeOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid change order data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // The client signs on the spot; the price goes into the contract value
+  app.post("/api/projects/:id/change-orders/:changeOrderId/approve", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const existing = await findChangeOrder(req.params.id, req.params.changeOrderId);
+      if (!existing) {
+        return res.status(404).json({ message: "Change order not found" });
+      }
+      const approval = changeOrderApprovalSchema.parse(req.body);
+      const result = existing.status === "pending" ? await storage.approveChangeOrder(existing.id, approval) : undefined;
+      if (!result) {
+        return res.status(409).json({ message: "This change order has already been answered" });
+      }
+      const { changeOrder, project, contractValue: newContractValue } = result;
+
+      await storage.createActivity({
+        type: "change_order_approved",
+        description: `Change order ${changeOrderReference(changeOrder)} approved by ${changeOrder.signedBy}; contract value of "${project.title}" is now $${newContractValue.toLocaleString("en-US", { minimumFractionDigits: 2 })}`,
+        userId: req.user!.id,
+        projectId: project.id,
+        clientId: project.clientId
+      });
+
+      res.json(changeOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid approval", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/projects/:id/change-orders/:changeOrderId/reject", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const existing = await findChangeOrder(req.params.id, req.params.changeOrderId);
+      if (!existing) {
+        return res.status(404).json({ message: "Change order not found" });
+      }
+      if (existing.status !== "pending") {
+        return res.status(409).json({ message: "This change order has already been answered" });
+      }
+      const changeOrder = await storage.updateChangeOrder(existing.id, { status: "rejected", rejectedAt: new Date() });
+      res.json(changeOrder);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/projects/:id/change-orders/:changeOrderId", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const changeOrder = await findChangeOrder(req.params.id, req.params.changeOrderId);
+      if (!changeOrder) {
+        return res.status(404).json({ message: "Change order not found" });
+      }
+      if (changeOrder.status === "approved") {
+        return res.status(409).json({ message: "Approved change orders are part of the contract and cannot be deleted" });
+      }
+      await storage.deleteChangeOrder(changeOrder.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // What the project's next invoice will bill besides its own items
+  app.get("/api/projects/:id/unbilled-change-orders", isAuthenticated, authorize("invoices"), async (req, res) => {
+    try {
+      res.json(await storage.getUnbilledChangeOrders(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Punch list routes. Items are recorded during the final walkthrough, while
+  // the project is in review
+  const findPunchListItem = async (projectId: string, itemId: string) => {
+    const item = await storage.getPunchListItem(parseInt(itemId));
+    return item && item.projectId === parseInt(projectId) ? item : undefined;
+  };
+
+  app.get("/api/projects/:id/punch-list", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await storage.getPunchListItems(project.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/projects/:id/punch-list", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (project.status !== "reviewing") {
+        return res.status(409).json({ message: "Punch list items are recorded while the project is in final review" });
+      }
+      const itemData = insertPunchListItemSchema.parse({ ...req.body, projectId: project.id });
+      const responsibleError = await taskAssigneeError(itemData.responsibleType, itemData.responsibleId);
+      if (responsibleError) {
+        return res.status(400).json({ message: responsibleError });
+      }
+      const item = await storage.createPunchListItem({ ...itemData, createdBy: req.user!.id });
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid punch list item", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/projects/:id/punch-list/:itemId", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const existing = await findPunchListItem(req.params.id, req.params.itemId);
+      if (!existing) {
+        return res.status(404).json({ message: "Punch list item not found" });
+      }
+      if (existing.status !== "open") {
+        return res.status(409).json({ message: "Only open punch list items can be edited" });
+      }
+      const itemData = insertPunchListItemSchema.omit({ projectId: true }).partial().parse(req.body);
+      const responsibleError = await taskAssigneeError(
+        itemData.responsibleType !== undefined ? itemData.responsibleType : existing.responsibleType,
+        itemData.responsibleId !== undefined ? itemData.responsibleId : existing.responsibleId,
+      );
+      if (responsibleError) {
+        return res.status(400).json({ message: responsibleError });
+      }
+      res.json(await storage.updatePunchListItem(existing.id, itemData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid punch list item", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Closing an item takes a photo of the fix
+  app.post("/api/projects/:id/punch-list/:itemId/close", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const existing = await findPunchListItem(req.params.id, req.params.itemId);
+      if (!existing) {
+        return res.status(404).json({ message: "Punch list item not found" });
+      }
+      if (existing.status !== "open") {
+        return res.status(409).json({ message: "This punch list item is not open" });
+      }
+      const { resolutionPhoto } = punchItemResolutionSchema.parse(req.body);
+      const item = await storage.updatePunchListItem(existing.id, {
+        status: "closed",
+        resolutionPhoto,
+        resolvedAt: new Date(),
+        resolvedBy: req.user!.id,
+      });
+
+      const project = await storage.getProject(existing.projectId);
+      await storage.createActivity({
+        type: "punch_item_closed",
+        description: `Punch list item "${existing.location}: ${existing.description}" fixed on project "${project?.title || 'Unknown'}"`,
+        userId: req.user!.id,
+        projectId: existing.projectId,
+        clientId: project?.clientId
+      });
+
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resolution", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // When the fix does not pass the walkthrough
+  app.post("/api/projects/:id/punch-list/:itemId/reopen", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const existing = await findPunchListItem(req.params.id, req.params.itemId);
+      if (!existing) {
+        return res.status(404).json({ message: "Punch list item not found" });
+      }
+      if (existing.status !== "closed") {
+        return res.status(409).json({ message: "Only closed punch list items can be reopened" });
+      }
+      res.json(await storage.updatePunchListItem(existing.id, {
+        status: "open",
+        resolutionPhoto: null,
+        resolvedAt: null,
+        resolvedBy: null,
+      }));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/projects/:id/punch-list/:itemId", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const item = await findPunchListItem(req.params.id, req.params.itemId);
+      if (!item) {
+        return res.status(404).json({ message: "Punch list item not found" });
+      }
+      if (item.status === "waived") {
+        return res.status(409).json({ message: "Items waived by the client are part of the sign-off and cannot be deleted" });
+      }
+      await storage.deletePunchListItem(item.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // The client signs off the walkthrough, accepting any items still open as is
+  app.post("/api/projects/:id/punch-list/sign-off", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      const existing = await storage.getProject(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (existing.status !== "reviewing") {
+        return res.status(409).json({ message: "The walkthrough is signed off while the project is in final review" });
+      }
+      const signOff = punchListSignOffSchema.parse(req.body);
+      // The client waives items one by one; nothing open is accepted silently
+      const notWaived = openPunchItems(await storage.getPunchListItems(existing.id))
+        .filter((item) => !signOff.waivedItemIds.includes(item.id));
+      if (notWaived.length > 0) {
+        return res.status(409).json({
+          message: `Close the ${notWaived.length} open punch list item${notWaived.length === 1 ? "" : "s"} or have the client waive ${notWaived.length === 1 ? "it" : "them"} before signing off`,
+        });
+      }
+      const result = await storage.signOffPunchList(existing.id, signOff);
+      if (!result) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { project, waived } = result;
+
+      await storage.createActivity({
+        type: "walkthrough_signed_off",
+        description: `Final walkthrough of "${project.title}" signed off by ${signOff.signedBy}` +
+          (waived.length ? `, waiving ${waived.length} punch list item${waived.length === 1 ? "" : "s"}` : ""),
+        userId: req.user!.id,
+        projectId: project.id,
+        clientId: project.clientId
+      });
+
+      res.json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sign-off", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Project template routes
+  app.get("/api/project-templates", isAuthenticated, authorize("projects"), async (req, res) => {
+    try {
+      res.json(await getProjectTemplates());
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/settings/project-templates", isAuthenticated, authorize("settings"), async (req, res) => {
+    try {
+      const templates = projectTemplatesSchema.parse(req.body);
+      await saveProjectTemplates(templates);
+      res.json(templates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid project templates", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Quote routes
+  app.get("/api/quotes", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const quotes = await storage.getQuotes();
+      res.json(quotes);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/quotes/:id", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.get("/api/projects/:projectId/quote", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const quote = await storage.getQuoteByProject(projectId);
+      
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found for project" });
+      }
+      
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/quotes", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      console.log("Request body:", JSON.stringify(req.body, null, 2));
+      
+      try {
         const quoteData = insertQuoteSchema.parse(req.body);
         
         // Get the project to inherit images and documents
         const project = await storage.getProject(quoteData.projectId);
         
         // Inherit images and documents from project
-        const quoteWithInheritedFiles = {
-          ...quoteData,
-          images: project?.images || null,
-          documents: project?.documents || null,
-        };
-        
-        const quote = await storage.createQuote(quoteWithInheritedFiles);
+        const quoteWithInheritedFiles = {
+          ...quoteData,
+          images: project?.images || null,
+          documents: project?.documents || null,
+        };
+        
+        const quote = await storage.createQuote(quoteWithInheritedFiles);
+        
+        // Create activity for quote creation
+        await storage.createActivity({
+          type: "quote_created",
+          description: `New quote created for project "${project?.title || 'Unknown'}"`,
+          userId: req.user.id,
+          projectId: quote.projectId,
+          clientId: project?.clientId
+        });
+        
+        // Si la cotización se crea con estado "sent", actualizar estado del proyecto
+        if (quote.status === "sent") {
+          await advanceProject(quote.projectId, "quoted", req.user!.id);
+          
+          // Crear actividad para envío de cotización
+          await storage.createActivity({
+            type: "quote_sent",
+            description: `Quote for project "${project?.title || 'Unknown'}" has been sent to client`,
+            userId: req.user.id,
+            projectId: quote.projectId,
+            clientId: project?.clientId
+          });
+        }
+        
+        res.status(201).json(quote);
+      } catch (validationError) {
+        if (validationError instanceof z.ZodError) {
+          console.error("Validation error:", JSON.stringify(validationError.errors, null, 2));
+          return res.status(400).json({ message: "Invalid quote data", errors: validationError.errors });
+        }
+        throw validationError; // Re-throw if it's not a ZodError
+      }
+    } catch (error) {
+      console.error("Server error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/quotes/:id", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const quoteData = insertQuoteSchema.partial().parse(req.body);
+      const updatedQuote = await storage.updateQuote(id, quoteData);
+      
+      if (!updatedQuote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      
+      // Get the project for the activity
+      const project = await storage.getProject(updatedQuote.projectId);
+      
+      // Actualizamos el estado del proyecto según el estado de la cotización
+      if (quoteData.status === "approved") {
+        await advanceProject(updatedQuote.projectId, "approved", req.user!.id);
+        
+        // Registramos actividad específica de aprobación
+        await storage.createActivity({
+          type: "quote_approved",
+          description: `Quote for project "${project?.title || 'Unknown'}" has been approved`,
+          userId: req.user.id,
+          projectId: updatedQuote.projectId,
+          clientId: project?.clientId
+        });
+      } else if (quoteData.status === "rejected") {
+        // Registramos actividad específica de rechazo
+        await storage.createActivity({
+          type: "quote_rejected",
+          description: `Quote for project "${project?.title || 'Unknown'}" has been rejected`,
+          userId: req.user.id,
+          projectId: updatedQuote.projectId,
+          clientId: project?.clientId
+        });
+      } else if (quoteData.status === "sent") {
+        // Si la cotización fue enviada, actualizamos el estado del proyecto a "quoted"
+        await advanceProject(updatedQuote.projectId, "quoted", req.user!.id);
+        
+        // Registramos actividad específica de envío de cotización
+        await storage.createActivity({
+          type: "quote_sent",
+          description: `Quote for project "${project?.title || 'Unknown'}" has been sent to client`,
+          userId: req.user.id,
+          projectId: updatedQuote.projectId,
+          clientId: project?.clientId
+        });
+      } else {
+        // Create general activity for quote update
+        await storage.createActivity({
+          type: "quote_updated",
+          description: `Quote updated for project "${project?.title || 'Unknown'}"`,
+          userId: req.user.id,
+          projectId: updatedQuote.projectId,
+          clientId: project?.clientId
+        });
+      }
+      
+      res.json(updatedQuote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Simple Quote routes (simplified quote module)
+  app.post("/api/simple-quotes", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      // Get project to inherit images and documents
+      const project = await storage.getProject(req.body.projectId);
+      
+      const simpleQuoteData = {
+        projectId: req.body.projectId,
+        totalEstimate: req.body.totalEstimate,
+        scopeOfWork: req.body.scopeOfWork,
+        isInterior: req.body.isInterior || false,
+        isExterior: req.body.isExterior || false,
+        isSpecialRequirements: req.body.isSpecialRequirements || false,
+        exteriorBreakdown: req.body.exteriorBreakdown || null,
+        interiorBreakdown: req.body.interiorBreakdown || null,
+        specialRequirements: req.body.specialRequirements || null,
+        optionalComments: req.body.optionalComments || null,
+        notes: req.body.notes,
+        validUntil: req.body.validUntil && req.body.validUntil !== "" ? new Date(req.body.validUntil) : null,
+        sentDate: req.body.sentDate && req.body.sentDate !== "" ? new Date(req.body.sentDate) : null,
+        status: "draft",
+        materialsEstimate: [],
+        laborEstimate: [],
+        // Inherit images and documents from project
+        images: project?.images || null,
+        documents: project?.documents || null,
+      };
+
+      const quote = await storage.createQuote(simpleQuoteData);
+      
+      // Create activity for simple quote creation
+      await storage.createActivity({
+        type: "quote_created",
+        description: `Simple quote created for project "${project?.title || 'Unknown'}"`,
+        userId: req.user.id,
+        projectId: quote.projectId,
+        clientId: project?.clientId
+      });
+      
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error("Simple quote creation error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update Simple Quote - New simplified approach
+  app.put("/api/simple-quotes/:id", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // Get current quote
+      const currentQuote = await storage.getQuote(id);
+      if (!currentQuote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      
+      // Update only the simple quote fields
+      const updatedData = {
+        ...currentQuote,
+        projectId: req.body.projectId,
+        totalEstimate: req.body.totalEstimate,
+        scopeOfWork: req.body.scopeOfWork || "",
+        isInterior: req.body.isInterior || false,
+        isExterior: req.body.isExterior || false,
+        isSpecialRequirements: req.body.isSpecialRequirements || false,
+        exteriorBreakdown: req.body.exteriorBreakdown || null,
+        interiorBreakdown: req.body.interiorBreakdown || null,
+        specialRequirements: req.body.specialRequirements || null,
+        optionalComments: req.body.optionalComments || null,
+        notes: req.body.notes || "",
+        validUntil: req.body.validUntil ? new Date(req.body.validUntil) : null,
+        sentDate: req.body.sentDate ? new Date(req.body.sentDate) : null,
+        status: req.body.status || "draft"
+      };
+
+      const result = await storage.updateQuote(id, updatedData);
+      
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+      
+    } catch (error) {
+      console.error("Update error:", error);
+      res.status(500).json({ error: "Update failed" });
+    }
+  });
+
+  // Delete Simple Quote
+  app.delete("/api/simple-quotes/:id", isAuthenticated, authorize("quotes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const quote = await storage.getQuote(id);
+      
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      
+      const deleted = await storage.deleteQuote(id);
+      
+      if (deleted) {
+        // Get project for activity
+        const project = await storage.getProject(quote.projectId);
         
-        // Create activity for quote creation
+        // Create activity for quote deletion
         await storage.createActivity({
-          type: "quote_created",
-          description: `New quote created for project "${project?.title || 'Unknown'}"`,
+          type: "quote_deleted",
+          description: `Simple quote deleted for project "${project?.title || 'Unknown'}"`,
           userId: req.user.id,
           projectId: quote.projectId,
           clientId: project?.clientId
         });
         
-        // Si la cotización se crea con estado "sent", actualizar estado del proyecto
-        if (quote.status === "sent") {
-          await storage.updateProject(quote.projectId, {
-            status: "quoted"
-          });
-          
-          // Crear actividad para envío de cotización
-          await storage.createActivity({
-            type: "quote_sent",
-            description: `Quote for project "${project?.title || 'Unknown'}" has been sent to client`,
-            userId: req.user.id,
-            projectId: quote.projectId,
-            clientId: project?.clientId
-          });
-        }
-        
-        res.status(201).json(quote);
-      } catch (validationError) {
-        if (validationError instanceof z.ZodError) {
-          console.error("Validation error:", JSON.stringify(validationError.errors, null, 2));
-          return res.status(400).json({ message: "Invalid quote data", errors: validationError.errors });
-        }
-        throw validationError; // Re-throw if it's not a ZodError
+        res.sendStatus(200);
+      } else {
+        res.status(500).json({ message: "Failed to delete quote" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Service Order routes
+  app.get("/api/service-orders", isAuthenticated, authorize("service_orders"), async (req, res) => {
+    try {
+      let serviceOrders;
+      
+      if (req.query.projectId) {
+        serviceOrders = await storage.getServiceOrdersByProject(parseInt(req.query.projectId as string));
+      } else {
+        serviceOrders = await storage.getServiceOrders();
+      }
+      
+      res.json(serviceOrders);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/service-orders/:id", isAuthenticated, authorize("service_orders"), async (req, res) => {
+    try {
+      const serviceOrder = await storage.getServiceOrder(parseInt(req.params.id));
+      if (!serviceOrder) {
+        return res.status(404).json({ message: "Service order not found" });
+      }
+      res.json(serviceOrder);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/service-orders", isAuthenticated, authorize("service_orders"), async (req, res) => {
+    try {
+      const serviceOrderData = insertServiceOrderSchema.parse(req.body);
+      
+      // Get project to inherit images and documents if not already provided
+      const project = await storage.getProject(serviceOrderData.projectId);
+      
+      // Use provided images/documents or inherit from project
+      const serviceOrderWithInheritedFiles = {
+        ...serviceOrderData,
+        images: serviceOrderData.images || project?.images || null,
+        documents: serviceOrderData.documents || project?.documents || null,
+      };
+      
+      const serviceOrder = await storage.createServiceOrder(serviceOrderWithInheritedFiles);
+      
+      // Create activity for service order creation
+      await storage.createActivity({
+        type: "service_order_created",
+        description: `New service order created for project "${project?.title || 'Unknown'}"`,
+        userId: req.user.id,
+        projectId: serviceOrder.projectId,
+        clientId: project?.clientId
+      });
+      
+      res.status(201).json(serviceOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service order data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/service-orders/:id", isAuthenticated, authorize("service_orders"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const serviceOrderData = insertServiceOrderSchema.partial().parse(req.body);
+      const updatedServiceOrder = await storage.updateServiceOrder(id, serviceOrderData);
+      
+      if (!updatedServiceOrder) {
+        return res.status(404).json({ message: "Service order not found" });
+      }
+      
+      // Get project for activity
+      const project = await storage.getProject(updatedServiceOrder.projectId);
+      
+      // Create activity for service order update
+      await storage.createActivity({
+        type: "service_order_updated",
+        description: `Service order updated for project "${project?.title || 'Unknown'}"`,
+        userId: req.user.id,
+        projectId: updatedServiceOrder.projectId,
+        clientId: project?.clientId
+      });
+      
+      res.json(updatedServiceOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service order data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/service-orders/:id", isAuthenticated, authorize("service_orders"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const serviceOrder = await storage.getServiceOrder(id);
+      
+      if (!serviceOrder) {
+        return res.status(404).json({ message: "Service order not found" });
+      }
+      
+      // Get project for activity
+      const project = await storage.getProject(serviceOrder.projectId);
+      
+      const deleted = await storage.deleteServiceOrder(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Service order not found" });
+      }
+      
+      // Create activity for service order deletion
+      await storage.createActivity({
+        type: "service_order_deleted",
+        description: `Service order deleted for project "${project?.title || 'Unknown'}"`,
+        userId: req.user.id,
+        projectId: serviceOrder.projectId,
+        clientId: project?.clientId
+      });
+      
+      res.status(200).json({ message: "Service order deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Staff routes
+  app.get("/api/staff", isAuthenticated, authorize("staff"), async (req, res) => {
+    try {
+      const staffMembers = await storage.getStaff();
+      res.json(staffMembers);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/staff/:id", isAuthenticated, authorize("staff"), async (req, res) => {
+    try {
+      const staffMember = await storage.getStaffMember(parseInt(req.params.id));
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
       }
+      res.json(staffMember);
     } catch (error) {
-      console.error("Server error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/quotes/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/staff", isAuthenticated, authorize("staff"), async (req, res) => {
+    try {
+      const staffData = insertStaffSchema.parse(req.body);
+      const staffMember = await storage.createStaffMember(staffData);
+      
+      // Create activity for staff creation
+      await storage.createActivity({
+        type: "staff_created",
+        description: `New staff member ${staffMember.name} added`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null
+      });
+      
+      res.status(201).json(staffMember);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid staff data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/staff/:id", isAuthenticated, authorize("staff"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const quoteData = insertQuoteSchema.partial().parse(req.body);
-      const updatedQuote = await storage.updateQuote(id, quoteData);
+      const staffData = insertStaffSchema.partial().parse(req.body);
+      const updatedStaffMember = await storage.updateStaffMember(id, staffData);
       
-      if (!updatedQuote) {
-        return res.status(404).json({ message: "Quote not found" });
+      if (!updatedStaffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
       }
       
-      // Get the project for the activity
-      const project = await storage.getProject(updatedQuote.projectId);
+      // Create activity for staff update
+      await storage.createActivity({
+        type: "staff_updated",
+        description: `Staff member ${updatedStaffMember.name} updated`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null
+      });
       
-      // Actualizamos el estado del proyecto según el estado de la cotización
-      if (quoteData.status === "approved") {
-        await storage.updateProject(updatedQuote.projectId, {
-          status: "approved",
-        });
-        
-        // Registramos actividad específica de aprobación
-        await storage.createActivity({
-          type: "quote_approved",
-          description: `Quote for project "${project?.title || 'Unknown'}" has been approved`,
-          userId: req.user.id,
-          projectId: updatedQuote.projectId,
-          clientId: project?.clientId
-        });
-      } else if (quoteData.status === "rejected") {
-        // Registramos actividad específica de rechazo
-        await storage.createActivity({
-          type: "quote_rejected",
-          description: `Quote for project "${project?.title || 'Unknown'}" has been rejected`,
-          userId: req.user.id,
-          projectId: updatedQuote.projectId,
-          clientId: project?.clientId
-        });
-      } else if (quoteData.status === "sent") {
-        // Si la cotización fue enviada, actualizamos el estado del proyecto a "quoted"
-        await storage.updateProject(updatedQuote.projectId, {
-          status: "quoted",
-        });
-        
-        // Registramos actividad específica de envío de cotización
-        await storage.createActivity({
-          type: "quote_sent",
-          description: `Quote for project "${project?.title || 'Unknown'}" has been sent to client`,
-          userId: req.user.id,
-          projectId: updatedQuote.projectId,
-          clientId: project?.clientId
-        });
+      res.json(updatedStaffMember);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid staff data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Activity routes
+  app.get("/api/activities", isAuthenticated, authorize("activities"), async (req, res) => {
+    try {
+      let activities;
+      
+      if (req.query.projectId) {
+        activities = await storage.getActivitiesByProject(parseInt(req.query.projectId as string));
+      } else if (req.query.clientId) {
+        activities = await storage.getActivitiesByClient(parseInt(req.query.clientId as string));
+      } else if (req.query.userId) {
+        activities = await storage.getActivitiesByUser(parseInt(req.query.userId as string));
       } else {
-        // Create general activity for quote update
-        await storage.createActivity({
-          type: "quote_updated",
-          description: `Quote updated for project "${project?.title || 'Unknown'}"`,
-          userId: req.user.id,
-          projectId: updatedQuote.projectId,
-          clientId: project?.clientId
-        });
+        activities = await storage.getActivities();
       }
       
-      res.json(updatedQuote);
+      res.json(activities.filter((activity) => canSeeActivity(req.user!.role, activity.type)));
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/activities/:id", isAuthenticated, authorize("activities"), async (req, res) => {
+    try {
+      const activity = await storage.getActivity(parseInt(req.params.id));
+      if (!activity || !canSeeActivity(req.user!.role, activity.type)) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      res.json(activity);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/activities", isAuthenticated, authorize("activities"), async (req, res) => {
+    try {
+      const activityData = insertActivitySchema.parse(req.body);
+      const activity = await storage.createActivity(activityData);
+      res.status(201).json(activity);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid activity data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Communication routes: calls, emails, texts and site visits
+  const communicationQuerySchema = z.object({
+    clientId: z.coerce.number().int().optional(),
+    leadId: z.coerce.number().int().optional(),
+    projectId: z.coerce.number().int().optional(),
+    quoteId: z.coerce.number().int().optional(),
+  });
+
+  // The first outbound call, email, text or visit stops a lead's response-time
+  // SLA and moves a new lead to "contacted"
+  const markLeadContacted = async (leadId: number, contactedAt: Date) => {
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.contactedAt) return;
+    await storage.updateLead(leadId, {
+      contactedAt,
+      ...(lead.status === "new" && { status: "contacted", stageChangedAt: new Date() }),
+    });
+  };
+
+  // Checks the linked records exist and fills in the client of a project or
+  // quote, so the entry shows up in the client's timeline
+  const resolveCommunicationLinks = async (data: Partial<InsertCommunication>) => {
+    const links = { ...data };
+    if (links.quoteId) {
+      const quote = await storage.getQuote(links.quoteId);
+      if (!quote) return "Quote not found";
+      links.projectId = links.projectId ?? quote.projectId;
+    }
+    if (links.projectId) {
+      const project = await storage.getProject(links.projectId);
+      if (!project) return "Project not found";
+      if (links.clientId && links.clientId !== project.clientId) return "The project belongs to another client";
+      links.clientId = project.clientId;
+    }
+    if (links.clientId && !(await storage.getClient(links.clientId))) return "Client not found";
+    if (links.leadId && !(await storage.getLead(links.leadId))) return "Lead not found";
+    return links;
+  };
+
+  app.get("/api/communications", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const filters = communicationQuerySchema.parse(req.query);
+      if (!filters.clientId && !filters.leadId && !filters.projectId && !filters.quoteId) {
+        return res.status(400).json({ message: "A client, lead, project or quote is required" });
+      }
+      res.json(await storage.getCommunications(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid communication filters", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Follow-ups due by the end of today; ?mine=true for the ones the user logged
+  app.get("/api/communications/follow-ups", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const endOfToday = new Date();
+      endOfToday.setHours(23, 59, 59, 999);
+      const followUps = await storage.getDueFollowUps(endOfToday, req.query.mine === "true" ? req.user!.id : undefined);
+      res.json(followUps);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/communications", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const communicationData = insertCommunicationSchema.parse(req.body);
+      const links = await resolveCommunicationLinks(communicationData);
+      if (typeof links === "string") {
+        return res.status(400).json({ message: links });
+      }
+      if (!links.clientId && !links.leadId) {
+        return res.status(400).json({ message: "A communication must be linked to a client or a lead" });
+      }
+
+      const communication = await storage.createCommunication({ ...communicationData, ...links, userId: req.user!.id });
+      if (communication.leadId && communication.direction === "outbound") {
+        await markLeadContacted(communication.leadId, communication.occurredAt);
+      }
+      res.status(201).json(communication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid communication data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put("/api/communications/:id", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCommunication(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Communication not found" });
+      }
+
+      const communicationData = insertCommunicationSchema.partial().parse(req.body);
+      const links = await resolveCommunicationLinks({
+        clientId: existing.clientId,
+        leadId: existing.leadId,
+        projectId: existing.projectId,
+        quoteId: existing.quoteId,
+        ...communicationData,
+      });
+      if (typeof links === "string") {
+        return res.status(400).json({ message: links });
+      }
+      if (!links.clientId && !links.leadId) {
+        return res.status(400).json({ message: "A communication must be linked to a client or a lead" });
+      }
+
+      // A new follow-up date reopens the follow-up
+      const followUpDoneAt = "followUpDate" in communicationData ? null : undefined;
+      const communication = await storage.updateCommunication(id, { ...communicationData, ...links, followUpDoneAt });
+      res.json(communication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid communication data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/communications/:id/follow-up-done", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const communication = await storage.updateCommunication(parseInt(req.params.id), { followUpDoneAt: new Date() });
+      if (!communication) {
+        return res.status(404).json({ message: "Communication not found" });
+      }
+      res.json(communication);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/communications/:id", isAuthenticated, authorize("communications"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCommunication(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Communication not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Audit log routes
+  const auditLogQuerySchema = z.object({
+    entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+    entityId: z.coerce.number().int().optional(),
+    userId: z.coerce.number().int().optional(),
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+
+  app.get("/api/audit-logs", isAuthenticated, authorize("audit_log"), async (req, res) => {
+    try {
+      const filters = auditLogQuerySchema.parse(req.query);
+      const auditLogs = await storage.getAuditLogs(filters);
+      res.json(auditLogs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit log filters", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Subcontractor routes
+  app.get("/api/subcontractors", isAuthenticated, authorize("subcontractors"), async (req, res) => {
+    try {
+      const subcontractors = await storage.getSubcontractors();
+      res.json(subcontractors);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/subcontractors/:id", isAuthenticated, authorize("subcontractors"), async (req, res) => {
+    try {
+      const subcontractor = await storage.getSubcontractor(parseInt(req.params.id));
+      if (!subcontractor) {
+        return res.status(404).json({ message: "Subcontractor not found" });
+      }
+      res.json(subcontractor);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/subcontractors", isAuthenticated, authorize("subcontractors"), async (req, res) => {
+    try {
+      const subcontractorData = insertSubcontractorSchema.parse(req.body);
+      const subcontractor = await storage.createSubcontractor(subcontractorData);
+      
+      // Create activity for subcontractor creation
+      await storage.createActivity({
+        type: "subcontractor_created",
+        description: `New subcontractor ${subcontractor.name} added`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null
+      });
+      
+      res.status(201).json(subcontractor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid subcontractor data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Simple Quote routes (simplified quote module)
-  app.post("/api/simple-quotes", isAuthenticated, async (req, res) => {
+  app.put("/api/subcontractors/:id", isAuthenticated, authorize("subcontractors"), async (req, res) => {
     try {
-      // Get project to inherit images and documents
-      const project = await storage.getProject(req.body.projectId);
+      const id = parseInt(req.params.id);
+      const subcontractorData = insertSubcontractorSchema.partial().parse(req.body);
+      const updatedSubcontractor = await storage.updateSubcontractor(id, subcontractorData);
       
-      const simpleQuoteData = {
-        projectId: req.body.projectId,
-        totalEstimate: req.body.totalEstimate,
-        scopeOfWork: req.body.scopeOfWork,
-        isInterior: req.body.isInterior || false,
-        isExterior: req.body.isExterior || false,
-        isSpecialRequirements: req.body.isSpecialRequirements || false,
-        exteriorBreakdown: req.body.exteriorBreakdown || null,
-        interiorBreakdown: req.body.interiorBreakdown || null,
-        specialRequirements: req.body.specialRequirements || null,
-        optionalComments: req.body.optionalComments || null,
-        notes: req.body.notes,
-        validUntil: req.body.validUntil && req.body.validUntil !== "" ? new Date(req.body.validUntil) : null,
-        sentDate: req.body.sentDate && req.body.sentDate !== "" ? new Date(req.body.sentDate) : null,
-        status: "draft",
-        materialsEstimate: [],
-        laborEstimate: [],
-        // Inherit images and documents from project
-        images: project?.images || null,
-        documents: project?.documents || null,
-      };
-
-      const quote = await storage.createQuote(simpleQuoteData);
+      if (!updatedSubcontractor) {
+        return res.status(404).json({ message: "Subcontractor not found" });
+      }
       
-      // Create activity for simple quote creation
+      // Create activity for subcontractor update
       await storage.createActivity({
-        type: "quote_created",
-        description: `Simple quote created for project "${project?.title || 'Unknown'}"`,
+        type: "subcontractor_updated",
+        description: `Subcontractor ${updatedSubcontractor.name} updated`,
         userId: req.user.id,
-        projectId: quote.projectId,
-        clientId: project?.clientId
+        projectId: null,
+        clientId: null
       });
       
-      res.status(201).json(quote);
+      res.json(updatedSubcontractor);
     } catch (error) {
-      console.error("Simple quote creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid subcontractor data", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Update Simple Quote - New simplified approach
-  app.put("/api/simple-quotes/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/subcontractors/:id", isAuthenticated, authorize("subcontractors"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
-      // Get current quote
-      const currentQuote = await storage.getQuote(id);
-      if (!currentQuote) {
-        return res.status(404).json({ error: "Quote not found" });
+      // First get the subcontractor info
+      const subcontractor = await storage.getSubcontractor(id);
+      
+      if (!subcontractor) {
+        return res.status(404).json({ message: "Subcontractor not found" });
       }
       
-      // Update only the simple quote fields
-      const updatedData = {
-        ...currentQuote,
-        projectId: req.body.projectId,
-        totalEstimate: req.body.totalEstimate,
-        scopeOfWork: req.body.scopeOfWork || "",
-        isInterior: req.body.isInterior || false,
-        isExterior: req.body.isExterior || false,
-        isSpecialRequirements: req.body.isSpecialRequirements || false,
-        exteriorBreakdown: req.body.exteriorBreakdown || null,
-        interiorBreakdown: req.body.interiorBreakdown || null,
-        specialRequirements: req.body.specialRequirements || null,
-        optionalComments: req.body.optionalComments || null,
-        notes: req.body.notes || "",
-        validUntil: req.body.validUntil ? new Date(req.body.validUntil) : null,
-        sentDate: req.body.sentDate ? new Date(req.body.sentDate) : null,
-        status: req.body.status || "draft"
-      };
-
-      const result = await storage.updateQuote(id, updatedData);
+      // Delete the subcontractor
+      const deleted = await storage.deleteSubcontractor(id);
       
-      res.status(200).json({
-        success: true,
-        data: result
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete subcontractor" });
+      }
+      
+      // Create activity for subcontractor deletion
+      await storage.createActivity({
+        type: "subcontractor_deleted",
+        description: `Subcontractor ${subcontractor.name} deleted`,
+        userId: req.user.id,
+        projectId: null,
+        clientId: null
       });
       
+      res.json({ success: true });
     } catch (error) {
-      console.error("Update error:", error);
-      res.status(500).json({ error: "Update failed" });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // Delete Simple Quote
-  app.delete("/api/simple-quotes/:id", isAuthenticated, async (req, res) => {
+  // Invoice routes
+  // Invoices go to the client's billing contact unless another of its contacts
+  // is picked. Returns false when the picked contact belongs to someone else.
+  const resolveBillingContactId = async (clientId: number, billingContactId?: number | null) => {
+    if (billingContactId) {
+      const contact = await storage.getClientContact(billingContactId);
+      return contact?.clientId === clientId ? contact.id : false;
+    }
+    return (await storage.getBillingContact(clientId))?.id ?? null;
+  };
+
+  // Approved change orders not yet billed go on the project's next invoice as
+  // items of their own. Those the invoice already lists keep their line, and
+  // createInvoice marks all of them billed along with the invoice
+  const billChangeOrders = async <T extends { projectId: number; items?: unknown; amount: string; totalAmount: string }>(invoiceData: T) => {
+    const items: InvoiceItem[] = Array.isArray(invoiceData.items) ? [...invoiceData.items] : [];
+    const unbilled = await storage.getUnbilledChangeOrders(invoiceData.projectId);
+    const changeOrderIds = unbilled.map((changeOrder) => changeOrder.id);
+    const missing = unbilled.filter((changeOrder) => !items.some((item) => item.changeOrderId === changeOrder.id));
+    if (missing.length === 0) {
+      return { invoiceData, changeOrderIds };
+    }
+    let extra = 0;
+    for (const changeOrder of missing) {
+      const delta = parseFloat(changeOrder.priceDelta);
+      extra += delta;
+      items.push({
+        description: `Change order ${changeOrderReference(changeOrder)}: ${changeOrder.title}`,
+        quantity: 1,
+        unitPrice: delta,
+        total: delta,
+        changeOrderId: changeOrder.id,
+      });
+    }
+    const plus = (value: string) => (Math.round((parseFloat(value) + extra) * 100) / 100).toFixed(2);
+    return {
+      invoiceData: { ...invoiceData, items, amount: plus(invoiceData.amount), totalAmount: plus(invoiceData.totalAmount) },
+      changeOrderIds,
+    };
+  };
+
+  app.get("/api/invoices", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const quote = await storage.getQuote(id);
+      let invoices;
       
-      if (!quote) {
-        return res.status(404).json({ message: "Quote not found" });
+      if (req.query.status) {
+        invoices = await storage.getInvoicesByStatus(req.query.status as string);
+      } else if (req.query.clientId) {
+        invoices = await storage.getInvoicesByClient(parseInt(req.query.clientId as string));
+      } else if (req.query.projectId) {
+        invoices = await storage.getInvoicesByProject(parseInt(req.query.projectId as string));
+      } else {
+        invoices = await storage.getInvoices();
       }
       
-      const deleted = await storage.deleteQuote(id);
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Invoices Summary API for Financial Reports (must be before :id route)
+  app.get("/api/invoices/summary", isAuthenticated, authorize("financial_reports"), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
       
-      if (deleted) {
-        // Get project for activity
-        const project = await storage.getProject(quote.projectId);
-        
-        // Create activity for quote deletion
-        await storage.createActivity({
-          type: "quote_deleted",
-          description: `Simple quote deleted for project "${project?.title || 'Unknown'}"`,
-          userId: req.user.id,
-          projectId: quote.projectId,
-          clientId: project?.clientId
-        });
-        
-        res.sendStatus(200);
+      let invoices;
+      if (startDate && endDate && startDate !== 'undefined' && endDate !== 'undefined') {
+        try {
+          const start = new Date(startDate as string);
+          const end = new Date(endDate as string);
+          if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+            invoices = await storage.getInvoices();
+          } else {
+            invoices = await storage.getInvoicesByDateRange(start, end);
+          }
+        } catch (dateError) {
+          invoices = await storage.getInvoices();
+        }
       } else {
-        res.status(500).json({ message: "Failed to delete quote" });
+        invoices = await storage.getInvoices();
       }
+      
+      // Calculate total revenue
+      const totalRevenue = invoices.reduce((sum, invoice) => sum + Number(invoice.totalAmount), 0);
+      
+      // Time series data for charts
+      const timeSeriesData = invoices.reduce((acc: any[], invoice) => {
+        const date = invoice.issueDate?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0];
+        const existing = acc.find(item => item.date === date);
+        if (existing) {
+          existing.amount += Number(invoice.totalAmount);
+        } else {
+          acc.push({
+            date,
+            amount: Number(invoice.totalAmount)
+          });
+        }
+        return acc;
+      }, []);
+      
+      res.json({
+        totalRevenue,
+        invoiceCount: invoices.length,
+        timeSeriesData
+      });
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Service Order routes
-  app.get("/api/service-orders", isAuthenticated, async (req, res) => {
+  app.get("/api/invoices/:id", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      let serviceOrders;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invoice ID" });
+      }
+      const invoice = await storage.getInvoice(id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/invoices", isAuthenticated, authorize("invoices"), async (req, res) => {
+    try {
+      const { invoiceData, changeOrderIds } = await billChangeOrders(
+        insertInvoiceSchema.omit({ invoiceNumber: true }).parse(req.body),
+      );
       
-      if (req.query.projectId) {
-        serviceOrders = await storage.getServiceOrdersByProject(parseInt(req.query.projectId as string));
-      } else {
-        serviceOrders = await storage.getServiceOrders();
+      const billingContactId = await resolveBillingContactId(invoiceData.clientId, invoiceData.billingContactId);
+      if (billingContactId === false) {
+        return res.status(400).json({ message: "The billing contact does not belong to the invoice's client" });
       }
       
-      res.json(serviceOrders);
+      // Numbered from the company's own sequence once the data is known to be valid
+      const invoice = await storage.createInvoice({
+        ...invoiceData,
+        billingContactId,
+        marketingSource: invoiceData.marketingSource || await inheritedMarketingSource(invoiceData.clientId, invoiceData.projectId),
+        invoiceNumber: await storage.allocateInvoiceNumber(),
+      }, changeOrderIds);
+      
+      // Get the project and client for the activity
+      const project = await storage.getProject(invoice.projectId);
+      const client = await storage.getClient(invoice.clientId);
+      
+      // Create activity for invoice creation
+      await storage.createActivity({
+        type: "invoice_created",
+        description: `New invoice ${invoice.invoiceNumber} created for project "${project?.title || 'Unknown'}"`,
+        userId: req.user.id,
+        projectId: invoice.projectId,
+        clientId: invoice.clientId
+      });
+      
+      res.status(201).json(invoice);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/service-orders/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/invoices/:id/send", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const serviceOrder = await storage.getServiceOrder(parseInt(req.params.id));
-      if (!serviceOrder) {
-        return res.status(404).json({ message: "Service order not found" });
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      res.json(serviceOrder);
+
+      const client = await storage.getClient(invoice.clientId);
+      const contact = invoice.billingContactId
+        ? await storage.getClientContact(invoice.billingContactId)
+        : await storage.getBillingContact(invoice.clientId);
+      const to = contact?.email || client?.email;
+      if (!to) {
+        return res.status(400).json({ message: "The client has no billing contact with an email address" });
+      }
+
+      const company = await storage.getCompany(getCurrentCompanyId());
+      const companyName = company?.name ?? "";
+      const dueDate = invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString("en-US") : null;
+
+      await mailer.send({
+        to,
+        subject: `Invoice ${invoice.invoiceNumber} from ${companyName}`,
+        text: [
+          `Hi ${contact?.name || client?.name || ""},`,
+          "",
+          `Please find below the details of invoice ${invoice.invoiceNumber}.`,
+          "",
+          `Amount due: $${Number(invoice.totalAmount).toFixed(2)}`,
+          ...(dueDate ? [`Due date: ${dueDate}`] : []),
+          "",
+          ...[companyName, company?.phone, company?.email].filter(Boolean),
+        ].join("\n"),
+      });
+
+      const updatedInvoice = invoice.status === "draft"
+        ? await storage.updateInvoice(invoice.id, { status: "sent" })
+        : invoice;
+
+      await storage.createActivity({
+        type: "invoice_sent",
+        description: `Invoice ${invoice.invoiceNumber} sent to ${to}`,
+        userId: req.user!.id,
+        projectId: invoice.projectId,
+        clientId: invoice.clientId
+      });
+
+      res.json(updatedInvoice);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/service-orders", isAuthenticated, async (req, res) => {
+  app.put("/api/invoices/:id", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const serviceOrderData = insertServiceOrderSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      const invoiceData = insertInvoiceSchema.partial().parse(req.body);
       
-      // Get project to inherit images and documents if not already provided
-      const project = await storage.getProject(serviceOrderData.projectId);
+      if (invoiceData.billingContactId) {
+        const existingInvoice = await storage.getInvoice(id);
+        const clientId = invoiceData.clientId ?? existingInvoice?.clientId;
+        if (clientId && (await resolveBillingContactId(clientId, invoiceData.billingContactId)) === false) {
+          return res.status(400).json({ message: "The billing contact does not belong to the invoice's client" });
+        }
+      }
       
-      // Use provided images/documents or inherit from project
-      const serviceOrderWithInheritedFiles = {
-        ...serviceOrderData,
-        images: serviceOrderData.images || project?.images || null,
-        documents: serviceOrderData.documents || project?.documents || null,
-      };
+      const updatedInvoice = await storage.updateInvoice(id, invoiceData);
       
-      const serviceOrder = await storage.createServiceOrder(serviceOrderWithInheritedFiles);
+      if (!updatedInvoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
       
-      // Create activity for service order creation
+      // Create activity for invoice update
       await storage.createActivity({
-        type: "service_order_created",
-        description: `New service order created for project "${project?.title || 'Unknown'}"`,
+        type: "invoice_updated",
+        description: `Invoice ${updatedInvoice.invoiceNumber} updated`,
         userId: req.user.id,
-        projectId: serviceOrder.projectId,
-        clientId: project?.clientId
+        projectId: updatedInvoice.projectId,
+        clientId: updatedInvoice.clientId
       });
       
-      res.status(201).json(serviceOrder);
+      res.json(updatedInvoice);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid service order data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/service-orders/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/invoices/:id", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const serviceOrderData = insertServiceOrderSchema.partial().parse(req.body);
-      const updatedServiceOrder = await storage.updateServiceOrder(id, serviceOrderData);
+      const invoice = await storage.getInvoice(id);
       
-      if (!updatedServiceOrder) {
-        return res.status(404).json({ message: "Service order not found" });
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
       
-      // Get project for activity
-      const project = await storage.getProject(updatedServiceOrder.projectId);
-      
-      // Create activity for service order update
-      await storage.createActivity({
-        type: "service_order_updated",
-        description: `Service order updated for project "${project?.title || 'Unknown'}"`,
-        userId: req.user.id,
-        projectId: updatedServiceOrder.projectId,
-        clientId: project?.clientId
-      });
+      const deleted = await storage.deleteInvoice(id);
       
-      res.json(updatedServiceOrder);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid service order data", errors: error.errors });
+      if (deleted) {
+        // Create activity for invoice deletion
+        await storage.createActivity({
+          type: "invoice_deleted",
+          description: `Invoice ${invoice.invoiceNumber} deleted`,
+          userId: req.user.id,
+          projectId: invoice.projectId,
+          clientId: invoice.clientId
+        });
+        
+        res.sendStatus(204);
+      } else {
+        res.status(500).json({ message: "Failed to delete invoice" });
       }
+    } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/service-orders/:id", isAuthenticated, async (req, res) => {
+  // Create Stripe payment intent for invoices
+  app.post("/api/create-payment-intent", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const serviceOrder = await storage.getServiceOrder(id);
-      
-      if (!serviceOrder) {
-        return res.status(404).json({ message: "Service order not found" });
+      if (!process.env.STRIPE_SECRET_KEY) {
+        return res.status(500).json({ message: "Stripe secret key not configured" });
       }
+
+      const Stripe = require('stripe');
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
       
-      // Get project for activity
-      const project = await storage.getProject(serviceOrder.projectId);
+      const { amount, invoiceId } = req.body;
       
-      const deleted = await storage.deleteServiceOrder(id);
+      if (!amount || amount <= 0) {
+        return res.status(400).json({ message: "Invalid amount" });
+      }
       
-      if (!deleted) {
-        return res.status(404).json({ message: "Service order not found" });
+      // Create a PaymentIntent with the order amount and currency
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(amount * 100), // Convert to cents for Stripe
+        currency: "usd",
+        metadata: {
+          invoiceId: invoiceId || null,
+        },
+      });
+      
+      // If we have an invoice ID, update the invoice with the payment intent ID
+      if (invoiceId) {
+        const invoice = await storage.getInvoice(parseInt(invoiceId));
+        if (invoice) {
+          await storage.updateInvoice(invoice.id, {
+            stripePaymentIntentId: paymentIntent.id
+          });
+        }
       }
       
-      // Create activity for service order deletion
+      // Create activity
       await storage.createActivity({
-        type: "service_order_deleted",
-        description: `Service order deleted for project "${project?.title || 'Unknown'}"`,
+        type: "payment_intent_created",
+        description: `Payment intent created for $${(amount).toFixed(2)}`,
         userId: req.user.id,
-        projectId: serviceOrder.projectId,
-        clientId: project?.clientId
+        projectId: null,
+        clientId: null
       });
       
-      res.status(200).json({ message: "Service order deleted successfully" });
-    } catch (error: any) {
+      res.json({ clientSecret: paymentIntent.client_secret });
+    } catch (error) {
+      console.error("Error creating payment intent:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Staff routes
-  app.get("/api/staff", isAuthenticated, async (req, res) => {
+  // Google Calendar routes
+  app.post("/api/google/auth", isAuthenticated, authorize("calendar"), async (req, res) => {
     try {
-      const staffMembers = await storage.getStaff();
-      res.json(staffMembers);
+      // In a real application, this would initiate the OAuth 2.0 flow
+      // For demonstration purposes, we'll simulate a successful authentication
+      
+      // Get Google credentials and create an OAuth2 client
+      const oauth2Client = new google.auth.OAuth2(
+        process.env.GOOGLE_CLIENT_ID,
+        process.env.GOOGLE_CLIENT_SECRET,
+        process.env.GOOGLE_REDIRECT_URI
+      );
+      
+      // Generate a URL for the user to authorize the app
+      const authUrl = oauth2Client.generateAuthUrl({
+        access_type: 'offline',
+        scope: ['https://www.googleapis.com/auth/calendar'],
+      });
+      
+      // In a real application, you would redirect the user to the authUrl
+      // For our simulation, we'll just return the URL
+      res.json({ success: true, url: authUrl });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      console.error('Google Auth Error:', error);
+      res.status(500).json({ message: "Google Calendar authentication failed" });
     }
   });
-
-  app.get("/api/staff/:id", isAuthenticated, async (req, res) => {
+  
+  app.get("/api/google/callback", isAuthenticated, authorize("calendar"), async (req, res) => {
     try {
-      const staffMember = await storage.getStaffMember(parseInt(req.params.id));
-      if (!staffMember) {
-        return res.status(404).json({ message: "Staff member not found" });
-      }
-      res.json(staffMember);
+      // This would be the callback endpoint for the OAuth flow
+      // The code would be exchanged for tokens here
+      
+      // In a real application, store the tokens in the user's session or database
+      res.redirect('/calendar');
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      console.error('Google Callback Error:', error);
+      res.status(500).json({ message: "Google Calendar authorization failed" });
     }
   });
-
-  app.post("/api/staff", isAuthenticated, async (req, res) => {
+  
+  app.get("/api/google/events", isAuthenticated, authorize("calendar"), async (req, res) => {
     try {
-      const staffData = insertStaffSchema.parse(req.body);
-      const staffMember = await storage.createStaffMember(staffData);
+      // In a real application, retrieve the user's tokens and create a new auth client
+      // For our simulation, we'll return sample events
       
-      // Create activity for staff creation
-      await storage.createActivity({
-        type: "staff_created",
-        description: `New staff member ${staffMember.name} added`,
-        userId: req.user.id,
-        projectId: null,
-        clientId: null
+      // Example of how to use the Google Calendar API
+      /*
+      const oauth2Client = new google.auth.OAuth2();
+      oauth2Client.setCredentials(tokens);
+      
+      const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+      const response = await calendar.events.list({
+        calendarId: 'primary',
+        timeMin: new Date().toISOString(),
+        maxResults: 10,
+        singleEvents: true,
+        orderBy: 'startTime',
       });
       
-      res.status(201).json(staffMember);
+      const events = response.data.items;
+      res.json(events);
+      */
+      
+      // For simulation, return sample events
+      const sampleEvents = [
+        {
+          id: 'google-event-1',
+          summary: 'Client Meeting',
+          start: { dateTime: new Date().toISOString() },
+          end: { dateTime: new Date(Date.now() + 3600000).toISOString() },
+          location: 'Client Office',
+          description: 'Discuss project requirements',
+        },
+        {
+          id: 'google-event-2',
+          summary: 'Site Visit',
+          start: { dateTime: new Date(Date.now() + 86400000).toISOString() },
+          end: { dateTime: new Date(Date.now() + 86400000 + 7200000).toISOString() },
+          location: 'Project Site',
+          description: 'Inspect the site and take measurements',
+        }
+      ];
+      
+      res.json(sampleEvents);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid staff data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message });
+      console.error('Google Events Error:', error);
+      res.status(500).json({ message: "Failed to fetch Google Calendar events" });
     }
   });
-
-  app.put("/api/staff/:id", isAuthenticated, async (req, res) => {
+  
+  app.post("/api/google/events", isAuthenticated, authorize("calendar"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const staffData = insertStaffSchema.partial().parse(req.body);
-      const updatedStaffMember = await storage.updateStaffMember(id, staffData);
+      // In a real application, this would create an event in Google Calendar
+      // For our simulation, we'll just return the event data
       
-      if (!updatedStaffMember) {
-        return res.status(404).json({ message: "Staff member not found" });
-      }
+      // Example of creating an event
+      /*
+      const oauth2Client = new google.auth.OAuth2();
+      oauth2Client.setCredentials(tokens);
+      
+      const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+      const event = {
+        summary: req.body.title,
+        description: req.body.description,
+        start: {
+          dateTime: req.body.start,
+          timeZone: 'America/Los_Angeles',
+        },
+        end: {
+          dateTime: req.body.end,
+          timeZone: 'America/Los_Angeles',
+        },
+        location: req.body.location,
+      };
+      
+      const response = await calendar.events.insert({
+        calendarId: 'primary',
+        resource: event,
+      });
+      
+      res.json(response.data);
+      */
+      
+      // For simulation
+      const event = {
+        id: `google-event-${Date.now()}`,
+        summary: req.body.title,
+        description: req.body.description,
+        start: { dateTime: req.body.start },
+        end: { dateTime: req.body.end },
+        location: req.body.location,
+        status: 'confirmed'
+      };
       
-      // Create activity for staff update
+      // Create activity log
       await storage.createActivity({
-        type: "staff_updated",
-        description: `Staff member ${updatedStaffMember.name} updated`,
+        type: "google_event_created",
+        description: `Google Calendar event "${req.body.title}" created`,
         userId: req.user.id,
-        projectId: null,
+        projectId: req.body.projectId || null,
         clientId: null
       });
       
-      res.json(updatedStaffMember);
+      res.status(201).json(event);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid staff data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message });
+      console.error('Google Create Event Error:', error);
+      res.status(500).json({ message: "Failed to create Google Calendar event" });
     }
   });
-
-  // Activity routes
-  app.get("/api/activities", isAuthenticated, async (req, res) => {
+  
+  // Supplier routes
+  app.get("/api/suppliers", isAuthenticated, authorize("suppliers"), async (req, res) => {
     try {
-      let activities;
-      
-      if (req.query.projectId) {
-        activities = await storage.getActivitiesByProject(parseInt(req.query.projectId as string));
-      } else if (req.query.clientId) {
-        activities = await storage.getActivitiesByClient(parseInt(req.query.clientId as string));
-      } else if (req.query.userId) {
-        activities = await storage.getActivitiesByUser(parseInt(req.query.userId as string));
+      let suppliers;
+      if (req.query.category) {
+        suppliers = await storage.getSuppliersByCategory(req.query.category as string);
       } else {
-        activities = await storage.getActivities();
-      }
-      
-      res.json(activities);
-    } catch (error) {
-      res.status(500).json({ message: error.message });
-    }
-  });
-
-  app.get("/api/activities/:id", isAuthenticated, async (req, res) => {
-    try {
-      const activity = await storage.getActivity(parseInt(req.params.id));
-      if (!activity) {
-        return res.status(404).json({ message: "Activity not found" });
-      }
-      res.json(activity);
-    } catch (error) {
-      res.status(500).json({ message: error.message });
-    }
-  });
-
-  app.post("/api/activities", isAuthenticated, async (req, res) => {
-    try {
-      const activityData = insertActivitySchema.parse(req.body);
-      const activity = await storage.createActivity(activityData);
-      res.status(201).json(activity);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid activity data", errors: error.errors });
+        suppliers = await storage.getSuppliers();
       }
-      res.status(500).json({ message: error.message });
-    }
-  });
-
-  // Subcontractor routes
-  app.get("/api/subcontractors", isAuthenticated, async (req, res) => {
-    try {
-      const subcontractors = await storage.getSubcontractors();
-      res.json(subcontractors);
+      res.json(suppliers);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/subcontractors/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/suppliers/:id", isAuthenticated, authorize("suppliers"), async (req, res) => {
     try {
-      const subcontractor = await storage.getSubcontractor(parseInt(req.params.id));
-      if (!subcontractor) {
-        return res.status(404).json({ message: "Subcontractor not found" });
+      const supplier = await storage.getSupplier(parseInt(req.params.id));
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
-      res.json(subcontractor);
+      res.json(supplier);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/subcontractors", isAuthenticated, async (req, res) => {
+  app.post("/api/suppliers", isAuthenticated, authorize("suppliers"), async (req, res) => {
     try {
-      const subcontractorData = insertSubcontractorSchema.parse(req.body);
-      const subcontractor = await storage.createSubcontractor(subcontractorData);
+      const supplierData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(supplierData);
       
-      // Create activity for subcontractor creation
+      // Create activity for supplier creation
       await storage.createActivity({
-        type: "subcontractor_created",
-        description: `New subcontractor ${subcontractor.name} added`,
+        type: "supplier_created",
+        description: `New supplier "${supplier.name}" added`,
         userId: req.user.id,
-        projectId: null,
-        clientId: null
+        clientId: null,
+        projectId: null
       });
       
-      res.status(201).json(subcontractor);
+      res.status(201).json(supplier);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid subcontractor data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/subcontractors/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/suppliers/:id", isAuthenticated, authorize("suppliers"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const subcontractorData = insertSubcontractorSchema.partial().parse(req.body);
-      const updatedSubcontractor = await storage.updateSubcontractor(id, subcontractorData);
+      const supplierData = insertSupplierSchema.partial().parse(req.body);
+      const updatedSupplier = await storage.updateSupplier(id, supplierData);
       
-      if (!updatedSubcontractor) {
-        return res.status(404).json({ message: "Subcontractor not found" });
+      if (!updatedSupplier) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
       
-      // Create activity for subcontractor update
+      // Create activity for supplier update
       await storage.createActivity({
-        type: "subcontractor_updated",
-        description: `Subcontractor ${updatedSubcontractor.name} updated`,
+        type: "supplier_updated",
+        description: `Supplier "${updatedSupplier.name}" updated`,
         userId: req.user.id,
-        projectId: null,
-        clientId: null
+        clientId: null,
+        projectId: null
       });
       
-      res.json(updatedSubcontractor);
+      res.json(updatedSupplier);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid subcontractor data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/subcontractors/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/suppliers/:id", isAuthenticated, authorize("suppliers"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const supplier = await storage.getSupplier(id);
       
-      // First get the subcontractor info
-      const subcontractor = await storage.getSubcontractor(id);
-      
-      if (!subcontractor) {
-        return res.status(404).json({ message: "Subcontractor not found" });
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
       
-      // Delete the subcontractor
-      const deleted = await storage.deleteSubcontractor(id);
+      const deleted = await storage.deleteSupplier(id);
       
-      if (!deleted) {
-        return res.status(500).json({ message: "Failed to delete subcontractor" });
+      if (deleted) {
+        // Create activity for supplier deletion
+        await storage.createActivity({
+          type: "supplier_deleted",
+          description: `Supplier "${supplier.name}" deleted`,
+          userId: req.user.id,
+          clientId: null,
+          projectId: null
+        });
+        
+        res.sendStatus(204);
+      } else {
+        res.status(500).json({ message: "Failed to delete supplier" });
       }
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Payment Recipients endpoint
+  app.get("/api/payment-recipients", isAuthenticated, authorize("payments"), async (req, res) => {
+    try {
+      const result = [];
       
-      // Create activity for subcontractor deletion
-      await storage.createActivity({
-        type: "subcontractor_deleted",
-        description: `Subcontractor ${subcontractor.name} deleted`,
-        userId: req.user.id,
-        projectId: null,
-        clientId: null
+      // Agregar subcontratistas como destinatarios
+      const subcontractors = await storage.getSubcontractors();
+      subcontractors.forEach(subcontractor => {
+        result.push({
+          id: subcontractor.id,
+          name: subcontractor.name,
+          type: "subcontractor"
+        });
       });
       
-      res.json({ success: true });
+      // Agregar empleados como destinatarios
+      const employees = await storage.getStaff();
+      employees.forEach(employee => {
+        result.push({
+          id: employee.id,
+          name: employee.name,
+          type: "employee"
+        });
+      });
+      
+      // Agregar proveedores como destinatarios
+      const suppliers = await storage.getSuppliers();
+      suppliers.forEach(supplier => {
+        result.push({
+          id: supplier.id,
+          name: supplier.name,
+          type: "supplier"
+        });
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching payment recipients:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Payment Categories endpoint
+  app.get("/api/payment-categories", isAuthenticated, authorize("payments"), async (req, res) => {
+    try {
+      // Categorías predefinidas para pagos
+      const categories = [
+        { id: 1, name: "Materiales", description: "Pago por materiales de construcción" },
+        { id: 2, name: "Mano de Obra", description: "Pago por servicios de mano de obra" },
+        { id: 3, name: "Transporte", description: "Pago por servicios de transporte" },
+        { id: 4, name: "Herramientas", description: "Pago por herramientas y equipos" },
+        { id: 5, name: "Servicios", description: "Pago por servicios adicionales" },
+        { id: 6, name: "Impuestos", description: "Pago de impuestos" },
+        { id: 7, name: "Seguros", description: "Pago de seguros" },
+        { id: 8, name: "Otros", description: "Otros pagos no categorizados" }
+      ];
+      
+      res.json(categories);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Invoice routes
-  app.get("/api/invoices", isAuthenticated, async (req, res) => {
+  // Payment Routes
+  app.get("/api/payments", isAuthenticated, authorize("payments"), async (req, res) => {
     try {
-      let invoices;
-      
-      if (req.query.status) {
-        invoices = await storage.getInvoicesByStatus(req.query.status as string);
-      } else if (req.query.clientId) {
-        invoices = await storage.getInvoicesByClient(parseInt(req.query.clientId as string));
-      } else if (req.query.projectId) {
-        invoices = await storage.getInvoicesByProject(parseInt(req.query.projectId as string));
-      } else {
-        invoices = await storage.getInvoices();
-      }
-      
-      res.json(invoices);
+      const payments = await storage.getPayments();
+      res.json(payments);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Invoices Summary API for Financial Reports (must be before :id route)
-  app.get("/api/invoices/summary", isAuthenticated, async (req, res) => {
+  // Payments Summary API for Financial Reports (must be before :id route)
+  app.get("/api/payments/summary", isAuthenticated, authorize("financial_reports"), async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       
-      let invoices;
+      let payments;
       if (startDate && endDate && startDate !== 'undefined' && endDate !== 'undefined') {
         try {
           const start = new Date(startDate as string);
           const end = new Date(endDate as string);
           if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-            invoices = await storage.getInvoices();
+            payments = await storage.getPayments();
           } else {
-            invoices = await storage.getInvoicesByDateRange(start, end);
+            payments = await storage.getPaymentsByDateRange(start, end);
           }
         } catch (dateError) {
-          invoices = await storage.getInvoices();
+          payments = await storage.getPayments();
+        }
+      } else {
+        payments = await storage.getPayments();
+      }
+      
+      // Calculate total expenses
+      const totalExpenses = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+      
+      // Group by categories for summary
+      const categorySummary = payments.reduce((acc: any[], payment) => {
+        const category = payment.category || 'Other';
+        const existing = acc.find(item => item.category === category);
+        if (existing) {
+          existing.amount += Number(payment.amount);
+          existing.count += 1;
+        } else {
+          acc.push({
+            category,
+            amount: Number(payment.amount),
+            count: 1
+          });
         }
-      } else {
-        invoices = await storage.getInvoices();
-      }
+        return acc;
+      }, []);
       
-      // Calculate total revenue
-      const totalRevenue = invoices.reduce((sum, invoice) => sum + Number(invoice.totalAmount), 0);
+      // Group by recipients for summary
+      const recipientSummary = payments.reduce((acc: any[], payment) => {
+        const recipient = payment.recipientName || payment.recipientType || 'Unknown';
+        const existing = acc.find(item => item.recipient === recipient);
+        if (existing) {
+          existing.amount += Number(payment.amount);
+          existing.count += 1;
+        } else {
+          acc.push({
+            recipient,
+            amount: Number(payment.amount),
+            count: 1
+          });
+        }
+        return acc;
+      }, []);
       
       // Time series data for charts
-      const timeSeriesData = invoices.reduce((acc: any[], invoice) => {
-        const date = invoice.issueDate?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0];
+      const timeSeriesData = payments.reduce((acc: any[], payment) => {
+        const date = payment.date.toISOString().split('T')[0];
         const existing = acc.find(item => item.date === date);
         if (existing) {
-          existing.amount += Number(invoice.totalAmount);
+          existing.amount += Number(payment.amount);
         } else {
           acc.push({
             date,
-            amount: Number(invoice.totalAmount)
+            amount: Number(payment.amount)
           });
         }
         return acc;
       }, []);
       
       res.json({
-        totalRevenue,
-        invoiceCount: invoices.length,
+        totalExpenses,
+        paymentCount: payments.length,
+        categorySummary,
+        recipientSummary,
         timeSeriesData
       });
     } catch (error) {
@@ -1070,1468 +2980,1741 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/payments/:id", isAuthenticated, authorize("payments"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid invoice ID" });
+        return res.status(400).json({ message: "Invalid payment ID" });
       }
-      const invoice = await storage.getInvoice(id);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const payment = await storage.getPayment(id);
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
       }
-      res.json(invoice);
+      
+      res.json(payment);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/payments/project/:projectId", isAuthenticated, authorize("payments"), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const payments = await storage.getPaymentsByProject(projectId);
+      res.json(payments);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/invoices", isAuthenticated, async (req, res) => {
+  app.get("/api/payments/recipient/:type/:id", isAuthenticated, authorize("payments"), async (req, res) => {
     try {
-      // Create a unique invoice number
-      const formattedDate = new Date().toISOString().slice(0, 10).replace(/-/g, '');
-      const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
-      const invoiceNumber = `INV-${formattedDate}-${randomStr}`;
+      const recipientType = req.params.type;
+      const recipientId = parseInt(req.params.id);
       
-      const invoiceData = insertInvoiceSchema.parse({
-        ...req.body,
-        invoiceNumber
-      });
+      if (!["staff", "subcontractor", "supplier"].includes(recipientType)) {
+        return res.status(400).json({ message: "Invalid recipient type. Must be 'staff', 'subcontractor', or 'supplier'." });
+      }
       
-      const invoice = await storage.createInvoice(invoiceData);
+      const payments = await storage.getPaymentsByRecipient(recipientType, recipientId);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/payments/status/:status", isAuthenticated, authorize("payments"), async (req, res) => {
+    try {
+      const status = req.params.status;
+      const payments = await storage.getPaymentsByStatus(status);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/payments", isAuthenticated, authorize("payments"), async (req, res) => {
+    try {
+      const paymentData = insertPaymentSchema.parse(req.body);
+      const payment = await storage.createPayment(paymentData);
       
-      // Get the project and client for the activity
-      const project = await storage.getProject(invoice.projectId);
-      const client = await storage.getClient(invoice.clientId);
+      // If this payment is associated with a purchase order, update its status to "paid"
+      if (payment.purchaseOrderId) {
+        try {
+          const updatedPurchaseOrder = await storage.updatePurchaseOrder(payment.purchaseOrderId, {
+            status: "paid"
+          });
+          
+          if (updatedPurchaseOrder) {
+            // Create activity for purchase order payment
+            await storage.createActivity({
+              type: "purchase_order_paid",
+              description: `Purchase order ${updatedPurchaseOrder.orderNumber} marked as paid`,
+              userId: req.user.id,
+              clientId: null,
+              projectId: updatedPurchaseOrder.projectId
+            });
+          }
+        } catch (poError) {
+          console.error("Error updating purchase order status:", poError);
+          // Continue even if purchase order update fails
+        }
+      }
       
-      // Create activity for invoice creation
+      // Create activity for payment creation
       await storage.createActivity({
-        type: "invoice_created",
-        description: `New invoice ${invoice.invoiceNumber} created for project "${project?.title || 'Unknown'}"`,
+        type: "payment_created",
+        description: `Payment of $${typeof payment.amount === 'string' 
+          ? parseFloat(payment.amount).toFixed(2) 
+          : payment.amount.toFixed(2)} created for ${payment.recipientType} (ID: ${payment.recipientId})`,
         userId: req.user.id,
-        projectId: invoice.projectId,
-        clientId: invoice.clientId
+        clientId: null,
+        projectId: payment.projectId || null
       });
       
-      res.status(201).json(invoice);
+      res.status(201).json(payment);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/payments/:id", isAuthenticated, authorize("payments"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const invoiceData = insertInvoiceSchema.partial().parse(req.body);
-      const updatedInvoice = await storage.updateInvoice(id, invoiceData);
+      const existingPayment = await storage.getPayment(id);
       
-      if (!updatedInvoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      if (!existingPayment) {
+        return res.status(404).json({ message: "Payment not found" });
       }
       
-      // Create activity for invoice update
+      const updateData = req.body;
+      const updatedPayment = await storage.updatePayment(id, updateData);
+      
+      // If the payment is getting a purchase order ID and didn't have one before,
+      // or if the purchase order ID changed, update the purchase order status
+      if (updateData.purchaseOrderId && 
+         (!existingPayment.purchaseOrderId || 
+          existingPayment.purchaseOrderId !== updateData.purchaseOrderId)) {
+        try {
+          const updatedPurchaseOrder = await storage.updatePurchaseOrder(updateData.purchaseOrderId, {
+            status: "paid"
+          });
+          
+          if (updatedPurchaseOrder) {
+            // Create activity for purchase order payment
+            await storage.createActivity({
+              type: "purchase_order_paid",
+              description: `Purchase order ${updatedPurchaseOrder.orderNumber} marked as paid`,
+              userId: req.user.id,
+              clientId: null,
+              projectId: updatedPurchaseOrder.projectId
+            });
+          }
+        } catch (poError) {
+          console.error("Error updating purchase order status:", poError);
+          // Continue even if purchase order update fails
+        }
+      }
+      
+      // Create activity for payment update
       await storage.createActivity({
-        type: "invoice_updated",
-        description: `Invoice ${updatedInvoice.invoiceNumber} updated`,
+        type: "payment_updated",
+        description: `Payment ID ${id} updated`,
         userId: req.user.id,
-        projectId: updatedInvoice.projectId,
-        clientId: updatedInvoice.clientId
+        clientId: null,
+        projectId: existingPayment.projectId || null
       });
       
-      res.json(updatedInvoice);
+      res.json(updatedPayment);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/payments/:id", isAuthenticated, authorize("payments"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const invoice = await storage.getInvoice(id);
+      const payment = await storage.getPayment(id);
       
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
       }
       
-      const deleted = await storage.deleteInvoice(id);
+      const deleted = await storage.deletePayment(id);
       
       if (deleted) {
-        // Create activity for invoice deletion
+        // Create activity for payment deletion
         await storage.createActivity({
-          type: "invoice_deleted",
-          description: `Invoice ${invoice.invoiceNumber} deleted`,
+          type: "payment_deleted",
+          description: `Payment ID ${id} deleted`,
           userId: req.user.id,
-          projectId: invoice.projectId,
-          clientId: invoice.clientId
+          clientId: null,
+          projectId: payment.projectId || null
         });
         
         res.sendStatus(204);
       } else {
-        res.status(500).json({ message: "Failed to delete invoice" });
+        res.status(500).json({ message: "Failed to delete payment" });
       }
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Create Stripe payment intent for invoices
-  app.post("/api/create-payment-intent", isAuthenticated, async (req, res) => {
+  // Financial Reporting Routes
+  // Leads, close rate and revenue per marketing source for ?startDate=&endDate=
+  // (defaults to the last twelve months)
+  app.get("/api/reports/marketing-sources", isAuthenticated, authorize("reports"), async (req, res) => {
     try {
-      if (!process.env.STRIPE_SECRET_KEY) {
-        return res.status(500).json({ message: "Stripe secret key not configured" });
+      const now = new Date();
+      const { startDate, endDate } = z.object({
+        startDate: z.coerce.date().default(new Date(now.getFullYear() - 1, now.getMonth(), now.getDate())),
+        endDate: z.coerce.date().default(now),
+      }).parse(req.query);
+      res.json(await getMarketingSourceReport(startDate, endDate));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report dates", errors: error.errors });
       }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
 
-      const Stripe = require('stripe');
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
-      
-      const { amount, invoiceId } = req.body;
+  app.get("/api/reports/financial/summary", isAuthenticated, authorize("financial_reports"), async (req, res) => {
+    try {
+      // Get all invoices
+      const invoices = await storage.getInvoices();
       
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ message: "Invalid amount" });
-      }
+      // Get all payments
+      const payments = await storage.getPayments();
       
-      // Create a PaymentIntent with the order amount and currency
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to cents for Stripe
-        currency: "usd",
-        metadata: {
-          invoiceId: invoiceId || null,
-        },
-      });
+      // Calculate totals
+      const totalInvoiced = invoices.reduce((sum, invoice) => sum + Number(invoice.totalAmount), 0);
+      const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
       
-      // If we have an invoice ID, update the invoice with the payment intent ID
-      if (invoiceId) {
-        const invoice = await storage.getInvoice(parseInt(invoiceId));
-        if (invoice) {
-          await storage.updateInvoice(invoice.id, {
-            stripePaymentIntentId: paymentIntent.id
-          });
-        }
-      }
+      // Group payments by type
+      const paymentsByType = {
+        staff: payments.filter(p => p.recipientType === 'staff').reduce((sum, p) => sum + Number(p.amount), 0),
+        subcontractor: payments.filter(p => p.recipientType === 'subcontractor').reduce((sum, p) => sum + Number(p.amount), 0),
+        supplier: payments.filter(p => p.recipientType === 'supplier').reduce((sum, p) => sum + Number(p.amount), 0),
+        other: payments.filter(p => !['staff', 'subcontractor', 'supplier'].includes(p.recipientType)).reduce((sum, p) => sum + Number(p.amount), 0)
+      };
       
-      // Create activity
-      await storage.createActivity({
-        type: "payment_intent_created",
-        description: `Payment intent created for $${(amount).toFixed(2)}`,
-        userId: req.user.id,
-        projectId: null,
-        clientId: null
-      });
+      // Calculate net profit
+      const netProfit = totalInvoiced - totalPaid;
       
-      res.json({ clientSecret: paymentIntent.client_secret });
+      res.json({
+        totalInvoiced,
+        totalPaid,
+        netProfit,
+        paymentsByType,
+        profitMargin: totalInvoiced > 0 ? (netProfit / totalInvoiced) * 100 : 0
+      });
     } catch (error) {
-      console.error("Error creating payment intent:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Google Calendar routes
-  app.post("/api/google/auth", isAuthenticated, async (req, res) => {
+  // Purchase Order routes
+  app.get("/api/purchase-orders", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      // In a real application, this would initiate the OAuth 2.0 flow
-      // For demonstration purposes, we'll simulate a successful authentication
-      
-      // Get Google credentials and create an OAuth2 client
-      const oauth2Client = new google.auth.OAuth2(
-        process.env.GOOGLE_CLIENT_ID,
-        process.env.GOOGLE_CLIENT_SECRET,
-        process.env.GOOGLE_REDIRECT_URI
-      );
-      
-      // Generate a URL for the user to authorize the app
-      const authUrl = oauth2Client.generateAuthUrl({
-        access_type: 'offline',
-        scope: ['https://www.googleapis.com/auth/calendar'],
-      });
+      let purchaseOrders;
       
-      // In a real application, you would redirect the user to the authUrl
-      // For our simulation, we'll just return the URL
-      res.json({ success: true, url: authUrl });
-    } catch (error) {
-      console.error('Google Auth Error:', error);
-      res.status(500).json({ message: "Google Calendar authentication failed" });
-    }
-  });
-  
-  app.get("/api/google/callback", isAuthenticated, async (req, res) => {
-    try {
-      // This would be the callback endpoint for the OAuth flow
-      // The code would be exchanged for tokens here
+      if (req.query.supplierId) {
+        purchaseOrders = await storage.getPurchaseOrdersBySupplier(parseInt(req.query.supplierId as string));
+      } else if (req.query.projectId) {
+        purchaseOrders = await storage.getPurchaseOrdersByProject(parseInt(req.query.projectId as string));
+      } else if (req.query.status) {
+        purchaseOrders = await storage.getPurchaseOrdersByStatus(req.query.status as string);
+      } else {
+        purchaseOrders = await storage.getPurchaseOrders();
+      }
       
-      // In a real application, store the tokens in the user's session or database
-      res.redirect('/calendar');
+      res.json(purchaseOrders);
     } catch (error) {
-      console.error('Google Callback Error:', error);
-      res.status(500).json({ message: "Google Calendar authorization failed" });
+      res.status(500).json({ message: error.message });
     }
   });
-  
-  app.get("/api/google/events", isAuthenticated, async (req, res) => {
+
+  app.get("/api/purchase-orders/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      // In a real application, retrieve the user's tokens and create a new auth client
-      // For our simulation, we'll return sample events
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
       
-      // Example of how to use the Google Calendar API
-      /*
-      const oauth2Client = new google.auth.OAuth2();
-      oauth2Client.setCredentials(tokens);
+      // Get items associated with this purchase order
+      const items = await storage.getPurchaseOrderItems(purchaseOrder.id);
       
-      const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-      const response = await calendar.events.list({
-        calendarId: 'primary',
-        timeMin: new Date().toISOString(),
-        maxResults: 10,
-        singleEvents: true,
-        orderBy: 'startTime',
-      });
+      // Get supplier details
+      const supplier = await storage.getSupplier(purchaseOrder.supplierId);
       
-      const events = response.data.items;
-      res.json(events);
-      */
+      // Get project details if available
+      let project = null;
+      if (purchaseOrder.projectId) {
+        project = await storage.getProject(purchaseOrder.projectId);
+      }
       
-      // For simulation, return sample events
-      const sampleEvents = [
-        {
-          id: 'google-event-1',
-          summary: 'Client Meeting',
-          start: { dateTime: new Date().toISOString() },
-          end: { dateTime: new Date(Date.now() + 3600000).toISOString() },
-          location: 'Client Office',
-          description: 'Discuss project requirements',
-        },
-        {
-          id: 'google-event-2',
-          summary: 'Site Visit',
-          start: { dateTime: new Date(Date.now() + 86400000).toISOString() },
-          end: { dateTime: new Date(Date.now() + 86400000 + 7200000).toISOString() },
-          location: 'Project Site',
-          description: 'Inspect the site and take measurements',
-        }
-      ];
+      // Get quote details if available
+      let quote = null;
+      if (purchaseOrder.quoteId) {
+        quote = await storage.getQuote(purchaseOrder.quoteId);
+      }
       
-      res.json(sampleEvents);
+      // Return the complete data
+      res.json({
+        ...purchaseOrder,
+        items,
+        supplier,
+        project,
+        quote
+      });
     } catch (error) {
-      console.error('Google Events Error:', error);
-      res.status(500).json({ message: "Failed to fetch Google Calendar events" });
+      res.status(500).json({ message: error.message });
     }
   });
-  
-  app.post("/api/google/events", isAuthenticated, async (req, res) => {
+
+  app.post("/api/purchase-orders", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      // In a real application, this would create an event in Google Calendar
-      // For our simulation, we'll just return the event data
-      
-      // Example of creating an event
-      /*
-      const oauth2Client = new google.auth.OAuth2();
-      oauth2Client.setCredentials(tokens);
+      console.log("Creating purchase order with data:", JSON.stringify(req.body, null, 2));
       
-      const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-      const event = {
-        summary: req.body.title,
-        description: req.body.description,
-        start: {
-          dateTime: req.body.start,
-          timeZone: 'America/Los_Angeles',
-        },
-        end: {
-          dateTime: req.body.end,
-          timeZone: 'America/Los_Angeles',
-        },
-        location: req.body.location,
-      };
+      // Create a unique order number based on date and random string if not provided
+      let orderNumber = req.body.orderNumber;
+      if (!orderNumber) {
+        const date = new Date();
+        const dateStr = date.getFullYear().toString() +
+                      (date.getMonth() + 1).toString().padStart(2, '0') +
+                      date.getDate().toString().padStart(2, '0');
+        const randomStr = Math.random().toString(36).substring(2, 6).toUpperCase();
+        orderNumber = `PO-${dateStr}-${randomStr}`;
+      }
       
-      const response = await calendar.events.insert({
-        calendarId: 'primary',
-        resource: event,
+      // Parse and validate the purchase order data
+      const purchaseOrderData = insertPurchaseOrderSchema.parse({
+        ...req.body,
+        orderNumber,
+        issueDate: req.body.issueDate || new Date(),
+        status: req.body.status || 'draft'
       });
       
-      res.json(response.data);
-      */
+      // Crear la orden de compra (el manejo de items se hace en storage.ts)
+      const purchaseOrder = await storage.createPurchaseOrder(purchaseOrderData);
       
-      // For simulation
-      const event = {
-        id: `google-event-${Date.now()}`,
-        summary: req.body.title,
-        description: req.body.description,
-        start: { dateTime: req.body.start },
-        end: { dateTime: req.body.end },
-        location: req.body.location,
-        status: 'confirmed'
-      };
+      // Obtener los items recién creados
+      const items = await storage.getPurchaseOrderItems(purchaseOrder.id);
       
-      // Create activity log
+      // Crear actividad para la orden de compra
       await storage.createActivity({
-        type: "google_event_created",
-        description: `Google Calendar event "${req.body.title}" created`,
+        type: "purchase_order_created",
+        description: `New purchase order ${purchaseOrder.orderNumber} created`,
         userId: req.user.id,
-        projectId: req.body.projectId || null,
+        projectId: purchaseOrder.projectId || undefined,
         clientId: null
       });
       
-      res.status(201).json(event);
+      // Devolver la orden de compra completa con sus items
+      res.status(201).json({
+        ...purchaseOrder,
+        items
+      });
     } catch (error) {
-      console.error('Google Create Event Error:', error);
-      res.status(500).json({ message: "Failed to create Google Calendar event" });
-    }
-  });
-  
-  // Supplier routes
-  app.get("/api/suppliers", isAuthenticated, async (req, res) => {
-    try {
-      let suppliers;
-      if (req.query.category) {
-        suppliers = await storage.getSuppliersByCategory(req.query.category as string);
-      } else {
-        suppliers = await storage.getSuppliers();
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
       }
-      res.json(suppliers);
-    } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/suppliers/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/purchase-orders/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      const supplier = await storage.getSupplier(parseInt(req.params.id));
-      if (!supplier) {
-        return res.status(404).json({ message: "Supplier not found" });
+      const id = parseInt(req.params.id);
+      const purchaseOrderData = req.body;
+      
+      // Validate that we're only updating allowed fields for PATCH operations
+      if (!purchaseOrderData || Object.keys(purchaseOrderData).length === 0) {
+        return res.status(400).json({ message: "No data provided for update" });
+      }
+      
+      // Get the existing purchase order
+      const existingPurchaseOrder = await storage.getPurchaseOrder(id);
+      if (!existingPurchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
       }
-      res.json(supplier);
-    } catch (error) {
-      res.status(500).json({ message: error.message });
-    }
-  });
 
-  app.post("/api/suppliers", isAuthenticated, async (req, res) => {
-    try {
-      const supplierData = insertSupplierSchema.parse(req.body);
-      const supplier = await storage.createSupplier(supplierData);
+      // Update the purchase order
+      const updatedPurchaseOrder = await storage.updatePurchaseOrder(id, purchaseOrderData);
+      
+      if (!updatedPurchaseOrder) {
+        return res.status(500).json({ message: "Failed to update purchase order" });
+      }
+      
+      // Create activity for purchase order status update
+      const activityDescription = purchaseOrderData.status
+        ? `Purchase order ${updatedPurchaseOrder.orderNumber} status changed to ${purchaseOrderData.status}`
+        : `Purchase order ${updatedPurchaseOrder.orderNumber} updated`;
       
-      // Create activity for supplier creation
       await storage.createActivity({
-        type: "supplier_created",
-        description: `New supplier "${supplier.name}" added`,
+        type: "purchase_order_updated",
+        description: activityDescription,
         userId: req.user.id,
-        clientId: null,
-        projectId: null
+        projectId: updatedPurchaseOrder.projectId,
+        clientId: null
       });
       
-      res.status(201).json(supplier);
+      res.json(updatedPurchaseOrder);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
-      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/suppliers/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/purchase-orders/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const supplierData = insertSupplierSchema.partial().parse(req.body);
-      const updatedSupplier = await storage.updateSupplier(id, supplierData);
+      const purchaseOrderData = insertPurchaseOrderSchema.partial().parse(req.body);
       
-      if (!updatedSupplier) {
-        return res.status(404).json({ message: "Supplier not found" });
+      const updatedPurchaseOrder = await storage.updatePurchaseOrder(id, purchaseOrderData);
+      
+      if (!updatedPurchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
       }
       
-      // Create activity for supplier update
+      // Create activity for purchase order update
       await storage.createActivity({
-        type: "supplier_updated",
-        description: `Supplier "${updatedSupplier.name}" updated`,
+        type: "purchase_order_updated",
+        description: `Purchase order ${updatedPurchaseOrder.orderNumber} updated`,
         userId: req.user.id,
-        clientId: null,
-        projectId: null
+        projectId: updatedPurchaseOrder.projectId,
+        clientId: null
       });
       
-      res.json(updatedSupplier);
+      // Get the updated items
+      const items = await storage.getPurchaseOrderItems(updatedPurchaseOrder.id);
+      
+      res.json({
+        ...updatedPurchaseOrder,
+        items
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/suppliers/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/purchase-orders/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const supplier = await storage.getSupplier(id);
+      const purchaseOrder = await storage.getPurchaseOrder(id);
       
-      if (!supplier) {
-        return res.status(404).json({ message: "Supplier not found" });
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
       }
       
-      const deleted = await storage.deleteSupplier(id);
+      const deleted = await storage.deletePurchaseOrder(id);
       
       if (deleted) {
-        // Create activity for supplier deletion
+        // Create activity for purchase order deletion
         await storage.createActivity({
-          type: "supplier_deleted",
-          description: `Supplier "${supplier.name}" deleted`,
+          type: "purchase_order_deleted",
+          description: `Purchase order ${purchaseOrder.orderNumber} deleted`,
           userId: req.user.id,
-          clientId: null,
-          projectId: null
+          projectId: purchaseOrder.projectId,
+          clientId: null
         });
         
         res.sendStatus(204);
       } else {
-        res.status(500).json({ message: "Failed to delete supplier" });
+        res.status(500).json({ message: "Failed to delete purchase order" });
       }
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Payment Recipients endpoint
-  app.get("/api/payment-recipients", isAuthenticated, async (req, res) => {
+  // Purchase Order Items routes
+  app.get("/api/purchase-orders/:orderId/items", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      const result = [];
+      const orderId = parseInt(req.params.orderId);
+      const items = await storage.getPurchaseOrderItems(orderId);
       
-      // Agregar subcontratistas como destinatarios
-      const subcontractors = await storage.getSubcontractors();
-      subcontractors.forEach(subcontractor => {
-        result.push({
-          id: subcontractor.id,
-          name: subcontractor.name,
-          type: "subcontractor"
-        });
-      });
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/purchase-order-items", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
+    try {
+      const itemData = insertPurchaseOrderItemSchema.parse(req.body);
+      const item = await storage.createPurchaseOrderItem(itemData);
       
-      // Agregar empleados como destinatarios
-      const employees = await storage.getStaff();
-      employees.forEach(employee => {
-        result.push({
-          id: employee.id,
-          name: employee.name,
-          type: "employee"
-        });
-      });
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order item data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/purchase-order-items/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const itemData = insertPurchaseOrderItemSchema.partial().parse(req.body);
       
-      // Agregar proveedores como destinatarios
-      const suppliers = await storage.getSuppliers();
-      suppliers.forEach(supplier => {
-        result.push({
-          id: supplier.id,
-          name: supplier.name,
-          type: "supplier"
-        });
-      });
+      const updatedItem = await storage.updatePurchaseOrderItem(id, itemData);
       
-      res.json(result);
+      if (!updatedItem) {
+        return res.status(404).json({ message: "Purchase order item not found" });
+      }
+      
+      res.json(updatedItem);
     } catch (error) {
-      console.error("Error fetching payment recipients:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order item data", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
-  
-  // Payment Categories endpoint
-  app.get("/api/payment-categories", isAuthenticated, async (req, res) => {
+
+  app.delete("/api/purchase-order-items/:id", isAuthenticated, authorize("purchase_orders"), async (req, res) => {
     try {
-      // Categorías predefinidas para pagos
-      const categories = [
-        { id: 1, name: "Materiales", description: "Pago por materiales de construcción" },
-        { id: 2, name: "Mano de Obra", description: "Pago por servicios de mano de obra" },
-        { id: 3, name: "Transporte", description: "Pago por servicios de transporte" },
-        { id: 4, name: "Herramientas", description: "Pago por herramientas y equipos" },
-        { id: 5, name: "Servicios", description: "Pago por servicios adicionales" },
-        { id: 6, name: "Impuestos", description: "Pago de impuestos" },
-        { id: 7, name: "Seguros", description: "Pago de seguros" },
-        { id: 8, name: "Otros", description: "Otros pagos no categorizados" }
-      ];
+      const id = parseInt(req.params.id);
       
-      res.json(categories);
+      const deleted = await storage.deletePurchaseOrderItem(id);
+      
+      if (deleted) {
+        res.sendStatus(204);
+      } else {
+        res.status(500).json({ message: "Failed to delete purchase order item" });
+      }
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Payment Routes
-  app.get("/api/payments", isAuthenticated, async (req, res) => {
+  // Invoice routes
+  app.get("/api/invoices", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const payments = await storage.getPayments();
-      res.json(payments);
+      const invoices = await storage.getInvoices();
+      res.json(invoices);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Payments Summary API for Financial Reports (must be before :id route)
-  app.get("/api/payments/summary", isAuthenticated, async (req, res) => {
+
+
+  app.post("/api/invoices", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
-      const { startDate, endDate } = req.query;
+      const { invoiceData, changeOrderIds } = await billChangeOrders(insertInvoiceSchema.parse({
+        ...req.body,
+        issueDate: req.body.issueDate ? new Date(req.body.issueDate) : new Date(),
+        dueDate: req.body.dueDate ? new Date(req.body.dueDate) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      }));
       
-      let payments;
-      if (startDate && endDate && startDate !== 'undefined' && endDate !== 'undefined') {
-        try {
-          const start = new Date(startDate as string);
-          const end = new Date(endDate as string);
-          if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-            payments = await storage.getPayments();
-          } else {
-            payments = await storage.getPaymentsByDateRange(start, end);
-          }
-        } catch (dateError) {
-          payments = await storage.getPayments();
-        }
-      } else {
-        payments = await storage.getPayments();
+      // Generate invoice number
+      const invoiceNumber = await storage.allocateInvoiceNumber();
+      
+      const billingContactId = await resolveBillingContactId(invoiceData.clientId, invoiceData.billingContactId);
+      if (billingContactId === false) {
+        return res.status(400).json({ message: "The billing contact does not belong to the invoice's client" });
       }
       
-      // Calculate total expenses
-      const totalExpenses = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+      const invoice = await storage.createInvoice({
+        ...invoiceData,
+        billingContactId,
+        marketingSource: invoiceData.marketingSource || await inheritedMarketingSource(invoiceData.clientId, invoiceData.projectId),
+        invoiceNumber,
+        amount: invoiceData.totalAmount.toString(),
+        tax: "0", // Default tax to 0, can be updated later
+      }, changeOrderIds);
       
-      // Group by categories for summary
-      const categorySummary = payments.reduce((acc: any[], payment) => {
-        const category = payment.category || 'Other';
-        const existing = acc.find(item => item.category === category);
-        if (existing) {
-          existing.amount += Number(payment.amount);
-          existing.count += 1;
-        } else {
-          acc.push({
-            category,
-            amount: Number(payment.amount),
-            count: 1
-          });
-        }
-        return acc;
-      }, []);
+      // Create activity for invoice creation
+      await storage.createActivity({
+        type: "invoice_created",
+        description: `Factura ${invoiceNumber} creada`,
+        userId: req.user!.id,
+        projectId: invoice.projectId,
+        clientId: invoice.clientId
+      });
       
-      // Group by recipients for summary
-      const recipientSummary = payments.reduce((acc: any[], payment) => {
-        const recipient = payment.recipientName || payment.recipientType || 'Unknown';
-        const existing = acc.find(item => item.recipient === recipient);
-        if (existing) {
-          existing.amount += Number(payment.amount);
-          existing.count += 1;
-        } else {
-          acc.push({
-            recipient,
-            amount: Number(payment.amount),
-            count: 1
-          });
-        }
-        return acc;
-      }, []);
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/invoices/:id", isAuthenticated, authorize("invoices"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertInvoiceSchema.partial().parse({
+        ...req.body,
+        issueDate: req.body.issueDate ? new Date(req.body.issueDate) : undefined,
+        dueDate: req.body.dueDate ? new Date(req.body.dueDate) : undefined,
+        paidDate: req.body.paidDate ? new Date(req.body.paidDate) : undefined,
+      });
       
-      // Time series data for charts
-      const timeSeriesData = payments.reduce((acc: any[], payment) => {
-        const date = payment.date.toISOString().split('T')[0];
-        const existing = acc.find(item => item.date === date);
-        if (existing) {
-          existing.amount += Number(payment.amount);
-        } else {
-          acc.push({
-            date,
-            amount: Number(payment.amount)
-          });
-        }
-        return acc;
-      }, []);
+      const existingInvoice = await storage.getInvoice(id);
+      if (!existingInvoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const updatedInvoice = await storage.updateInvoice(id, {
+        ...updateData,
+        amount: updateData.totalAmount || existingInvoice.amount,
+      });
       
-      res.json({
-        totalExpenses,
-        paymentCount: payments.length,
-        categorySummary,
-        recipientSummary,
-        timeSeriesData
+      if (!updatedInvoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Create activity for invoice update
+      await storage.createActivity({
+        type: "invoice_updated",
+        description: `Factura ${existingInvoice.invoiceNumber} actualizada`,
+        userId: req.user!.id,
+        projectId: updatedInvoice.projectId,
+        clientId: updatedInvoice.clientId
       });
+      
+      res.json(updatedInvoice);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/payments/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/invoices/:id", isAuthenticated, authorize("invoices"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid payment ID" });
-      }
-      const payment = await storage.getPayment(id);
+      const invoice = await storage.getInvoice(id);
       
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
       
-      res.json(payment);
+      const deleted = await storage.deleteInvoice(id);
+      
+      if (deleted) {
+        // Create activity for invoice deletion
+        await storage.createActivity({
+          type: "invoice_deleted",
+          description: `Factura ${invoice.invoiceNumber} eliminada`,
+          userId: req.user!.id,
+          projectId: invoice.projectId,
+          clientId: invoice.clientId
+        });
+        
+        res.sendStatus(204);
+      } else {
+        res.status(500).json({ message: "Failed to delete invoice" });
+      }
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/payments/project/:projectId", isAuthenticated, async (req, res) => {
+  // Settings routes for Google Calendar integration
+  app.get("/api/settings", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const payments = await storage.getPaymentsByProject(projectId);
-      res.json(payments);
+      const settings = await storage.getSettings();
+      res.json(settings);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/payments/recipient/:type/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/settings/:key", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const recipientType = req.params.type;
-      const recipientId = parseInt(req.params.id);
-      
-      if (!["staff", "subcontractor", "supplier"].includes(recipientType)) {
-        return res.status(400).json({ message: "Invalid recipient type. Must be 'staff', 'subcontractor', or 'supplier'." });
+      const setting = await storage.getSetting(req.params.key);
+      if (!setting) {
+        return res.status(404).json({ message: "Setting not found" });
       }
-      
-      const payments = await storage.getPaymentsByRecipient(recipientType, recipientId);
-      res.json(payments);
+      res.json(setting);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/payments/status/:status", isAuthenticated, async (req, res) => {
+  app.post("/api/settings", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const status = req.params.status;
-      const payments = await storage.getPaymentsByStatus(status);
-      res.json(payments);
+      const settingData = insertSettingsSchema.parse(req.body);
+      
+      // Check if setting already exists
+      const existingSetting = await storage.getSetting(settingData.key);
+      if (existingSetting) {
+        // Update existing setting
+        const updated = await storage.updateSetting(settingData.key, settingData.value);
+        return res.json(updated);
+      }
+      
+      // Create new setting
+      const newSetting = await storage.createSetting(settingData);
+      res.status(201).json(newSetting);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid setting data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/payments", isAuthenticated, async (req, res) => {
+  app.put("/api/settings/:key", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const paymentData = insertPaymentSchema.parse(req.body);
-      const payment = await storage.createPayment(paymentData);
+      const { value } = req.body;
+      const updated = await storage.updateSetting(req.params.key, value);
       
-      // If this payment is associated with a purchase order, update its status to "paid"
-      if (payment.purchaseOrderId) {
-        try {
-          const updatedPurchaseOrder = await storage.updatePurchaseOrder(payment.purchaseOrderId, {
-            status: "paid"
-          });
-          
-          if (updatedPurchaseOrder) {
-            // Create activity for purchase order payment
-            await storage.createActivity({
-              type: "purchase_order_paid",
-              description: `Purchase order ${updatedPurchaseOrder.orderNumber} marked as paid`,
-              userId: req.user.id,
-              clientId: null,
-              projectId: updatedPurchaseOrder.projectId
-            });
-          }
-        } catch (poError) {
-          console.error("Error updating purchase order status:", poError);
-          // Continue even if purchase order update fails
-        }
+      if (!updated) {
+        return res.status(404).json({ message: "Setting not found" });
       }
       
-      // Create activity for payment creation
-      await storage.createActivity({
-        type: "payment_created",
-        description: `Payment of $${typeof payment.amount === 'string' 
-          ? parseFloat(payment.amount).toFixed(2) 
-          : payment.amount.toFixed(2)} created for ${payment.recipientType} (ID: ${payment.recipientId})`,
-        userId: req.user.id,
-        clientId: null,
-        projectId: payment.projectId || null
-      });
-      
-      res.status(201).json(payment);
+      res.json(updated);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.patch("/api/payments/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/settings/:key", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const existingPayment = await storage.getPayment(id);
+      const deleted = await storage.deleteSetting(req.params.key);
       
-      if (!existingPayment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (deleted) {
+        res.sendStatus(204);
+      } else {
+        res.status(404).json({ message: "Setting not found" });
       }
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Google Calendar Integration endpoints
+  app.post("/api/settings/google-calendar/connect", isAuthenticated, authorize("settings"), async (req, res) => {
+    try {
+      const { clientId, clientSecret, redirectUri, calendarId, syncEnabled, syncInterval, autoCreateEvents, eventPrefix, reminderMinutes } = req.body;
       
-      const updateData = req.body;
-      const updatedPayment = await storage.updatePayment(id, updateData);
+      // Save Google Calendar settings
+      const calendarSettings = {
+        clientId,
+        clientSecret,
+        redirectUri,
+        calendarId: calendarId || 'primary',
+        syncEnabled,
+        syncInterval,
+        autoCreateEvents,
+        eventPrefix,
+        reminderMinutes
+      };
       
-      // If the payment is getting a purchase order ID and didn't have one before,
-      // or if the purchase order ID changed, update the purchase order status
-      if (updateData.purchaseOrderId && 
-         (!existingPayment.purchaseOrderId || 
-          existingPayment.purchaseOrderId !== updateData.purchaseOrderId)) {
-        try {
-          const updatedPurchaseOrder = await storage.updatePurchaseOrder(updateData.purchaseOrderId, {
-            status: "paid"
-          });
-          
-          if (updatedPurchaseOrder) {
-            // Create activity for purchase order payment
-            await storage.createActivity({
-              type: "purchase_order_paid",
-              description: `Purchase order ${updatedPurchaseOrder.orderNumber} marked as paid`,
-              userId: req.user.id,
-              clientId: null,
-              projectId: updatedPurchaseOrder.projectId
-            });
-          }
-        } catch (poError) {
-          console.error("Error updating purchase order status:", poError);
-          // Continue even if purchase order update fails
-        }
-      }
+      await storage.updateSetting('google_calendar_settings', calendarSettings);
       
-      // Create activity for payment update
-      await storage.createActivity({
-        type: "payment_updated",
-        description: `Payment ID ${id} updated`,
-        userId: req.user.id,
-        clientId: null,
-        projectId: existingPayment.projectId || null
+      res.json({ 
+        message: "Google Calendar settings saved successfully",
+        settings: calendarSettings 
       });
-      
-      res.json(updatedPayment);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/payments/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/settings/google-calendar/test", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const payment = await storage.getPayment(id);
+      const settings = await storage.getSetting('google_calendar_settings');
       
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (!settings || !settings.value) {
+        return res.status(400).json({ message: "Google Calendar not configured" });
       }
       
-      const deleted = await storage.deletePayment(id);
+      const calendarSettings = settings.value as any;
       
-      if (deleted) {
-        // Create activity for payment deletion
-        await storage.createActivity({
-          type: "payment_deleted",
-          description: `Payment ID ${id} deleted`,
-          userId: req.user.id,
-          clientId: null,
-          projectId: payment.projectId || null
-        });
-        
-        res.sendStatus(204);
-      } else {
-        res.status(500).json({ message: "Failed to delete payment" });
+      // Test Google Calendar connection
+      const auth = new google.auth.OAuth2(
+        calendarSettings.clientId,
+        calendarSettings.clientSecret,
+        calendarSettings.redirectUri
+      );
+      
+      // For testing, we'll just verify the credentials format
+      if (!calendarSettings.clientId || !calendarSettings.clientSecret) {
+        return res.status(400).json({ message: "Invalid Google Calendar credentials" });
       }
+      
+      res.json({ 
+        message: "Google Calendar connection test successful",
+        status: "connected"
+      });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Financial Reporting Routes
-  app.get("/api/reports/financial/summary", isAuthenticated, async (req, res) => {
+  app.post("/api/settings/google-calendar/sync", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      // Get all invoices
-      const invoices = await storage.getInvoices();
+      const settings = await storage.getSetting('google_calendar_settings');
       
-      // Get all payments
-      const payments = await storage.getPayments();
+      if (!settings || !settings.value) {
+        return res.status(400).json({ message: "Google Calendar not configured" });
+      }
       
-      // Calculate totals
-      const totalInvoiced = invoices.reduce((sum, invoice) => sum + Number(invoice.totalAmount), 0);
-      const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+      const calendarSettings = settings.value as any;
       
-      // Group payments by type
-      const paymentsByType = {
-        staff: payments.filter(p => p.recipientType === 'staff').reduce((sum, p) => sum + Number(p.amount), 0),
-        subcontractor: payments.filter(p => p.recipientType === 'subcontractor').reduce((sum, p) => sum + Number(p.amount), 0),
-        supplier: payments.filter(p => p.recipientType === 'supplier').reduce((sum, p) => sum + Number(p.amount), 0),
-        other: payments.filter(p => !['staff', 'subcontractor', 'supplier'].includes(p.recipientType)).reduce((sum, p) => sum + Number(p.amount), 0)
-      };
+      if (!calendarSettings.syncEnabled) {
+        return res.status(400).json({ message: "Google Calendar sync is disabled" });
+      }
       
-      // Calculate net profit
-      const netProfit = totalInvoiced - totalPaid;
+      // Get upcoming service orders to sync
+      const serviceOrders = await storage.getServiceOrders();
+      const upcomingOrders = serviceOrders.filter(order => 
+        order.startDate && new Date(order.startDate) > new Date()
+      );
       
-      res.json({
-        totalInvoiced,
-        totalPaid,
-        netProfit,
-        paymentsByType,
-        profitMargin: totalInvoiced > 0 ? (netProfit / totalInvoiced) * 100 : 0
+      // For now, simulate sync without actual Google Calendar API calls
+      // In production, this would create/update calendar events
+      
+      res.json({ 
+        message: "Calendar sync completed successfully",
+        eventsCreated: upcomingOrders.length,
+        syncedOrders: upcomingOrders.length
       });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Purchase Order routes
-  app.get("/api/purchase-orders", isAuthenticated, async (req, res) => {
+  app.post("/api/settings/general", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      let purchaseOrders;
+      const { companyName, language, timezone, currency, dateFormat, defaultQuoteValidDays, emailNotifications, smsNotifications } = req.body;
       
-      if (req.query.supplierId) {
-        purchaseOrders = await storage.getPurchaseOrdersBySupplier(parseInt(req.query.supplierId as string));
-      } else if (req.query.projectId) {
-        purchaseOrders = await storage.getPurchaseOrdersByProject(parseInt(req.query.projectId as string));
-      } else if (req.query.status) {
-        purchaseOrders = await storage.getPurchaseOrdersByStatus(req.query.status as string);
-      } else {
-        purchaseOrders = await storage.getPurchaseOrders();
-      }
+      const generalSettings = {
+        companyName,
+        language,
+        timezone,
+        currency,
+        dateFormat,
+        defaultQuoteValidDays,
+        emailNotifications,
+        smsNotifications
+      };
       
-      res.json(purchaseOrders);
+      await storage.updateSetting('general_settings', generalSettings);
+      
+      res.json({ 
+        message: "General settings saved successfully",
+        settings: generalSettings 
+      });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/settings/two-factor", isAuthenticated, authorize("settings"), async (req, res) => {
     try {
-      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
-      if (!purchaseOrder) {
-        return res.status(404).json({ message: "Purchase order not found" });
-      }
-      
-      // Get items associated with this purchase order
-      const items = await storage.getPurchaseOrderItems(purchaseOrder.id);
-      
-      // Get supplier details
-      const supplier = await storage.getSupplier(purchaseOrder.supplierId);
-      
-      // Get project details if available
-      let project = null;
-      if (purchaseOrder.projectId) {
-        project = await storage.getProject(purchaseOrder.projectId);
-      }
-      
-      // Get quote details if available
-      let quote = null;
-      if (purchaseOrder.quoteId) {
-        quote = await storage.getQuote(purchaseOrder.quoteId);
+      const policy = z.object({
+        requiredRoles: z.array(z.enum([...USER_ROLES, SUPERADMIN_ROLE])),
+      }).parse(req.body);
+
+      // Create the setting the first time the policy is saved
+      const existing = await storage.getSetting(TWO_FACTOR_POLICY_KEY);
+      if (existing) {
+        await storage.updateSetting(TWO_FACTOR_POLICY_KEY, policy);
+      } else {
+        await storage.createSetting({ key: TWO_FACTOR_POLICY_KEY, value: policy });
       }
-      
-      // Return the complete data
+
       res.json({
-        ...purchaseOrder,
-        items,
-        supplier,
-        project,
-        quote
+        message: "Two-factor policy saved successfully",
+        settings: policy
       });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid two-factor policy", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/purchase-orders", isAuthenticated, async (req, res) => {
+  // Lead routes (public - no auth required for creating leads from contact form)
+  // Nobody fills in the contact form in under three seconds
+  const MIN_LEAD_FORM_MS = 3000;
+
+  app.post("/api/leads", async (req, res) => {
     try {
-      console.log("Creating purchase order with data:", JSON.stringify(req.body, null, 2));
-      
-      // Create a unique order number based on date and random string if not provided
-      let orderNumber = req.body.orderNumber;
-      if (!orderNumber) {
-        const date = new Date();
-        const dateStr = date.getFullYear().toString() +
-                      (date.getMonth() + 1).toString().padStart(2, '0') +
-                      date.getDate().toString().padStart(2, '0');
-        const randomStr = Math.random().toString(36).substring(2, 6).toUpperCase();
-        orderNumber = `PO-${dateStr}-${randomStr}`;
+      const ip = clientIp(req);
+      const lockedFor = leadIpLimiter.lockedFor(ip);
+      if (lockedFor) {
+        await recordBlockedAttempt(req, "lead", "rate_limited", req.body?.email);
+        return res.status(429).json({
+          message: `Too many requests. Please try again in ${formatLockout(lockedFor)} or call us directly.`,
+        });
       }
-      
-      // Parse and validate the purchase order data
-      const purchaseOrderData = insertPurchaseOrderSchema.parse({
-        ...req.body,
-        orderNumber,
-        issueDate: req.body.issueDate || new Date(),
-        status: req.body.status || 'draft'
-      });
-      
-      // Crear la orden de compra (el manejo de items se hace en storage.ts)
-      const purchaseOrder = await storage.createPurchaseOrder(purchaseOrderData);
-      
-      // Obtener los items recién creados
-      const items = await storage.getPurchaseOrderItems(purchaseOrder.id);
-      
-      // Crear actividad para la orden de compra
-      await storage.createActivity({
-        type: "purchase_order_created",
-        description: `New purchase order ${purchaseOrder.orderNumber} created`,
-        userId: req.user.id,
-        projectId: purchaseOrder.projectId || undefined,
-        clientId: null
-      });
-      
-      // Devolver la orden de compra completa con sus items
-      res.status(201).json({
-        ...purchaseOrder,
-        items
+      leadIpLimiter.hit(ip);
+
+      // Bots fill the hidden "website" field or submit faster than a person can type.
+      // They get a normal-looking response so they don't learn they were caught.
+      const { website, formStartedAt } = req.body ?? {};
+      const elapsed = Date.now() - Number(formStartedAt);
+      const spamReason = website ? "honeypot" : !(elapsed >= MIN_LEAD_FORM_MS) ? "too_fast" : null;
+      if (spamReason) {
+        await recordBlockedAttempt(req, "lead", spamReason, req.body?.email);
+        return res.status(201).json({ message: "Thank you for your message" });
+      }
+
+      // Leads from the form start in "new"; only staff assign, close or link them
+      const leadData = insertLeadSchema
+        .omit({ status: true, ownerId: true, lostReason: true, clientId: true })
+        .parse(req.body);
+      const lead = await storage.createLead({
+        ...leadData,
+        marketingSource: marketingSourceFor(leadData.attribution),
+        score: scoreLead(leadData, await getLeadPipeline()).score,
       });
+      res.status(201).json(lead);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
       }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.patch("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+  // Protected lead routes (for management dashboard)
+  app.get("/api/lead-pipeline", isAuthenticated, authorize("leads"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const purchaseOrderData = req.body;
-      
-      // Validate that we're only updating allowed fields for PATCH operations
-      if (!purchaseOrderData || Object.keys(purchaseOrderData).length === 0) {
-        return res.status(400).json({ message: "No data provided for update" });
+      res.json(await getLeadPipeline());
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/settings/lead-pipeline", isAuthenticated, authorize("settings"), async (req, res) => {
+    try {
+      const pipeline = leadPipelineSchema.parse(req.body);
+
+      // A stage can only be removed once no lead is in it
+      const keys = new Set(pipeline.stages.map((stage) => stage.key));
+      const leads = await storage.getLeads();
+      const stranded = leads.find((lead) => !keys.has(lead.status));
+      if (stranded) {
+        const current = await getLeadPipeline();
+        return res.status(400).json({
+          message: `Move the leads in "${stageLabel(current, stranded.status)}" to another stage before removing it`,
+        });
       }
-      
-      // Get the existing purchase order
-      const existingPurchaseOrder = await storage.getPurchaseOrder(id);
-      if (!existingPurchaseOrder) {
-        return res.status(404).json({ message: "Purchase order not found" });
+
+      await saveLeadPipeline(pipeline);
+
+      // The service area counts towards the score, so rescore the open leads
+      for (const lead of leads) {
+        if (CLOSED_LEAD_STAGES.includes(lead.status)) continue;
+        const { score } = scoreLead(lead, pipeline);
+        if (score !== lead.score) await storage.updateLead(lead.id, { score });
       }
 
-      // Update the purchase order
-      const updatedPurchaseOrder = await storage.updatePurchaseOrder(id, purchaseOrderData);
-      
-      if (!updatedPurchaseOrder) {
-        return res.status(500).json({ message: "Failed to update purchase order" });
+      res.json(pipeline);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lead pipeline", errors: error.errors });
       }
-      
-      // Create activity for purchase order status update
-      const activityDescription = purchaseOrderData.status
-        ? `Purchase order ${updatedPurchaseOrder.orderNumber} status changed to ${purchaseOrderData.status}`
-        : `Purchase order ${updatedPurchaseOrder.orderNumber} updated`;
-      
-      await storage.createActivity({
-        type: "purchase_order_updated",
-        description: activityDescription,
-        userId: req.user.id,
-        projectId: updatedPurchaseOrder.projectId,
-        clientId: null
-      });
-      
-      res.json(updatedPurchaseOrder);
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Who a lead can be assigned to: the company's owners, office managers and estimators
+  const LEAD_OWNER_ROLES = ["owner", "office_manager", "estimator"];
+
+  const isLeadOwner = async (userId: number) => {
+    const users = await storage.getCompanyUsers(getCurrentCompanyId());
+    return users.some((user) => user.id === userId && LEAD_OWNER_ROLES.includes(user.role));
+  };
+
+  app.get("/api/leads/owners", isAuthenticated, authorize("leads"), async (req, res) => {
+    try {
+      const users = await storage.getCompanyUsers(getCurrentCompanyId());
+      res.json(
+        users
+          .filter((user) => LEAD_OWNER_ROLES.includes(user.role))
+          .map((user) => ({ id: user.id, name: user.name, role: user.role })),
+      );
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/leads", isAuthenticated, authorize("leads"), async (req, res) => {
+    try {
+      const leads = await storage.getLeads();
+      res.json(leads);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/leads/:id", isAuthenticated, authorize("leads"), async (req, res) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(lead);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/leads/:id", isAuthenticated, authorize("leads"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const purchaseOrderData = insertPurchaseOrderSchema.partial().parse(req.body);
-      
-      const updatedPurchaseOrder = await storage.updatePurchaseOrder(id, purchaseOrderData);
-      
-      if (!updatedPurchaseOrder) {
-        return res.status(404).json({ message: "Purchase order not found" });
+      const leadData = insertLeadSchema.partial().parse(req.body);
+      const existing = await storage.getLead(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Lead not found" });
       }
-      
-      // Create activity for purchase order update
-      await storage.createActivity({
-        type: "purchase_order_updated",
-        description: `Purchase order ${updatedPurchaseOrder.orderNumber} updated`,
-        userId: req.user.id,
-        projectId: updatedPurchaseOrder.projectId,
-        clientId: null
+      if (leadData.clientId && !(await storage.getClient(leadData.clientId))) {
+        return res.status(400).json({ message: "Client not found" });
+      }
+      if (leadData.ownerId && !(await isLeadOwner(leadData.ownerId))) {
+        return res.status(400).json({ message: "Leads can only be assigned to owners, office managers and estimators" });
+      }
+
+      const pipeline = await getLeadPipeline();
+      const status = leadData.status ?? existing.status;
+      const stageChanged = status !== existing.status;
+      if (stageChanged && !pipeline.stages.some((stage) => stage.key === status)) {
+        return res.status(400).json({ message: `"${status}" is not a stage of the lead pipeline` });
+      }
+      const lostReason = status === "lost" ? (leadData.lostReason ?? existing.lostReason)?.trim() : null;
+      if (status === "lost" && !lostReason) {
+        return res.status(400).json({ message: "Give a reason the lead was lost" });
+      }
+
+      const rescored = leadData.service !== undefined || leadData.message !== undefined || leadData.zipCode !== undefined;
+      const updatedLead = await storage.updateLead(id, {
+        ...leadData,
+        lostReason,
+        ...(leadData.attribution !== undefined && { marketingSource: marketingSourceFor(leadData.attribution) }),
+        ...(rescored && { score: scoreLead({ ...existing, ...leadData }, pipeline).score }),
+        ...(stageChanged && { stageChangedAt: new Date() }),
+        // Moving a lead along counts as contacting it; closing one straight from "new" does not
+        ...(stageChanged && !existing.contactedAt && !CLOSED_LEAD_STAGES.includes(status) && { contactedAt: new Date() }),
       });
       
-      // Get the updated items
-      const items = await storage.getPurchaseOrderItems(updatedPurchaseOrder.id);
+      if (!updatedLead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
       
-      res.json({
-        ...updatedPurchaseOrder,
-        items
-      });
+      res.json(updatedLead);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
       }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+  // Turns a lead into a client (new or existing), a pending project and
+  // optionally a booked estimate visit, in one transaction
+  app.post("/api/leads/:id/convert", isAuthenticated, authorize("leads"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const purchaseOrder = await storage.getPurchaseOrder(id);
-      
-      if (!purchaseOrder) {
-        return res.status(404).json({ message: "Purchase order not found" });
+      const lead = await storage.getLead(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
       }
-      
-      const deleted = await storage.deletePurchaseOrder(id);
-      
-      if (deleted) {
-        // Create activity for purchase order deletion
+      if (lead.clientId) {
+        return res.status(409).json({ message: "This lead has already been converted" });
+      }
+      const data = leadConversionSchema.parse(req.body);
+
+      // The client keeps the lead's marketing source so its projects and invoices are credited to it
+      const clientData = insertClientSchema.parse({
+        name: lead.name,
+        email: lead.email,
+        phone: lead.phone,
+        address: data.address,
+        classification: data.classification,
+        type: "prospect",
+        notes: lead.message || null,
+        marketingSource: lead.marketingSource,
+        attribution: lead.attribution,
+      });
+
+      let existingClient;
+      if (data.clientId) {
+        existingClient = await storage.getClient(data.clientId);
+        if (!existingClient) {
+          return res.status(400).json({ message: "Client not found" });
+        }
+      } else if (!data.createNew) {
+        const matches = findClientMatches(clientData, await storage.getClients()).slice(0, 5);
+        if (matches.length > 0) {
+          return res.status(409).json({ message: "Similar clients already exist", matches });
+        }
+      }
+
+      const assignedUserId = data.visit ? data.visit.assignedUserId ?? lead.ownerId : null;
+      if (assignedUserId && !(await isLeadOwner(assignedUserId))) {
+        return res.status(400).json({ message: "Estimate visits can only be assigned to owners, office managers and estimators" });
+      }
+
+      // Moves the lead forward to "estimate scheduled" or "contacted", never back
+      const pipeline = await getLeadPipeline();
+      const stageIndex = (key: string) => pipeline.stages.findIndex((stage) => stage.key === key);
+      const target = data.visit ? "estimate_scheduled" : "contacted";
+      const status = stageIndex(target) > stageIndex(lead.status) && !CLOSED_LEAD_STAGES.includes(lead.status) ? target : lead.status;
+
+      const result = await storage.convertLead(id, {
+        clientId: existingClient?.id ?? null,
+        client: clientData,
+        project: {
+          ...data.project,
+          address: data.address,
+          status: "pending",
+          marketingSource: existingClient?.marketingSource || lead.marketingSource,
+        },
+        visit: data.visit
+          ? {
+              scheduledAt: data.visit.scheduledAt,
+              durationMinutes: data.visit.durationMinutes,
+              assignedUserId,
+              notes: data.visit.notes || null,
+              status: "scheduled",
+            }
+          : null,
+        lead: {
+          status,
+          ownerId: lead.ownerId ?? assignedUserId,
+          ...(status !== lead.status && { stageChangedAt: new Date() }),
+          ...(!lead.contactedAt && { contactedAt: new Date() }),
+        },
+      });
+      if (!result) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      if (result.clientCreated) {
         await storage.createActivity({
-          type: "purchase_order_deleted",
-          description: `Purchase order ${purchaseOrder.orderNumber} deleted`,
-          userId: req.user.id,
-          projectId: purchaseOrder.projectId,
-          clientId: null
+          type: "client_created",
+          description: `New client ${result.client.name} added from a lead`,
+          userId: req.user!.id,
+          clientId: result.client.id,
+          projectId: null
+        });
+      }
+      await storage.createActivity({
+        type: "project_created",
+        description: `New project "${result.project.title}" created from a lead`,
+        userId: req.user!.id,
+        projectId: result.project.id,
+        clientId: result.client.id
+      });
+      if (result.visit) {
+        await storage.createActivity({
+          type: "estimate_visit_scheduled",
+          description: `Estimate visit scheduled for ${result.visit.scheduledAt.toLocaleString("en-US")}`,
+          userId: req.user!.id,
+          projectId: result.project.id,
+          clientId: result.client.id
         });
-        
-        res.sendStatus(204);
-      } else {
-        res.status(500).json({ message: "Failed to delete purchase order" });
       }
+
+      res.status(201).json(result);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversion data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Purchase Order Items routes
-  app.get("/api/purchase-orders/:orderId/items", isAuthenticated, async (req, res) => {
+  // Estimate visits for the calendar
+  app.get("/api/estimate-visits", isAuthenticated, authorize("calendar"), async (req, res) => {
     try {
-      const orderId = parseInt(req.params.orderId);
-      const items = await storage.getPurchaseOrderItems(orderId);
-      
-      res.json(items);
+      res.json(await storage.getEstimateVisits());
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/purchase-order-items", isAuthenticated, async (req, res) => {
+  app.delete("/api/leads/:id", isAuthenticated, authorize("leads"), async (req, res) => {
     try {
-      const itemData = insertPurchaseOrderItemSchema.parse(req.body);
-      const item = await storage.createPurchaseOrderItem(itemData);
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteLead(id);
       
-      res.status(201).json(item);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid purchase order item data", errors: error.errors });
+      if (!deleted) {
+        return res.status(404).json({ message: "Lead not found" });
       }
-      res.status(500).json({ message: error.message });
+      
+      res.json({ message: "Lead deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put("/api/purchase-order-items/:id", isAuthenticated, async (req, res) => {
+  // Admins see and manage the members of the company they are working in, with
+  // their role in that company. superadmin can reach any account.
+  const findCompanyUser = async (req: Request, id: number) => {
+    if (req.user?.role === SUPERADMIN_ROLE) return storage.getUser(id);
+    const members = await storage.getCompanyUsers(getCurrentCompanyId());
+    return members.find((member) => member.id === id);
+  };
+
+  // Passwords, 2FA, email and deactivation apply to the account in every
+  // company, so besides superadmin only someone who owns every company the
+  // user works in may change them. Returns the refusal, or null when allowed.
+  const accountChangeError = async (req: Request, user: User) => {
+    if (req.user!.role === SUPERADMIN_ROLE || user.id === req.user!.id) return null;
+    if (user.role === SUPERADMIN_ROLE) return "Only superadmin can manage superadmin accounts";
+
+    const ownedCompanyIds = (await storage.getUserCompanies(req.user!.id))
+      .filter(({ role }) => role === "owner")
+      .map(({ id }) => id);
+    const memberships = await storage.getUserCompanies(user.id);
+    if (memberships.some(({ id }) => !ownedCompanyIds.includes(id))) {
+      return "This user also works in a company you do not own. Ask superadmin to change their account.";
+    }
+    return null;
+  };
+
+  // Company routes. Users work in one company at a time; the switcher in the
+  // layout stores the choice in the session.
+  app.get("/api/companies", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const itemData = insertPurchaseOrderItemSchema.partial().parse(req.body);
-      
-      const updatedItem = await storage.updatePurchaseOrderItem(id, itemData);
-      
-      if (!updatedItem) {
-        return res.status(404).json({ message: "Purchase order item not found" });
-      }
-      
-      res.json(updatedItem);
+      const companies = await getUserCompanies(req.user!);
+      res.json(companies);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid purchase order item data", errors: error.errors });
-      }
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/purchase-order-items/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/companies/current", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      
-      const deleted = await storage.deletePurchaseOrderItem(id);
-      
-      if (deleted) {
-        res.sendStatus(204);
-      } else {
-        res.status(500).json({ message: "Failed to delete purchase order item" });
+      const company = await storage.getCompany(getCurrentCompanyId());
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
       }
+      res.json(company);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Invoice routes
-  app.get("/api/invoices", isAuthenticated, async (req, res) => {
+  app.post("/api/companies/switch", isAuthenticated, async (req, res) => {
     try {
-      const invoices = await storage.getInvoices();
-      res.json(invoices);
+      const companyId = Number(req.body.companyId);
+      const companies = await getUserCompanies(req.user!);
+      const company = companies.find(({ id }) => id === companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      req.session.companyId = company.id;
+      res.json(company);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
+  app.post("/api/companies", isAuthenticated, authorize("companies"), async (req, res) => {
+    try {
+      const companyData = insertCompanySchema.parse(req.body);
+      const company = await storage.createCompany(companyData);
 
+      // The creator owns the new company; superadmin already reaches every company
+      if (req.user!.role !== SUPERADMIN_ROLE) {
+        await storage.setCompanyUserRole(company.id, req.user!.id, "owner");
+      }
 
-  app.post("/api/invoices", isAuthenticated, async (req, res) => {
-    try {
-      const invoiceData = insertInvoiceSchema.parse({
-        ...req.body,
-        issueDate: req.body.issueDate ? new Date(req.body.issueDate) : new Date(),
-        dueDate: req.body.dueDate ? new Date(req.body.dueDate) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      });
-      
-      // Generate invoice number
-      const invoiceCount = await storage.getInvoiceCount();
-      const invoiceNumber = `INV-${String(invoiceCount + 1).padStart(6, '0')}`;
-      
-      const invoice = await storage.createInvoice({
-        ...invoiceData,
-        invoiceNumber,
-        amount: invoiceData.totalAmount.toString(),
-        tax: "0", // Default tax to 0, can be updated later
-      });
-      
-      // Create activity for invoice creation
       await storage.createActivity({
-        type: "invoice_created",
-        description: `Factura ${invoiceNumber} creada`,
+        type: "company_created",
+        description: `Company ${company.name} created`,
         userId: req.user!.id,
-        projectId: invoice.projectId,
-        clientId: invoice.clientId
+        clientId: null,
+        projectId: null
       });
-      
-      res.status(201).json(invoice);
+
+      res.status(201).json(company);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid company data", errors: error.errors });
       }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.patch("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/companies/current", isAuthenticated, authorize("companies"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updateData = insertInvoiceSchema.partial().parse({
-        ...req.body,
-        issueDate: req.body.issueDate ? new Date(req.body.issueDate) : undefined,
-        dueDate: req.body.dueDate ? new Date(req.body.dueDate) : undefined,
-        paidDate: req.body.paidDate ? new Date(req.body.paidDate) : undefined,
-      });
-      
-      const existingInvoice = await storage.getInvoice(id);
-      if (!existingInvoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const companyData = insertCompanySchema.partial().parse(req.body);
+      const company = await storage.updateCompany(getCurrentCompanyId(), companyData);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
       }
-      
-      const updatedInvoice = await storage.updateInvoice(id, {
-        ...updateData,
-        amount: updateData.totalAmount || existingInvoice.amount,
-      });
-      
-      if (!updatedInvoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      res.json(company);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company data", errors: error.errors });
       }
-      
-      // Create activity for invoice update
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Invites an existing account (e.g. someone from the other company) to this
+  // one. They only become a member once they accept the invitation.
+  app.post("/api/companies/current/members", isAuthenticated, authorize("users"), async (req, res) => {
+    try {
+      const { username, role } = z.object({
+        username: z.string().trim().min(1, "Username is required"),
+        role: z.enum(USER_ROLES),
+      }).parse(req.body);
+
+      const user = await storage.getUserByUsername(username);
+      if (!user || user.role === SUPERADMIN_ROLE) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const members = await storage.getCompanyUsers(getCurrentCompanyId());
+      if (members.some((member) => member.id === user.id)) {
+        return res.status(409).json({ message: "This user already works in the company" });
+      }
+
+      const invitation = await storage.createCompanyInvitation({
+        companyId: getCurrentCompanyId(),
+        userId: user.id,
+        role,
+        invitedBy: req.user!.id,
+      });
+
       await storage.createActivity({
-        type: "invoice_updated",
-        description: `Factura ${existingInvoice.invoiceNumber} actualizada`,
+        type: "company_member_invited",
+        description: `User ${user.name} invited to the company as ${role}`,
         userId: req.user!.id,
-        projectId: updatedInvoice.projectId,
-        clientId: updatedInvoice.clientId
+        clientId: null,
+        projectId: null
       });
-      
-      res.json(updatedInvoice);
+
+      res.status(201).json(invitation);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
       }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/companies/current/members/:userId", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const invoice = await storage.getInvoice(id);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const userId = parseInt(req.params.userId);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot remove yourself from the company" });
       }
-      
-      const deleted = await storage.deleteInvoice(id);
-      
-      if (deleted) {
-        // Create activity for invoice deletion
-        await storage.createActivity({
-          type: "invoice_deleted",
-          description: `Factura ${invoice.invoiceNumber} eliminada`,
-          userId: req.user!.id,
-          projectId: invoice.projectId,
-          clientId: invoice.clientId
-        });
-        
-        res.sendStatus(204);
-      } else {
-        res.status(500).json({ message: "Failed to delete invoice" });
+
+      const user = await findCompanyUser(req, userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // Someone with nowhere else to work should be deactivated instead
+      const companies = await storage.getUserCompanies(userId);
+      if (companies.length <= 1) {
+        return res.status(400).json({ message: "This is the user's only company. Deactivate the account instead." });
       }
+
+      await storage.removeCompanyUser(getCurrentCompanyId(), userId);
+
+      await storage.createActivity({
+        type: "company_member_removed",
+        description: `User ${user.name} removed from the company`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.json({ message: "User removed from the company" });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Settings routes for Google Calendar integration
-  app.get("/api/settings", isAuthenticated, async (req, res) => {
+  app.get("/api/companies/current/invitations", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const settings = await storage.getSettings();
-      res.json(settings);
+      const invitations = await storage.getCompanyInvitations(getCurrentCompanyId());
+      res.json(invitations);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/settings/:key", isAuthenticated, async (req, res) => {
+  app.delete("/api/companies/current/invitations/:id", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const setting = await storage.getSetting(req.params.key);
-      if (!setting) {
-        return res.status(404).json({ message: "Setting not found" });
+      const invitation = await storage.getCompanyInvitation(parseInt(req.params.id));
+      if (!invitation || invitation.companyId !== getCurrentCompanyId()) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
-      res.json(setting);
+
+      await storage.deleteCompanyInvitation(invitation.id);
+      res.json({ message: "Invitation cancelled" });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/settings", isAuthenticated, async (req, res) => {
-    try {
-      const settingData = insertSettingsSchema.parse(req.body);
-      
-      // Check if setting already exists
-      const existingSetting = await storage.getSetting(settingData.key);
-      if (existingSetting) {
-        // Update existing setting
-        const updated = await storage.updateSetting(settingData.key, settingData.value);
-        return res.json(updated);
-      }
-      
-      // Create new setting
-      const newSetting = await storage.createSetting(settingData);
-      res.status(201).json(newSetting);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid setting data", errors: error.errors });
-      }
+  // Invitations to other companies waiting for the logged-in user
+  app.get("/api/invitations", isAuthenticated, async (req, res) => {
+    try {
+      const invitations = await storage.getUserInvitations(req.user!.id);
+      res.json(invitations);
+    } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put("/api/settings/:key", isAuthenticated, async (req, res) => {
+  app.post("/api/invitations/:id/accept", isAuthenticated, async (req, res) => {
     try {
-      const { value } = req.body;
-      const updated = await storage.updateSetting(req.params.key, value);
-      
-      if (!updated) {
-        return res.status(404).json({ message: "Setting not found" });
+      const invitation = await storage.getCompanyInvitation(parseInt(req.params.id));
+      if (!invitation || invitation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
-      
-      res.json(updated);
+
+      const accepted = await storage.acceptCompanyInvitation(invitation.id);
+      if (!accepted) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const companies = await getUserCompanies(req.user!);
+      res.json(companies.find(({ id }) => id === accepted.companyId));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/settings/:key", isAuthenticated, async (req, res) => {
+  app.post("/api/invitations/:id/decline", isAuthenticated, async (req, res) => {
     try {
-      const deleted = await storage.deleteSetting(req.params.key);
-      
-      if (deleted) {
-        res.sendStatus(204);
-      } else {
-        res.status(404).json({ message: "Setting not found" });
+      const invitation = await storage.getCompanyInvitation(parseInt(req.params.id));
+      if (!invitation || invitation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
+
+      await storage.deleteCompanyInvitation(invitation.id);
+      res.json({ message: "Invitation declined" });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Google Calendar Integration endpoints
-  app.post("/api/settings/google-calendar/connect", isAuthenticated, async (req, res) => {
+  // User management routes (admins only)
+  const userRoleSchema = z.enum([...USER_ROLES, SUPERADMIN_ROLE]);
+  const createUserSchema = insertUserSchema.extend({
+    password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+    role: userRoleSchema,
+    email: z.string().email().nullable().optional(),
+  });
+  const updateUserSchema = createUserSchema.omit({ password: true, username: true }).partial();
+
+  app.get("/api/users", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const { clientId, clientSecret, redirectUri, calendarId, syncEnabled, syncInterval, autoCreateEvents, eventPrefix, reminderMinutes } = req.body;
-      
-      // Save Google Calendar settings
-      const calendarSettings = {
-        clientId,
-        clientSecret,
-        redirectUri,
-        calendarId: calendarId || 'primary',
-        syncEnabled,
-        syncInterval,
-        autoCreateEvents,
-        eventPrefix,
-        reminderMinutes
-      };
-      
-      await storage.updateSetting('google_calendar_settings', calendarSettings);
-      
-      res.json({ 
-        message: "Google Calendar settings saved successfully",
-        settings: calendarSettings 
-      });
+      const users = await storage.getCompanyUsers(getCurrentCompanyId());
+      res.json(users.map(sanitizeUser));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/settings/google-calendar/test", isAuthenticated, async (req, res) => {
+  app.get("/api/users/:id", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const settings = await storage.getSetting('google_calendar_settings');
-      
-      if (!settings || !settings.value) {
-        return res.status(400).json({ message: "Google Calendar not configured" });
-      }
-      
-      const calendarSettings = settings.value as any;
-      
-      // Test Google Calendar connection
-      const auth = new google.auth.OAuth2(
-        calendarSettings.clientId,
-        calendarSettings.clientSecret,
-        calendarSettings.redirectUri
-      );
-      
-      // For testing, we'll just verify the credentials format
-      if (!calendarSettings.clientId || !calendarSettings.clientSecret) {
-        return res.status(400).json({ message: "Invalid Google Calendar credentials" });
+      const user = await findCompanyUser(req, parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json({ 
-        message: "Google Calendar connection test successful",
-        status: "connected"
-      });
+      res.json(sanitizeUser(user));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/settings/google-calendar/sync", isAuthenticated, async (req, res) => {
+  app.post("/api/users", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const settings = await storage.getSetting('google_calendar_settings');
-      
-      if (!settings || !settings.value) {
-        return res.status(400).json({ message: "Google Calendar not configured" });
+      const userData = createUserSchema.parse(req.body);
+
+      if (userData.role === SUPERADMIN_ROLE && req.user!.role !== SUPERADMIN_ROLE) {
+        return res.status(403).json({ message: "Only superadmin can create superadmin accounts" });
       }
-      
-      const calendarSettings = settings.value as any;
-      
-      if (!calendarSettings.syncEnabled) {
-        return res.status(400).json({ message: "Google Calendar sync is disabled" });
+
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
       }
-      
-      // Get upcoming service orders to sync
-      const serviceOrders = await storage.getServiceOrders();
-      const upcomingOrders = serviceOrders.filter(order => 
-        order.startDate && new Date(order.startDate) > new Date()
-      );
-      
-      // For now, simulate sync without actual Google Calendar API calls
-      // In production, this would create/update calendar events
-      
-      res.json({ 
-        message: "Calendar sync completed successfully",
-        eventsCreated: upcomingOrders.length,
-        syncedOrders: upcomingOrders.length
+
+      // The role is per company; only superadmin is an account-wide role
+      const user = await storage.createUser({
+        ...userData,
+        role: userData.role === SUPERADMIN_ROLE ? SUPERADMIN_ROLE : DEFAULT_USER_ROLE,
+        password: await hashPassword(userData.password),
+      });
+      if (userData.role !== SUPERADMIN_ROLE) {
+        await storage.setCompanyUserRole(getCurrentCompanyId(), user.id, userData.role);
+      }
+
+      await storage.createActivity({
+        type: "user_created",
+        description: `User ${user.name} invited as ${userData.role}`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
       });
+
+      res.status(201).json(sanitizeUser({ ...user, role: userData.role }));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post("/api/settings/general", isAuthenticated, async (req, res) => {
+  app.put("/api/users/:id", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const { companyName, language, timezone, currency, dateFormat, defaultQuoteValidDays, emailNotifications, smsNotifications } = req.body;
-      
-      const generalSettings = {
-        companyName,
-        language,
-        timezone,
-        currency,
-        dateFormat,
-        defaultQuoteValidDays,
-        emailNotifications,
-        smsNotifications
-      };
-      
-      await storage.updateSetting('general_settings', generalSettings);
-      
-      res.json({ 
-        message: "General settings saved successfully",
-        settings: generalSettings 
+      const id = parseInt(req.params.id);
+      const { role, ...accountData } = updateUserSchema.parse(req.body);
+
+      const existingUser = await findCompanyUser(req, id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Admins cannot lock themselves out
+      if (id === req.user!.id && (accountData.active === false || (role && role !== existingUser.role))) {
+        return res.status(400).json({ message: "You cannot deactivate your own account or change your own role" });
+      }
+
+      if ((role === SUPERADMIN_ROLE || existingUser.role === SUPERADMIN_ROLE) && req.user!.role !== SUPERADMIN_ROLE) {
+        return res.status(403).json({ message: "Only superadmin can manage superadmin accounts" });
+      }
+
+      // Everything but the role is shared with the user's other companies. The
+      // edit form sends every field, so only the ones that change count.
+      const accountChanges: Partial<typeof accountData> = Object.fromEntries(
+        Object.entries(accountData).filter(([field, value]) => existingUser[field as keyof typeof accountData] !== value),
+      );
+      if (Object.keys(accountChanges).length > 0) {
+        const refusal = await accountChangeError(req, existingUser);
+        if (refusal) {
+          return res.status(403).json({ message: refusal });
+        }
+      }
+
+      // Only superadmin is an account-wide role; any other role belongs to
+      // this company's membership
+      let accountRole: string | undefined;
+      if (role === SUPERADMIN_ROLE) {
+        accountRole = role;
+      } else if (role && existingUser.role === SUPERADMIN_ROLE) {
+        accountRole = DEFAULT_USER_ROLE;
+      }
+      const userChanges = accountRole ? { ...accountChanges, role: accountRole } : accountChanges;
+      const updatedUser = Object.keys(userChanges).length > 0
+        ? await storage.updateUser(id, userChanges)
+        : existingUser;
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (role && role !== SUPERADMIN_ROLE) {
+        await storage.setCompanyUserRole(getCurrentCompanyId(), id, role);
+      }
+
+      let description = `User ${updatedUser.name} updated`;
+      if (accountChanges.active === false) {
+        // Sign them out everywhere right away rather than on their next request
+        await storage.deleteUserSessions(id);
+        description = `User ${updatedUser.name} deactivated`;
+      } else if (accountChanges.active === true) {
+        description = `User ${updatedUser.name} reactivated`;
+      }
+
+      await storage.createActivity({
+        type: "user_updated",
+        description,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
       });
+
+      res.json(sanitizeUser({ ...updatedUser, role: role ?? existingUser.role }));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Lead routes (public - no auth required for creating leads from contact form)
-  app.post("/api/leads", async (req, res) => {
+  app.post("/api/users/:id/reset-password", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const leadData = insertLeadSchema.parse(req.body);
-      const lead = await storage.createLead(leadData);
-      res.status(201).json(lead);
+      const id = parseInt(req.params.id);
+      const { password } = z.object({
+        password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+      }).parse(req.body);
+
+      const existingUser = await findCompanyUser(req, id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const refusal = await accountChangeError(req, existingUser);
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
+      }
+
+      await storage.updateUser(id, { password: await hashPassword(password) });
+
+      await storage.createActivity({
+        type: "password_reset",
+        description: `Password reset for user ${existingUser.name}`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.json({ message: "Password reset successfully" });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid password", errors: error.errors });
       }
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Protected lead routes (for management dashboard)
-  app.get("/api/leads", isAuthenticated, async (req, res) => {
+  app.get("/api/users/:id/sessions", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const leads = await storage.getLeads();
-      res.json(leads);
+      const id = parseInt(req.params.id);
+      if (!(await findCompanyUser(req, id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const sessions = await storage.getUserSessions(id);
+      res.json(sessions.map((row) => toSessionInfo(row, req.sessionID)));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get("/api/leads/:id", isAuthenticated, async (req, res) => {
+  // Signs a user out on every device, e.g. when they leave the company or lose a tablet
+  app.delete("/api/users/:id/sessions", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const lead = await storage.getLead(parseInt(req.params.id));
-      if (!lead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const id = parseInt(req.params.id);
+      const existingUser = await findCompanyUser(req, id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(lead);
+      const refusal = await accountChangeError(req, existingUser);
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
+      }
+
+      // Keep the admin's own session when they sign themselves out elsewhere
+      const revoked = await storage.deleteUserSessions(id, id === req.user!.id ? req.sessionID : undefined);
+
+      await storage.createActivity({
+        type: "sessions_revoked",
+        description: `Signed out ${revoked} session(s) for user ${existingUser.name}`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.json({ message: "Sessions signed out successfully", revoked });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put("/api/leads/:id", isAuthenticated, async (req, res) => {
+  // Turns off 2FA for a user who lost their authenticator and backup codes;
+  // they will be asked to enroll again if their role requires it
+  app.post("/api/users/:id/reset-2fa", isAuthenticated, authorize("users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const leadData = insertLeadSchema.partial().parse(req.body);
-      const updatedLead = await storage.updateLead(id, leadData);
-      
-      if (!updatedLead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const existingUser = await findCompanyUser(req, id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json(updatedLead);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
+      const refusal = await accountChangeError(req, existingUser);
+      if (refusal) {
+        return res.status(403).json({ message: refusal });
       }
+
+      await storage.updateUserTwoFactor(id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpBackupCodes: null,
+        totpLastUsedStep: null,
+      });
+
+      await storage.createActivity({
+        type: "two_factor_reset",
+        description: `Two-factor authentication reset for user ${existingUser.name}`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.json({ message: "Two-factor authentication reset successfully" });
+    } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete("/api/leads/:id", isAuthenticated, async (req, res) => {
+  // Security routes: refused logins and contact-form submissions
+  app.get("/api/security/blocked-attempts", isAuthenticated, authorize("users"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteLead(id);
-      
-      if (!deleted) {
-        return res.status(404).json({ message: "Lead not found" });
+      const attempts = await storage.getBlockedAttempts();
+      res.json(attempts);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/security/lockouts", isAuthenticated, authorize("users"), async (req, res) => {
+    try {
+      res.json(limiters.flatMap((limiter) => limiter.lockouts()));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/security/lockouts/clear", isAuthenticated, authorize("users"), async (req, res) => {
+    try {
+      const { limiter: limiterName, key } = z.object({
+        limiter: z.string(),
+        key: z.string(),
+      }).parse(req.body);
+
+      const limiter = limiters.find((candidate) => candidate.name === limiterName);
+      if (!limiter) {
+        return res.status(404).json({ message: "Lockout not found" });
       }
-      
-      res.json({ message: "Lead deleted successfully" });
+      limiter.reset(key);
+
+      await storage.createActivity({
+        type: "lockout_cleared",
+        description: `Lockout cleared for ${key}`,
+        userId: req.user!.id,
+        clientId: null,
+        projectId: null
+      });
+
+      res.json({ message: "Lockout cleared successfully" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lockout data", errors: error.errors });
+      }
       res.status(500).json({ message: (error as Error).message });
     }
   });
@@ -2565,6 +4748,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lists accounts still stored with the placeholder password scheme.
+  // These are upgraded on their next login; anything left here never logged in since.
+  app.get("/api/admin/legacy-passwords", isAuthenticated, async (req, res) => {
+    try {
+      if (req.user!.role !== "superadmin") {
+        return res.status(403).json({ message: "Only superadmin can perform this action" });
+      }
+
+      const users = await storage.getUsers();
+      const legacyUsers = users
+        .filter(user => isLegacyPasswordHash(user.password))
+        .map(({ password, ...user }) => user);
+
+      res.json({
+        count: legacyUsers.length,
+        users: legacyUsers
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Spreadsheet import and export for the client, supplier, subcontractor and staff lists.
+  // The wizard uploads a file to /parse, maps its columns, then posts the mapped
+  // rows as a dry run before importing them.
+  const importRequestSchema = z.object({
+    rows: z.array(z.record(z.string())).max(MAX_IMPORT_ROWS),
+    dryRun: z.boolean().default(true),
+    includeDuplicates: z.boolean().default(false),
+  });
+
+  for (const entity of IMPORT_ENTITIES) {
+    app.post(`/api/import/${entity}/parse`, isAuthenticated, authorize(entity), async (req, res) => {
+      try {
+        const { fileName, content } = z.object({
+          fileName: z.string(),
+          content: z.string(), // base64
+        }).parse(req.body);
+        res.json(await parseSpreadsheet(fileName, Buffer.from(content, "base64")));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid file upload", errors: error.errors });
+        }
+        res.status(400).json({ message: `The file could not be read: ${(error as Error).message}` });
+      }
+    });
+
+    app.post(`/api/import/${entity}`, isAuthenticated, authorize(entity), async (req, res) => {
+      try {
+        const { rows, dryRun, includeDuplicates } = importRequestSchema.parse(req.body);
+        const result = await runImport(entity, rows, { dryRun, includeDuplicates });
+        if (!result.dryRun && result.imported > 0) {
+          await storage.createActivity({
+            type: `${entity}_imported`,
+            description: `Imported ${result.imported} ${IMPORT_ENTITY_LABELS[entity].toLowerCase()} from a spreadsheet`,
+            userId: req.user!.id,
+            projectId: null,
+            clientId: null,
+          });
+        }
+        res.json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid import data", errors: error.errors });
+        }
+        res.status(500).json({ message: (error as Error).message });
+      }
+    });
+
+    app.get(`/api/export/${entity}`, isAuthenticated, authorize(entity), async (req, res) => {
+      try {
+        const format = req.query.format === "csv" ? "csv" : "xlsx";
+        const { headers, rows } = await getExportRows(entity);
+        const file = await buildSpreadsheet(format, IMPORT_ENTITY_LABELS[entity], headers, rows);
+        const date = new Date().toISOString().slice(0, 10);
+        res.setHeader("Content-Type", SPREADSHEET_CONTENT_TYPES[format]);
+        res.setHeader("Content-Disposition", `attachment; filename="${entity}-${date}.${format}"`);
+        res.send(file);
+      } catch (error) {
+        res.status(500).json({ message: (error as Error).message });
+      }
+    });
+  }
+
   const httpServer = createServer(app);
   return httpServer;
 }
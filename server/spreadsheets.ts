@@ -0,0 +1,97 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import { MAX_IMPORT_ROWS, type ParsedSpreadsheet } from "@shared/imports";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Text starting with one of these is read as a formula when a CSV is opened
+// in Excel, so such cells get a leading apostrophe (CSV formula injection)
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+function escapeCsvFormula(value: string | number | null | undefined) {
+  return typeof value === "string" && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+}
+
+function unescapeCsvFormula(value: string) {
+  return value.startsWith("'") && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix, 1)) ? value.slice(1) : value;
+}
+
+function cellText(cell: ExcelJS.Cell) {
+  return (cell.text ?? "").trim();
+}
+
+/**
+ * Reads the first sheet of a .csv or .xlsx file. The first row holds the
+ * column headers; blank rows are dropped.
+ */
+export async function parseSpreadsheet(fileName: string, content: Buffer): Promise<ParsedSpreadsheet> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    // Excel saves CSV files with a byte order mark
+    const text = content.toString("utf8").replace(/^\uFEFF/, "");
+    // Cells are kept as typed; by default ZIP codes like 00123 would become numbers.
+    // The apostrophe exports put before formula-like text is dropped again.
+    worksheet = await workbook.csv.read(Readable.from([text]), { map: unescapeCsvFormula });
+  } else if (fileName.toLowerCase().endsWith(".xlsx")) {
+    await workbook.xlsx.load(content as unknown as ExcelJS.Buffer);
+    worksheet = workbook.worksheets[0];
+  } else {
+    throw new Error("Only .csv and .xlsx files can be imported");
+  }
+  if (!worksheet) {
+    throw new Error("The file has no sheets");
+  }
+
+  const columnCount = worksheet.columnCount;
+  const readRow = (row: ExcelJS.Row) =>
+    Array.from({ length: columnCount }, (_, i) => cellText(row.getCell(i + 1)));
+
+  const allRows: string[][] = [];
+  worksheet.eachRow((row) => {
+    allRows.push(readRow(row));
+  });
+  const [headers = [], ...dataRows] = allRows;
+  const rows = dataRows.filter((row) => row.some(Boolean));
+
+  if (headers.length === 0) {
+    throw new Error("The file is empty");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Files can have at most ${MAX_IMPORT_ROWS} rows; split the file and import each part`);
+  }
+  return { headers, rows };
+}
+
+/**
+ * One sheet with a header row and a row per record.
+ */
+export async function buildSpreadsheet(
+  format: SpreadsheetFormat,
+  sheetName: string,
+  headers: string[],
+  rows: (string | number | null | undefined)[][],
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.addRow(headers).font = { bold: true };
+  // xlsx keeps text cells as text; only CSV needs escaping
+  const cell = format === "csv" ? escapeCsvFormula : (value: string | number | null | undefined) => value;
+  rows.forEach((row) => worksheet.addRow(row.map((value) => cell(value) ?? "")));
+  worksheet.columns.forEach((column, i) => {
+    const longest = Math.max(...[headers[i], ...rows.map((row) => String(row[i] ?? ""))].map((value) => value.length));
+    column.width = Math.min(Math.max(longest + 2, 10), 60);
+  });
+
+  if (format === "csv") {
+    const csv = Buffer.from(await workbook.csv.writeBuffer());
+    // The byte order mark makes Excel open the file as UTF-8
+    return Buffer.concat([Buffer.from("\uFEFF", "utf8"), csv]);
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -1,17 +1,211 @@
-import { users, type User, type InsertUser, InsertClient, Client, clients, Project, projects, InsertProject, Quote, quotes, InsertQuote, ServiceOrder, serviceOrders, InsertServiceOrder, Staff, staff, InsertStaff, Activity, activities, InsertActivity, subcontractors, Subcontractor, InsertSubcontractor, invoices, Invoice, InsertInvoice, suppliers, Supplier, InsertSupplier, payments, Payment, InsertPayment, purchaseOrders, PurchaseOrder, InsertPurchaseOrder, purchaseOrderItems, PurchaseOrderItem, InsertPurchaseOrderItem, extendedInsertPurchaseOrderItemSchema, settings, Setting, InsertSetting, leads, Lead, InsertLead } from "@shared/schema";
+import { users, type User, type InsertUser, type UserTwoFactor, InsertClient, Client, clients, Project, projects, InsertProject, Quote, quotes, InsertQuote, ServiceOrder, serviceOrders, InsertServiceOrder, Staff, staff, InsertStaff, Activity, activities, InsertActivity, subcontractors, Subcontractor, InsertSubcontractor, invoices, Invoice, InsertInvoice, suppliers, Supplier, InsertSupplier, payments, Payment, InsertPayment, purchaseOrders, PurchaseOrder, InsertPurchaseOrder, purchaseOrderItems, PurchaseOrderItem, InsertPurchaseOrderItem, extendedInsertPurchaseOrderItemSchema, settings, Setting, InsertSetting, leads, Lead, InsertLead, passwordResetTokens, PasswordResetToken, InsertPasswordResetToken, blockedAttempts, BlockedAttempt, InsertBlockedAttempt, session as sessions, UserSession, auditLogs, AuditLogEntry, AuditEntityType, AuditAction, apiTokens, ApiToken, InsertApiToken, companies, Company, InsertCompany, companyUsers, CompanyMembership, companyInvitations, CompanyInvitation, InsertCompanyInvitation, CompanyInvitationEntry, clientContacts, ClientContact, InsertClientContact, clientProperties, ClientProperty, InsertClientProperty, portalTokens, PortalToken, InsertPortalToken, communications, Communication, InsertCommunication, CommunicationEntry, clientSegments, ClientSegment, InsertClientSegment, estimateVisits, EstimateVisit, InsertEstimateVisit, projectTasks, ProjectTask, InsertProjectTask, changeOrders, ChangeOrder, InsertChangeOrder, ChangeOrderApproval, punchListItems, PunchListItem, InsertPunchListItem, PunchListSignOff } from "@shared/schema";
 import createMemoryStore from "memorystore";
 import session from "express-session";
 import { db } from "./db";
-import { eq, and, desc, gte, lte } from "drizzle-orm";
+import { eq, and, or, asc, desc, gt, gte, lte, isNull, ne, sql, inArray, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { diffRecords, getAuditActor, type AuditChanges } from "./audit";
+import { getCurrentCompanyId } from "./request-context";
+import { SUPERADMIN_ROLE } from "@shared/permissions";
+import { LEGACY_LEAD_STATUSES } from "@shared/lead-pipeline";
+import { projectProgress } from "@shared/project-tasks";
+import { normalizeTags } from "@shared/client-segments";
+import { changeOrderReference, contractValue } from "@shared/change-orders";
+
+export type AuditLogFilters = {
+  entityType?: string;
+  entityId?: number;
+  userId?: number;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
+
+export type CommunicationFilters = {
+  clientId?: number;
+  leadId?: number;
+  projectId?: number;
+  quoteId?: number;
+};
+
+// How many records of each kind moved to the surviving client
+export type ClientMergeResult = {
+  client: Client;
+  moved: { projects: number; invoices: number; activities: number; communications: number; payments: number; contacts: number; properties: number; estimateVisits: number };
+};
+
+// Project fields the status workflow and the task list set rather than the request
+export type ProjectRecord = InsertProject & {
+  completedDate?: Date | null;
+  progress?: number | null;
+  walkthroughSignedBy?: string | null;
+  walkthroughSignature?: string | null;
+  walkthroughSignedAt?: Date | null;
+};
+
+// A card payment confirmed by Stripe for an invoice paid from the client portal
+export type OnlinePayment = {
+  amount: string;
+  date: Date;
+  paymentMethod: string;
+  transactionId: string;
+};
+
+// Change order fields the API derives rather than takes from the request
+export type ChangeOrderRecord = InsertChangeOrder & {
+  quoteId?: number | null;
+  priceDelta: string;
+  createdBy?: number | null;
+};
+
+// Change order fields set as it is answered and billed
+export type ChangeOrderUpdate = Partial<ChangeOrderRecord> & {
+  status?: string;
+  rejectedAt?: Date | null;
+  invoiceId?: number | null;
+};
+
+// Punch list item fields set as it is recorded, fixed or waived
+export type PunchListItemRecord = InsertPunchListItem & {
+  status?: string;
+  resolutionPhoto?: string | null;
+  resolvedAt?: Date | null;
+  resolvedBy?: number | null;
+  createdBy?: number | null;
+};
+
+// Task fields set when a task is ticked off or moved
+export type ProjectTaskRecord = InsertProjectTask & {
+  position?: number;
+  completedAt?: Date | null;
+  completedBy?: number | null;
+};
+
+// Lead fields the API derives rather than takes from the request
+export type LeadRecord = InsertLead & {
+  marketingSource?: string | null;
+  score?: number;
+  contactedAt?: Date | null;
+  stageChangedAt?: Date;
+};
+
+// What lead conversion creates. Without `clientId` the client is created
+// from `client`; the visit is optional.
+export type LeadConversion = {
+  clientId: number | null;
+  client: InsertClient;
+  project: Omit<InsertProject, "clientId">;
+  visit: Omit<InsertEstimateVisit, "projectId" | "clientId" | "address"> | null;
+  lead: Partial<LeadRecord>; // stage and contact time after conversion
+};
+
+export type LeadConversionResult = {
+  lead: Lead;
+  client: Client;
+  project: Project;
+  visit: EstimateVisit | null;
+  clientCreated: boolean;
+  movedCommunications: number;
+};
+
+// What a project template creates along with the project
+export type ProjectTemplateSeed = {
+  tasks: Omit<ProjectTaskRecord, "projectId">[];
+  quote: Omit<InsertQuote, "projectId">;
+};
+
+// Records of one spreadsheet import, already validated
+export type ImportBatch =
+  | { entity: "clients"; records: InsertClient[] }
+  | { entity: "suppliers"; records: InsertSupplier[] }
+  | { entity: "subcontractors"; records: InsertSubcontractor[] }
+  | { entity: "staff"; records: InsertStaff[] };
+
+// Recorded when a client approves a quote in the portal
+export type QuoteSignature = {
+  signedBy: string;
+  signatureData: string;
+  signedIp: string | null;
+};
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Business tables carry a company_id. Every read and write below is limited to
+// the company of the current request (see request-context.ts).
+function inCompany(table: { companyId: AnyPgColumn }) {
+  return eq(table.companyId, getCurrentCompanyId());
+}
+
+function withCompany<T extends object>(values: T) {
+  return { ...values, companyId: getCurrentCompanyId() };
+}
+
+// Purchase order items have no company of their own; they follow their order
+function purchaseOrderItemInCompany() {
+  return inArray(
+    purchaseOrderItems.purchaseOrderId,
+    db.select({ id: purchaseOrders.id }).from(purchaseOrders).where(inCompany(purchaseOrders)),
+  );
+}
 
 // Storage interface
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  createFirstUser(user: InsertUser, companyId: number): Promise<User | undefined>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  updateUserTwoFactor(id: number, twoFactor: Partial<UserTwoFactor>): Promise<User | undefined>;
+  
+  // Company methods
+  getCompanies(): Promise<Company[]>;
+  getCompany(id: number): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company | undefined>;
+  allocateInvoiceNumber(): Promise<string>;
+  getUserCompanies(userId: number): Promise<CompanyMembership[]>;
+  getCompanyUsers(companyId: number): Promise<User[]>;
+  setCompanyUserRole(companyId: number, userId: number, role: string): Promise<void>;
+  removeCompanyUser(companyId: number, userId: number): Promise<boolean>;
+  getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined>;
+  getCompanyInvitations(companyId: number): Promise<CompanyInvitationEntry[]>;
+  getUserInvitations(userId: number): Promise<CompanyInvitationEntry[]>;
+  createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation>;
+  acceptCompanyInvitation(id: number): Promise<CompanyInvitation | undefined>;
+  deleteCompanyInvitation(id: number): Promise<boolean>;
+  assignUnscopedRecords(companyId: number): Promise<void>;
+  
+  // Password reset token methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+  
+  // API token methods
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+  deleteUserApiTokens(userId: number): Promise<number>;
+  touchApiToken(id: number, ip: string | null): Promise<void>;
+  
+  // Login session methods (rows written by connect-pg-simple)
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+  
+  // Audit log methods (entries are written by the create/update/delete methods themselves)
+  getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogEntry[]>;
+  
+  // Blocked attempt methods
+  getBlockedAttempts(limit?: number): Promise<BlockedAttempt[]>;
+  createBlockedAttempt(attempt: InsertBlockedAttempt): Promise<BlockedAttempt>;
   
   // Client methods
   getClients(): Promise<Client[]>;
@@ -19,6 +213,39 @@ export interface IStorage {
   createClient(client: InsertClient): Promise<Client>;
   updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined>;
   deleteClient(id: number): Promise<boolean>;
+  mergeClients(survivorId: number, duplicateId: number): Promise<ClientMergeResult | undefined>;
+  
+  // Client contact and property methods
+  getClientContacts(clientId: number): Promise<ClientContact[]>;
+  getClientContact(id: number): Promise<ClientContact | undefined>;
+  getBillingContact(clientId: number): Promise<ClientContact | undefined>;
+  createClientContact(contact: InsertClientContact): Promise<ClientContact>;
+  updateClientContact(id: number, contact: Partial<InsertClientContact>): Promise<ClientContact | undefined>;
+  deleteClientContact(id: number): Promise<boolean>;
+  getClientProperties(clientId: number): Promise<ClientProperty[]>;
+  getClientProperty(id: number): Promise<ClientProperty | undefined>;
+  createClientProperty(property: InsertClientProperty): Promise<ClientProperty>;
+  updateClientProperty(id: number, property: Partial<InsertClientProperty>): Promise<ClientProperty | undefined>;
+  deleteClientProperty(id: number): Promise<boolean>;
+  backfillClientContactsAndProperties(): Promise<void>;
+  backfillLeadStages(): Promise<void>;
+  
+  // Client portal methods
+  // Tokens and the email lookup are not limited to the current company: a
+  // portal login starts before the company is known
+  findPortalClientsByEmail(email: string): Promise<Client[]>;
+  createPortalToken(token: InsertPortalToken, companyId: number): Promise<PortalToken>;
+  getPortalTokenByHash(tokenHash: string): Promise<PortalToken | undefined>;
+  markPortalTokenUsed(id: number): Promise<boolean>;
+  invalidatePortalTokens(clientId: number): Promise<void>;
+  
+  // Client tag and segment methods
+  getClientTags(): Promise<string[]>;
+  getClientSegments(): Promise<ClientSegment[]>;
+  getClientSegment(id: number): Promise<ClientSegment | undefined>;
+  createClientSegment(segment: InsertClientSegment & { createdBy: number | null }): Promise<ClientSegment>;
+  updateClientSegment(id: number, segment: Partial<InsertClientSegment>): Promise<ClientSegment | undefined>;
+  deleteClientSegment(id: number): Promise<boolean>;
   
   // Project methods
   getProjects(): Promise<Project[]>;
@@ -26,15 +253,43 @@ export interface IStorage {
   getProjectsByClient(clientId: number): Promise<Project[]>;
   getProjectsByStatus(status: string): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
+  createProjectFromTemplate(project: InsertProject, seed: ProjectTemplateSeed): Promise<{ project: Project; tasks: ProjectTask[]; quote: Quote }>;
+  updateProject(id: number, project: Partial<ProjectRecord>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
   
+  // Project task methods
+  getProjectTasks(projectId: number): Promise<ProjectTask[]>;
+  getProjectTask(id: number): Promise<ProjectTask | undefined>;
+  createProjectTask(task: ProjectTaskRecord): Promise<ProjectTask>;
+  updateProjectTask(id: number, task: Partial<ProjectTaskRecord>): Promise<ProjectTask | undefined>;
+  deleteProjectTask(id: number): Promise<boolean>;
+  reorderProjectTasks(projectId: number, taskIds: number[]): Promise<ProjectTask[]>;
+  
+  // Change order methods
+  getChangeOrdersByProject(projectId: number): Promise<ChangeOrder[]>;
+  getChangeOrder(id: number): Promise<ChangeOrder | undefined>;
+  getUnbilledChangeOrders(projectId: number): Promise<ChangeOrder[]>;
+  createChangeOrder(changeOrder: ChangeOrderRecord): Promise<ChangeOrder>;
+  updateChangeOrder(id: number, changeOrder: ChangeOrderUpdate): Promise<ChangeOrder | undefined>;
+  approveChangeOrder(id: number, approval: ChangeOrderApproval): Promise<{ changeOrder: ChangeOrder; project: Project; contractValue: number } | undefined>;
+  deleteChangeOrder(id: number): Promise<boolean>;
+  
+  // Punch list methods
+  getPunchListItems(projectId: number): Promise<PunchListItem[]>;
+  getPunchListItem(id: number): Promise<PunchListItem | undefined>;
+  createPunchListItem(item: PunchListItemRecord): Promise<PunchListItem>;
+  updatePunchListItem(id: number, item: Partial<PunchListItemRecord>): Promise<PunchListItem | undefined>;
+  deletePunchListItem(id: number): Promise<boolean>;
+  signOffPunchList(projectId: number, signOff: PunchListSignOff): Promise<{ project: Project; waived: PunchListItem[] } | undefined>;
+  
   // Quote methods
   getQuotes(): Promise<Quote[]>;
   getQuote(id: number): Promise<Quote | undefined>;
   getQuoteByProject(projectId: number): Promise<Quote | undefined>;
+  getQuotesByClient(clientId: number): Promise<Quote[]>;
   createQuote(quote: InsertQuote): Promise<Quote>;
   updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+  signQuote(id: number, signature: QuoteSignature): Promise<Quote | undefined>;
   deleteQuote(id: number): Promise<boolean>;
   
   // Service Order methods
@@ -60,6 +315,16 @@ export interface IStorage {
   getActivitiesByUser(userId: number): Promise<Activity[]>;
   createActivity(activity: InsertActivity): Promise<Activity>;
   
+  // Communication methods
+  getCommunications(filters: CommunicationFilters): Promise<CommunicationEntry[]>;
+  getCommunication(id: number): Promise<Communication | undefined>;
+  getDueFollowUps(dueBy: Date, userId?: number): Promise<CommunicationEntry[]>;
+  getLastContactDates(): Promise<Map<number, Date>>;
+  createCommunication(communication: InsertCommunication & { userId: number | null }): Promise<Communication>;
+  updateCommunication(id: number, communication: Partial<InsertCommunication> & { followUpDoneAt?: Date | null }): Promise<Communication | undefined>;
+  deleteCommunication(id: number): Promise<boolean>;
+  createCommunications(records: (InsertCommunication & { userId: number | null })[]): Promise<number>;
+  
   // Subcontractor methods
   getSubcontractors(): Promise<Subcontractor[]>;
   getSubcontractor(id: number): Promise<Subcontractor | undefined>;
@@ -75,8 +340,9 @@ export interface IStorage {
   getInvoicesByStatus(status: string): Promise<Invoice[]>;
   getInvoicesByDateRange(startDate: Date, endDate: Date): Promise<Invoice[]>;
   getInvoiceCount(): Promise<number>;
-  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  createInvoice(invoice: InsertInvoice, changeOrderIds?: number[]): Promise<Invoice>;
   updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+  recordOnlinePayment(id: number, payment: OnlinePayment): Promise<Invoice | undefined>;
   deleteInvoice(id: number): Promise<boolean>;
   
   // Supplier methods
@@ -87,6 +353,9 @@ export interface IStorage {
   updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
   deleteSupplier(id: number): Promise<boolean>;
   
+  // Spreadsheet import methods
+  importRecords(batch: ImportBatch): Promise<number>;
+  
   // Payment methods
   getPayments(): Promise<Payment[]>;
   getPayment(id: number): Promise<Payment | undefined>;
@@ -126,9 +395,13 @@ export interface IStorage {
   getLeads(): Promise<Lead[]>;
   getLead(id: number): Promise<Lead | undefined>;
   getLeadsByStatus(status: string): Promise<Lead[]>;
-  createLead(lead: InsertLead): Promise<Lead>;
-  updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined>;
+  createLead(lead: LeadRecord): Promise<Lead>;
+  updateLead(id: number, lead: Partial<LeadRecord>): Promise<Lead | undefined>;
   deleteLead(id: number): Promise<boolean>;
+  convertLead(id: number, conversion: LeadConversion): Promise<LeadConversionResult | undefined>;
+  
+  // Estimate visit methods
+  getEstimateVisits(): Promise<EstimateVisit[]>;
   
   // Admin methods
   resetDatabase(): Promise<{ success: boolean; message: string }>;
@@ -159,176 +432,1648 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async getUserByUsername(username: string): Promise<User | undefined> {
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.username, username));
+      return user;
+    } catch (error) {
+      console.error("Error fetching user by username:", error);
+      return undefined;
+    }
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.email, email));
+      return user;
+    } catch (error) {
+      console.error("Error fetching user by email:", error);
+      return undefined;
+    }
+  }
+  
+  async getUsers(): Promise<User[]> {
+    try {
+      return await db.select().from(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      return [];
+    }
+  }
+  
+  async createUser(user: InsertUser): Promise<User> {
+    try {
+      const [newUser] = await db.insert(users).values(user).returning();
+      await this.recordAudit("user", "create", null, newUser);
+      return newUser;
+    } catch (error) {
+      console.error("Error creating user:", error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Creates the account that owns a new install, as owner of the given
+   * company. The users table is locked while it is checked, so two sign-ups
+   * racing each other cannot both get in. Returns undefined once any account
+   * exists; database errors are thrown rather than read as "no users".
+   */
+  async createFirstUser(user: InsertUser, companyId: number): Promise<User | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.execute(sql`LOCK TABLE ${users} IN SHARE ROW EXCLUSIVE MODE`);
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+        if (count > 0) return undefined;
+
+        const [newUser] = await tx.insert(users).values(user).returning();
+        await tx.insert(companyUsers).values({ companyId, userId: newUser.id, role: newUser.role });
+        await this.recordAudit("user", "create", null, newUser, tx);
+        return newUser;
+      });
+    } catch (error) {
+      console.error("Error creating first user:", error);
+      throw error;
+    }
+  }
+  
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    try {
+      const existing = await this.getUser(id);
+      const [updatedUser] = await db
+        .update(users)
+        .set(user)
+        .where(eq(users.id, id))
+        .returning();
+      if (updatedUser) await this.recordAudit("user", "update", existing, updatedUser);
+      return updatedUser;
+    } catch (error) {
+      console.error("Error updating user:", error);
+      return undefined;
+    }
+  }
+  
+  async updateUserTwoFactor(id: number, twoFactor: Partial<UserTwoFactor>): Promise<User | undefined> {
+    try {
+      const existing = await this.getUser(id);
+      const [updatedUser] = await db
+        .update(users)
+        .set(twoFactor)
+        .where(eq(users.id, id))
+        .returning();
+      if (updatedUser) await this.recordAudit("user", "update", existing, updatedUser);
+      return updatedUser;
+    } catch (error) {
+      console.error("Error updating user two-factor settings:", error);
+      return undefined;
+    }
+  }
+  
+  // Company methods
+  async getCompanies(): Promise<Company[]> {
+    try {
+      return await db.select().from(companies).orderBy(companies.id);
+    } catch (error) {
+      console.error("Error fetching companies:", error);
+      return [];
+    }
+  }
+  
+  async getCompany(id: number): Promise<Company | undefined> {
+    try {
+      const [company] = await db.select().from(companies).where(eq(companies.id, id));
+      return company;
+    } catch (error) {
+      console.error("Error fetching company:", error);
+      return undefined;
+    }
+  }
+  
+  async createCompany(company: InsertCompany): Promise<Company> {
+    try {
+      const [newCompany] = await db.insert(companies).values(company).returning();
+      await this.recordAudit("company", "create", null, newCompany);
+      return newCompany;
+    } catch (error) {
+      console.error("Error creating company:", error);
+      throw error;
+    }
+  }
+  
+  async updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company | undefined> {
+    try {
+      const existing = await this.getCompany(id);
+      const [updatedCompany] = await db
+        .update(companies)
+        .set(company)
+        .where(eq(companies.id, id))
+        .returning();
+      if (updatedCompany) await this.recordAudit("company", "update", existing, updatedCompany);
+      return updatedCompany;
+    } catch (error) {
+      console.error("Error updating company:", error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Next invoice number of the current company, e.g. "INV-000042". The
+   * counter is bumped atomically; numbers already taken (invoices created
+   * before the counter existed) are skipped.
+   */
+  async allocateInvoiceNumber(): Promise<string> {
+    try {
+      while (true) {
+        const [company] = await db
+          .update(companies)
+          .set({ nextInvoiceNumber: sql`${companies.nextInvoiceNumber} + 1` })
+          .where(eq(companies.id, getCurrentCompanyId()))
+          .returning();
+        if (!company) throw new Error("Company not found");
+
+        const invoiceNumber = `${company.invoicePrefix}-${String(company.nextInvoiceNumber - 1).padStart(6, "0")}`;
+        const [taken] = await db
+          .select({ id: invoices.id })
+          .from(invoices)
+          .where(and(eq(invoices.invoiceNumber, invoiceNumber), inCompany(invoices)));
+        if (!taken) return invoiceNumber;
+      }
+    } catch (error) {
+      console.error("Error allocating invoice number:", error);
+      throw error;
+    }
+  }
+  
+  async getUserCompanies(userId: number): Promise<CompanyMembership[]> {
+    try {
+      const rows = await db
+        .select({ company: companies, role: companyUsers.role })
+        .from(companyUsers)
+        .innerJoin(companies, eq(companyUsers.companyId, companies.id))
+        .where(eq(companyUsers.userId, userId))
+        .orderBy(companies.id);
+      return rows.map((row) => ({ ...row.company, role: row.role }));
+    } catch (error) {
+      console.error("Error fetching user companies:", error);
+      return [];
+    }
+  }
+  
+  // Members of a company, with `role` set to their role in that company
+  async getCompanyUsers(companyId: number): Promise<User[]> {
+    try {
+      const rows = await db
+        .select({ user: users, role: companyUsers.role })
+        .from(companyUsers)
+        .innerJoin(users, eq(companyUsers.userId, users.id))
+        .where(eq(companyUsers.companyId, companyId))
+        .orderBy(users.id);
+      return rows.map((row) => ({ ...row.user, role: row.role }));
+    } catch (error) {
+      console.error("Error fetching company users:", error);
+      return [];
+    }
+  }
+  
+  async setCompanyUserRole(companyId: number, userId: number, role: string): Promise<void> {
+    try {
+      await db
+        .insert(companyUsers)
+        .values({ companyId, userId, role })
+        .onConflictDoUpdate({
+          target: [companyUsers.companyId, companyUsers.userId],
+          set: { role },
+        });
+    } catch (error) {
+      console.error("Error setting company user role:", error);
+      throw error;
+    }
+  }
+  
+  async removeCompanyUser(companyId: number, userId: number): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(companyUsers)
+        .where(and(eq(companyUsers.companyId, companyId), eq(companyUsers.userId, userId)))
+        .returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error removing company user:", error);
+      return false;
+    }
+  }
+  
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    try {
+      const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.id, id));
+      return invitation;
+    } catch (error) {
+      console.error("Error fetching company invitation:", error);
+      return undefined;
+    }
+  }
+  
+  private async listCompanyInvitations(condition: SQL): Promise<CompanyInvitationEntry[]> {
+    const rows = await db
+      .select({ invitation: companyInvitations, companyName: companies.name, userName: users.name })
+      .from(companyInvitations)
+      .innerJoin(companies, eq(companyInvitations.companyId, companies.id))
+      .innerJoin(users, eq(companyInvitations.userId, users.id))
+      .where(condition)
+      .orderBy(desc(companyInvitations.createdAt));
+    return rows.map((row) => ({ ...row.invitation, companyName: row.companyName, userName: row.userName }));
+  }
+  
+  // Pending invitations sent by a company
+  async getCompanyInvitations(companyId: number): Promise<CompanyInvitationEntry[]> {
+    try {
+      return await this.listCompanyInvitations(eq(companyInvitations.companyId, companyId));
+    } catch (error) {
+      console.error("Error fetching company invitations:", error);
+      return [];
+    }
+  }
+  
+  // Pending invitations waiting for a user to accept or decline
+  async getUserInvitations(userId: number): Promise<CompanyInvitationEntry[]> {
+    try {
+      return await this.listCompanyInvitations(eq(companyInvitations.userId, userId));
+    } catch (error) {
+      console.error("Error fetching user invitations:", error);
+      return [];
+    }
+  }
+  
+  // Inviting someone again replaces the role of their pending invitation
+  async createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    try {
+      const [created] = await db
+        .insert(companyInvitations)
+        .values(invitation)
+        .onConflictDoUpdate({
+          target: [companyInvitations.companyId, companyInvitations.userId],
+          set: { role: invitation.role, invitedBy: invitation.invitedBy, createdAt: new Date() },
+        })
+        .returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating company invitation:", error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Turns an invitation into a membership with the invited role. Returns
+   * undefined when the invitation was already accepted, declined or cancelled.
+   */
+  async acceptCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [invitation] = await tx
+          .delete(companyInvitations)
+          .where(eq(companyInvitations.id, id))
+          .returning();
+        if (!invitation) return undefined;
+
+        await tx
+          .insert(companyUsers)
+          .values({ companyId: invitation.companyId, userId: invitation.userId, role: invitation.role })
+          .onConflictDoUpdate({
+            target: [companyUsers.companyId, companyUsers.userId],
+            set: { role: invitation.role },
+          });
+        return invitation;
+      });
+    } catch (error) {
+      console.error("Error accepting company invitation:", error);
+      throw error;
+    }
+  }
+  
+  async deleteCompanyInvitation(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(companyInvitations).where(eq(companyInvitations.id, id)).returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting company invitation:", error);
+      return false;
+    }
+  }
+  
+  /**
+   * Moves rows and users from before multi-company support into a company.
+   * Runs at startup; a no-op once every row has a company.
+   */
+  async assignUnscopedRecords(companyId: number): Promise<void> {
+    const scopedTables = [
+      clients, projects, quotes, serviceOrders, staff, activities, subcontractors,
+      invoices, suppliers, payments, purchaseOrders, settings, leads, auditLogs,
+    ];
+    try {
+      for (const table of scopedTables) {
+        await db.execute(sql`UPDATE ${table} SET company_id = ${companyId} WHERE company_id IS NULL`);
+      }
+      // superadmin works across companies without a membership
+      await db.execute(sql`
+        INSERT INTO ${companyUsers} (company_id, user_id, role)
+        SELECT ${companyId}, ${users.id}, ${users.role} FROM ${users}
+        WHERE ${users.role} <> ${SUPERADMIN_ROLE}
+          AND NOT EXISTS (SELECT 1 FROM ${companyUsers} WHERE ${companyUsers.userId} = ${users.id})
+      `);
+    } catch (error) {
+      console.error("Error assigning records to company:", error);
+      throw error;
+    }
+  }
+  
+  // Password reset token methods
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    try {
+      const [newToken] = await db.insert(passwordResetTokens).values(token).returning();
+      return newToken;
+    } catch (error) {
+      console.error("Error creating password reset token:", error);
+      throw error;
+    }
+  }
+  
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      const [token] = await db
+        .select()
+        .from(passwordResetTokens)
+        .where(eq(passwordResetTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error("Error fetching password reset token:", error);
+      return undefined;
+    }
+  }
+  
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> {
+    try {
+      // Only succeeds for a token that has not been used yet, so two
+      // concurrent requests with the same token cannot both go through
+      const updated = await db
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+        .returning();
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error marking password reset token used:", error);
+      return false;
+    }
+  }
+  
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    try {
+      await db
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+    } catch (error) {
+      console.error("Error invalidating password reset tokens:", error);
+      throw error;
+    }
+  }
+  
+  // API token methods
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    try {
+      return await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, userId))
+        .orderBy(desc(apiTokens.createdAt));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      return [];
+    }
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    try {
+      const [token] = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error("Error fetching API token:", error);
+      return undefined;
+    }
+  }
+  
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    try {
+      const [newToken] = await db.insert(apiTokens).values(token).returning();
+      return newToken;
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      throw error;
+    }
+  }
+  
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    try {
+      // Scoped to the owner so one user cannot revoke another's token
+      const deleted = await db
+        .delete(apiTokens)
+        .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+        .returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting API token:", error);
+      return false;
+    }
+  }
+  
+  // Revokes every token of a user, e.g. after their password was reset
+  async deleteUserApiTokens(userId: number): Promise<number> {
+    try {
+      const deleted = await db.delete(apiTokens).where(eq(apiTokens.userId, userId)).returning();
+      return deleted.length;
+    } catch (error) {
+      console.error("Error deleting user API tokens:", error);
+      throw error;
+    }
+  }
+  
+  async touchApiToken(id: number, ip: string | null): Promise<void> {
+    try {
+      await db
+        .update(apiTokens)
+        .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+        .where(eq(apiTokens.id, id));
+    } catch (error) {
+      console.error("Error updating API token last use:", error);
+    }
+  }
+  
+  // Login session methods
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    try {
+      return await db
+        .select()
+        .from(sessions)
+        .where(and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          gt(sessions.expire, new Date())
+        ))
+        .orderBy(desc(sessions.expire));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      return [];
+    }
+  }
+  
+  async deleteSession(sid: string): Promise<boolean> {
+    try {
+      const deleted = await db.delete(sessions).where(eq(sessions.sid, sid)).returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      throw error;
+    }
+  }
+  
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    try {
+      const conditions = [sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`];
+      if (exceptSid) {
+        conditions.push(ne(sessions.sid, exceptSid));
+      }
+      const deleted = await db.delete(sessions).where(and(...conditions)).returning();
+      return deleted.length;
+    } catch (error) {
+      console.error("Error deleting user sessions:", error);
+      throw error;
+    }
+  }
+  
+  // Audit log methods
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    try {
+      const conditions = [inCompany(auditLogs)];
+      if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+      if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+      if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+      if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+      if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+      if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+      const rows = await db
+        .select({ auditLog: auditLogs, userName: users.name })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.userId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+        .limit(filters.limit ?? 500);
+
+      return rows.map((row) => ({ ...row.auditLog, userName: row.userName }));
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      return [];
+    }
+  }
+  
+  /**
+   * Writes the audit entry for a create/update/delete. Failures are logged
+   * and swallowed: the change itself already happened and must not be
+   * reported as failed because its audit row could not be written.
+   */
+  // Pass the transaction as `executor` to write the entry as part of it; `extra`
+  // records changes that are not fields of the row itself
+  private async recordAudit(
+    entityType: AuditEntityType,
+    action: AuditAction,
+    before: { id: number } | null | undefined,
+    after: { id: number } | null | undefined,
+    executor: typeof db | DbTransaction = db,
+    extra: AuditChanges = {},
+  ) {
+    try {
+      const entityId = (after ?? before)?.id;
+      if (entityId === undefined) return;
+
+      const changes = { ...diffRecords(before, after), ...extra };
+      if (action === "update" && Object.keys(changes).length === 0) return;
+
+      const actor = getAuditActor();
+      await executor.insert(auditLogs).values(withCompany({
+        entityType,
+        entityId,
+        action,
+        userId: actor.userId,
+        changes,
+        ip: actor.ip,
+      }));
+    } catch (error) {
+      console.error("Error writing audit log:", error);
+    }
+  }
+  
+  // Blocked attempt methods
+  async getBlockedAttempts(limit = 200): Promise<BlockedAttempt[]> {
+    try {
+      return await db
+        .select()
+        .from(blockedAttempts)
+        .orderBy(desc(blockedAttempts.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error fetching blocked attempts:", error);
+      return [];
+    }
+  }
+  
+  async createBlockedAttempt(attempt: InsertBlockedAttempt): Promise<BlockedAttempt> {
+    try {
+      const [newAttempt] = await db.insert(blockedAttempts).values(attempt).returning();
+      return newAttempt;
+    } catch (error) {
+      console.error("Error creating blocked attempt:", error);
+      throw error;
+    }
+  }
+  
+  // Client methods
+  async getClients(): Promise<Client[]> {
+    try {
+      return await db.select().from(clients).where(inCompany(clients));
+    } catch (error) {
+      console.error("Error fetching clients:", error);
+      return [];
+    }
+  }
+  
+  async getClient(id: number): Promise<Client | undefined> {
+    try {
+      const [client] = await db.select().from(clients).where(and(eq(clients.id, id), inCompany(clients)));
+      return client;
+    } catch (error) {
+      console.error("Error fetching client:", error);
+      return undefined;
+    }
+  }
+  
+  async createClient(client: InsertClient): Promise<Client> {
+    try {
+      return await this.insertClient(client);
+    } catch (error) {
+      console.error("Error creating client:", error);
+      throw error;
+    }
+  }
+  
+  // The details entered on a new client become its primary contact and property
+  private async insertClient(client: InsertClient, executor: typeof db | DbTransaction = db) {
+    const [newClient] = await executor.insert(clients).values(withCompany(client)).returning();
+    await this.recordAudit("client", "create", null, newClient, executor);
+    const [contact] = await executor
+      .insert(clientContacts)
+      .values(withCompany({
+        clientId: newClient.id,
+        name: newClient.name,
+        role: "owner",
+        email: newClient.email || null,
+        phone: newClient.phone || null,
+        isPrimary: true,
+      }))
+      .returning();
+    await this.recordAudit("client_contact", "create", null, contact, executor);
+    if (newClient.address) {
+      const [property] = await executor
+        .insert(clientProperties)
+        .values(withCompany({ clientId: newClient.id, address: newClient.address, isPrimary: true }))
+        .returning();
+      await this.recordAudit("client_property", "create", null, property, executor);
+    }
+    return newClient;
+  }
+  
+  async updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined> {
+    try {
+      const existing = await this.getClient(id);
+      const [updatedClient] = await db
+        .update(clients)
+        .set(client)
+        .where(and(eq(clients.id, id), inCompany(clients)))
+        .returning();
+      if (updatedClient) await this.recordAudit("client", "update", existing, updatedClient);
+      return updatedClient;
+    } catch (error) {
+      console.error("Error updating client:", error);
+      return undefined;
+    }
+  }
+  
+  async deleteClient(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(clients).where(and(eq(clients.id, id), inCompany(clients))).returning();
+      if (deleted) await this.recordAudit("client", "delete", deleted, null);
+      return true;
+    } catch (error) {
+      console.error("Error deleting client:", error);
+      return false;
+    }
+  }
+  
+  /**
+   * Folds a duplicate client into the one that is kept: its projects,
+   * invoices, activities, payments, contacts, properties and estimate visits
+   * move over, its notes and tags are added to the kept client's, and it is
+   * deleted. All or nothing.
+   */
+  async mergeClients(survivorId: number, duplicateId: number): Promise<ClientMergeResult | undefined> {
+    try {
+      const survivor = await this.getClient(survivorId);
+      const duplicate = await this.getClient(duplicateId);
+      if (!survivor || !duplicate || survivor.id === duplicate.id) return undefined;
+
+      return await db.transaction(async (tx) => {
+        const movedProjects = await tx
+          .update(projects)
+          .set({ clientId: survivor.id })
+          .where(and(eq(projects.clientId, duplicate.id), inCompany(projects)))
+          .returning({ id: projects.id });
+        const movedInvoices = await tx
+          .update(invoices)
+          .set({ clientId: survivor.id })
+          .where(and(eq(invoices.clientId, duplicate.id), inCompany(invoices)))
+          .returning({ id: invoices.id });
+        const movedActivities = await tx
+          .update(activities)
+          .set({ clientId: survivor.id })
+          .where(and(eq(activities.clientId, duplicate.id), inCompany(activities)))
+          .returning({ id: activities.id });
+        const movedCommunications = await tx
+          .update(communications)
+          .set({ clientId: survivor.id })
+          .where(and(eq(communications.clientId, duplicate.id), inCompany(communications)))
+          .returning({ id: communications.id });
+        const movedPayments = await tx
+          .update(payments)
+          .set({ recipientId: survivor.id })
+          .where(and(eq(payments.recipientType, "client"), eq(payments.recipientId, duplicate.id), inCompany(payments)))
+          .returning({ id: payments.id });
+        // The survivor keeps its own primary contact and property
+        const movedContacts = await tx
+          .update(clientContacts)
+          .set({ clientId: survivor.id, isPrimary: false })
+          .where(and(eq(clientContacts.clientId, duplicate.id), inCompany(clientContacts)))
+          .returning({ id: clientContacts.id });
+        const movedProperties = await tx
+          .update(clientProperties)
+          .set({ clientId: survivor.id, isPrimary: false })
+          .where(and(eq(clientProperties.clientId, duplicate.id), inCompany(clientProperties)))
+          .returning({ id: clientProperties.id });
+        // Visits cascade with their client, so they have to move before the delete
+        const movedEstimateVisits = await tx
+          .update(estimateVisits)
+          .set({ clientId: survivor.id })
+          .where(and(eq(estimateVisits.clientId, duplicate.id), inCompany(estimateVisits)))
+          .returning({ id: estimateVisits.id });
+        // Converted leads keep pointing at the client they became
+        await tx
+          .update(leads)
+          .set({ clientId: survivor.id })
+          .where(and(eq(leads.clientId, duplicate.id), inCompany(leads)));
+
+        const [mergedClient] = await tx
+          .update(clients)
+          .set({
+            notes: [survivor.notes, duplicate.notes].filter(Boolean).join("\n\n") || null,
+            // Tags like "do not service" must survive the merge whichever side had them
+            tags: normalizeTags([...survivor.tags, ...duplicate.tags]),
+            // A prospect that turns out to be an existing client is a client
+            type: survivor.type === "client" || duplicate.type === "client" ? "client" : survivor.type,
+            marketingSource: survivor.marketingSource || duplicate.marketingSource,
+            attribution: survivor.attribution ?? duplicate.attribution,
+          })
+          .where(and(eq(clients.id, survivor.id), inCompany(clients)))
+          .returning();
+        await tx.delete(clients).where(and(eq(clients.id, duplicate.id), inCompany(clients)));
+
+        const moved = {
+          projects: movedProjects.length,
+          invoices: movedInvoices.length,
+          activities: movedActivities.length,
+          communications: movedCommunications.length,
+          payments: movedPayments.length,
+          contacts: movedContacts.length,
+          properties: movedProperties.length,
+          estimateVisits: movedEstimateVisits.length,
+        };
+        await this.recordAudit("client", "merge", survivor, mergedClient, tx, {
+          mergedClient: { from: `#${duplicate.id} ${duplicate.name}`, to: `#${survivor.id} ${survivor.name}` },
+          movedRecords: { from: null, to: moved },
+        });
+        await this.recordAudit("client", "delete", duplicate, null, tx);
+
+        return { client: mergedClient, moved };
+      });
+    } catch (error) {
+      console.error("Error merging clients:", error);
+      throw error;
+    }
+  }
+  
+  // Client contact methods
+  async getClientContacts(clientId: number): Promise<ClientContact[]> {
+    try {
+      return await db
+        .select()
+        .from(clientContacts)
+        .where(and(eq(clientContacts.clientId, clientId), inCompany(clientContacts)))
+        .orderBy(desc(clientContacts.isPrimary), asc(clientContacts.id));
+    } catch (error) {
+      console.error("Error fetching client contacts:", error);
+      return [];
+    }
+  }
+  
+  async getClientContact(id: number): Promise<ClientContact | undefined> {
+    try {
+      const [contact] = await db.select().from(clientContacts).where(and(eq(clientContacts.id, id), inCompany(clientContacts)));
+      return contact;
+    } catch (error) {
+      console.error("Error fetching client contact:", error);
+      return undefined;
+    }
+  }
+  
+  // Invoices go to the billing contact, or the primary contact when there is none
+  async getBillingContact(clientId: number): Promise<ClientContact | undefined> {
+    const contacts = await this.getClientContacts(clientId);
+    return contacts.find((contact) => contact.role === "billing" && contact.email)
+      ?? contacts.find((contact) => contact.isPrimary);
+  }
+  
+  async createClientContact(contact: InsertClientContact): Promise<ClientContact> {
+    try {
+      const [newContact] = await db.insert(clientContacts).values(withCompany(contact)).returning();
+      await this.recordAudit("client_contact", "create", null, newContact);
+      if (newContact.isPrimary) await this.makePrimaryContact(newContact);
+      return newContact;
+    } catch (error) {
+      console.error("Error creating client contact:", error);
+      throw error;
+    }
+  }
+  
+  async updateClientContact(id: number, contact: Partial<InsertClientContact>): Promise<ClientContact | undefined> {
+    try {
+      const existing = await this.getClientContact(id);
+      const [updatedContact] = await db
+        .update(clientContacts)
+        // A contact stays with the client it was created for
+        .set({ ...contact, clientId: undefined })
+        .where(and(eq(clientContacts.id, id), inCompany(clientContacts)))
+        .returning();
+      if (updatedContact) {
+        await this.recordAudit("client_contact", "update", existing, updatedContact);
+        if (updatedContact.isPrimary) await this.makePrimaryContact(updatedContact);
+      }
+      return updatedContact;
+    } catch (error) {
+      console.error("Error updating client contact:", error);
+      return undefined;
+    }
+  }
+  
+  async deleteClientContact(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(clientContacts).where(and(eq(clientContacts.id, id), inCompany(clientContacts))).returning();
+      if (deleted) await this.recordAudit("client_contact", "delete", deleted, null);
+      return !!deleted;
+    } catch (error) {
+      console.error("Error deleting client contact:", error);
+      return false;
+    }
+  }
+  
+  // Only one primary contact per client; its details are copied onto the client
+  // so lists, search and documents keep working from the clients row
+  private async makePrimaryContact(contact: ClientContact) {
+    await db
+      .update(clientContacts)
+      .set({ isPrimary: false })
+      .where(and(
+        eq(clientContacts.clientId, contact.clientId),
+        ne(clientContacts.id, contact.id),
+        eq(clientContacts.isPrimary, true),
+        inCompany(clientContacts),
+      ));
+    const client = await this.getClient(contact.clientId);
+    const clientUpdate: Partial<InsertClient> = {};
+    if (contact.email && contact.email !== client?.email) clientUpdate.email = contact.email;
+    if (contact.phone && contact.phone !== client?.phone) clientUpdate.phone = contact.phone;
+    if (client && Object.keys(clientUpdate).length > 0) {
+      await this.updateClient(contact.clientId, clientUpdate);
+    }
+  }
+  
+  // Client property methods
+  async getClientProperties(clientId: number): Promise<ClientProperty[]> {
+    try {
+      return await db
+        .select()
+        .from(clientProperties)
+        .where(and(eq(clientProperties.clientId, clientId), inCompany(clientProperties)))
+        .orderBy(desc(clientProperties.isPrimary), asc(clientProperties.id));
+    } catch (error) {
+      console.error("Error fetching client properties:", error);
+      return [];
+    }
+  }
+  
+  async getClientProperty(id: number): Promise<ClientProperty | undefined> {
+    try {
+      const [property] = await db.select().from(clientProperties).where(and(eq(clientProperties.id, id), inCompany(clientProperties)));
+      return property;
+    } catch (error) {
+      console.error("Error fetching client property:", error);
+      return undefined;
+    }
+  }
+  
+  async createClientProperty(property: InsertClientProperty): Promise<ClientProperty> {
+    try {
+      const [newProperty] = await db.insert(clientProperties).values(withCompany(property)).returning();
+      await this.recordAudit("client_property", "create", null, newProperty);
+      if (newProperty.isPrimary) await this.makePrimaryProperty(newProperty);
+      return newProperty;
+    } catch (error) {
+      console.error("Error creating client property:", error);
+      throw error;
+    }
+  }
+  
+  async updateClientProperty(id: number, property: Partial<InsertClientProperty>): Promise<ClientProperty | undefined> {
+    try {
+      const existing = await this.getClientProperty(id);
+      const [updatedProperty] = await db
+        .update(clientProperties)
+        .set({ ...property, clientId: undefined })
+        .where(and(eq(clientProperties.id, id), inCompany(clientProperties)))
+        .returning();
+      if (updatedProperty) {
+        await this.recordAudit("client_property", "update", existing, updatedProperty);
+        if (updatedProperty.isPrimary) await this.makePrimaryProperty(updatedProperty);
+        // Projects at this property show its current address
+        if (existing && existing.address !== updatedProperty.address) {
+          await db
+            .update(projects)
+            .set({ address: updatedProperty.address })
+            .where(and(eq(projects.propertyId, id), inCompany(projects)));
+        }
+      }
+      return updatedProperty;
+    } catch (error) {
+      console.error("Error updating client property:", error);
+      return undefined;
+    }
+  }
+  
+  async deleteClientProperty(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(clientProperties).where(and(eq(clientProperties.id, id), inCompany(clientProperties))).returning();
+      if (deleted) await this.recordAudit("client_property", "delete", deleted, null);
+      return !!deleted;
+    } catch (error) {
+      console.error("Error deleting client property:", error);
+      return false;
+    }
+  }
+  
+  private async makePrimaryProperty(property: ClientProperty) {
+    await db
+      .update(clientProperties)
+      .set({ isPrimary: false })
+      .where(and(
+        eq(clientProperties.clientId, property.clientId),
+        ne(clientProperties.id, property.id),
+        eq(clientProperties.isPrimary, true),
+        inCompany(clientProperties),
+      ));
+    const client = await this.getClient(property.clientId);
+    if (client && client.address !== property.address) {
+      await this.updateClient(property.clientId, { address: property.address });
+    }
+  }
+  
+  /**
+   * Gives every client created before contacts and properties existed a
+   * primary contact and property from its own email, phone and address, adds
+   * a property for each other address its projects were at, and links those
+   * projects to it. Runs across all companies at startup.
+   */
+  async backfillClientContactsAndProperties(): Promise<void> {
+    try {
+      await db.execute(sql`
+        INSERT INTO client_contacts (company_id, client_id, name, role, email, phone, is_primary)
+        SELECT c.company_id, c.id, c.name, 'owner', NULLIF(c.email, ''), NULLIF(c.phone, ''), true
+        FROM clients c
+        WHERE NOT EXISTS (SELECT 1 FROM client_contacts cc WHERE cc.client_id = c.id)
+      `);
+      await db.execute(sql`
+        INSERT INTO client_properties (company_id, client_id, address, is_primary)
+        SELECT c.company_id, c.id, c.address, true
+        FROM clients c
+        WHERE c.address <> ''
+          AND NOT EXISTS (SELECT 1 FROM client_properties cp WHERE cp.client_id = c.id)
+      `);
+      await db.execute(sql`
+        INSERT INTO client_properties (company_id, client_id, address, is_primary)
+        SELECT DISTINCT p.company_id, p.client_id, p.address, false
+        FROM projects p
+        JOIN clients c ON c.id = p.client_id
+        WHERE p.property_id IS NULL AND p.address <> ''
+          AND NOT EXISTS (
+            SELECT 1 FROM client_properties cp WHERE cp.client_id = p.client_id AND cp.address = p.address
+          )
+      `);
+      await db.execute(sql`
+        UPDATE projects p SET property_id = cp.id
+        FROM client_properties cp
+        WHERE p.property_id IS NULL AND cp.client_id = p.client_id AND cp.address = p.address
+      `);
+    } catch (error) {
+      console.error("Error backfilling client contacts and properties:", error);
+      throw error;
+    }
+  }
+
+  // Moves leads off the statuses used before the pipeline existed, across all
+  // companies at startup
+  async backfillLeadStages(): Promise<void> {
+    try {
+      for (const [legacy, stage] of Object.entries(LEGACY_LEAD_STATUSES)) {
+        await db.update(leads).set({ status: stage }).where(eq(leads.status, legacy));
+      }
+    } catch (error) {
+      console.error("Error backfilling lead stages:", error);
+      throw error;
+    }
+  }
+  
+  // Client portal methods
+  async findPortalClientsByEmail(email: string): Promise<Client[]> {
+    try {
+      const normalized = email.trim().toLowerCase();
+      const contactClientIds = db
+        .select({ id: clientContacts.clientId })
+        .from(clientContacts)
+        .where(sql`lower(${clientContacts.email}) = ${normalized}`);
+      return await db
+        .select()
+        .from(clients)
+        .where(or(sql`lower(${clients.email}) = ${normalized}`, inArray(clients.id, contactClientIds)));
+    } catch (error) {
+      console.error("Error finding portal clients by email:", error);
+      return [];
+    }
+  }
+  
+  async createPortalToken(token: InsertPortalToken, companyId: number): Promise<PortalToken> {
+    try {
+      const [newToken] = await db.insert(portalTokens).values({ ...token, companyId }).returning();
+      return newToken;
+    } catch (error) {
+      console.error("Error creating portal token:", error);
+      throw error;
+    }
+  }
+  
+  async getPortalTokenByHash(tokenHash: string): Promise<PortalToken | undefined> {
+    try {
+      const [token] = await db.select().from(portalTokens).where(eq(portalTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error("Error fetching portal token:", error);
+      return undefined;
+    }
+  }
+  
+  async markPortalTokenUsed(id: number): Promise<boolean> {
+    try {
+      // As with password reset links, only the first use of a link counts
+      const updated = await db
+        .update(portalTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(portalTokens.id, id), isNull(portalTokens.usedAt)))
+        .returning();
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error marking portal token used:", error);
+      return false;
+    }
+  }
+  
+  async invalidatePortalTokens(clientId: number): Promise<void> {
+    try {
+      await db
+        .update(portalTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(portalTokens.clientId, clientId), isNull(portalTokens.usedAt)));
+    } catch (error) {
+      console.error("Error invalidating portal tokens:", error);
+      throw error;
+    }
+  }
+  
+  // Client tag and segment methods
+  // Every tag in use, for suggestions and filters
+  async getClientTags(): Promise<string[]> {
+    try {
+      const rows = await db
+        .selectDistinct({ tag: sql<string>`unnest(${clients.tags})` })
+        .from(clients)
+        .where(inCompany(clients));
+      return rows.map((row) => row.tag).sort((a, b) => a.localeCompare(b));
+    } catch (error) {
+      console.error("Error fetching client tags:", error);
+      return [];
+    }
+  }
+  
+  async getClientSegments(): Promise<ClientSegment[]> {
+    try {
+      return await db.select().from(clientSegments).where(inCompany(clientSegments)).orderBy(asc(clientSegments.name));
+    } catch (error) {
+      console.error("Error fetching client segments:", error);
+      return [];
+    }
+  }
+  
+  async getClientSegment(id: number): Promise<ClientSegment | undefined> {
+    try {
+      const [segment] = await db.select().from(clientSegments).where(and(eq(clientSegments.id, id), inCompany(clientSegments)));
+      return segment;
+    } catch (error) {
+      console.error("Error fetching client segment:", error);
+      return undefined;
+    }
+  }
+  
+  async createClientSegment(segment: InsertClientSegment & { createdBy: number | null }): Promise<ClientSegment> {
+    try {
+      const [newSegment] = await db.insert(clientSegments).values(withCompany(segment)).returning();
+      await this.recordAudit("client_segment", "create", null, newSegment);
+      return newSegment;
+    } catch (error) {
+      console.error("Error creating client segment:", error);
+      throw error;
+    }
+  }
+  
+  async updateClientSegment(id: number, segment: Partial<InsertClientSegment>): Promise<ClientSegment | undefined> {
+    try {
+      const existing = await this.getClientSegment(id);
+      const [updatedSegment] = await db
+        .update(clientSegments)
+        .set(segment)
+        .where(and(eq(clientSegments.id, id), inCompany(clientSegments)))
+        .returning();
+      if (updatedSegment) await this.recordAudit("client_segment", "update", existing, updatedSegment);
+      return updatedSegment;
+    } catch (error) {
+      console.error("Error updating client segment:", error);
+      return undefined;
+    }
+  }
+  
+  async deleteClientSegment(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(clientSegments).where(and(eq(clientSegments.id, id), inCompany(clientSegments))).returning();
+      if (deleted) await this.recordAudit("client_segment", "delete", deleted, null);
+      return !!deleted;
+    } catch (error) {
+      console.error("Error deleting client segment:", error);
+      return false;
+    }
+  }
+  
+  // Project methods
+  async getProjects(): Promise<Project[]> {
+    try {
+      return await db.select().from(projects).where(inCompany(projects));
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      return [];
+    }
+  }
+  
+  async getProject(id: number): Promise<Project | undefined> {
+    try {
+      const [project] = await db.select().from(projects).where(and(eq(projects.id, id), inCompany(projects)));
+      return project;
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      return undefined;
+    }
+  }
+  
+  async getProjectsByClient(clientId: number): Promise<Project[]> {
+    try {
+      return await db
+        .select()
+        .from(projects)
+        .where(and(eq(projects.clientId, clientId), inCompany(projects)));
+    } catch (error) {
+      console.error("Error fetching projects by client:", error);
+      return [];
+    }
+  }
+  
+  async getProjectsByStatus(status: string): Promise<Project[]> {
+    try {
+      return await db
+        .select()
+        .from(projects)
+        .where(and(eq(projects.status, status), inCompany(projects)));
+    } catch (error) {
+      console.error("Error fetching projects by status:", error);
+      return [];
+    }
+  }
+  
+  async createProject(project: InsertProject): Promise<Project> {
+    try {
+      const [newProject] = await db.insert(projects).values(withCompany({
+        ...project,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })).returning();
+      await this.recordAudit("project", "create", null, newProject);
+      return newProject;
+    } catch (error) {
+      console.error("Error creating project:", error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Creates the project with its template's task list and draft quote. All or
+   * nothing, so a project is never left half-seeded.
+   */
+  async createProjectFromTemplate(project: InsertProject, seed: ProjectTemplateSeed): Promise<{ project: Project; tasks: ProjectTask[]; quote: Quote }> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [newProject] = await tx
+          .insert(projects)
+          .values(withCompany({ ...project, createdAt: new Date() }))
+          .returning();
+        await this.recordAudit("project", "create", null, newProject, tx);
+
+        const tasks: ProjectTask[] = [];
+        for (let position = 0; position < seed.tasks.length; position++) {
+          const [task] = await tx
+            .insert(projectTasks)
+            .values(withCompany({ ...seed.tasks[position], projectId: newProject.id, position }))
+            .returning();
+          await this.recordAudit("project_task", "create", null, task, tx);
+          tasks.push(task);
+        }
+
+        const [quote] = await tx
+          .insert(quotes)
+          .values(withCompany({ ...seed.quote, projectId: newProject.id, createdAt: new Date() }))
+          .returning();
+        await this.recordAudit("quote", "create", null, quote, tx);
+
+        return { project: newProject, tasks, quote };
+      });
+    } catch (error) {
+      console.error("Error creating project from template:", error);
+      throw error;
+    }
+  }
+  
+  async updateProject(id: number, project: Partial<ProjectRecord>): Promise<Project | undefined> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.username, username));
-      return user;
+      const existing = await this.getProject(id);
+      const [updatedProject] = await db
+        .update(projects)
+        .set({
+          ...project,
+          updatedAt: new Date()
+        })
+        .where(and(eq(projects.id, id), inCompany(projects)))
+        .returning();
+      if (updatedProject) await this.recordAudit("project", "update", existing, updatedProject);
+      return updatedProject;
     } catch (error) {
-      console.error("Error fetching user by username:", error);
+      console.error("Error updating project:", error);
       return undefined;
     }
   }
   
-  async createUser(user: InsertUser): Promise<User> {
+  async deleteProject(id: number): Promise<boolean> {
     try {
-      const [newUser] = await db.insert(users).values(user).returning();
-      return newUser;
+      // Delete related records first (cascade delete), auditing each removed row
+      const cascades = [
+        { entityType: "payment", rows: await db.delete(payments).where(and(eq(payments.projectId, id), inCompany(payments))).returning() },
+        { entityType: "purchase_order", rows: await db.delete(purchaseOrders).where(and(eq(purchaseOrders.projectId, id), inCompany(purchaseOrders))).returning() },
+        { entityType: "invoice", rows: await db.delete(invoices).where(and(eq(invoices.projectId, id), inCompany(invoices))).returning() },
+        { entityType: "service_order", rows: await db.delete(serviceOrders).where(and(eq(serviceOrders.projectId, id), inCompany(serviceOrders))).returning() },
+        { entityType: "quote", rows: await db.delete(quotes).where(and(eq(quotes.projectId, id), inCompany(quotes))).returning() },
+        { entityType: "project_task", rows: await db.delete(projectTasks).where(and(eq(projectTasks.projectId, id), inCompany(projectTasks))).returning() },
+        { entityType: "change_order", rows: await db.delete(changeOrders).where(and(eq(changeOrders.projectId, id), inCompany(changeOrders))).returning() },
+        { entityType: "punch_list_item", rows: await db.delete(punchListItems).where(and(eq(punchListItems.projectId, id), inCompany(punchListItems))).returning() },
+      ] as const;
+      for (const { entityType, rows } of cascades) {
+        for (const row of rows) {
+          await this.recordAudit(entityType, "delete", row, null);
+        }
+      }
+      // Now delete the project
+      const [deleted] = await db.delete(projects).where(and(eq(projects.id, id), inCompany(projects))).returning();
+      if (deleted) await this.recordAudit("project", "delete", deleted, null);
+      return true;
     } catch (error) {
-      console.error("Error creating user:", error);
-      throw error;
+      console.error("Error deleting project:", error);
+      return false;
     }
   }
   
-  // Client methods
-  async getClients(): Promise<Client[]> {
+  // Project task methods
+  async getProjectTasks(projectId: number): Promise<ProjectTask[]> {
     try {
-      return await db.select().from(clients);
+      return await db
+        .select()
+        .from(projectTasks)
+        .where(and(eq(projectTasks.projectId, projectId), inCompany(projectTasks)))
+        .orderBy(asc(projectTasks.position), asc(projectTasks.id));
     } catch (error) {
-      console.error("Error fetching clients:", error);
+      console.error("Error fetching project tasks:", error);
       return [];
     }
   }
   
-  async getClient(id: number): Promise<Client | undefined> {
+  async getProjectTask(id: number): Promise<ProjectTask | undefined> {
     try {
-      const [client] = await db.select().from(clients).where(eq(clients.id, id));
-      return client;
+      const [task] = await db.select().from(projectTasks).where(and(eq(projectTasks.id, id), inCompany(projectTasks)));
+      return task;
     } catch (error) {
-      console.error("Error fetching client:", error);
+      console.error("Error fetching project task:", error);
       return undefined;
     }
   }
   
-  async createClient(client: InsertClient): Promise<Client> {
+  async createProjectTask(task: ProjectTaskRecord): Promise<ProjectTask> {
     try {
-      const [newClient] = await db.insert(clients).values(client).returning();
-      return newClient;
+      // New tasks go to the end of the list
+      const position = task.position ?? (await this.getProjectTasks(task.projectId)).length;
+      const [newTask] = await db.insert(projectTasks).values(withCompany({ ...task, position })).returning();
+      await this.recordAudit("project_task", "create", null, newTask);
+      await this.syncProjectProgress(newTask.projectId);
+      return newTask;
     } catch (error) {
-      console.error("Error creating client:", error);
+      console.error("Error creating project task:", error);
       throw error;
     }
   }
   
-  async updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined> {
+  async updateProjectTask(id: number, task: Partial<ProjectTaskRecord>): Promise<ProjectTask | undefined> {
     try {
-      const [updatedClient] = await db
-        .update(clients)
-        .set(client)
-        .where(eq(clients.id, id))
+      const existing = await this.getProjectTask(id);
+      const [updatedTask] = await db
+        .update(projectTasks)
+        // A task stays with the project it was created for
+        .set({ ...task, projectId: undefined })
+        .where(and(eq(projectTasks.id, id), inCompany(projectTasks)))
         .returning();
-      return updatedClient;
+      if (updatedTask) {
+        await this.recordAudit("project_task", "update", existing, updatedTask);
+        if (task.completedAt !== undefined) await this.syncProjectProgress(updatedTask.projectId);
+      }
+      return updatedTask;
     } catch (error) {
-      console.error("Error updating client:", error);
+      console.error("Error updating project task:", error);
       return undefined;
     }
   }
   
-  async deleteClient(id: number): Promise<boolean> {
+  async deleteProjectTask(id: number): Promise<boolean> {
     try {
-      await db.delete(clients).where(eq(clients.id, id));
-      return true;
+      const [deleted] = await db.delete(projectTasks).where(and(eq(projectTasks.id, id), inCompany(projectTasks))).returning();
+      if (deleted) {
+        await this.recordAudit("project_task", "delete", deleted, null);
+        await this.syncProjectProgress(deleted.projectId);
+      }
+      return !!deleted;
     } catch (error) {
-      console.error("Error deleting client:", error);
+      console.error("Error deleting project task:", error);
       return false;
     }
   }
   
-  // Project methods
-  async getProjects(): Promise<Project[]> {
+  // `taskIds` lists the project's tasks in their new order
+  async reorderProjectTasks(projectId: number, taskIds: number[]): Promise<ProjectTask[]> {
     try {
-      return await db.select().from(projects);
+      await db.transaction(async (tx) => {
+        for (let position = 0; position < taskIds.length; position++) {
+          await tx
+            .update(projectTasks)
+            .set({ position })
+            .where(and(eq(projectTasks.id, taskIds[position]), eq(projectTasks.projectId, projectId), inCompany(projectTasks)));
+        }
+      });
+      return await this.getProjectTasks(projectId);
     } catch (error) {
-      console.error("Error fetching projects:", error);
+      console.error("Error reordering project tasks:", error);
+      throw error;
+    }
+  }
+  
+  // A project's progress is the share of its tasks that are done
+  private async syncProjectProgress(projectId: number) {
+    const project = await this.getProject(projectId);
+    const progress = projectProgress(await this.getProjectTasks(projectId));
+    if (project && project.progress !== progress) {
+      await this.updateProject(projectId, { progress });
+    }
+  }
+  
+  // Change order methods
+  async getChangeOrdersByProject(projectId: number): Promise<ChangeOrder[]> {
+    try {
+      return await db
+        .select()
+        .from(changeOrders)
+        .where(and(eq(changeOrders.projectId, projectId), inCompany(changeOrders)))
+        .orderBy(asc(changeOrders.number));
+    } catch (error) {
+      console.error("Error fetching change orders:", error);
       return [];
     }
   }
   
-  async getProject(id: number): Promise<Project | undefined> {
+  async getChangeOrder(id: number): Promise<ChangeOrder | undefined> {
     try {
-      const [project] = await db.select().from(projects).where(eq(projects.id, id));
-      return project;
+      const [changeOrder] = await db.select().from(changeOrders).where(and(eq(changeOrders.id, id), inCompany(changeOrders)));
+      return changeOrder;
     } catch (error) {
-      console.error("Error fetching project:", error);
+      console.error("Error fetching change order:", error);
       return undefined;
     }
   }
   
-  async getProjectsByClient(clientId: number): Promise<Project[]> {
+  // Approved change orders not billed yet; they go on the project's next invoice
+  async getUnbilledChangeOrders(projectId: number): Promise<ChangeOrder[]> {
     try {
       return await db
         .select()
-        .from(projects)
-        .where(eq(projects.clientId, clientId));
-    } catch (error) {
-      console.error("Error fetching projects by client:", error);
+        .from(changeOrders)
+        .where(and(
+          eq(changeOrders.projectId, projectId),
+          eq(changeOrders.status, "approved"),
+          isNull(changeOrders.invoiceId),
+          inCompany(changeOrders),
+        ))
+        .orderBy(asc(changeOrders.number));
+    } catch (error) {
+      console.error("Error fetching unbilled change orders:", error);
       return [];
     }
   }
   
-  async getProjectsByStatus(status: string): Promise<Project[]> {
+  async createChangeOrder(changeOrder: ChangeOrderRecord): Promise<ChangeOrder> {
+    try {
+      // The project row is locked while numbering so concurrent change orders
+      // on the same project take turns rather than sharing a number
+      return await db.transaction(async (tx) => {
+        await tx
+          .select({ id: projects.id })
+          .from(projects)
+          .where(and(eq(projects.id, changeOrder.projectId), inCompany(projects)))
+          .for("update");
+        const [last] = await tx
+          .select({ number: changeOrders.number })
+          .from(changeOrders)
+          .where(and(eq(changeOrders.projectId, changeOrder.projectId), inCompany(changeOrders)))
+          .orderBy(desc(changeOrders.number))
+          .limit(1);
+        const [newChangeOrder] = await tx
+          .insert(changeOrders)
+          .values(withCompany({ ...changeOrder, number: (last?.number ?? 0) + 1 }))
+          .returning();
+        await this.recordAudit("change_order", "create", null, newChangeOrder, tx);
+        return newChangeOrder;
+      });
+    } catch (error) {
+      console.error("Error creating change order:", error);
+      throw error;
+    }
+  }
+  
+  async updateChangeOrder(id: number, changeOrder: ChangeOrderUpdate): Promise<ChangeOrder | undefined> {
+    try {
+      const existing = await this.getChangeOrder(id);
+      const [updatedChangeOrder] = await db
+        .update(changeOrders)
+        .set({ ...changeOrder, projectId: undefined })
+        .where(and(eq(changeOrders.id, id), inCompany(changeOrders)))
+        .returning();
+      if (updatedChangeOrder) await this.recordAudit("change_order", "update", existing, updatedChangeOrder);
+      return updatedChangeOrder;
+    } catch (error) {
+      console.error("Error updating change order:", error);
+      return undefined;
+    }
+  }
+  
+  // Approves a pending change order with the client's signature and adds its
+  // price to the project's approved change orders, which count towards the
+  // contract value (see contractValue)
+  async approveChangeOrder(id: number, approval: ChangeOrderApproval): Promise<{ changeOrder: ChangeOrder; project: Project; contractValue: number } | undefined> {
+    try {
+      const existing = await this.getChangeOrder(id);
+      return await db.transaction(async (tx) => {
+        const [changeOrder] = await tx
+          .update(changeOrders)
+          .set({ ...approval, signedAt: new Date(), status: "approved" })
+          .where(and(eq(changeOrders.id, id), eq(changeOrders.status, "pending"), inCompany(changeOrders)))
+          .returning();
+        if (!changeOrder) return undefined;
+        await this.recordAudit("change_order", "update", existing, changeOrder, tx);
+
+        const [project] = await tx.select().from(projects).where(and(eq(projects.id, changeOrder.projectId), inCompany(projects)));
+        const [quote] = changeOrder.quoteId
+          ? await tx.select().from(quotes).where(and(eq(quotes.id, changeOrder.quoteId), inCompany(quotes)))
+          : [];
+        const [updatedProject] = await tx
+          .update(projects)
+          .set({ changeOrdersTotal: sql`${projects.changeOrdersTotal} + ${changeOrder.priceDelta}` })
+          .where(and(eq(projects.id, project.id), inCompany(projects)))
+          .returning();
+        await this.recordAudit("project", "update", project, updatedProject, tx);
+        return {
+          changeOrder,
+          project: updatedProject,
+          contractValue: contractValue(updatedProject, quote?.totalEstimate),
+        };
+      });
+    } catch (error) {
+      console.error("Error approving change order:", error);
+      throw error;
+    }
+  }
+  
+  async deleteChangeOrder(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(changeOrders).where(and(eq(changeOrders.id, id), inCompany(changeOrders))).returning();
+      if (deleted) await this.recordAudit("change_order", "delete", deleted, null);
+      return !!deleted;
+    } catch (error) {
+      console.error("Error deleting change order:", error);
+      return false;
+    }
+  }
+  
+  // Punch list methods
+  async getPunchListItems(projectId: number): Promise<PunchListItem[]> {
     try {
       return await db
         .select()
-        .from(projects)
-        .where(eq(projects.status, status));
+        .from(punchListItems)
+        .where(and(eq(punchListItems.projectId, projectId), inCompany(punchListItems)))
+        .orderBy(asc(punchListItems.createdAt), asc(punchListItems.id));
     } catch (error) {
-      console.error("Error fetching projects by status:", error);
+      console.error("Error fetching punch list:", error);
       return [];
     }
   }
   
-  async createProject(project: InsertProject): Promise<Project> {
+  async getPunchListItem(id: number): Promise<PunchListItem | undefined> {
     try {
-      const [newProject] = await db.insert(projects).values({
-        ...project,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }).returning();
-      return newProject;
+      const [item] = await db.select().from(punchListItems).where(and(eq(punchListItems.id, id), inCompany(punchListItems)));
+      return item;
     } catch (error) {
-      console.error("Error creating project:", error);
+      console.error("Error fetching punch list item:", error);
+      return undefined;
+    }
+  }
+  
+  async createPunchListItem(item: PunchListItemRecord): Promise<PunchListItem> {
+    try {
+      const [newItem] = await db.insert(punchListItems).values(withCompany(item)).returning();
+      await this.recordAudit("punch_list_item", "create", null, newItem);
+      return newItem;
+    } catch (error) {
+      console.error("Error creating punch list item:", error);
       throw error;
     }
   }
   
-  async updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined> {
+  async updatePunchListItem(id: number, item: Partial<PunchListItemRecord>): Promise<PunchListItem | undefined> {
     try {
-      const [updatedProject] = await db
-        .update(projects)
-        .set({
-          ...project,
-          updatedAt: new Date()
-        })
-        .where(eq(projects.id, id))
+      const existing = await this.getPunchListItem(id);
+      const [updatedItem] = await db
+        .update(punchListItems)
+        .set({ ...item, projectId: undefined })
+        .where(and(eq(punchListItems.id, id), inCompany(punchListItems)))
         .returning();
-      return updatedProject;
+      if (updatedItem) await this.recordAudit("punch_list_item", "update", existing, updatedItem);
+      return updatedItem;
     } catch (error) {
-      console.error("Error updating project:", error);
+      console.error("Error updating punch list item:", error);
       return undefined;
     }
   }
   
-  async deleteProject(id: number): Promise<boolean> {
+  async deletePunchListItem(id: number): Promise<boolean> {
     try {
-      // Delete related records first (cascade delete)
-      await db.delete(payments).where(eq(payments.projectId, id));
-      await db.delete(purchaseOrders).where(eq(purchaseOrders.projectId, id));
-      await db.delete(invoices).where(eq(invoices.projectId, id));
-      await db.delete(serviceOrders).where(eq(serviceOrders.projectId, id));
-      await db.delete(quotes).where(eq(quotes.projectId, id));
-      // Now delete the project
-      await db.delete(projects).where(eq(projects.id, id));
-      return true;
+      const [deleted] = await db.delete(punchListItems).where(and(eq(punchListItems.id, id), inCompany(punchListItems))).returning();
+      if (deleted) await this.recordAudit("punch_list_item", "delete", deleted, null);
+      return !!deleted;
     } catch (error) {
-      console.error("Error deleting project:", error);
+      console.error("Error deleting punch list item:", error);
       return false;
     }
   }
   
+  // Records the client's sign-off of the final walkthrough; the open items the
+  // client explicitly waived are marked waived in the same transaction
+  async signOffPunchList(projectId: number, signOff: PunchListSignOff): Promise<{ project: Project; waived: PunchListItem[] } | undefined> {
+    try {
+      const existing = await this.getProject(projectId);
+      if (!existing) return undefined;
+      const openItems = (await this.getPunchListItems(projectId))
+        .filter((item) => item.status === "open" && signOff.waivedItemIds.includes(item.id));
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const waived: PunchListItem[] = [];
+        for (let i = 0; i < openItems.length; i++) {
+          const [item] = await tx
+            .update(punchListItems)
+            .set({ status: "waived", waivedBy: signOff.signedBy, waivedAt: now })
+            .where(and(eq(punchListItems.id, openItems[i].id), eq(punchListItems.status, "open"), inCompany(punchListItems)))
+            .returning();
+          if (!item) continue;
+          await this.recordAudit("punch_list_item", "update", openItems[i], item, tx);
+          waived.push(item);
+        }
+        const [project] = await tx
+          .update(projects)
+          .set({ walkthroughSignedBy: signOff.signedBy, walkthroughSignature: signOff.signatureData, walkthroughSignedAt: now })
+          .where(and(eq(projects.id, projectId), inCompany(projects)))
+          .returning();
+        await this.recordAudit("project", "update", existing, project, tx);
+        return { project, waived };
+      });
+    } catch (error) {
+      console.error("Error signing off punch list:", error);
+      throw error;
+    }
+  }
+  
   // Quote methods
   async getQuotes(): Promise<Quote[]> {
     try {
-      return await db.select().from(quotes);
+      return await db.select().from(quotes).where(inCompany(quotes));
     } catch (error) {
       console.error("Error fetching quotes:", error);
       return [];
@@ -337,7 +2082,7 @@ export class DatabaseStorage implements IStorage {
   
   async getQuote(id: number): Promise<Quote | undefined> {
     try {
-      const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+      const [quote] = await db.select().from(quotes).where(and(eq(quotes.id, id), inCompany(quotes)));
       return quote;
     } catch (error) {
       console.error("Error fetching quote:", error);
@@ -347,7 +2092,7 @@ export class DatabaseStorage implements IStorage {
   
   async getQuoteByProject(projectId: number): Promise<Quote | undefined> {
     try {
-      const [quote] = await db.select().from(quotes).where(eq(quotes.projectId, projectId));
+      const [quote] = await db.select().from(quotes).where(and(eq(quotes.projectId, projectId), inCompany(quotes)));
       return quote;
     } catch (error) {
       console.error("Error fetching quote by project:", error);
@@ -355,13 +2100,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async getQuotesByClient(clientId: number): Promise<Quote[]> {
+    try {
+      const clientProjectIds = db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(and(eq(projects.clientId, clientId), inCompany(projects)));
+      return await db
+        .select()
+        .from(quotes)
+        .where(and(inArray(quotes.projectId, clientProjectIds), inCompany(quotes)))
+        .orderBy(desc(quotes.createdAt));
+    } catch (error) {
+      console.error("Error fetching quotes by client:", error);
+      return [];
+    }
+  }
+  
   async createQuote(quote: InsertQuote): Promise<Quote> {
     try {
-      const [newQuote] = await db.insert(quotes).values({
+      const [newQuote] = await db.insert(quotes).values(withCompany({
         ...quote,
         createdAt: new Date(),
         updatedAt: new Date()
-      }).returning();
+      })).returning();
+      await this.recordAudit("quote", "create", null, newQuote);
       return newQuote;
     } catch (error) {
       console.error("Error creating quote:", error);
@@ -371,14 +2134,16 @@ export class DatabaseStorage implements IStorage {
   
   async updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined> {
     try {
+      const existing = await this.getQuote(id);
       const [updatedQuote] = await db
         .update(quotes)
         .set({
           ...quote,
           updatedAt: new Date()
         })
-        .where(eq(quotes.id, id))
+        .where(and(eq(quotes.id, id), inCompany(quotes)))
         .returning();
+      if (updatedQuote) await this.recordAudit("quote", "update", existing, updatedQuote);
       return updatedQuote;
     } catch (error) {
       console.error("Error updating quote:", error);
@@ -386,9 +2151,29 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Approves a quote with the client's e-signature. Only quotes that were sent
+  // and not yet answered can be signed.
+  async signQuote(id: number, signature: QuoteSignature): Promise<Quote | undefined> {
+    try {
+      const existing = await this.getQuote(id);
+      const now = new Date();
+      const [signedQuote] = await db
+        .update(quotes)
+        .set({ ...signature, signedAt: now, status: "approved", approvedDate: now })
+        .where(and(eq(quotes.id, id), eq(quotes.status, "sent"), inCompany(quotes)))
+        .returning();
+      if (signedQuote) await this.recordAudit("quote", "update", existing, signedQuote);
+      return signedQuote;
+    } catch (error) {
+      console.error("Error signing quote:", error);
+      return undefined;
+    }
+  }
+  
   async deleteQuote(id: number): Promise<boolean> {
     try {
-      await db.delete(quotes).where(eq(quotes.id, id));
+      const [deleted] = await db.delete(quotes).where(and(eq(quotes.id, id), inCompany(quotes))).returning();
+      if (deleted) await this.recordAudit("quote", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting quote:", error);
@@ -399,7 +2184,7 @@ export class DatabaseStorage implements IStorage {
   // Service Order methods
   async getServiceOrders(): Promise<ServiceOrder[]> {
     try {
-      return await db.select().from(serviceOrders);
+      return await db.select().from(serviceOrders).where(inCompany(serviceOrders));
     } catch (error) {
       console.error("Error fetching service orders:", error);
       return [];
@@ -408,7 +2193,7 @@ export class DatabaseStorage implements IStorage {
   
   async getServiceOrder(id: number): Promise<ServiceOrder | undefined> {
     try {
-      const [serviceOrder] = await db.select().from(serviceOrders).where(eq(serviceOrders.id, id));
+      const [serviceOrder] = await db.select().from(serviceOrders).where(and(eq(serviceOrders.id, id), inCompany(serviceOrders)));
       return serviceOrder;
     } catch (error) {
       console.error("Error fetching service order:", error);
@@ -421,7 +2206,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(serviceOrders)
-        .where(eq(serviceOrders.projectId, projectId));
+        .where(and(eq(serviceOrders.projectId, projectId), inCompany(serviceOrders)));
     } catch (error) {
       console.error("Error fetching service orders by project:", error);
       return [];
@@ -430,11 +2215,12 @@ export class DatabaseStorage implements IStorage {
   
   async createServiceOrder(serviceOrder: InsertServiceOrder): Promise<ServiceOrder> {
     try {
-      const [newServiceOrder] = await db.insert(serviceOrders).values({
+      const [newServiceOrder] = await db.insert(serviceOrders).values(withCompany({
         ...serviceOrder,
         createdAt: new Date(),
         updatedAt: new Date()
-      }).returning();
+      })).returning();
+      await this.recordAudit("service_order", "create", null, newServiceOrder);
       return newServiceOrder;
     } catch (error) {
       console.error("Error creating service order:", error);
@@ -444,14 +2230,16 @@ export class DatabaseStorage implements IStorage {
   
   async updateServiceOrder(id: number, serviceOrder: Partial<InsertServiceOrder>): Promise<ServiceOrder | undefined> {
     try {
+      const existing = await this.getServiceOrder(id);
       const [updatedServiceOrder] = await db
         .update(serviceOrders)
         .set({
           ...serviceOrder,
           updatedAt: new Date()
         })
-        .where(eq(serviceOrders.id, id))
+        .where(and(eq(serviceOrders.id, id), inCompany(serviceOrders)))
         .returning();
+      if (updatedServiceOrder) await this.recordAudit("service_order", "update", existing, updatedServiceOrder);
       return updatedServiceOrder;
     } catch (error) {
       console.error("Error updating service order:", error);
@@ -461,7 +2249,8 @@ export class DatabaseStorage implements IStorage {
   
   async deleteServiceOrder(id: number): Promise<boolean> {
     try {
-      await db.delete(serviceOrders).where(eq(serviceOrders.id, id));
+      const [deleted] = await db.delete(serviceOrders).where(and(eq(serviceOrders.id, id), inCompany(serviceOrders))).returning();
+      if (deleted) await this.recordAudit("service_order", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting service order:", error);
@@ -472,7 +2261,7 @@ export class DatabaseStorage implements IStorage {
   // Staff methods
   async getStaff(): Promise<Staff[]> {
     try {
-      return await db.select().from(staff);
+      return await db.select().from(staff).where(inCompany(staff));
     } catch (error) {
       console.error("Error fetching staff:", error);
       return [];
@@ -481,7 +2270,7 @@ export class DatabaseStorage implements IStorage {
   
   async getStaffMember(id: number): Promise<Staff | undefined> {
     try {
-      const [staffMember] = await db.select().from(staff).where(eq(staff.id, id));
+      const [staffMember] = await db.select().from(staff).where(and(eq(staff.id, id), inCompany(staff)));
       return staffMember;
     } catch (error) {
       console.error("Error fetching staff member:", error);
@@ -491,7 +2280,8 @@ export class DatabaseStorage implements IStorage {
   
   async createStaffMember(staffMember: InsertStaff): Promise<Staff> {
     try {
-      const [newStaffMember] = await db.insert(staff).values(staffMember).returning();
+      const [newStaffMember] = await db.insert(staff).values(withCompany(staffMember)).returning();
+      await this.recordAudit("staff", "create", null, newStaffMember);
       return newStaffMember;
     } catch (error) {
       console.error("Error creating staff member:", error);
@@ -501,11 +2291,13 @@ export class DatabaseStorage implements IStorage {
   
   async updateStaffMember(id: number, staffMember: Partial<InsertStaff>): Promise<Staff | undefined> {
     try {
+      const existing = await this.getStaffMember(id);
       const [updatedStaffMember] = await db
         .update(staff)
         .set(staffMember)
-        .where(eq(staff.id, id))
+        .where(and(eq(staff.id, id), inCompany(staff)))
         .returning();
+      if (updatedStaffMember) await this.recordAudit("staff", "update", existing, updatedStaffMember);
       return updatedStaffMember;
     } catch (error) {
       console.error("Error updating staff member:", error);
@@ -515,7 +2307,8 @@ export class DatabaseStorage implements IStorage {
   
   async deleteStaffMember(id: number): Promise<boolean> {
     try {
-      await db.delete(staff).where(eq(staff.id, id));
+      const [deleted] = await db.delete(staff).where(and(eq(staff.id, id), inCompany(staff))).returning();
+      if (deleted) await this.recordAudit("staff", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting staff member:", error);
@@ -528,7 +2321,7 @@ export class DatabaseStorage implements IStorage {
     try {
       return await db
         .select()
-        .from(activities);
+        .from(activities).where(inCompany(activities));
     } catch (error) {
       console.error("Error fetching activities:", error);
       return [];
@@ -537,7 +2330,7 @@ export class DatabaseStorage implements IStorage {
   
   async getActivity(id: number): Promise<Activity | undefined> {
     try {
-      const [activity] = await db.select().from(activities).where(eq(activities.id, id));
+      const [activity] = await db.select().from(activities).where(and(eq(activities.id, id), inCompany(activities)));
       return activity;
     } catch (error) {
       console.error("Error fetching activity:", error);
@@ -550,7 +2343,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(activities)
-        .where(eq(activities.projectId, projectId));
+        .where(and(eq(activities.projectId, projectId), inCompany(activities)));
     } catch (error) {
       console.error("Error fetching activities by project:", error);
       return [];
@@ -562,7 +2355,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(activities)
-        .where(eq(activities.clientId, clientId));
+        .where(and(eq(activities.clientId, clientId), inCompany(activities)));
     } catch (error) {
       console.error("Error fetching activities by client:", error);
       return [];
@@ -574,7 +2367,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(activities)
-        .where(eq(activities.userId, userId));
+        .where(and(eq(activities.userId, userId), inCompany(activities)));
     } catch (error) {
       console.error("Error fetching activities by user:", error);
       return [];
@@ -583,10 +2376,10 @@ export class DatabaseStorage implements IStorage {
   
   async createActivity(activity: InsertActivity): Promise<Activity> {
     try {
-      const [newActivity] = await db.insert(activities).values({
+      const [newActivity] = await db.insert(activities).values(withCompany({
         ...activity,
         createdAt: new Date()
-      }).returning();
+      })).returning();
       return newActivity;
     } catch (error) {
       console.error("Error creating activity:", error);
@@ -594,10 +2387,137 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Communication methods
+  private selectCommunicationEntries() {
+    return db
+      .select({ communication: communications, userName: users.name, clientName: clients.name, leadName: leads.name })
+      .from(communications)
+      .leftJoin(users, eq(communications.userId, users.id))
+      .leftJoin(clients, eq(communications.clientId, clients.id))
+      .leftJoin(leads, eq(communications.leadId, leads.id));
+  }
+  
+  async getCommunications(filters: CommunicationFilters): Promise<CommunicationEntry[]> {
+    try {
+      const conditions = [inCompany(communications)];
+      if (filters.clientId) conditions.push(eq(communications.clientId, filters.clientId));
+      if (filters.leadId) conditions.push(eq(communications.leadId, filters.leadId));
+      if (filters.projectId) conditions.push(eq(communications.projectId, filters.projectId));
+      if (filters.quoteId) conditions.push(eq(communications.quoteId, filters.quoteId));
+
+      const rows = await this.selectCommunicationEntries()
+        .where(and(...conditions))
+        .orderBy(desc(communications.occurredAt), desc(communications.id));
+      return rows.map(({ communication, ...names }) => ({ ...communication, ...names }));
+    } catch (error) {
+      console.error("Error fetching communications:", error);
+      return [];
+    }
+  }
+  
+  async getCommunication(id: number): Promise<Communication | undefined> {
+    try {
+      const [communication] = await db.select().from(communications).where(and(eq(communications.id, id), inCompany(communications)));
+      return communication;
+    } catch (error) {
+      console.error("Error fetching communication:", error);
+      return undefined;
+    }
+  }
+  
+  // Follow-ups not yet done that are due by the given time, overdue first
+  async getDueFollowUps(dueBy: Date, userId?: number): Promise<CommunicationEntry[]> {
+    try {
+      const conditions = [
+        inCompany(communications),
+        isNull(communications.followUpDoneAt),
+        lte(communications.followUpDate, dueBy),
+      ];
+      if (userId) conditions.push(eq(communications.userId, userId));
+
+      const rows = await this.selectCommunicationEntries()
+        .where(and(...conditions))
+        .orderBy(asc(communications.followUpDate));
+      return rows.map(({ communication, ...names }) => ({ ...communication, ...names }));
+    } catch (error) {
+      console.error("Error fetching due follow-ups:", error);
+      return [];
+    }
+  }
+  
+  // Latest communication per client, keyed by client id
+  async getLastContactDates(): Promise<Map<number, Date>> {
+    try {
+      const rows = await db
+        .select({ clientId: communications.clientId, lastContact: sql<string>`max(${communications.occurredAt})` })
+        .from(communications)
+        .where(and(inCompany(communications), sql`${communications.clientId} is not null`))
+        .groupBy(communications.clientId);
+      return new Map(rows.map((row) => [row.clientId!, new Date(row.lastContact)]));
+    } catch (error) {
+      console.error("Error fetching last contact dates:", error);
+      return new Map();
+    }
+  }
+  
+  async createCommunication(communication: InsertCommunication & { userId: number | null }): Promise<Communication> {
+    try {
+      const [newCommunication] = await db.insert(communications).values(withCompany(communication)).returning();
+      await this.recordAudit("communication", "create", null, newCommunication);
+      return newCommunication;
+    } catch (error) {
+      console.error("Error creating communication:", error);
+      throw error;
+    }
+  }
+  
+  async updateCommunication(id: number, communication: Partial<InsertCommunication> & { followUpDoneAt?: Date | null }): Promise<Communication | undefined> {
+    try {
+      const existing = await this.getCommunication(id);
+      const [updatedCommunication] = await db
+        .update(communications)
+        .set(communication)
+        .where(and(eq(communications.id, id), inCompany(communications)))
+        .returning();
+      if (updatedCommunication) await this.recordAudit("communication", "update", existing, updatedCommunication);
+      return updatedCommunication;
+    } catch (error) {
+      console.error("Error updating communication:", error);
+      return undefined;
+    }
+  }
+  
+  async deleteCommunication(id: number): Promise<boolean> {
+    try {
+      const [deleted] = await db.delete(communications).where(and(eq(communications.id, id), inCompany(communications))).returning();
+      if (deleted) await this.recordAudit("communication", "delete", deleted, null);
+      return !!deleted;
+    } catch (error) {
+      console.error("Error deleting communication:", error);
+      return false;
+    }
+  }
+  
+  // Used by follow-up campaigns: one entry per client, all or nothing
+  async createCommunications(records: (InsertCommunication & { userId: number | null })[]): Promise<number> {
+    try {
+      return await db.transaction(async (tx) => {
+        const created = await tx.insert(communications).values(records.map((record) => withCompany(record))).returning();
+        for (const communication of created) {
+          await this.recordAudit("communication", "create", null, communication, tx);
+        }
+        return created.length;
+      });
+    } catch (error) {
+      console.error("Error creating communications:", error);
+      throw error;
+    }
+  }
+  
   // Subcontractor methods
   async getSubcontractors(): Promise<Subcontractor[]> {
     try {
-      return await db.select().from(subcontractors);
+      return await db.select().from(subcontractors).where(inCompany(subcontractors));
     } catch (error) {
       console.error("Error fetching subcontractors:", error);
       return [];
@@ -606,7 +2526,7 @@ export class DatabaseStorage implements IStorage {
   
   async getSubcontractor(id: number): Promise<Subcontractor | undefined> {
     try {
-      const [subcontractor] = await db.select().from(subcontractors).where(eq(subcontractors.id, id));
+      const [subcontractor] = await db.select().from(subcontractors).where(and(eq(subcontractors.id, id), inCompany(subcontractors)));
       return subcontractor;
     } catch (error) {
       console.error("Error fetching subcontractor:", error);
@@ -616,7 +2536,8 @@ export class DatabaseStorage implements IStorage {
   
   async createSubcontractor(subcontractor: InsertSubcontractor): Promise<Subcontractor> {
     try {
-      const [newSubcontractor] = await db.insert(subcontractors).values(subcontractor).returning();
+      const [newSubcontractor] = await db.insert(subcontractors).values(withCompany(subcontractor)).returning();
+      await this.recordAudit("subcontractor", "create", null, newSubcontractor);
       return newSubcontractor;
     } catch (error) {
       console.error("Error creating subcontractor:", error);
@@ -626,11 +2547,13 @@ export class DatabaseStorage implements IStorage {
   
   async updateSubcontractor(id: number, subcontractor: Partial<InsertSubcontractor>): Promise<Subcontractor | undefined> {
     try {
+      const existing = await this.getSubcontractor(id);
       const [updatedSubcontractor] = await db
         .update(subcontractors)
         .set(subcontractor)
-        .where(eq(subcontractors.id, id))
+        .where(and(eq(subcontractors.id, id), inCompany(subcontractors)))
         .returning();
+      if (updatedSubcontractor) await this.recordAudit("subcontractor", "update", existing, updatedSubcontractor);
       return updatedSubcontractor;
     } catch (error) {
       console.error("Error updating subcontractor:", error);
@@ -640,7 +2563,8 @@ export class DatabaseStorage implements IStorage {
   
   async deleteSubcontractor(id: number): Promise<boolean> {
     try {
-      await db.delete(subcontractors).where(eq(subcontractors.id, id));
+      const [deleted] = await db.delete(subcontractors).where(and(eq(subcontractors.id, id), inCompany(subcontractors))).returning();
+      if (deleted) await this.recordAudit("subcontractor", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting subcontractor:", error);
@@ -651,7 +2575,7 @@ export class DatabaseStorage implements IStorage {
   // Invoice methods
   async getInvoices(): Promise<Invoice[]> {
     try {
-      return await db.select().from(invoices);
+      return await db.select().from(invoices).where(inCompany(invoices));
     } catch (error) {
       console.error("Error fetching invoices:", error);
       return [];
@@ -660,7 +2584,7 @@ export class DatabaseStorage implements IStorage {
   
   async getInvoice(id: number): Promise<Invoice | undefined> {
     try {
-      const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+      const [invoice] = await db.select().from(invoices).where(and(eq(invoices.id, id), inCompany(invoices)));
       return invoice;
     } catch (error) {
       console.error("Error fetching invoice:", error);
@@ -673,7 +2597,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(invoices)
-        .where(eq(invoices.projectId, projectId));
+        .where(and(eq(invoices.projectId, projectId), inCompany(invoices)));
     } catch (error) {
       console.error("Error fetching invoices by project:", error);
       return [];
@@ -685,7 +2609,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(invoices)
-        .where(eq(invoices.clientId, clientId));
+        .where(and(eq(invoices.clientId, clientId), inCompany(invoices)));
     } catch (error) {
       console.error("Error fetching invoices by client:", error);
       return [];
@@ -697,21 +2621,50 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(invoices)
-        .where(eq(invoices.status, status));
+        .where(and(eq(invoices.status, status), inCompany(invoices)));
     } catch (error) {
       console.error("Error fetching invoices by status:", error);
       return [];
     }
   }
   
-  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+  /**
+   * Creates an invoice and marks the given approved change orders billed on it
+   * in one transaction. Fails, creating nothing, when one of them has been
+   * billed in the meantime.
+   */
+  async createInvoice(invoice: InsertInvoice, changeOrderIds: number[] = []): Promise<Invoice> {
     try {
-      const [newInvoice] = await db.insert(invoices).values({
-        ...invoice,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }).returning();
-      return newInvoice;
+      return await db.transaction(async (tx) => {
+        const [newInvoice] = await tx.insert(invoices).values(withCompany({
+          ...invoice,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })).returning();
+        await this.recordAudit("invoice", "create", null, newInvoice, tx);
+
+        for (let i = 0; i < changeOrderIds.length; i++) {
+          const [existing] = await tx
+            .select()
+            .from(changeOrders)
+            .where(and(eq(changeOrders.id, changeOrderIds[i]), inCompany(changeOrders)));
+          const [billed] = await tx
+            .update(changeOrders)
+            .set({ invoiceId: newInvoice.id })
+            .where(and(
+              eq(changeOrders.id, changeOrderIds[i]),
+              eq(changeOrders.status, "approved"),
+              isNull(changeOrders.invoiceId),
+              inCompany(changeOrders),
+            ))
+            .returning();
+          if (!billed) {
+            throw new Error(`Change order ${existing ? changeOrderReference(existing) : changeOrderIds[i]} has already been billed`);
+          }
+          await this.recordAudit("change_order", "update", existing, billed, tx);
+        }
+        return newInvoice;
+      });
     } catch (error) {
       console.error("Error creating invoice:", error);
       throw error;
@@ -720,14 +2673,16 @@ export class DatabaseStorage implements IStorage {
   
   async updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> {
     try {
+      const existing = await this.getInvoice(id);
       const [updatedInvoice] = await db
         .update(invoices)
         .set({
           ...invoice,
           updatedAt: new Date()
         })
-        .where(eq(invoices.id, id))
+        .where(and(eq(invoices.id, id), inCompany(invoices)))
         .returning();
+      if (updatedInvoice) await this.recordAudit("invoice", "update", existing, updatedInvoice);
       return updatedInvoice;
     } catch (error) {
       console.error("Error updating invoice:", error);
@@ -735,9 +2690,55 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  /**
+   * Marks an invoice paid by card from the client portal and records the
+   * payment against it, so the client's ledger sees it, in one transaction.
+   * Returns undefined when the invoice was already paid.
+   */
+  async recordOnlinePayment(id: number, payment: OnlinePayment): Promise<Invoice | undefined> {
+    try {
+      const existing = await this.getInvoice(id);
+      return await db.transaction(async (tx) => {
+        const [paidInvoice] = await tx
+          .update(invoices)
+          .set({
+            status: "paid",
+            paidDate: payment.date,
+            paymentMethod: payment.paymentMethod,
+            transactionId: payment.transactionId,
+          })
+          .where(and(eq(invoices.id, id), ne(invoices.status, "paid"), inCompany(invoices)))
+          .returning();
+        if (!paidInvoice) return undefined;
+        await this.recordAudit("invoice", "update", existing, paidInvoice, tx);
+
+        const [newPayment] = await tx.insert(payments).values(withCompany({
+          amount: payment.amount,
+          date: payment.date,
+          description: `Online payment of invoice ${paidInvoice.invoiceNumber}`,
+          paymentType: "invoice",
+          status: "completed",
+          recipientType: "client",
+          recipientId: paidInvoice.clientId,
+          reference: payment.transactionId,
+          paymentMethod: payment.paymentMethod,
+          projectId: paidInvoice.projectId,
+          invoiceId: paidInvoice.id,
+          createdBy: null,
+        })).returning();
+        await this.recordAudit("payment", "create", null, newPayment, tx);
+        return paidInvoice;
+      });
+    } catch (error) {
+      console.error("Error recording online payment:", error);
+      throw error;
+    }
+  }
+  
   async deleteInvoice(id: number): Promise<boolean> {
     try {
-      await db.delete(invoices).where(eq(invoices.id, id));
+      const [deleted] = await db.delete(invoices).where(and(eq(invoices.id, id), inCompany(invoices))).returning();
+      if (deleted) await this.recordAudit("invoice", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting invoice:", error);
@@ -747,7 +2748,7 @@ export class DatabaseStorage implements IStorage {
   
   async getInvoiceCount(): Promise<number> {
     try {
-      const result = await db.select().from(invoices);
+      const result = await db.select().from(invoices).where(inCompany(invoices));
       return result.length;
     } catch (error) {
       console.error("Error getting invoice count:", error);
@@ -760,7 +2761,8 @@ export class DatabaseStorage implements IStorage {
       return await db.select().from(invoices)
         .where(and(
           gte(invoices.issueDate, startDate),
-          lte(invoices.issueDate, endDate)
+          lte(invoices.issueDate, endDate),
+          inCompany(invoices)
         ));
     } catch (error) {
       console.error("Error fetching invoices by date range:", error);
@@ -771,7 +2773,7 @@ export class DatabaseStorage implements IStorage {
   // Supplier methods
   async getSuppliers(): Promise<Supplier[]> {
     try {
-      return await db.select().from(suppliers);
+      return await db.select().from(suppliers).where(inCompany(suppliers));
     } catch (error) {
       console.error("Error fetching suppliers:", error);
       return [];
@@ -780,7 +2782,7 @@ export class DatabaseStorage implements IStorage {
   
   async getSupplier(id: number): Promise<Supplier | undefined> {
     try {
-      const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+      const [supplier] = await db.select().from(suppliers).where(and(eq(suppliers.id, id), inCompany(suppliers)));
       return supplier;
     } catch (error) {
       console.error("Error fetching supplier:", error);
@@ -790,7 +2792,7 @@ export class DatabaseStorage implements IStorage {
   
   async getSuppliersByCategory(category: string): Promise<Supplier[]> {
     try {
-      return await db.select().from(suppliers).where(eq(suppliers.category, category));
+      return await db.select().from(suppliers).where(and(eq(suppliers.category, category), inCompany(suppliers)));
     } catch (error) {
       console.error("Error fetching suppliers by category:", error);
       return [];
@@ -799,7 +2801,8 @@ export class DatabaseStorage implements IStorage {
   
   async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
     try {
-      const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
+      const [newSupplier] = await db.insert(suppliers).values(withCompany(supplier)).returning();
+      await this.recordAudit("supplier", "create", null, newSupplier);
       return newSupplier;
     } catch (error) {
       console.error("Error creating supplier:", error);
@@ -809,11 +2812,13 @@ export class DatabaseStorage implements IStorage {
   
   async updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined> {
     try {
+      const existing = await this.getSupplier(id);
       const [updatedSupplier] = await db
         .update(suppliers)
         .set(supplier)
-        .where(eq(suppliers.id, id))
+        .where(and(eq(suppliers.id, id), inCompany(suppliers)))
         .returning();
+      if (updatedSupplier) await this.recordAudit("supplier", "update", existing, updatedSupplier);
       return updatedSupplier;
     } catch (error) {
       console.error("Error updating supplier:", error);
@@ -823,7 +2828,8 @@ export class DatabaseStorage implements IStorage {
   
   async deleteSupplier(id: number): Promise<boolean> {
     try {
-      await db.delete(suppliers).where(eq(suppliers.id, id));
+      const [deleted] = await db.delete(suppliers).where(and(eq(suppliers.id, id), inCompany(suppliers))).returning();
+      if (deleted) await this.recordAudit("supplier", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting supplier:", error);
@@ -831,10 +2837,48 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Spreadsheet import methods
+  // All records go in one transaction: if any insert fails, none are kept
+  async importRecords(batch: ImportBatch): Promise<number> {
+    try {
+      return await db.transaction(async (tx) => {
+        switch (batch.entity) {
+          case "clients":
+            for (const record of batch.records) {
+              await this.insertClient(record, tx);
+            }
+            break;
+          case "suppliers":
+            for (const record of batch.records) {
+              const [newSupplier] = await tx.insert(suppliers).values(withCompany(record)).returning();
+              await this.recordAudit("supplier", "create", null, newSupplier, tx);
+            }
+            break;
+          case "subcontractors":
+            for (const record of batch.records) {
+              const [newSubcontractor] = await tx.insert(subcontractors).values(withCompany(record)).returning();
+              await this.recordAudit("subcontractor", "create", null, newSubcontractor, tx);
+            }
+            break;
+          case "staff":
+            for (const record of batch.records) {
+              const [newStaffMember] = await tx.insert(staff).values(withCompany(record)).returning();
+              await this.recordAudit("staff", "create", null, newStaffMember, tx);
+            }
+            break;
+        }
+        return batch.records.length;
+      });
+    } catch (error) {
+      console.error("Error importing records:", error);
+      throw error;
+    }
+  }
+  
   // Payment methods
   async getPayments(): Promise<Payment[]> {
     try {
-      return await db.select().from(payments);
+      return await db.select().from(payments).where(inCompany(payments));
     } catch (error) {
       console.error("Error fetching payments:", error);
       return [];
@@ -843,7 +2887,7 @@ export class DatabaseStorage implements IStorage {
   
   async getPayment(id: number): Promise<Payment | undefined> {
     try {
-      const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+      const [payment] = await db.select().from(payments).where(and(eq(payments.id, id), inCompany(payments)));
       return payment;
     } catch (error) {
       console.error("Error fetching payment:", error);
@@ -856,7 +2900,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(payments)
-        .where(eq(payments.projectId, projectId));
+        .where(and(eq(payments.projectId, projectId), inCompany(payments)));
     } catch (error) {
       console.error("Error fetching payments by project:", error);
       return [];
@@ -867,14 +2911,14 @@ export class DatabaseStorage implements IStorage {
     try {
       // Find payments by recipient type and ID
       if (type === 'subcontractor') {
-        return await db.select().from(payments).where(eq(payments.recipientType, 'subcontractor'))
-          .where(eq(payments.recipientId, id));
+        return await db.select().from(payments)
+          .where(and(eq(payments.recipientType, 'subcontractor'), eq(payments.recipientId, id), inCompany(payments)));
       } else if (type === 'supplier') {
-        return await db.select().from(payments).where(eq(payments.recipientType, 'supplier'))
-          .where(eq(payments.recipientId, id));
+        return await db.select().from(payments)
+          .where(and(eq(payments.recipientType, 'supplier'), eq(payments.recipientId, id), inCompany(payments)));
       } else if (type === 'staff') {
-        return await db.select().from(payments).where(eq(payments.recipientType, 'staff'))
-          .where(eq(payments.recipientId, id));
+        return await db.select().from(payments)
+          .where(and(eq(payments.recipientType, 'staff'), eq(payments.recipientId, id), inCompany(payments)));
       } else {
         throw new Error(`Invalid recipient type: ${type}`);
       }
@@ -889,7 +2933,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(payments)
-        .where(eq(payments.status, status));
+        .where(and(eq(payments.status, status), inCompany(payments)));
     } catch (error) {
       console.error("Error fetching payments by status:", error);
       return [];
@@ -898,7 +2942,8 @@ export class DatabaseStorage implements IStorage {
   
   async createPayment(payment: InsertPayment): Promise<Payment> {
     try {
-      const [newPayment] = await db.insert(payments).values(payment).returning();
+      const [newPayment] = await db.insert(payments).values(withCompany(payment)).returning();
+      await this.recordAudit("payment", "create", null, newPayment);
       return newPayment;
     } catch (error) {
       console.error("Error creating payment:", error);
@@ -908,11 +2953,13 @@ export class DatabaseStorage implements IStorage {
   
   async updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined> {
     try {
+      const existing = await this.getPayment(id);
       const [updatedPayment] = await db
         .update(payments)
         .set(payment)
-        .where(eq(payments.id, id))
+        .where(and(eq(payments.id, id), inCompany(payments)))
         .returning();
+      if (updatedPayment) await this.recordAudit("payment", "update", existing, updatedPayment);
       return updatedPayment;
     } catch (error) {
       console.error("Error updating payment:", error);
@@ -922,7 +2969,8 @@ export class DatabaseStorage implements IStorage {
   
   async deletePayment(id: number): Promise<boolean> {
     try {
-      await db.delete(payments).where(eq(payments.id, id));
+      const [deleted] = await db.delete(payments).where(and(eq(payments.id, id), inCompany(payments))).returning();
+      if (deleted) await this.recordAudit("payment", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting payment:", error);
@@ -935,7 +2983,8 @@ export class DatabaseStorage implements IStorage {
       return await db.select().from(payments)
         .where(and(
           gte(payments.date, startDate),
-          lte(payments.date, endDate)
+          lte(payments.date, endDate),
+          inCompany(payments)
         ));
     } catch (error) {
       console.error("Error fetching payments by date range:", error);
@@ -946,7 +2995,7 @@ export class DatabaseStorage implements IStorage {
   // Purchase Order methods
   async getPurchaseOrders(): Promise<PurchaseOrder[]> {
     try {
-      return await db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.issueDate));
+      return await db.select().from(purchaseOrders).where(inCompany(purchaseOrders)).orderBy(desc(purchaseOrders.issueDate));
     } catch (error) {
       console.error("Error fetching purchase orders:", error);
       return [];
@@ -955,7 +3004,7 @@ export class DatabaseStorage implements IStorage {
   
   async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
     try {
-      const [purchaseOrder] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+      const [purchaseOrder] = await db.select().from(purchaseOrders).where(and(eq(purchaseOrders.id, id), inCompany(purchaseOrders)));
       return purchaseOrder;
     } catch (error) {
       console.error("Error fetching purchase order:", error);
@@ -968,7 +3017,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(purchaseOrders)
-        .where(eq(purchaseOrders.supplierId, supplierId))
+        .where(and(eq(purchaseOrders.supplierId, supplierId), inCompany(purchaseOrders)))
         .orderBy(desc(purchaseOrders.issueDate));
     } catch (error) {
       console.error("Error fetching purchase orders by supplier:", error);
@@ -981,7 +3030,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(purchaseOrders)
-        .where(eq(purchaseOrders.projectId, projectId))
+        .where(and(eq(purchaseOrders.projectId, projectId), inCompany(purchaseOrders)))
         .orderBy(desc(purchaseOrders.issueDate));
     } catch (error) {
       console.error("Error fetching purchase orders by project:", error);
@@ -994,7 +3043,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(purchaseOrders)
-        .where(eq(purchaseOrders.status, status))
+        .where(and(eq(purchaseOrders.status, status), inCompany(purchaseOrders)))
         .orderBy(desc(purchaseOrders.issueDate));
     } catch (error) {
       console.error("Error fetching purchase orders by status:", error);
@@ -1010,11 +3059,11 @@ export class DatabaseStorage implements IStorage {
       const { items, ...purchaseOrderData } = purchaseOrder as any;
       
       // Crear la orden de compra
-      const [newPurchaseOrder] = await db.insert(purchaseOrders).values({
+      const [newPurchaseOrder] = await db.insert(purchaseOrders).values(withCompany({
         ...purchaseOrderData,
         createdAt: new Date(),
         updatedAt: new Date()
-      }).returning();
+      })).returning();
       
       // Si hay items, crearlos también
       if (items && Array.isArray(items) && items.length > 0) {
@@ -1057,6 +3106,7 @@ export class DatabaseStorage implements IStorage {
         });
       }
       
+      await this.recordAudit("purchase_order", "create", null, newPurchaseOrder);
       return newPurchaseOrder;
     } catch (error) {
       console.error("Error creating purchase order:", error);
@@ -1066,14 +3116,16 @@ export class DatabaseStorage implements IStorage {
   
   async updatePurchaseOrder(id: number, purchaseOrder: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
     try {
+      const existing = await this.getPurchaseOrder(id);
       const [updatedPurchaseOrder] = await db
         .update(purchaseOrders)
         .set({
           ...purchaseOrder,
           updatedAt: new Date()
         })
-        .where(eq(purchaseOrders.id, id))
+        .where(and(eq(purchaseOrders.id, id), inCompany(purchaseOrders)))
         .returning();
+      if (updatedPurchaseOrder) await this.recordAudit("purchase_order", "update", existing, updatedPurchaseOrder);
       return updatedPurchaseOrder;
     } catch (error) {
       console.error("Error updating purchase order:", error);
@@ -1083,7 +3135,8 @@ export class DatabaseStorage implements IStorage {
   
   async deletePurchaseOrder(id: number): Promise<boolean> {
     try {
-      await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+      const [deleted] = await db.delete(purchaseOrders).where(and(eq(purchaseOrders.id, id), inCompany(purchaseOrders))).returning();
+      if (deleted) await this.recordAudit("purchase_order", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting purchase order:", error);
@@ -1097,7 +3150,7 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(purchaseOrderItems)
-        .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+        .where(and(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId), purchaseOrderItemInCompany()));
     } catch (error) {
       console.error("Error fetching purchase order items:", error);
       return [];
@@ -1109,7 +3162,7 @@ export class DatabaseStorage implements IStorage {
       const [item] = await db
         .select()
         .from(purchaseOrderItems)
-        .where(eq(purchaseOrderItems.id, id));
+        .where(and(eq(purchaseOrderItems.id, id), purchaseOrderItemInCompany()));
       return item;
     } catch (error) {
       console.error("Error fetching purchase order item:", error);
@@ -1135,6 +3188,11 @@ export class DatabaseStorage implements IStorage {
 
       console.log("Prepared item data:", preparedItem);
       
+      // Items belong to the company of their purchase order
+      if (!(await this.getPurchaseOrder(preparedItem.purchaseOrderId))) {
+        throw new Error("Purchase order not found");
+      }
+      
       // Esta línea podría fallar si los datos no son correctos, pero los hemos preparado antes
       const validatedItem = extendedInsertPurchaseOrderItemSchema.parse(preparedItem);
       
@@ -1164,6 +3222,7 @@ export class DatabaseStorage implements IStorage {
         // No lanzamos el error aquí para que el item se considere creado correctamente
       }
       
+      await this.recordAudit("purchase_order_item", "create", null, newItem);
       return newItem;
     } catch (error) {
       console.error("Error creating purchase order item:", error);
@@ -1173,13 +3232,14 @@ export class DatabaseStorage implements IStorage {
   
   async updatePurchaseOrderItem(id: number, item: Partial<InsertPurchaseOrderItem>): Promise<PurchaseOrderItem | undefined> {
     try {
+      const existing = await this.getPurchaseOrderItem(id);
       const [updatedItem] = await db
         .update(purchaseOrderItems)
         .set({
           ...item,
           updatedAt: new Date()
         })
-        .where(eq(purchaseOrderItems.id, id))
+        .where(and(eq(purchaseOrderItems.id, id), purchaseOrderItemInCompany()))
         .returning();
       
       // If the price changed, update the total amount of the parent purchase order
@@ -1192,6 +3252,7 @@ export class DatabaseStorage implements IStorage {
         });
       }
       
+      if (updatedItem) await this.recordAudit("purchase_order_item", "update", existing, updatedItem);
       return updatedItem;
     } catch (error) {
       console.error("Error updating purchase order item:", error);
@@ -1208,7 +3269,8 @@ export class DatabaseStorage implements IStorage {
       }
       
       // Delete the item
-      await db.delete(purchaseOrderItems).where(eq(purchaseOrderItems.id, id));
+      const [deleted] = await db.delete(purchaseOrderItems).where(and(eq(purchaseOrderItems.id, id), purchaseOrderItemInCompany())).returning();
+      if (deleted) await this.recordAudit("purchase_order_item", "delete", deleted, null);
       
       // Update the total amount of the parent purchase order
       const items = await this.getPurchaseOrderItems(item.purchaseOrderId);
@@ -1228,7 +3290,7 @@ export class DatabaseStorage implements IStorage {
   // Settings methods
   async getSettings(): Promise<Setting[]> {
     try {
-      return await db.select().from(settings);
+      return await db.select().from(settings).where(inCompany(settings));
     } catch (error) {
       console.error("Error fetching settings:", error);
       return [];
@@ -1237,7 +3299,7 @@ export class DatabaseStorage implements IStorage {
 
   async getSetting(key: string): Promise<Setting | undefined> {
     try {
-      const [setting] = await db.select().from(settings).where(eq(settings.key, key));
+      const [setting] = await db.select().from(settings).where(and(eq(settings.key, key), inCompany(settings)));
       return setting || undefined;
     } catch (error) {
       console.error("Error fetching setting:", error);
@@ -1249,12 +3311,13 @@ export class DatabaseStorage implements IStorage {
     try {
       const [newSetting] = await db
         .insert(settings)
-        .values({
+        .values(withCompany({
           ...setting,
           createdAt: new Date(),
           updatedAt: new Date()
-        })
+        }))
         .returning();
+      await this.recordAudit("setting", "create", null, newSetting);
       return newSetting;
     } catch (error) {
       console.error("Error creating setting:", error);
@@ -1264,14 +3327,16 @@ export class DatabaseStorage implements IStorage {
 
   async updateSetting(key: string, value: any): Promise<Setting | undefined> {
     try {
+      const existing = await this.getSetting(key);
       const [updatedSetting] = await db
         .update(settings)
         .set({
           value,
           updatedAt: new Date()
         })
-        .where(eq(settings.key, key))
+        .where(and(eq(settings.key, key), inCompany(settings)))
         .returning();
+      if (updatedSetting) await this.recordAudit("setting", "update", existing, updatedSetting);
       return updatedSetting || undefined;
     } catch (error) {
       console.error("Error updating setting:", error);
@@ -1281,7 +3346,8 @@ export class DatabaseStorage implements IStorage {
 
   async deleteSetting(key: string): Promise<boolean> {
     try {
-      await db.delete(settings).where(eq(settings.key, key));
+      const [deleted] = await db.delete(settings).where(and(eq(settings.key, key), inCompany(settings))).returning();
+      if (deleted) await this.recordAudit("setting", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting setting:", error);
@@ -1292,7 +3358,7 @@ export class DatabaseStorage implements IStorage {
   // Lead methods
   async getLeads(): Promise<Lead[]> {
     try {
-      return await db.select().from(leads).orderBy(desc(leads.createdAt));
+      return await db.select().from(leads).where(inCompany(leads)).orderBy(desc(leads.createdAt));
     } catch (error) {
       console.error("Error fetching leads:", error);
       return [];
@@ -1301,7 +3367,7 @@ export class DatabaseStorage implements IStorage {
 
   async getLead(id: number): Promise<Lead | undefined> {
     try {
-      const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+      const [lead] = await db.select().from(leads).where(and(eq(leads.id, id), inCompany(leads)));
       return lead || undefined;
     } catch (error) {
       console.error("Error fetching lead:", error);
@@ -1311,16 +3377,17 @@ export class DatabaseStorage implements IStorage {
 
   async getLeadsByStatus(status: string): Promise<Lead[]> {
     try {
-      return await db.select().from(leads).where(eq(leads.status, status)).orderBy(desc(leads.createdAt));
+      return await db.select().from(leads).where(and(eq(leads.status, status), inCompany(leads))).orderBy(desc(leads.createdAt));
     } catch (error) {
       console.error("Error fetching leads by status:", error);
       return [];
     }
   }
 
-  async createLead(lead: InsertLead): Promise<Lead> {
+  async createLead(lead: LeadRecord): Promise<Lead> {
     try {
-      const [newLead] = await db.insert(leads).values(lead).returning();
+      const [newLead] = await db.insert(leads).values(withCompany(lead)).returning();
+      await this.recordAudit("lead", "create", null, newLead);
       return newLead;
     } catch (error) {
       console.error("Error creating lead:", error);
@@ -1328,9 +3395,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined> {
+  async updateLead(id: number, lead: Partial<LeadRecord>): Promise<Lead | undefined> {
     try {
-      const [updatedLead] = await db.update(leads).set(lead).where(eq(leads.id, id)).returning();
+      const existing = await this.getLead(id);
+      const [updatedLead] = await db.update(leads).set(lead).where(and(eq(leads.id, id), inCompany(leads))).returning();
+      if (updatedLead) await this.recordAudit("lead", "update", existing, updatedLead);
       return updatedLead || undefined;
     } catch (error) {
       console.error("Error updating lead:", error);
@@ -1340,7 +3409,8 @@ export class DatabaseStorage implements IStorage {
 
   async deleteLead(id: number): Promise<boolean> {
     try {
-      await db.delete(leads).where(eq(leads.id, id));
+      const [deleted] = await db.delete(leads).where(and(eq(leads.id, id), inCompany(leads))).returning();
+      if (deleted) await this.recordAudit("lead", "delete", deleted, null);
       return true;
     } catch (error) {
       console.error("Error deleting lead:", error);
@@ -1348,28 +3418,125 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Creates or links the client, then the pending project and the estimate
+   * visit, and links the lead to them. The lead's communications move to the
+   * client. All or nothing; undefined if the lead is gone or already converted.
+   */
+  async convertLead(id: number, conversion: LeadConversion): Promise<LeadConversionResult | undefined> {
+    try {
+      const existing = await this.getLead(id);
+      if (!existing || existing.clientId) return undefined;
+
+      return await db.transaction(async (tx) => {
+        let client: Client | undefined;
+        let propertyId: number | null = null;
+        if (conversion.clientId) {
+          [client] = await tx.select().from(clients).where(and(eq(clients.id, conversion.clientId), inCompany(clients)));
+          if (!client) throw new Error("Client not found");
+        } else {
+          client = await this.insertClient(conversion.client, tx);
+          const [property] = await tx
+            .select({ id: clientProperties.id })
+            .from(clientProperties)
+            .where(and(eq(clientProperties.clientId, client.id), inCompany(clientProperties)));
+          propertyId = property?.id ?? null;
+        }
+
+        const [project] = await tx
+          .insert(projects)
+          .values(withCompany({ ...conversion.project, clientId: client.id, propertyId, createdAt: new Date() }))
+          .returning();
+        await this.recordAudit("project", "create", null, project, tx);
+
+        let visit: EstimateVisit | null = null;
+        if (conversion.visit) {
+          [visit] = await tx
+            .insert(estimateVisits)
+            .values(withCompany({ ...conversion.visit, projectId: project.id, clientId: client.id, address: project.address }))
+            .returning();
+          await this.recordAudit("estimate_visit", "create", null, visit, tx);
+        }
+
+        const movedCommunications = await tx
+          .update(communications)
+          .set({ clientId: client.id })
+          .where(and(eq(communications.leadId, id), inCompany(communications)))
+          .returning({ id: communications.id });
+
+        // Only converts once, even with two requests racing
+        const [lead] = await tx
+          .update(leads)
+          .set({
+            ...conversion.lead,
+            clientId: client.id,
+            projectId: project.id,
+            estimateVisitId: visit?.id ?? null,
+            convertedAt: new Date(),
+          })
+          .where(and(eq(leads.id, id), isNull(leads.clientId), inCompany(leads)))
+          .returning();
+        if (!lead) throw new Error("The lead has already been converted");
+        await this.recordAudit("lead", "update", existing, lead, tx);
+
+        return {
+          lead,
+          client,
+          project,
+          visit,
+          clientCreated: !conversion.clientId,
+          movedCommunications: movedCommunications.length,
+        };
+      });
+    } catch (error) {
+      console.error("Error converting lead:", error);
+      throw error;
+    }
+  }
+
+  async getEstimateVisits(): Promise<EstimateVisit[]> {
+    try {
+      return await db.select().from(estimateVisits).where(inCompany(estimateVisits)).orderBy(asc(estimateVisits.scheduledAt));
+    } catch (error) {
+      console.error("Error fetching estimate visits:", error);
+      return [];
+    }
+  }
+
   async resetDatabase(): Promise<{ success: boolean; message: string }> {
     try {
-      // Delete all data from all tables EXCEPT users
+      // Delete the current company's data; other companies, users and their
+      // memberships, password reset and API tokens, and the audit log are kept.
       // Order matters due to foreign key constraints - delete child tables first
-      await db.delete(purchaseOrderItems);  // References purchaseOrders
-      await db.delete(payments);             // References projects
-      await db.delete(invoices);             // References projects
-      await db.delete(serviceOrders);        // References projects
-      await db.delete(quotes);               // References projects
-      await db.delete(purchaseOrders);       // References projects
-      await db.delete(activities);           // References projects and clients
-      await db.delete(projects);             // References clients
-      await db.delete(leads);
-      await db.delete(staff);
-      await db.delete(subcontractors);
-      await db.delete(suppliers);
-      await db.delete(clients);
-      await db.delete(settings);
+      await db.transaction(async (tx) => {
+        await tx.delete(purchaseOrderItems).where(purchaseOrderItemInCompany());  // References purchaseOrders
+        await tx.delete(payments).where(inCompany(payments));                     // References projects, invoices, purchaseOrders
+        await tx.delete(changeOrders).where(inCompany(changeOrders));             // References projects, quotes, invoices
+        await tx.delete(punchListItems).where(inCompany(punchListItems));         // References projects
+        await tx.delete(projectTasks).where(inCompany(projectTasks));             // References projects
+        await tx.delete(communications).where(inCompany(communications));         // References clients, leads, projects, quotes
+        await tx.delete(portalTokens).where(inCompany(portalTokens));             // References clients
+        await tx.delete(invoices).where(inCompany(invoices));                     // References projects, clientContacts
+        await tx.delete(serviceOrders).where(inCompany(serviceOrders));           // References projects
+        await tx.delete(purchaseOrders).where(inCompany(purchaseOrders));         // References projects, quotes, suppliers
+        await tx.delete(quotes).where(inCompany(quotes));                         // References projects
+        await tx.delete(activities).where(inCompany(activities));                 // References projects and clients
+        await tx.delete(leads).where(inCompany(leads));                           // References estimateVisits, projects, clients
+        await tx.delete(estimateVisits).where(inCompany(estimateVisits));         // References projects, clients
+        await tx.delete(projects).where(inCompany(projects));                     // References clients, clientProperties
+        await tx.delete(clientContacts).where(inCompany(clientContacts));
+        await tx.delete(clientProperties).where(inCompany(clientProperties));
+        await tx.delete(clientSegments).where(inCompany(clientSegments));
+        await tx.delete(staff).where(inCompany(staff));
+        await tx.delete(subcontractors).where(inCompany(subcontractors));
+        await tx.delete(suppliers).where(inCompany(suppliers));
+        await tx.delete(clients).where(inCompany(clients));
+        await tx.delete(settings).where(inCompany(settings));
+      });
       
       return { 
         success: true, 
-        message: "Base de datos reseteada exitosamente. Todos los usuarios se han preservado." 
+        message: "Datos de la empresa reseteados exitosamente. Todos los usuarios y las demás empresas se han preservado." 
       };
     } catch (error) {
       console.error("Error resetting database:", error);
@@ -1415,7 +3582,48 @@ export class MemStorage implements IStorage {
   // User methods
   async getUser(id: number): Promise<User | undefined> { return undefined; }
   async getUserByUsername(username: string): Promise<User | undefined> { return undefined; }
+  async getUsers(): Promise<User[]> { return []; }
   async createUser(user: InsertUser): Promise<User> { throw new Error("Not implemented"); }
+  async createFirstUser(user: InsertUser, companyId: number): Promise<User | undefined> { throw new Error("Not implemented"); }
+  async getUserByEmail(email: string): Promise<User | undefined> { return undefined; }
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> { return undefined; }
+  async updateUserTwoFactor(id: number, twoFactor: Partial<UserTwoFactor>): Promise<User | undefined> { return undefined; }
+  
+  // Company methods
+  async getCompanies(): Promise<Company[]> { return []; }
+  async getCompany(id: number): Promise<Company | undefined> { return undefined; }
+  async createCompany(company: InsertCompany): Promise<Company> { throw new Error("Not implemented"); }
+  async updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company | undefined> { return undefined; }
+  async allocateInvoiceNumber(): Promise<string> { throw new Error("Not implemented"); }
+  async getUserCompanies(userId: number): Promise<CompanyMembership[]> { return []; }
+  async getCompanyUsers(companyId: number): Promise<User[]> { return []; }
+  async setCompanyUserRole(companyId: number, userId: number, role: string): Promise<void> {}
+  async removeCompanyUser(companyId: number, userId: number): Promise<boolean> { return false; }
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> { return undefined; }
+  async getCompanyInvitations(companyId: number): Promise<CompanyInvitationEntry[]> { return []; }
+  async getUserInvitations(userId: number): Promise<CompanyInvitationEntry[]> { return []; }
+  async createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation> { throw new Error("Not implemented"); }
+  async acceptCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> { return undefined; }
+  async deleteCompanyInvitation(id: number): Promise<boolean> { return false; }
+  async assignUnscopedRecords(companyId: number): Promise<void> {}
+  
+  // Password reset token methods
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> { throw new Error("Not implemented"); }
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> { return undefined; }
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> { return false; }
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {}
+  async getApiTokens(userId: number): Promise<ApiToken[]> { return []; }
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> { return undefined; }
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> { throw new Error("Not implemented"); }
+  async deleteApiToken(id: number, userId: number): Promise<boolean> { return false; }
+  async deleteUserApiTokens(userId: number): Promise<number> { return 0; }
+  async touchApiToken(id: number, ip: string | null): Promise<void> {}
+  async getUserSessions(userId: number): Promise<UserSession[]> { return []; }
+  async deleteSession(sid: string): Promise<boolean> { return false; }
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> { return 0; }
+  async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogEntry[]> { return []; }
+  async getBlockedAttempts(limit?: number): Promise<BlockedAttempt[]> { return []; }
+  async createBlockedAttempt(attempt: InsertBlockedAttempt): Promise<BlockedAttempt> { throw new Error("Not implemented"); }
   
   // Client methods
   async getClients(): Promise<Client[]> { return []; }
@@ -1423,6 +3631,35 @@ export class MemStorage implements IStorage {
   async createClient(client: InsertClient): Promise<Client> { throw new Error("Not implemented"); }
   async updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined> { return undefined; }
   async deleteClient(id: number): Promise<boolean> { return false; }
+  async mergeClients(survivorId: number, duplicateId: number): Promise<ClientMergeResult | undefined> { return undefined; }
+  async getClientContacts(clientId: number): Promise<ClientContact[]> { return []; }
+  async getClientContact(id: number): Promise<ClientContact | undefined> { return undefined; }
+  async getBillingContact(clientId: number): Promise<ClientContact | undefined> { return undefined; }
+  async createClientContact(contact: InsertClientContact): Promise<ClientContact> { throw new Error("Not implemented"); }
+  async updateClientContact(id: number, contact: Partial<InsertClientContact>): Promise<ClientContact | undefined> { return undefined; }
+  async deleteClientContact(id: number): Promise<boolean> { return false; }
+  async getClientProperties(clientId: number): Promise<ClientProperty[]> { return []; }
+  async getClientProperty(id: number): Promise<ClientProperty | undefined> { return undefined; }
+  async createClientProperty(property: InsertClientProperty): Promise<ClientProperty> { throw new Error("Not implemented"); }
+  async updateClientProperty(id: number, property: Partial<InsertClientProperty>): Promise<ClientProperty | undefined> { return undefined; }
+  async deleteClientProperty(id: number): Promise<boolean> { return false; }
+  async backfillClientContactsAndProperties(): Promise<void> {}
+  async backfillLeadStages(): Promise<void> {}
+  
+  // Client portal methods
+  async findPortalClientsByEmail(email: string): Promise<Client[]> { return []; }
+  async createPortalToken(token: InsertPortalToken, companyId: number): Promise<PortalToken> { throw new Error("Not implemented"); }
+  async getPortalTokenByHash(tokenHash: string): Promise<PortalToken | undefined> { return undefined; }
+  async markPortalTokenUsed(id: number): Promise<boolean> { return false; }
+  async invalidatePortalTokens(clientId: number): Promise<void> {}
+  
+  // Client tag and segment methods
+  async getClientTags(): Promise<string[]> { return []; }
+  async getClientSegments(): Promise<ClientSegment[]> { return []; }
+  async getClientSegment(id: number): Promise<ClientSegment | undefined> { return undefined; }
+  async createClientSegment(segment: InsertClientSegment & { createdBy: number | null }): Promise<ClientSegment> { throw new Error("Not implemented"); }
+  async updateClientSegment(id: number, segment: Partial<InsertClientSegment>): Promise<ClientSegment | undefined> { return undefined; }
+  async deleteClientSegment(id: number): Promise<boolean> { return false; }
   
   // Project methods
   async getProjects(): Promise<Project[]> { return []; }
@@ -1430,15 +3667,37 @@ export class MemStorage implements IStorage {
   async getProjectsByClient(clientId: number): Promise<Project[]> { return []; }
   async getProjectsByStatus(status: string): Promise<Project[]> { return []; }
   async createProject(project: InsertProject): Promise<Project> { throw new Error("Not implemented"); }
-  async updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined> { return undefined; }
+  async createProjectFromTemplate(project: InsertProject, seed: ProjectTemplateSeed): Promise<{ project: Project; tasks: ProjectTask[]; quote: Quote }> { throw new Error("Not implemented"); }
+  async updateProject(id: number, project: Partial<ProjectRecord>): Promise<Project | undefined> { return undefined; }
   async deleteProject(id: number): Promise<boolean> { return false; }
+  async getProjectTasks(projectId: number): Promise<ProjectTask[]> { return []; }
+  async getProjectTask(id: number): Promise<ProjectTask | undefined> { return undefined; }
+  async createProjectTask(task: ProjectTaskRecord): Promise<ProjectTask> { throw new Error("Not implemented"); }
+  async updateProjectTask(id: number, task: Partial<ProjectTaskRecord>): Promise<ProjectTask | undefined> { return undefined; }
+  async deleteProjectTask(id: number): Promise<boolean> { return false; }
+  async reorderProjectTasks(projectId: number, taskIds: number[]): Promise<ProjectTask[]> { return []; }
+  async getChangeOrdersByProject(projectId: number): Promise<ChangeOrder[]> { return []; }
+  async getChangeOrder(id: number): Promise<ChangeOrder | undefined> { return undefined; }
+  async getUnbilledChangeOrders(projectId: number): Promise<ChangeOrder[]> { return []; }
+  async createChangeOrder(changeOrder: ChangeOrderRecord): Promise<ChangeOrder> { throw new Error("Not implemented"); }
+  async updateChangeOrder(id: number, changeOrder: ChangeOrderUpdate): Promise<ChangeOrder | undefined> { return undefined; }
+  async approveChangeOrder(id: number, approval: ChangeOrderApproval): Promise<{ changeOrder: ChangeOrder; project: Project; contractValue: number } | undefined> { return undefined; }
+  async deleteChangeOrder(id: number): Promise<boolean> { return false; }
+  async getPunchListItems(projectId: number): Promise<PunchListItem[]> { return []; }
+  async getPunchListItem(id: number): Promise<PunchListItem | undefined> { return undefined; }
+  async createPunchListItem(item: PunchListItemRecord): Promise<PunchListItem> { throw new Error("Not implemented"); }
+  async updatePunchListItem(id: number, item: Partial<PunchListItemRecord>): Promise<PunchListItem | undefined> { return undefined; }
+  async deletePunchListItem(id: number): Promise<boolean> { return false; }
+  async signOffPunchList(projectId: number, signOff: PunchListSignOff): Promise<{ project: Project; waived: PunchListItem[] } | undefined> { return undefined; }
   
   // Quote methods
   async getQuotes(): Promise<Quote[]> { return []; }
   async getQuote(id: number): Promise<Quote | undefined> { return undefined; }
   async getQuoteByProject(projectId: number): Promise<Quote | undefined> { return undefined; }
+  async getQuotesByClient(clientId: number): Promise<Quote[]> { return []; }
   async createQuote(quote: InsertQuote): Promise<Quote> { throw new Error("Not implemented"); }
   async updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined> { return undefined; }
+  async signQuote(id: number, signature: QuoteSignature): Promise<Quote | undefined> { return undefined; }
   async deleteQuote(id: number): Promise<boolean> { return false; }
   
   // Service Order methods
@@ -1464,14 +3723,25 @@ export class MemStorage implements IStorage {
   async getActivitiesByUser(userId: number): Promise<Activity[]> { return []; }
   async createActivity(activity: InsertActivity): Promise<Activity> { throw new Error("Not implemented"); }
   
+  // Communication methods
+  async getCommunications(filters: CommunicationFilters): Promise<CommunicationEntry[]> { return []; }
+  async getCommunication(id: number): Promise<Communication | undefined> { return undefined; }
+  async getDueFollowUps(dueBy: Date, userId?: number): Promise<CommunicationEntry[]> { return []; }
+  async getLastContactDates(): Promise<Map<number, Date>> { return new Map(); }
+  async createCommunication(communication: InsertCommunication & { userId: number | null }): Promise<Communication> { throw new Error("Not implemented"); }
+  async updateCommunication(id: number, communication: Partial<InsertCommunication> & { followUpDoneAt?: Date | null }): Promise<Communication | undefined> { return undefined; }
+  async deleteCommunication(id: number): Promise<boolean> { return false; }
+  async createCommunications(records: (InsertCommunication & { userId: number | null })[]): Promise<number> { return 0; }
+  
   // Invoice methods
   async getInvoices(): Promise<Invoice[]> { return []; }
   async getInvoice(id: number): Promise<Invoice | undefined> { return undefined; }
   async getInvoicesByProject(projectId: number): Promise<Invoice[]> { return []; }
   async getInvoicesByClient(clientId: number): Promise<Invoice[]> { return []; }
   async getInvoicesByStatus(status: string): Promise<Invoice[]> { return []; }
-  async createInvoice(invoice: InsertInvoice): Promise<Invoice> { throw new Error("Not implemented"); }
+  async createInvoice(invoice: InsertInvoice, changeOrderIds?: number[]): Promise<Invoice> { throw new Error("Not implemented"); }
   async updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> { return undefined; }
+  async recordOnlinePayment(id: number, payment: OnlinePayment): Promise<Invoice | undefined> { return undefined; }
   async deleteInvoice(id: number): Promise<boolean> { return false; }
 
   // Supplier methods
@@ -1482,6 +3752,9 @@ export class MemStorage implements IStorage {
   async updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined> { return undefined; }
   async deleteSupplier(id: number): Promise<boolean> { return false; }
   
+  // Spreadsheet import methods
+  async importRecords(batch: ImportBatch): Promise<number> { throw new Error("Not implemented"); }
+  
   // Payment methods
   async getPayments(): Promise<Payment[]> { return []; }
   async getPayment(id: number): Promise<Payment | undefined> { return undefined; }
@@ -1520,8 +3793,10 @@ export class MemStorage implements IStorage {
   async getLeads(): Promise<Lead[]> { return []; }
   async getLead(id: number): Promise<Lead | undefined> { return undefined; }
   async getLeadsByStatus(status: string): Promise<Lead[]> { return []; }
-  async createLead(lead: InsertLead): Promise<Lead> { throw new Error("Not implemented"); }
-  async updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined> { return undefined; }
+  async createLead(lead: LeadRecord): Promise<Lead> { throw new Error("Not implemented"); }
+  async updateLead(id: number, lead: Partial<LeadRecord>): Promise<Lead | undefined> { return undefined; }
+  async convertLead(id: number, conversion: LeadConversion): Promise<LeadConversionResult | undefined> { return undefined; }
+  async getEstimateVisits(): Promise<EstimateVisit[]> { return []; }
   async deleteLead(id: number): Promise<boolean> { return false; }
   
   // Admin methods
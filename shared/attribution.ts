@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// Where a lead came from, captured by the landing page contact form and
+// carried to the client, its projects and their invoices
+
+// Answers offered for "How did you hear about us?"
+export const HEARD_ABOUT_OPTIONS = [
+  "Google search",
+  "Google Maps",
+  "Facebook",
+  "Instagram",
+  "Nextdoor",
+  "Yard sign",
+  "Friend or neighbor",
+  "Repeat customer",
+  "Other",
+];
+
+// Reported for records created before attribution existed or entered by hand without a source
+export const UNKNOWN_SOURCE = "Unknown";
+
+const optionalText = z.string().trim().max(500).optional().nullable();
+
+export const attributionSchema = z.object({
+  utmSource: optionalText,
+  utmMedium: optionalText,
+  utmCampaign: optionalText,
+  utmTerm: optionalText,
+  utmContent: optionalText,
+  referrer: optionalText, // document.referrer when it is another site
+  landingPage: optionalText, // path and query the visitor arrived on
+  heardAbout: optionalText,
+});
+
+export type Attribution = z.infer<typeof attributionSchema>;
+
+function referrerHost(referrer: string) {
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The single source a lead is reported under: the utm_source of a tracked
+ * link, then the visitor's own answer, then the referring site. Leads with
+ * none of these came in directly.
+ */
+export function marketingSourceFor(attribution: Attribution | null | undefined) {
+  if (!attribution) return "Direct";
+  const utmSource = attribution.utmSource?.trim().toLowerCase();
+  if (utmSource) return utmSource;
+  if (attribution.heardAbout?.trim()) return attribution.heardAbout.trim();
+  const host = attribution.referrer ? referrerHost(attribution.referrer) : null;
+  return host || "Direct";
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Change orders: work added to or removed from a project after its quote.
+// The client signs them off; approved ones change the contract value and are
+// billed on the project's next invoice.
+
+export const CHANGE_ORDER_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type ChangeOrderStatus = typeof CHANGE_ORDER_STATUSES[number];
+
+export const CHANGE_ORDER_STATUS_LABELS: Record<ChangeOrderStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const changeOrderItemSchema = z.object({
+  description: z.string().trim().min(1, "Items need a description").max(300),
+  quantity: z.number().positive(),
+  unitPrice: z.number().min(0),
+});
+
+export type ChangeOrderItem = z.infer<typeof changeOrderItemSchema>;
+
+export const itemsTotal = (items: ChangeOrderItem[]) =>
+  items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+
+/**
+ * What the change order adds to the contract value; negative when it takes
+ * more out than it adds. Rounded to cents.
+ */
+export function changeOrderDelta(addedItems: ChangeOrderItem[], removedItems: ChangeOrderItem[]) {
+  return Math.round((itemsTotal(addedItems) - itemsTotal(removedItems)) * 100) / 100;
+}
+
+/**
+ * The project's contract value: its total cost, or the quote total while it
+ * has none, plus its approved change orders. Rounded to cents.
+ */
+export function contractValue(
+  project: { totalCost: number | null; changeOrdersTotal: string },
+  quoteTotal?: string | number | null,
+) {
+  const base = project.totalCost ?? Number(quoteTotal ?? 0);
+  return Math.round((base + Number(project.changeOrdersTotal)) * 100) / 100;
+}
+
+// Shown on documents, e.g. "CO-3"
+export const changeOrderReference = (changeOrder: { number: number }) => `CO-${changeOrder.number}`;
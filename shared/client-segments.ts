@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+// Client tags and saved segments, shared by the API and the clients page
+
+// Offered as suggestions; any other tag can be typed in
+export const SUGGESTED_CLIENT_TAGS = ["HOA", "Repeat customer", "Referral partner", "VIP", "Do not service"];
+
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Trims tags and drops blanks and repeats, ignoring case. The first spelling
+ * of a tag wins.
+ */
+export function normalizeTags(tags: string[]) {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result;
+}
+
+export function hasTag(tags: string[] | null | undefined, tag: string) {
+  const key = tag.toLowerCase();
+  return (tags ?? []).some((t) => t.toLowerCase() === key);
+}
+
+const presenceSchema = z.enum(["any", "with", "without"]);
+export type Presence = z.infer<typeof presenceSchema>;
+
+// Every rule is optional; a client must match all the rules that are set
+export const segmentRulesSchema = z.object({
+  types: z.array(z.enum(["client", "prospect"])).default([]),
+  classifications: z.array(z.enum(["residential", "commercial", "industrial"])).default([]),
+  includeTags: z.array(z.string()).default([]), // has any of these
+  excludeTags: z.array(z.string()).default([]), // has none of these
+  // Has a completed project, and the latest was completed more than this many months ago
+  lastCompletedProjectMonthsAgo: z.number().int().positive().nullable().default(null),
+  openQuote: presenceSchema.default("any"), // a draft or sent quote
+  activeProject: presenceSchema.default("any"), // a project not yet completed or archived
+  // No call, email, text or visit logged in this many days
+  noContactInDays: z.number().int().positive().nullable().default(null),
+});
+
+export type SegmentRules = z.infer<typeof segmentRulesSchema>;
+
+export const EMPTY_SEGMENT_RULES: SegmentRules = segmentRulesSchema.parse({});
+
+/**
+ * One line describing the rules, e.g. "Residential · completed a project
+ * over 24 months ago · no open quote".
+ */
+export function describeSegmentRules(rules: SegmentRules) {
+  const parts: string[] = [];
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+  if (rules.classifications.length) parts.push(rules.classifications.map(capitalize).join(" or "));
+  if (rules.types.length) parts.push(rules.types.map((type) => `${type}s`).join(" or "));
+  if (rules.includeTags.length) parts.push(`tagged ${rules.includeTags.join(" or ")}`);
+  if (rules.excludeTags.length) parts.push(`not tagged ${rules.excludeTags.join(" or ")}`);
+  if (rules.lastCompletedProjectMonthsAgo) {
+    parts.push(`completed a project over ${rules.lastCompletedProjectMonthsAgo} months ago`);
+  }
+  if (rules.openQuote !== "any") parts.push(rules.openQuote === "with" ? "open quote" : "no open quote");
+  if (rules.activeProject !== "any") parts.push(rules.activeProject === "with" ? "active project" : "no active project");
+  if (rules.noContactInDays) parts.push(`no contact in ${rules.noContactInDays} days`);
+  return parts.length ? parts.join(" · ") : "All clients";
+}
@@ -0,0 +1,93 @@
+// Spreadsheet import and export, shared by the API and the import wizard
+
+export const IMPORT_ENTITIES = ["clients", "suppliers", "subcontractors", "staff"] as const;
+
+export type ImportEntity = typeof IMPORT_ENTITIES[number];
+
+export const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  clients: "Clients",
+  suppliers: "Suppliers",
+  subcontractors: "Subcontractors",
+  staff: "Staff",
+};
+
+export type ImportField = {
+  key: string; // column of the insert schema
+  label: string; // column header in exports, matched against headers on import
+  required?: boolean;
+  aliases?: string[]; // other headers that map to this field automatically
+};
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  clients: [
+    { key: "name", label: "Name", required: true, aliases: ["full name", "client", "client name"] },
+    { key: "email", label: "Email", required: true, aliases: ["e-mail", "email address"] },
+    { key: "phone", label: "Phone", required: true, aliases: ["telephone", "phone number", "mobile", "cell"] },
+    { key: "address", label: "Address", required: true, aliases: ["street", "street address"] },
+    { key: "classification", label: "Classification", aliases: ["category"] },
+    { key: "type", label: "Type", aliases: ["status"] },
+    { key: "notes", label: "Notes", aliases: ["comments"] },
+    { key: "tags", label: "Tags", aliases: ["labels"] }, // comma separated
+    { key: "marketingSource", label: "Marketing Source", aliases: ["source", "lead source", "how did you hear"] },
+  ],
+  suppliers: [
+    { key: "name", label: "Name", required: true, aliases: ["supplier", "supplier name"] },
+    { key: "company", label: "Company", required: true, aliases: ["company name", "business"] },
+    { key: "contactPerson", label: "Contact Person", aliases: ["contact"] },
+    { key: "email", label: "Email", aliases: ["e-mail", "email address"] },
+    { key: "phone", label: "Phone", required: true, aliases: ["telephone", "phone number"] },
+    { key: "address", label: "Address" },
+    { key: "taxId", label: "Tax ID", aliases: ["ein", "tin"] },
+    { key: "category", label: "Category", required: true },
+    { key: "paymentTerms", label: "Payment Terms", aliases: ["terms"] },
+    { key: "website", label: "Website", aliases: ["url"] },
+    { key: "notes", label: "Notes", aliases: ["comments"] },
+    { key: "status", label: "Status" },
+  ],
+  subcontractors: [
+    { key: "name", label: "Name", required: true, aliases: ["subcontractor", "subcontractor name"] },
+    { key: "company", label: "Company", aliases: ["company name", "business"] },
+    { key: "specialty", label: "Specialty", required: true, aliases: ["trade"] },
+    { key: "email", label: "Email", aliases: ["e-mail", "email address"] },
+    { key: "phone", label: "Phone", required: true, aliases: ["telephone", "phone number"] },
+    { key: "address", label: "Address" },
+    { key: "taxId", label: "Tax ID", aliases: ["ein", "tin"] },
+    { key: "insuranceInfo", label: "Insurance", aliases: ["insurance info"] },
+    { key: "rate", label: "Rate" },
+    { key: "rateType", label: "Rate Type" },
+    { key: "notes", label: "Notes", aliases: ["comments"] },
+    { key: "status", label: "Status" },
+  ],
+  staff: [
+    { key: "name", label: "Name", required: true, aliases: ["full name", "employee"] },
+    { key: "role", label: "Role", required: true, aliases: ["position", "title", "job title"] },
+    { key: "email", label: "Email", aliases: ["e-mail", "email address"] },
+    { key: "phone", label: "Phone", required: true, aliases: ["telephone", "phone number", "mobile"] },
+    { key: "availability", label: "Availability" },
+    { key: "skills", label: "Skills" }, // comma separated
+  ],
+};
+
+// One data row of the file, keyed by field key after column mapping
+export type ImportRow = Record<string, string>;
+
+export type ImportRowResult = {
+  row: number; // 1-based data row, not counting the header
+  status: "valid" | "invalid" | "duplicate";
+  errors: string[];
+  duplicateOf?: string; // the existing record or earlier row it matches
+};
+
+export type ImportResult = {
+  dryRun: boolean;
+  rows: ImportRowResult[];
+  imported: number; // on a dry run, how many would be imported
+};
+
+// The first sheet of an uploaded file
+export type ParsedSpreadsheet = {
+  headers: string[];
+  rows: string[][];
+};
+
+export const MAX_IMPORT_ROWS = 5000;
@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+// Lead pipeline stages, scoring and the response-time SLA, shared by the API
+// and the leads board. The pipeline is stored per company in settings.
+
+export const LEAD_PIPELINE_KEY = "lead_pipeline";
+
+export interface LeadStage {
+  key: string;
+  label: string;
+}
+
+// Every lead starts in "new"; "won" and "lost" close it. Companies can rename
+// these and add or reorder the stages in between.
+export const FIXED_LEAD_STAGES = ["new", "won", "lost"];
+export const CLOSED_LEAD_STAGES = ["won", "lost"];
+
+export const DEFAULT_LEAD_STAGES: LeadStage[] = [
+  { key: "new", label: "New" },
+  { key: "contacted", label: "Contacted" },
+  { key: "estimate_scheduled", label: "Estimate Scheduled" },
+  { key: "estimate_done", label: "Estimate Done" },
+  { key: "quoted", label: "Quoted" },
+  { key: "won", label: "Won" },
+  { key: "lost", label: "Lost" },
+];
+
+// Statuses used before the pipeline existed
+export const LEGACY_LEAD_STATUSES: Record<string, string> = {
+  qualified: "contacted",
+  converted: "won",
+  archived: "lost",
+};
+
+export const LOST_REASONS = [
+  "Price too high",
+  "Went with another contractor",
+  "No response",
+  "Outside service area",
+  "Timing",
+  "Not a fit",
+  "Other",
+];
+
+const leadStageSchema = z.object({
+  key: z.string().trim().regex(/^[a-z0-9_]+$/, "Stage keys use lowercase letters, numbers and underscores"),
+  label: z.string().trim().min(1, "Stage name is required"),
+});
+
+const businessHoursSchema = z.object({
+  start: z.number().int().min(0).max(23), // hour of the day work starts
+  end: z.number().int().min(1).max(24),
+  days: z.array(z.number().int().min(0).max(6)), // 0 is Sunday
+}).refine((hours) => hours.end > hours.start, { message: "Business hours must end after they start" });
+
+export const leadPipelineSchema = z.object({
+  stages: z.array(leadStageSchema)
+    .refine((stages) => FIXED_LEAD_STAGES.every((key) => stages.some((stage) => stage.key === key)), {
+      message: "The pipeline must keep the New, Won and Lost stages",
+    })
+    .refine((stages) => new Set(stages.map((stage) => stage.key)).size === stages.length, {
+      message: "Stage keys must be unique",
+    }),
+  slaHours: z.number().positive().max(168), // business hours to first contact
+  businessHours: businessHoursSchema,
+  serviceAreaZipCodes: z.array(z.string().trim().min(1)),
+});
+
+export type LeadPipeline = z.infer<typeof leadPipelineSchema>;
+export type BusinessHours = LeadPipeline["businessHours"];
+
+export const DEFAULT_LEAD_PIPELINE: LeadPipeline = {
+  stages: DEFAULT_LEAD_STAGES,
+  slaHours: 4,
+  businessHours: { start: 8, end: 17, days: [1, 2, 3, 4, 5] },
+  serviceAreaZipCodes: [],
+};
+
+export function stageLabel(pipeline: LeadPipeline, key: string) {
+  return pipeline.stages.find((stage) => stage.key === key)?.label ?? key.replace(/_/g, " ");
+}
+
+const HOUR = 60 * 60 * 1000;
+const MAX_DAYS = 400;
+
+/**
+ * Hours between two times that fall inside business hours, in local time.
+ */
+export function businessHoursBetween(start: Date, end: Date, hours: BusinessHours) {
+  if (end <= start) return 0;
+  let total = 0;
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+  for (let i = 0; day < end && i < MAX_DAYS; i++) {
+    if (hours.days.includes(day.getDay())) {
+      const open = new Date(day).setHours(hours.start, 0, 0, 0);
+      const close = new Date(day).setHours(hours.end, 0, 0, 0);
+      const from = Math.max(open, start.getTime());
+      const to = Math.min(close, end.getTime());
+      if (to > from) total += to - from;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return total / HOUR;
+}
+
+export interface LeadSla {
+  hours: number; // business hours waited for the first contact, so far or in total
+  waiting: boolean; // not contacted yet
+  breached: boolean;
+}
+
+/**
+ * How long the lead waited, or has been waiting, to be contacted. Closed
+ * leads that were never contacted are not flagged.
+ */
+export function leadSla(
+  lead: { status: string; createdAt: Date | string; contactedAt: Date | string | null },
+  pipeline: LeadPipeline,
+  now = new Date(),
+): LeadSla {
+  const waiting = !lead.contactedAt && !CLOSED_LEAD_STAGES.includes(lead.status);
+  const end = lead.contactedAt ? new Date(lead.contactedAt) : now;
+  const hours = businessHoursBetween(new Date(lead.createdAt), end, pipeline.businessHours);
+  return { hours, waiting, breached: (waiting || !!lead.contactedAt) && hours > pipeline.slaHours };
+}
+
+// Points per service requested on the contact form
+const SERVICE_POINTS: Record<string, number> = {
+  "commercial-painting": 35,
+  "exterior-painting": 30,
+  "cabinet-painting": 20,
+  "interior-painting": 20,
+  "deck-fence": 10,
+  other: 5,
+};
+
+const URGENT_WORDS = /\b(asap|urgent|soon|this week|next week|immediately|deadline|closing|move[- ]in)\b/i;
+const DETAIL_WORDS = /\b(\d+\s*(sq\.?\s*ft|square feet|rooms?|stor(y|ies)|bedrooms?)|whole house|entire|siding|trim|cabinets?)\b/i;
+const SPAM_WORDS = /(https?:\/\/|www\.|\bseo\b|\bcrypto\b|\bbacklinks?\b)/i;
+
+export interface LeadScore {
+  score: number; // 0 to 100
+  reasons: string[];
+}
+
+/**
+ * Rough likelihood that a lead turns into a job, from what was asked for,
+ * where, and how much the message says.
+ */
+export function scoreLead(
+  lead: { service?: string | null; message?: string | null; zipCode?: string | null },
+  pipeline: LeadPipeline,
+): LeadScore {
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(`${points > 0 ? "+" : ""}${points} ${reason}`);
+  };
+
+  const servicePoints = lead.service ? SERVICE_POINTS[lead.service] ?? 5 : 0;
+  if (servicePoints) add(servicePoints, "service requested");
+
+  const zip = lead.zipCode?.trim();
+  if (zip && pipeline.serviceAreaZipCodes.length) {
+    if (pipeline.serviceAreaZipCodes.includes(zip)) add(30, "inside service area");
+    else add(-20, "outside service area");
+  } else if (zip) {
+    add(10, "location given");
+  }
+
+  const message = lead.message?.trim() ?? "";
+  if (message.length >= 80) add(10, "detailed message");
+  if (URGENT_WORDS.test(message)) add(15, "wants it soon");
+  if (DETAIL_WORDS.test(message)) add(10, "describes the job");
+  if (SPAM_WORDS.test(message)) add(-30, "looks like spam");
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+// Project service type for each service on the contact form
+const LEAD_SERVICE_PROJECT_TYPES: Record<string, string> = {
+  "exterior-painting": "Exterior Painting",
+  "interior-painting": "Interior Painting",
+  "commercial-painting": "Commercial Painting",
+  "cabinet-painting": "Interior Painting",
+  "deck-fence": "Exterior Painting",
+};
+
+const LEAD_SERVICE_TITLES: Record<string, string> = {
+  "exterior-painting": "Exterior House Painting",
+  "interior-painting": "Interior Painting",
+  "commercial-painting": "Commercial Painting",
+  "cabinet-painting": "Cabinet Painting",
+  "deck-fence": "Deck & Fence Painting",
+};
+
+/**
+ * The pending project a converted lead starts with, from the service and
+ * message on its contact form.
+ */
+export function projectDefaultsForLead(lead: { name: string; service: string | null; message: string | null }) {
+  const service = lead.service ?? "";
+  return {
+    title: `${LEAD_SERVICE_TITLES[service] ?? "Painting Project"} - ${lead.name}`,
+    description: lead.message?.trim() || "Requested through the website contact form",
+    serviceType: LEAD_SERVICE_PROJECT_TYPES[service] ?? "Residential Painting",
+    projectType: service === "commercial-painting" ? ("commercial" as const) : ("residential" as const),
+  };
+}
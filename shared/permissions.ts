@@ -0,0 +1,199 @@
+// Role-based permissions shared by the API middleware and the React UI
+
+export const USER_ROLES = [
+  "owner",
+  "office_manager",
+  "estimator",
+  "crew_lead",
+  "crew",
+  "bookkeeper",
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Owner",
+  office_manager: "Office Manager",
+  estimator: "Estimator",
+  crew_lead: "Crew Lead",
+  crew: "Crew",
+  bookkeeper: "Bookkeeper",
+};
+
+// Role given to self-registered accounts; only admins can promote them
+export const DEFAULT_USER_ROLE: UserRole = "crew";
+
+// Roles created before this permission model existed
+const LEGACY_ROLE_ALIASES: Record<string, UserRole> = {
+  admin: "owner",
+  user: "office_manager",
+};
+
+// superadmin sits above every role and can do anything, including resetting the database
+export const SUPERADMIN_ROLE = "superadmin";
+
+// Settings key holding the roles that must use two-factor authentication
+export const TWO_FACTOR_POLICY_KEY = "two_factor_policy";
+
+export type TwoFactorPolicy = {
+  requiredRoles: string[]; // UserRole values, plus "superadmin"
+};
+
+export type Resource =
+  | "clients"
+  | "leads"
+  | "projects"
+  | "quotes"
+  | "service_orders"
+  | "calendar"
+  | "staff"
+  | "subcontractors"
+  | "suppliers"
+  | "purchase_orders"
+  | "invoices"
+  | "payments"
+  | "financial_reports"
+  | "reports"
+  | "activities"
+  | "communications"
+  | "audit_log"
+  | "settings"
+  | "companies"
+  | "users";
+
+export type Access = "read" | "write";
+
+type ResourcePermissions = { read: UserRole[]; write: UserRole[] };
+
+const ALL_ROLES: UserRole[] = [...USER_ROLES];
+const OFFICE: UserRole[] = ["owner", "office_manager"];
+
+export const PERMISSIONS: Record<Resource, ResourcePermissions> = {
+  clients: {
+    read: ALL_ROLES,
+    write: [...OFFICE, "estimator"],
+  },
+  leads: {
+    read: [...OFFICE, "estimator"],
+    write: [...OFFICE, "estimator"],
+  },
+  projects: {
+    read: ALL_ROLES,
+    write: [...OFFICE, "estimator", "crew_lead"],
+  },
+  quotes: {
+    read: [...OFFICE, "estimator", "crew_lead", "bookkeeper"],
+    write: [...OFFICE, "estimator"],
+  },
+  service_orders: {
+    read: [...OFFICE, "estimator", "crew_lead", "crew"],
+    write: [...OFFICE, "estimator", "crew_lead"],
+  },
+  calendar: {
+    read: ALL_ROLES,
+    write: [...OFFICE, "estimator", "crew_lead"],
+  },
+  staff: {
+    read: ALL_ROLES,
+    write: OFFICE,
+  },
+  subcontractors: {
+    read: [...OFFICE, "estimator", "crew_lead", "bookkeeper"],
+    write: OFFICE,
+  },
+  suppliers: {
+    read: [...OFFICE, "estimator", "crew_lead", "bookkeeper"],
+    write: [...OFFICE, "bookkeeper"],
+  },
+  purchase_orders: {
+    read: [...OFFICE, "estimator", "crew_lead", "bookkeeper"],
+    write: [...OFFICE, "bookkeeper"],
+  },
+  invoices: {
+    read: [...OFFICE, "bookkeeper"],
+    write: [...OFFICE, "bookkeeper"],
+  },
+  payments: {
+    read: [...OFFICE, "bookkeeper"],
+    write: [...OFFICE, "bookkeeper"],
+  },
+  financial_reports: {
+    read: [...OFFICE, "bookkeeper"],
+    write: [],
+  },
+  reports: {
+    read: [...OFFICE, "estimator", "bookkeeper"],
+    write: [],
+  },
+  activities: {
+    read: ALL_ROLES,
+    write: ALL_ROLES,
+  },
+  communications: {
+    read: [...OFFICE, "estimator", "crew_lead", "bookkeeper"],
+    write: [...OFFICE, "estimator", "crew_lead"],
+  },
+  audit_log: {
+    read: [...OFFICE, "bookkeeper"],
+    write: [],
+  },
+  settings: {
+    read: OFFICE,
+    write: ["owner"],
+  },
+  companies: {
+    read: ALL_ROLES,
+    write: ["owner"],
+  },
+  users: {
+    read: ["owner"],
+    write: ["owner"],
+  },
+};
+
+/**
+ * Maps a stored `users.role` value to one of the known roles.
+ * Unknown values fall back to the least privileged role.
+ */
+export function normalizeRole(role: string | null | undefined): UserRole {
+  if (role && (USER_ROLES as readonly string[]).includes(role)) {
+    return role as UserRole;
+  }
+  if (role && LEGACY_ROLE_ALIASES[role]) {
+    return LEGACY_ROLE_ALIASES[role];
+  }
+  return "crew";
+}
+
+export function getRoleLabel(role: string) {
+  return role === SUPERADMIN_ROLE ? "Super Admin" : ROLE_LABELS[normalizeRole(role)];
+}
+
+export function isAdminRole(role: string | null | undefined) {
+  return role === SUPERADMIN_ROLE || normalizeRole(role) === "owner";
+}
+
+export function hasPermission(
+  role: string | null | undefined,
+  resource: Resource,
+  access: Access = "read",
+): boolean {
+  if (!role) return false;
+  if (role === SUPERADMIN_ROLE) return true;
+  return PERMISSIONS[resource][access].includes(normalizeRole(role));
+}
+
+// Activities about money are written with amounts and invoice or payment
+// details, so each is only shown to roles that can read what it is about
+const ACTIVITY_TYPE_RESOURCES: [prefix: string, resource: Resource][] = [
+  ["invoice", "invoices"],
+  ["payment", "payments"],
+  ["purchase_order", "purchase_orders"],
+  ["quote", "quotes"],
+  ["change_order", "quotes"],
+];
+
+export function canSeeActivity(role: string | null | undefined, type: string) {
+  const match = ACTIVITY_TYPE_RESOURCES.find(([prefix]) => type === prefix || type.startsWith(`${prefix}_`));
+  return !match || hasPermission(role, match[1], "read");
+}
@@ -0,0 +1,59 @@
+// Project status workflow, shared by the API and the project board. The
+// server enforces it (see server/project-workflow.ts); the client uses it to
+// offer only the moves that can succeed.
+
+export const PROJECT_STATUSES = [
+  "pending",
+  "quoted",
+  "approved",
+  "preparing",
+  "in_progress",
+  "reviewing",
+  "completed",
+  "archived",
+] as const;
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  pending: "Pending Visit",
+  quoted: "Quote Sent",
+  approved: "Quote Approved",
+  preparing: "In Preparation",
+  in_progress: "In Progress",
+  reviewing: "Final Review",
+  completed: "Completed",
+  archived: "Archived",
+};
+
+// Statuses each status can move to. Besides the next step, a project can go
+// back one step to fix a mistake, and can be archived until work starts.
+export const PROJECT_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  pending: ["quoted", "approved", "archived"],
+  quoted: ["approved", "pending", "archived"],
+  approved: ["preparing", "quoted", "archived"],
+  preparing: ["in_progress", "approved", "archived"],
+  in_progress: ["reviewing", "preparing"],
+  reviewing: ["completed", "in_progress"],
+  completed: ["archived", "reviewing"],
+  archived: ["pending", "completed"],
+};
+
+// New projects always start here
+export const INITIAL_PROJECT_STATUS: ProjectStatus = "pending";
+
+// Projects that are being worked on, for reports
+export const ACTIVE_PROJECT_STATUSES: ProjectStatus[] = ["approved", "preparing", "in_progress", "reviewing"];
+
+export function isProjectStatus(status: string): status is ProjectStatus {
+  return (PROJECT_STATUSES as readonly string[]).includes(status);
+}
+
+export function canTransitionProject(from: string, to: string) {
+  if (from === to) return true;
+  return isProjectStatus(from) && isProjectStatus(to) && PROJECT_TRANSITIONS[from].includes(to);
+}
+
+export function projectStatusLabel(status: string) {
+  return isProjectStatus(status) ? PROJECT_STATUS_LABELS[status] : status;
+}
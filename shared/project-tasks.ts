@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// Project task lists. A task is assigned to a staff member or a
+// subcontractor, and the project's progress is the share of its tasks that
+// are done.
+
+export const TASK_ASSIGNEE_TYPES = ["staff", "subcontractor"] as const;
+
+export type TaskAssigneeType = typeof TASK_ASSIGNEE_TYPES[number];
+
+export const checklistItemSchema = z.object({
+  text: z.string().trim().min(1, "Checklist items need a description").max(200),
+  done: z.boolean().default(false),
+});
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+
+// One key per person, for filtering tasks by assignee, e.g. "staff:3"
+export function taskAssigneeKey(task: { assigneeType: string | null; assigneeId: number | null }) {
+  return task.assigneeType && task.assigneeId ? `${task.assigneeType}:${task.assigneeId}` : null;
+}
+
+/**
+ * Percentage of tasks completed, rounded to a whole number; 0 without tasks.
+ */
+export function projectProgress(tasks: { completedAt: Date | string | null }[]) {
+  if (tasks.length === 0) return 0;
+  const completed = tasks.filter((task) => task.completedAt).length;
+  return Math.round((completed / tasks.length) * 100);
+}
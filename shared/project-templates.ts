@@ -0,0 +1,171 @@
+import { z } from "zod";
+
+// Project templates, one per service type. A template pre-seeds a new
+// project's description, due date, safety requirements and materials, its task
+// list, and a draft simple quote. Templates are stored per company in settings.
+
+export const PROJECT_TEMPLATES_KEY = "project_templates";
+
+export const PROJECT_SERVICE_TYPES = [
+  "Interior Painting",
+  "Exterior Painting",
+  "Interior and Exterior Painting",
+  "Industrial Painting",
+  "Commercial Painting",
+  "Residential Painting",
+];
+
+const itemText = z.string().trim().min(1).max(200);
+
+export const projectTemplateSchema = z.object({
+  serviceType: z.string().trim().min(1),
+  description: z.string().trim().max(2000).default(""),
+  durationDays: z.number().int().min(1).max(365), // typical length of the job
+  tasks: z.array(z.object({
+    title: itemText,
+    checklist: z.array(itemText).default([]),
+  })).max(50).default([]),
+  safetyRequirements: z.array(itemText).max(50).default([]),
+  materials: z.array(itemText).max(100).default([]),
+  // Lines of the draft quote's interior or exterior breakdown
+  quoteLines: z.array(z.object({
+    area: z.enum(["interior", "exterior"]),
+    description: itemText,
+    price: z.number().min(0),
+  })).max(50).default([]),
+});
+
+export const projectTemplatesSchema = z.array(projectTemplateSchema)
+  .refine((templates) => new Set(templates.map((template) => template.serviceType)).size === templates.length, {
+    message: "Each service type can only have one template",
+  });
+
+export type ProjectTemplate = z.infer<typeof projectTemplateSchema>;
+
+const COMMON_SAFETY = [
+  "Ladders inspected before use",
+  "Drop cloths and floor protection in place",
+  "Work area ventilated while painting",
+];
+
+export const DEFAULT_PROJECT_TEMPLATES: ProjectTemplate[] = [
+  {
+    serviceType: "Interior Painting",
+    description: "Interior painting of walls, ceilings and trim in the agreed rooms, including surface preparation and clean-up.",
+    durationDays: 4,
+    tasks: [
+      { title: "Walkthrough and color confirmation", checklist: ["Confirm rooms and surfaces", "Confirm colors and sheens"] },
+      { title: "Protect furniture and floors", checklist: ["Move and cover furniture", "Cover floors", "Remove switch plates"] },
+      { title: "Surface preparation", checklist: ["Patch holes and cracks", "Sand patches", "Caulk trim gaps"] },
+      { title: "Prime and paint", checklist: ["Spot prime repairs", "Ceilings", "Walls", "Trim and doors"] },
+      { title: "Clean-up and final walkthrough", checklist: ["Reinstall switch plates", "Touch-ups", "Client walkthrough"] },
+    ],
+    safetyRequirements: [...COMMON_SAFETY, "Low-VOC products in occupied rooms"],
+    materials: ["Interior wall paint", "Ceiling paint", "Trim enamel", "Primer", "Spackle", "Caulk", "Painter's tape", "Plastic sheeting"],
+    quoteLines: [
+      { area: "interior", description: "Walls – two coats", price: 0 },
+      { area: "interior", description: "Ceilings – one coat", price: 0 },
+      { area: "interior", description: "Trim and doors", price: 0 },
+    ],
+  },
+  {
+    serviceType: "Exterior Painting",
+    description: "Exterior painting of siding, trim, soffits and fascia, including power washing, scraping and caulking.",
+    durationDays: 6,
+    tasks: [
+      { title: "Walkthrough and color confirmation", checklist: ["Confirm surfaces", "Confirm colors"] },
+      { title: "Power wash", checklist: ["Siding", "Trim", "Let dry 24 hours"] },
+      { title: "Surface preparation", checklist: ["Scrape loose paint", "Sand edges", "Replace failed caulk", "Cover landscaping"] },
+      { title: "Prime and paint", checklist: ["Spot prime bare wood", "Siding", "Trim, soffits and fascia", "Doors and shutters"] },
+      { title: "Clean-up and final walkthrough", checklist: ["Remove coverings", "Touch-ups", "Client walkthrough"] },
+    ],
+    safetyRequirements: [...COMMON_SAFETY, "Fall protection above 6 feet", "Check the weather forecast before painting"],
+    materials: ["Exterior siding paint", "Exterior trim paint", "Exterior primer", "Exterior caulk", "Plastic sheeting", "Painter's tape"],
+    quoteLines: [
+      { area: "exterior", description: "Power washing and preparation", price: 0 },
+      { area: "exterior", description: "Siding – two coats", price: 0 },
+      { area: "exterior", description: "Trim, soffits and fascia", price: 0 },
+    ],
+  },
+  {
+    serviceType: "Interior and Exterior Painting",
+    description: "Interior and exterior painting of the property, including surface preparation and clean-up inside and out.",
+    durationDays: 10,
+    tasks: [
+      { title: "Walkthrough and color confirmation", checklist: ["Confirm interior rooms", "Confirm exterior surfaces", "Confirm colors"] },
+      { title: "Exterior power wash and preparation", checklist: ["Power wash", "Scrape and sand", "Caulk"] },
+      { title: "Exterior painting", checklist: ["Siding", "Trim, soffits and fascia"] },
+      { title: "Interior protection and preparation", checklist: ["Cover furniture and floors", "Patch and sand"] },
+      { title: "Interior painting", checklist: ["Ceilings", "Walls", "Trim and doors"] },
+      { title: "Clean-up and final walkthrough", checklist: ["Touch-ups", "Client walkthrough"] },
+    ],
+    safetyRequirements: [...COMMON_SAFETY, "Fall protection above 6 feet", "Low-VOC products in occupied rooms"],
+    materials: ["Interior wall paint", "Ceiling paint", "Exterior siding paint", "Trim paint", "Primer", "Caulk", "Painter's tape", "Plastic sheeting"],
+    quoteLines: [
+      { area: "interior", description: "Interior walls, ceilings and trim", price: 0 },
+      { area: "exterior", description: "Exterior siding and trim", price: 0 },
+    ],
+  },
+  {
+    serviceType: "Industrial Painting",
+    description: "Industrial coating of the agreed structures and surfaces, including surface preparation to the coating manufacturer's specification.",
+    durationDays: 15,
+    tasks: [
+      { title: "Site safety orientation", checklist: ["Site-specific safety briefing", "Permits on file"] },
+      { title: "Surface preparation", checklist: ["Degrease", "Abrasive blast or grind", "Inspect surface profile"] },
+      { title: "Primer coat", checklist: ["Check dew point and temperature", "Apply primer", "Record dry film thickness"] },
+      { title: "Finish coats", checklist: ["Intermediate coat", "Finish coat", "Record dry film thickness"] },
+      { title: "Inspection and handover", checklist: ["Holiday test", "Client inspection", "Coating report"] },
+    ],
+    safetyRequirements: [
+      ...COMMON_SAFETY,
+      "Respirators fit-tested for all crew",
+      "Lockout/tagout on equipment in the work area",
+      "Confined space permit where required",
+      "Fall protection above 6 feet",
+    ],
+    materials: ["Industrial primer", "Epoxy or urethane topcoat", "Thinner", "Blast media", "Respirator cartridges", "Containment tarps"],
+    quoteLines: [
+      { area: "exterior", description: "Surface preparation", price: 0 },
+      { area: "exterior", description: "Coating system – primer and finish coats", price: 0 },
+    ],
+  },
+  {
+    serviceType: "Commercial Painting",
+    description: "Painting of the commercial space, scheduled around business hours, including preparation and clean-up.",
+    durationDays: 7,
+    tasks: [
+      { title: "Schedule and access confirmation", checklist: ["Agree work hours with the client", "Keys and alarm codes"] },
+      { title: "Protect work area", checklist: ["Cover floors and fixtures", "Post wet paint signs"] },
+      { title: "Surface preparation", checklist: ["Patch and sand", "Caulk"] },
+      { title: "Prime and paint", checklist: ["Ceilings", "Walls", "Doors and frames"] },
+      { title: "Clean-up and final walkthrough", checklist: ["Touch-ups", "Client walkthrough"] },
+    ],
+    safetyRequirements: [...COMMON_SAFETY, "Wet paint signs posted", "Exits and walkways kept clear"],
+    materials: ["Commercial wall paint", "Ceiling paint", "Door and frame enamel", "Primer", "Spackle", "Caulk", "Painter's tape"],
+    quoteLines: [
+      { area: "interior", description: "Walls and ceilings", price: 0 },
+      { area: "interior", description: "Doors and frames", price: 0 },
+    ],
+  },
+  {
+    serviceType: "Residential Painting",
+    description: "Residential painting of the agreed areas, including surface preparation and clean-up.",
+    durationDays: 5,
+    tasks: [
+      { title: "Walkthrough and color confirmation", checklist: ["Confirm areas", "Confirm colors"] },
+      { title: "Protect and prepare", checklist: ["Cover floors and furniture", "Patch and sand", "Caulk"] },
+      { title: "Prime and paint", checklist: ["Spot prime", "Two finish coats"] },
+      { title: "Clean-up and final walkthrough", checklist: ["Touch-ups", "Client walkthrough"] },
+    ],
+    safetyRequirements: COMMON_SAFETY,
+    materials: ["Wall paint", "Trim paint", "Primer", "Spackle", "Caulk", "Painter's tape", "Plastic sheeting"],
+    quoteLines: [
+      { area: "interior", description: "Painting of the agreed areas", price: 0 },
+    ],
+  },
+];
+
+export function templateFor(templates: ProjectTemplate[], serviceType: string) {
+  return templates.find((template) => template.serviceType === serviceType);
+}
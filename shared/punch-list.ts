@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// Punch list of the final walkthrough. While a project is in review the
+// supervisor records defects with a photo and who has to fix them; an item is
+// closed with a photo of the fix, or waived by the client when they sign off
+// the walkthrough. A project cannot be completed with items still open.
+
+export const PUNCH_ITEM_STATUSES = ["open", "closed", "waived"] as const;
+
+export type PunchItemStatus = typeof PUNCH_ITEM_STATUSES[number];
+
+export const PUNCH_ITEM_STATUS_LABELS: Record<PunchItemStatus, string> = {
+  open: "Open",
+  closed: "Closed",
+  waived: "Waived by client",
+};
+
+// Photos are kept as data URLs, like signatures
+export const punchPhotoSchema = z.string().startsWith("data:image/", "A photo is required");
+
+export function openPunchItems<T extends { status: string }>(items: T[]) {
+  return items.filter((item) => item.status === "open");
+}
@@ -1,7 +1,41 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, real, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, real, decimal, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { normalizeTags, segmentRulesSchema, type SegmentRules } from "./client-segments";
+import { attributionSchema, type Attribution } from "./attribution";
+import { checklistItemSchema, TASK_ASSIGNEE_TYPES, type ChecklistItem } from "./project-tasks";
+import { changeOrderItemSchema, type ChangeOrderItem } from "./change-orders";
+import { punchPhotoSchema } from "./punch-list";
+
+// Company schema. Each business entity (LLC) on this install is a company;
+// every business table below carries the company it belongs to.
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  address: text("address"),
+  city: text("city"),
+  state: text("state"),
+  zip: text("zip"),
+  phone: text("phone"),
+  email: text("email"),
+  website: text("website"),
+  invoicePrefix: text("invoice_prefix").notNull().default("INV"),
+  nextInvoiceNumber: integer("next_invoice_number").notNull().default(1),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCompanySchema = createInsertSchema(companies).pick({
+  name: true,
+  address: true,
+  city: true,
+  state: true,
+  zip: true,
+  phone: true,
+  email: true,
+  website: true,
+  invoicePrefix: true,
+});
 
 // User schema
 export const users = pgTable("users", {
@@ -9,7 +43,15 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
-  role: text("role").notNull().default("user"),
+  role: text("role").notNull().default("crew"), // owner, office_manager, estimator, crew_lead, crew, bookkeeper (see permissions.ts)
+  email: text("email"),
+  active: boolean("active").notNull().default(true), // inactive users cannot log in
+  // TOTP two-factor authentication
+  totpSecret: text("totp_secret"), // base32, set during enrollment
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpBackupCodes: jsonb("totp_backup_codes"), // SHA-256 hashes of unused backup codes
+  totpLastUsedStep: integer("totp_last_used_step"), // prevents reusing a code
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -17,17 +59,171 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   name: true,
   role: true,
+  email: true,
+  active: true,
+});
+
+// Which companies a user can work in, and their role in each
+export const companyUsers = pgTable("company_users", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("crew"), // see permissions.ts
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("company_users_company_user_unique").on(table.companyId, table.userId),
+]);
+
+export const insertCompanyUserSchema = createInsertSchema(companyUsers).pick({
+  companyId: true,
+  userId: true,
+  role: true,
+});
+
+// An existing account asked to join another company. The membership is only
+// created when the invited user accepts; declined or accepted rows are deleted.
+export const companyInvitations = pgTable("company_invitations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // see permissions.ts
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("company_invitations_company_user_unique").on(table.companyId, table.userId),
+]);
+
+export const insertCompanyInvitationSchema = createInsertSchema(companyInvitations).pick({
+  companyId: true,
+  userId: true,
+  role: true,
+  invitedBy: true,
+});
+
+// Password reset tokens. Only a SHA-256 hash of the emailed token is stored.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).pick({
+  userId: true,
+  tokenHash: true,
+  expiresAt: true,
+  requestedIp: true,
+});
+
+// Personal API tokens for scripts and integrations. Only a SHA-256 hash of the
+// token is stored; the prefix is kept so users can tell their tokens apart.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  readOnly: boolean("read_only").notNull().default(false),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  name: true,
+  tokenPrefix: true,
+  tokenHash: true,
+  readOnly: true,
+  expiresAt: true,
+});
+
+// Requests refused by login lockouts, lead rate limits or the contact-form spam checks
+export const blockedAttempts = pgTable("blocked_attempts", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // login, lead, portal, password_reset
+  reason: text("reason").notNull(), // ip_locked, username_locked, rate_limited, honeypot, too_fast
+  ip: text("ip"),
+  identifier: text("identifier"), // username for logins, email for leads and portal links, username or email for password resets
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertBlockedAttemptSchema = createInsertSchema(blockedAttempts).pick({
+  kind: true,
+  reason: true,
+  ip: true,
+  identifier: true,
+  userAgent: true,
+});
+
+// Audit log: one row per create/update/delete made through DatabaseStorage
+export const AUDIT_ENTITY_TYPES = [
+  "user",
+  "client",
+  "project",
+  "quote",
+  "service_order",
+  "staff",
+  "subcontractor",
+  "invoice",
+  "supplier",
+  "payment",
+  "purchase_order",
+  "purchase_order_item",
+  "setting",
+  "lead",
+  "company",
+  "client_contact",
+  "client_property",
+  "communication",
+  "client_segment",
+  "estimate_visit",
+  "project_task",
+  "change_order",
+  "punch_list_item",
+] as const;
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "merge"] as const;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  entityType: text("entity_type").notNull(), // one of AUDIT_ENTITY_TYPES
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete, merge
+  userId: integer("user_id"), // null for public endpoints and system changes
+  changes: jsonb("changes").notNull(), // { field: { from, to } }
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
+  entityType: true,
+  entityId: true,
+  action: true,
+  userId: true,
+  changes: true,
+  ip: true,
 });
 
 // Client schema
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   name: text("name").notNull(),
   email: text("email").notNull(),
   phone: text("phone").notNull(),
   address: text("address").notNull(),
   classification: text("classification").notNull().default("residential"), // residential, commercial, industrial
   type: text("type").notNull().default("prospect"), // prospect, client
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // free-form: HOA, VIP, do not service...
+  marketingSource: text("marketing_source"), // from the lead it was converted from, or entered by hand
+  attribution: jsonb("attribution").$type<Attribution>(), // UTM parameters and referrer of that lead
   createdAt: timestamp("created_at").notNull().defaultNow(),
   notes: text("notes"),
 });
@@ -39,26 +235,138 @@ export const insertClientSchema = createInsertSchema(clients).pick({
   address: true,
   classification: true,
   type: true,
+  tags: true,
+  marketingSource: true,
+  attribution: true,
+  notes: true,
+}).extend({
+  tags: z.array(z.string()).transform(normalizeTags).optional(),
+  attribution: attributionSchema.nullable().optional(),
+});
+
+// Saved client filters, used on the clients page and as campaign audiences
+export const clientSegments = pgTable("client_segments", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  rules: jsonb("rules").$type<SegmentRules>().notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertClientSegmentSchema = createInsertSchema(clientSegments).pick({
+  name: true,
+  description: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  rules: segmentRulesSchema,
+});
+
+// People to deal with at a client: billing, site supervisor, owner...
+export const CLIENT_CONTACT_ROLES = [
+  "billing",
+  "site_supervisor",
+  "owner",
+  "property_manager",
+  "other",
+] as const;
+
+export const clientContacts = pgTable("client_contacts", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  role: text("role").notNull().default("other"), // one of CLIENT_CONTACT_ROLES
+  email: text("email"),
+  phone: text("phone"),
+  isPrimary: boolean("is_primary").notNull().default(false), // mirrored in clients.email and clients.phone
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertClientContactSchema = createInsertSchema(clientContacts).pick({
+  clientId: true,
+  name: true,
+  role: true,
+  email: true,
+  phone: true,
+  isPrimary: true,
+  notes: true,
+}).extend({
+  role: z.enum(CLIENT_CONTACT_ROLES).default("other"),
+  email: z.string().email().nullable().optional(),
+});
+
+// Service addresses of a client; projects take place at one of them
+export const clientProperties = pgTable("client_properties", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  name: text("name"), // e.g. "Main office", "Unit 4B"
+  address: text("address").notNull(),
+  isPrimary: boolean("is_primary").notNull().default(false), // mirrored in clients.address
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertClientPropertySchema = createInsertSchema(clientProperties).pick({
+  clientId: true,
+  name: true,
+  address: true,
+  isPrimary: true,
   notes: true,
 });
 
+// Magic links for the client portal. Like password reset links they are
+// single-use and only their hash is stored.
+export const portalTokens = pgTable("portal_tokens", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // where the link was sent
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPortalTokenSchema = createInsertSchema(portalTokens).pick({
+  clientId: true,
+  email: true,
+  tokenHash: true,
+  expiresAt: true,
+  requestedIp: true,
+});
+
 // Project schema
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   clientId: integer("client_id").notNull(),
+  propertyId: integer("property_id").references(() => clientProperties.id, { onDelete: "set null" }),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  address: text("address").notNull(),
+  address: text("address").notNull(), // copied from the property when there is one
   serviceType: text("service_type").notNull(),
   projectType: text("project_type").notNull().default("residential"), // residential, commercial
   status: text("status").notNull().default("pending"), // pending, quoted, approved, preparing, in_progress, reviewing, completed, archived
   priority: text("priority").notNull().default("medium"), // low, medium, high
-  progress: integer("progress").default(0),
+  progress: integer("progress").default(0), // share of tasks done, see shared/project-tasks.ts
   startDate: timestamp("start_date"),
   dueDate: timestamp("due_date"),
   completedDate: timestamp("completed_date"),
   totalCost: integer("total_cost"),
+  changeOrdersTotal: decimal("change_orders_total", { precision: 10, scale: 2 }).notNull().default("0"), // sum of approved change orders
   assignedStaff: jsonb("assigned_staff"),
+  safetyRequirements: jsonb("safety_requirements").$type<string[]>(), // seeded from the project template
+  materials: jsonb("materials").$type<string[]>(), // seeded from the project template
+  marketingSource: text("marketing_source"), // taken from the client when the project is created
+  // Client sign-off of the final walkthrough, see shared/punch-list.ts
+  walkthroughSignedBy: text("walkthrough_signed_by"),
+  walkthroughSignature: text("walkthrough_signature"), // PNG data URL
+  walkthroughSignedAt: timestamp("walkthrough_signed_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   images: jsonb("images"),
   documents: jsonb("documents"),
@@ -67,6 +375,7 @@ export const projects = pgTable("projects", {
 // Esquema base para proyectos
 const baseProjectSchema = createInsertSchema(projects).pick({
   clientId: true,
+  propertyId: true,
   title: true,
   description: true,
   address: true,
@@ -74,15 +383,17 @@ const baseProjectSchema = createInsertSchema(projects).pick({
   projectType: true,
   status: true,
   priority: true,
-  progress: true,
   totalCost: true,
   assignedStaff: true,
+  marketingSource: true,
   images: true,
   documents: true,
 });
 
 // Añadir validación personalizada para fechas
 export const insertProjectSchema = baseProjectSchema.extend({
+  safetyRequirements: z.array(z.string().trim().min(1)).nullable().optional(),
+  materials: z.array(z.string().trim().min(1)).nullable().optional(),
   startDate: z.union([
     z.date(),
     z.string().refine((val) => !isNaN(Date.parse(val)), {
@@ -104,6 +415,7 @@ export const insertProjectSchema = baseProjectSchema.extend({
 // Quote schema
 export const quotes = pgTable("quotes", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   projectId: integer("project_id").notNull(),
   materialsEstimate: jsonb("materials_estimate"),
   laborEstimate: jsonb("labor_estimate"),
@@ -126,6 +438,11 @@ export const quotes = pgTable("quotes", {
   validUntil: timestamp("valid_until"),
   approvedDate: timestamp("approved_date"),
   rejectedDate: timestamp("rejected_date"),
+  // E-signature given by the client in the portal when approving the quote
+  signedBy: text("signed_by"),
+  signatureData: text("signature_data"), // PNG data URL
+  signedAt: timestamp("signed_at"),
+  signedIp: text("signed_ip"),
   notes: text("notes"),
   images: jsonb("images"), // Inherited from project
   documents: jsonb("documents"), // Inherited from project
@@ -174,6 +491,7 @@ export const insertQuoteSchema = baseQuoteSchema.extend({
 // Subcontractor schema
 export const subcontractors = pgTable("subcontractors", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   name: text("name").notNull(),
   company: text("company"),
   specialty: text("specialty").notNull(),
@@ -207,6 +525,7 @@ export const insertSubcontractorSchema = createInsertSchema(subcontractors).pick
 // Service Order schema - actualizado con campos adicionales
 export const serviceOrders = pgTable("service_orders", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   projectId: integer("project_id").notNull(),
   quoteId: integer("quote_id"), // Referencia a la cotización que generó esta orden
   details: text("details").notNull(),
@@ -296,6 +615,7 @@ export const insertServiceOrderSchema = baseServiceOrderSchema.extend({
 // Staff schema
 export const staff = pgTable("staff", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   name: text("name").notNull(),
   role: text("role").notNull(),
   email: text("email"),
@@ -319,6 +639,7 @@ export const insertStaffSchema = createInsertSchema(staff).pick({
 // Activity schema
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   type: text("type").notNull(), // project_update, client_added, quote_sent, etc.
   description: text("description").notNull(),
   userId: integer("user_id"),
@@ -335,34 +656,91 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   clientId: true,
 });
 
+// Calls, emails, texts and site visits with clients and leads
+export const COMMUNICATION_CHANNELS = ["call", "email", "text", "site_visit"] as const;
+export const COMMUNICATION_DIRECTIONS = ["inbound", "outbound"] as const;
+
+export const communications = pgTable("communications", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  // Linked to a client or a lead, and optionally a project or quote of the client
+  clientId: integer("client_id").references(() => clients.id, { onDelete: "cascade" }),
+  leadId: integer("lead_id").references(() => leads.id, { onDelete: "cascade" }),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "set null" }),
+  direction: text("direction").notNull(), // one of COMMUNICATION_DIRECTIONS
+  channel: text("channel").notNull(), // one of COMMUNICATION_CHANNELS
+  summary: text("summary").notNull(),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  followUpDate: timestamp("follow_up_date"),
+  followUpDoneAt: timestamp("follow_up_done_at"),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // author
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCommunicationSchema = createInsertSchema(communications).pick({
+  clientId: true,
+  leadId: true,
+  projectId: true,
+  quoteId: true,
+  direction: true,
+  channel: true,
+  summary: true,
+  occurredAt: true,
+  followUpDate: true,
+}).extend({
+  direction: z.enum(COMMUNICATION_DIRECTIONS),
+  channel: z.enum(COMMUNICATION_CHANNELS),
+  summary: z.string().trim().min(1, "Summary is required"),
+  occurredAt: z.coerce.date().optional(),
+  followUpDate: z.coerce.date().nullable().optional(),
+});
+
 // Invoice schema
+// One line of an invoice's `items`
+export type InvoiceItem = {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  discount?: number;
+  changeOrderId?: number; // set on lines that bill an approved change order
+};
+
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   projectId: integer("project_id").notNull(),
   clientId: integer("client_id").notNull(),
   quoteId: integer("quote_id"), // Reference to the quote this invoice was created from
-  invoiceNumber: text("invoice_number").notNull().unique(),
+  billingContactId: integer("billing_contact_id").references(() => clientContacts.id, { onDelete: "set null" }), // Who the invoice is sent to
+  invoiceNumber: text("invoice_number").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("draft"), // draft, sent, paid, overdue, cancelled
-  items: jsonb("items").notNull(), // Array of items with descriptions and amounts
+  items: jsonb("items").notNull(), // InvoiceItem[]
   issueDate: timestamp("issue_date"),
   dueDate: timestamp("due_date"),
   paidDate: timestamp("paid_date"),
   paymentMethod: text("payment_method"), // cash, check, credit_card, bank_transfer, stripe
   transactionId: text("transaction_id"), // For electronic payments
   notes: text("notes"),
+  marketingSource: text("marketing_source"), // taken from the project, or the client, when the invoice is created
   createdAt: timestamp("created_at").notNull().defaultNow(),
   stripePaymentIntentId: text("stripe_payment_intent_id"), // For Stripe integration
   stripeInvoiceId: text("stripe_invoice_id"), // For Stripe integration
-});
+}, (table) => [
+  // Each company numbers its own invoices
+  unique("invoices_company_invoice_number_unique").on(table.companyId, table.invoiceNumber),
+]);
 
 // Esquema base para facturas
 const baseInvoiceSchema = createInsertSchema(invoices).pick({
   projectId: true,
   clientId: true,
   quoteId: true,
+  billingContactId: true,
   invoiceNumber: true,
   amount: true,
   tax: true,
@@ -372,6 +750,7 @@ const baseInvoiceSchema = createInsertSchema(invoices).pick({
   paymentMethod: true,
   transactionId: true,
   notes: true,
+  marketingSource: true,
   stripePaymentIntentId: true,
   stripeInvoiceId: true,
 });
@@ -460,9 +839,45 @@ export const invoicesRelations = relations(invoices, ({ one }) => ({
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserTwoFactor = Pick<User, "totpSecret" | "totpEnabled" | "totpBackupCodes" | "totpLastUsedStep">;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type CompanyUser = typeof companyUsers.$inferSelect;
+export type InsertCompanyUser = z.infer<typeof insertCompanyUserSchema>;
+// A company as listed for a user, with their role in it
+export type CompanyMembership = Company & { role: string };
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
+export type InsertCompanyInvitation = z.infer<typeof insertCompanyInvitationSchema>;
+// An invitation as listed for the invited user or the company's admins
+export type CompanyInvitationEntry = CompanyInvitation & { companyName: string; userName: string };
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+// Audit rows as returned by the API, with the actor's name joined in
+export type AuditLogEntry = AuditLog & { userName: string | null };
+
+export type BlockedAttempt = typeof blockedAttempts.$inferSelect;
+export type InsertBlockedAttempt = z.infer<typeof insertBlockedAttemptSchema>;
 
 export type Client = typeof clients.$inferSelect;
 export type InsertClient = z.infer<typeof insertClientSchema>;
+export type ClientContact = typeof clientContacts.$inferSelect;
+export type InsertClientContact = z.infer<typeof insertClientContactSchema>;
+export type ClientProperty = typeof clientProperties.$inferSelect;
+export type InsertClientProperty = z.infer<typeof insertClientPropertySchema>;
+export type ClientSegment = typeof clientSegments.$inferSelect;
+export type InsertClientSegment = z.infer<typeof insertClientSegmentSchema>;
+export type PortalToken = typeof portalTokens.$inferSelect;
+export type InsertPortalToken = z.infer<typeof insertPortalTokenSchema>;
 
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
@@ -482,12 +897,20 @@ export type InsertStaff = z.infer<typeof insertStaffSchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 
+export type CommunicationChannel = typeof COMMUNICATION_CHANNELS[number];
+export type CommunicationDirection = typeof COMMUNICATION_DIRECTIONS[number];
+export type Communication = typeof communications.$inferSelect;
+export type InsertCommunication = z.infer<typeof insertCommunicationSchema>;
+// As listed in timelines and the follow-ups widget
+export type CommunicationEntry = Communication & { userName: string | null; clientName: string | null; leadName: string | null };
+
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
 // Suppliers schema
 export const suppliers = pgTable("suppliers", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   name: text("name").notNull(),
   company: text("company").notNull(),
   contactPerson: text("contact_person"),
@@ -521,6 +944,7 @@ export const insertSupplierSchema = createInsertSchema(suppliers).pick({
 // Payment schema
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   date: timestamp("date").notNull().defaultNow(),
   description: text("description"),
@@ -535,7 +959,7 @@ export const payments = pgTable("payments", {
   serviceOrderId: integer("service_order_id").references(() => serviceOrders.id),
   invoiceId: integer("invoice_id").references(() => invoices.id),
   purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id),
-  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id), // null for online payments from the client portal
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -643,6 +1067,7 @@ export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 // Purchase Order schema
 export const purchaseOrders = pgTable('purchase_orders', {
   id: serial('id').primaryKey(),
+  companyId: integer('company_id').references(() => companies.id),
   supplierId: integer('supplier_id').notNull().references(() => suppliers.id),
   orderNumber: text('order_number').notNull(),
   issueDate: timestamp('issue_date').notNull().defaultNow(),
@@ -814,14 +1239,18 @@ export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSche
 // Settings schema
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
-  key: varchar("key", { length: 255 }).notNull().unique(),
+  companyId: integer("company_id").references(() => companies.id),
+  key: varchar("key", { length: 255 }).notNull(),
   value: jsonb("value"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("settings_company_key_unique").on(table.companyId, table.key),
+]);
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({
   id: true,
+  companyId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -832,12 +1261,26 @@ export type InsertSetting = z.infer<typeof insertSettingsSchema>;
 // Leads schema (contact form submissions from landing page)
 export const leads = pgTable("leads", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   name: text("name").notNull(),
   email: text("email").notNull(),
   phone: text("phone").notNull(),
   service: text("service"),
   message: text("message"),
-  status: text("status").notNull().default("new"), // new, contacted, converted, archived
+  zipCode: text("zip_code"),
+  status: text("status").notNull().default("new"), // a stage key of the company's lead pipeline
+  ownerId: integer("owner_id").references(() => users.id, { onDelete: "set null" }), // estimator assigned to the lead
+  lostReason: text("lost_reason"),
+  score: integer("score").notNull().default(0), // see scoreLead
+  contactedAt: timestamp("contacted_at"), // first contact, for the response-time SLA
+  stageChangedAt: timestamp("stage_changed_at").defaultNow(),
+  attribution: jsonb("attribution").$type<Attribution>(), // UTM parameters, referrer and "how did you hear about us"
+  marketingSource: text("marketing_source"), // derived from the attribution, see marketingSourceFor
+  clientId: integer("client_id").references(() => clients.id, { onDelete: "set null" }), // set once converted
+  // What conversion created for the lead, for reporting
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  estimateVisitId: integer("estimate_visit_id").references(() => estimateVisits.id, { onDelete: "set null" }),
+  convertedAt: timestamp("converted_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   notes: text("notes"),
 });
@@ -848,16 +1291,203 @@ export const insertLeadSchema = createInsertSchema(leads).pick({
   phone: true,
   service: true,
   message: true,
+  zipCode: true,
   status: true,
+  ownerId: true,
+  lostReason: true,
+  attribution: true,
+  clientId: true,
   notes: true,
+}).extend({
+  attribution: attributionSchema.nullable().optional(),
 });
 
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 
+// Turning a lead into a client, a pending project and optionally an estimate
+// visit. Without `clientId` a new client is created from the lead.
+export const leadConversionSchema = z.object({
+  clientId: z.number().int().positive().nullable().optional(), // existing client to link the lead to
+  createNew: z.boolean().optional(), // create the client even though similar ones exist
+  address: z.string().trim().min(1, "Address is required"),
+  classification: z.enum(["residential", "commercial", "industrial"]).default("residential"),
+  project: z.object({
+    title: z.string().trim().min(1, "Project title is required"),
+    description: z.string().trim().min(1, "Project description is required"),
+    serviceType: z.string().trim().min(1, "Service type is required"),
+    projectType: z.enum(["residential", "commercial"]).default("residential"),
+    priority: z.enum(["low", "medium", "high"]).default("medium"),
+  }),
+  visit: z.object({
+    scheduledAt: z.coerce.date(),
+    durationMinutes: z.number().int().min(15).max(480).default(60),
+    assignedUserId: z.number().int().positive().nullable().optional(),
+    notes: z.string().trim().nullable().optional(),
+  }).nullable().optional(),
+});
+
+export type LeadConversionRequest = z.infer<typeof leadConversionSchema>;
+
+// Estimate visits booked on the calendar, usually when a lead is converted
+export const estimateVisits = pgTable("estimate_visits", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  scheduledAt: timestamp("scheduled_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  assignedUserId: integer("assigned_user_id").references(() => users.id, { onDelete: "set null" }), // estimator
+  address: text("address").notNull(),
+  notes: text("notes"),
+  status: text("status").notNull().default("scheduled"), // scheduled, completed, cancelled
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertEstimateVisitSchema = createInsertSchema(estimateVisits).pick({
+  projectId: true,
+  clientId: true,
+  durationMinutes: true,
+  assignedUserId: true,
+  address: true,
+  notes: true,
+  status: true,
+}).extend({
+  scheduledAt: z.coerce.date(),
+});
+
+export type EstimateVisit = typeof estimateVisits.$inferSelect;
+export type InsertEstimateVisit = z.infer<typeof insertEstimateVisitSchema>;
+
+// Tasks of a project, in the order they are done
+export const projectTasks = pgTable("project_tasks", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  title: text("title").notNull(),
+  description: text("description"),
+  checklist: jsonb("checklist").$type<ChecklistItem[]>().notNull().default([]),
+  assigneeType: text("assignee_type"), // one of TASK_ASSIGNEE_TYPES
+  assigneeId: integer("assignee_id"), // staff or subcontractors id, depending on assigneeType
+  dueDate: timestamp("due_date"),
+  completedAt: timestamp("completed_at"),
+  completedBy: integer("completed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProjectTaskSchema = createInsertSchema(projectTasks).pick({
+  projectId: true,
+  title: true,
+  description: true,
+  assigneeId: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  checklist: z.array(checklistItemSchema).max(50).default([]),
+  assigneeType: z.enum(TASK_ASSIGNEE_TYPES).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+});
+
+export type ProjectTask = typeof projectTasks.$inferSelect;
+export type InsertProjectTask = z.infer<typeof insertProjectTaskSchema>;
+
+// Changes to a project's scope after its quote, see shared/change-orders.ts
+export const changeOrders = pgTable("change_orders", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "set null" }),
+  number: integer("number").notNull(), // counts up per project
+  title: text("title").notNull(),
+  reason: text("reason").notNull(),
+  addedItems: jsonb("added_items").$type<ChangeOrderItem[]>().notNull().default([]),
+  removedItems: jsonb("removed_items").$type<ChangeOrderItem[]>().notNull().default([]),
+  priceDelta: decimal("price_delta", { precision: 10, scale: 2 }).notNull(), // added minus removed
+  status: text("status").notNull().default("pending"), // one of CHANGE_ORDER_STATUSES
+  // Client signature given when approving
+  signedBy: text("signed_by"),
+  signatureData: text("signature_data"), // PNG data URL
+  signedAt: timestamp("signed_at"),
+  rejectedAt: timestamp("rejected_at"),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }), // invoice it was billed on
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("change_orders_project_number_unique").on(table.projectId, table.number),
+]);
+
+export const insertChangeOrderSchema = createInsertSchema(changeOrders).pick({
+  projectId: true,
+  title: true,
+  reason: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  reason: z.string().trim().min(1, "Reason is required"),
+  addedItems: z.array(changeOrderItemSchema).max(50).default([]),
+  removedItems: z.array(changeOrderItemSchema).max(50).default([]),
+});
+
+export const changeOrderApprovalSchema = z.object({
+  signedBy: z.string().trim().min(1, "Name of the person signing is required"),
+  signatureData: z.string().startsWith("data:image/", "Signature is required"),
+});
+
+export type ChangeOrder = typeof changeOrders.$inferSelect;
+export type InsertChangeOrder = z.infer<typeof insertChangeOrderSchema>;
+export type ChangeOrderApproval = z.infer<typeof changeOrderApprovalSchema>;
+
+// Defects found in the final walkthrough, see shared/punch-list.ts
+export const punchListItems = pgTable("punch_list_items", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  location: text("location").notNull(), // e.g. "Master bedroom, north wall"
+  description: text("description").notNull(),
+  photo: text("photo"), // data URL
+  responsibleType: text("responsible_type"), // one of TASK_ASSIGNEE_TYPES
+  responsibleId: integer("responsible_id"), // staff or subcontractors id, depending on responsibleType
+  status: text("status").notNull().default("open"), // one of PUNCH_ITEM_STATUSES
+  resolutionPhoto: text("resolution_photo"), // data URL of the fix
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  waivedBy: text("waived_by"), // client who accepted the item as is when signing off
+  waivedAt: timestamp("waived_at"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPunchListItemSchema = createInsertSchema(punchListItems).pick({
+  projectId: true,
+  location: true,
+  description: true,
+  responsibleId: true,
+}).extend({
+  location: z.string().trim().min(1, "Location is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  photo: punchPhotoSchema.nullable().optional(),
+  responsibleType: z.enum(TASK_ASSIGNEE_TYPES).nullable().optional(),
+});
+
+export const punchItemResolutionSchema = z.object({
+  resolutionPhoto: punchPhotoSchema,
+});
+
+export const punchListSignOffSchema = z.object({
+  signedBy: z.string().trim().min(1, "Name of the person signing is required"),
+  signatureData: z.string().startsWith("data:image/", "Signature is required"),
+  // Open items the client accepts as is; every other item must be closed first
+  waivedItemIds: z.array(z.number().int()).default([]),
+});
+
+export type PunchListItem = typeof punchListItems.$inferSelect;
+export type InsertPunchListItem = z.infer<typeof insertPunchListItemSchema>;
+export type PunchListSignOff = z.infer<typeof punchListSignOffSchema>;
+
 // Session schema (para manejar las sesiones de connect-pg-simple)
 export const session = pgTable("session", {
   sid: varchar("sid").primaryKey(),
   sess: jsonb("sess").notNull(),
   expire: timestamp("expire").notNull(),
 });
+
+export type UserSession = typeof session.$inferSelect;